@@ -6,6 +6,9 @@ import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import Home from "./pages/Home";
 import Inventory from "./pages/Inventory";
+import VehicleDetail from "./pages/VehicleDetail";
+import SavedSearches from "./pages/SavedSearches";
+import SavedSearchUnsubscribe from "./pages/SavedSearchUnsubscribe";
 import Services from "./pages/Services";
 import Financing from "./pages/Financing";
 import Incentives from "./pages/Incentives";
@@ -25,18 +28,21 @@ import DealerBodiesList from "./pages/dealer/BodiesList";
 import BodyForm from "./pages/dealer/BodyForm";
 import DealerInfrastructureList from "./pages/dealer/InfrastructureList";
 import InfrastructureForm from "./pages/dealer/InfrastructureForm";
+import DealerLeads from "./pages/dealer/Leads";
 import DealerAnalytics from "./pages/dealer/Analytics";
 import DealerSettings from "./pages/dealer/Settings";
 import BulkOperations from "./pages/dealer/BulkOperations";
 import CreateListing from "./pages/dealer/CreateListing";
 import ListingDetail from "./pages/dealer/ListingDetail";
 import EditListing from "./pages/dealer/EditListing";
+import RecycleBin from "./pages/dealer/RecycleBin";
 import DataQualityDashboard from "./pages/admin/DataQualityDashboard";
 import Signup from "./pages/Signup";
 import Login from "./pages/Login";
 import SetupOrganization from "./pages/SetupOrganization";
 import VerifyEmail from "./pages/VerifyEmail";
 import AuthVerify from "./pages/AuthVerify";
+import AcceptInvitation from "./pages/AcceptInvitation";
 
 function Router() {
   return (
@@ -46,6 +52,7 @@ function Router() {
       <Route path="/login" component={Login} />
       <Route path="/verify-email" component={VerifyEmail} />
       <Route path="/auth/verify" component={AuthVerify} />
+      <Route path="/invite" component={AcceptInvitation} />
       <Route path="/setup-organization" component={SetupOrganization} />
       <Route path="/onboarding/organization" component={SetupOrganization} />
        <Route path="/profile" component={Profile} />
@@ -60,11 +67,16 @@ function Router() {
       <Route path="/dealer/infrastructure" component={DealerInfrastructureList} />
       <Route path="/dealer/infrastructure/new" component={InfrastructureForm} />
       <Route path="/dealer/infrastructure/:id" component={InfrastructureForm} />
+      <Route path="/dealer/leads" component={DealerLeads} />
       <Route path="/dealer/analytics" component={DealerAnalytics} />
       <Route path="/dealer/bulk" component={BulkOperations} />
+      <Route path="/dealer/recycle-bin" component={RecycleBin} />
       <Route path="/dealer/settings" component={DealerSettings} />
       <Route path="/admin/data-quality" component={DataQualityDashboard} />
       <Route path={"/inventory"} component={Inventory} />
+      <Route path="/vehicle/:id" component={VehicleDetail} />
+      <Route path="/saved-searches/unsubscribe" component={SavedSearchUnsubscribe} />
+      <Route path="/saved-searches" component={SavedSearches} />
       <Route path="/services" component={Services} />
       <Route path="/financing" component={Financing} />
       <Route path="/incentives" component={Incentives} />
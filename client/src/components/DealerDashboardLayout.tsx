@@ -8,9 +8,11 @@ import {
   Car,
   Package,
   Zap,
+  Inbox,
   BarChart3,
   Upload,
   Settings,
+  Trash2,
   LogOut,
   Menu,
   X,
@@ -28,8 +30,10 @@ const navigation = [
   { name: "Vehicles", href: "/dealer/vehicles", icon: Car },
   { name: "Bodies & Equipment", href: "/dealer/bodies", icon: Package },
   { name: "Infrastructure", href: "/dealer/infrastructure", icon: Zap },
+  { name: "Leads", href: "/dealer/leads", icon: Inbox },
   { name: "Analytics", href: "/dealer/analytics", icon: BarChart3 },
   { name: "Bulk Operations", href: "/dealer/bulk", icon: Upload },
+  { name: "Recycle Bin", href: "/dealer/recycle-bin", icon: Trash2 },
   { name: "Settings", href: "/dealer/settings", icon: Settings },
 ];
 
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
-import { Menu, X, User, LogOut, LayoutDashboard, Settings } from "lucide-react";
+import { Menu, X, User, LogOut, LayoutDashboard, Settings, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -11,6 +11,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import NotificationBell from "@/components/NotificationBell";
 import { APP_LOGO } from "@/const";
 import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { getSupabaseClient } from "@/lib/supabase";
@@ -134,6 +135,7 @@ export default function Navigation() {
           <div className="hidden md:flex items-center space-x-4">
             {isAuthenticated ? (
               <>
+                <NotificationBell />
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button
@@ -175,6 +177,10 @@ export default function Navigation() {
                       <User className="mr-2 h-4 w-4" />
                       <span>View Profile</span>
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setLocation("/saved-searches")} className="cursor-pointer">
+                      <Search className="mr-2 h-4 w-4" />
+                      <span>Saved Searches</span>
+                    </DropdownMenuItem>
                     {profile?.organization_type === "dealer" && (
                       <DropdownMenuItem onClick={() => setLocation("/dealer")} className="cursor-pointer">
                         <LayoutDashboard className="mr-2 h-4 w-4" />
@@ -0,0 +1,104 @@
+import { useLocation } from "wouter";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { trpc } from "@/lib/trpc";
+
+// Saved-search alerts arrive from a background job, so poll for new ones
+const POLL_INTERVAL_MS = 60_000;
+
+/**
+ * In-app notification inbox shown in the navigation bar for signed-in users
+ */
+export default function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+
+  const { data } = trpc.notifications.list.useQuery(
+    { limit: 20 },
+    { refetchInterval: POLL_INTERVAL_MS, refetchOnWindowFocus: true, retry: false }
+  );
+
+  const markRead = trpc.notifications.markRead.useMutation({
+    onSuccess: () => utils.notifications.list.invalidate(),
+  });
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const openNotification = (notification: (typeof notifications)[number]) => {
+    if (!notification.readAt) {
+      markRead.mutate({ ids: [notification.id] });
+    }
+    if (notification.link) {
+      setLocation(notification.link);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              className="text-xs font-normal text-primary hover:underline"
+              onClick={(e) => {
+                e.preventDefault();
+                markRead.mutate({});
+              }}
+            >
+              Mark all read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="cursor-pointer flex flex-col items-start gap-0.5 py-2"
+                onClick={() => openNotification(notification)}
+              >
+                <span className={notification.readAt ? "text-sm" : "text-sm font-semibold"}>
+                  {notification.title}
+                </span>
+                {notification.body && (
+                  <span className="text-xs text-muted-foreground line-clamp-2">{notification.body}</span>
+                )}
+                <span className="text-[11px] text-muted-foreground">
+                  {new Date(notification.createdAt).toLocaleString()}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem className="cursor-pointer justify-center text-sm" onClick={() => setLocation("/saved-searches")}>
+          Manage saved searches
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -9,6 +9,7 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { AlertCircle } from 'lucide-react';
 import { toast } from 'sonner';
 import { getSupabaseClient } from '@/lib/supabase';
+import { getPostLoginRedirect } from '@/lib/utils';
 
 export function LoginForm() {
   const [email, setEmail] = useState('');
@@ -119,12 +120,12 @@ export function LoginForm() {
       // Note: Organization check will be handled by ProtectedRoute
       // If user is a dealer without organization, they'll be redirected there
       
-      // Session is established and verified - redirect to profile page
+      // Session is established and verified - redirect to profile page (or the requested page)
       // Use full page reload to ensure session is properly picked up
       console.log('[LoginForm] Session verified, redirecting to profile page');
       // Give a small delay to ensure localStorage is written
       await new Promise(resolve => setTimeout(resolve, 100));
-      window.location.href = '/profile';
+      window.location.href = getPostLoginRedirect();
     } catch (err: any) {
       console.error('[LoginForm] Login failed:', err);
       
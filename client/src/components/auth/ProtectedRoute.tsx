@@ -4,10 +4,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { AlertCircle, Loader2 } from 'lucide-react';
 import { trpc } from '@/lib/trpc';
+import { ORG_ROLE_RANK, type OrgRole } from '@shared/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requireRole?: 'owner' | 'admin' | 'member' | 'viewer';
+  requireRole?: OrgRole;
   requireDealer?: boolean;
   requireProfile?: boolean;
 }
@@ -161,8 +162,7 @@ export function ProtectedRoute({
 
   // Check role requirement
   if (requireRole && profile) {
-    const roleHierarchy = { owner: 4, admin: 3, member: 2, viewer: 1 };
-    if (roleHierarchy[profile.role] < roleHierarchy[requireRole]) {
+    if (ORG_ROLE_RANK[profile.role] < ORG_ROLE_RANK[requireRole]) {
       return (
         <div className="flex items-center justify-center min-h-screen">
           <Card className="max-w-md">
@@ -0,0 +1,300 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/lib/trpc";
+import type { CompleteProfile } from "@/types/profile";
+import { LISTING_STATUS_LABELS, LISTING_STATUSES, type ListingStatus } from "@shared/listing-lifecycle";
+import { Loader2 } from "lucide-react";
+
+type BulkActionType = "status" | "price" | "flags" | "location" | "archive";
+type FlagChoice = "unchanged" | "on" | "off";
+
+const ACTION_LABELS: Record<BulkActionType, string> = {
+  status: "Change status",
+  price: "Adjust price",
+  flags: "Set flags",
+  location: "Move to location",
+  archive: "Archive",
+};
+
+const FLAGS = [
+  { key: "isFeatured", label: "Featured" },
+  { key: "isHotDeal", label: "Hot Deal" },
+  { key: "isClearance", label: "Clearance" },
+] as const;
+
+type FlagKey = (typeof FLAGS)[number]["key"];
+
+// Sold needs a sale price and buyer per unit, so it stays on Mark as Sold
+const BULK_STATUSES = LISTING_STATUSES.filter((status) => status !== "sold");
+
+const flagValue = (choice: FlagChoice) => (choice === "unchanged" ? undefined : choice === "on");
+
+/**
+ * Apply one change to every selected listing, reporting any that could not be updated
+ */
+export default function BulkEditDialog({
+  open,
+  onOpenChange,
+  listings,
+  onUpdated,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listings: Array<{ id: number; title: string }>;
+  onUpdated?: () => void;
+}) {
+  const [actionType, setActionType] = useState<BulkActionType>("status");
+  const [status, setStatus] = useState<ListingStatus>("available");
+  const [priceDirection, setPriceDirection] = useState<"decrease" | "increase">("decrease");
+  const [priceMode, setPriceMode] = useState<"amount" | "percent">("amount");
+  const [priceValue, setPriceValue] = useState("");
+  const [flags, setFlags] = useState<Record<FlagKey, FlagChoice>>({
+    isFeatured: "unchanged",
+    isHotDeal: "unchanged",
+    isClearance: "unchanged",
+  });
+  const [locationId, setLocationId] = useState("");
+  const [failures, setFailures] = useState<Array<{ id: number; error?: string }>>([]);
+
+  useEffect(() => {
+    if (open) {
+      setFailures([]);
+      setPriceValue("");
+    }
+  }, [open]);
+
+  const { data: profile } = trpc.profile.get.useQuery(undefined, {
+    enabled: open && actionType === "location",
+    refetchOnWindowFocus: false,
+  }) as { data: CompleteProfile | undefined };
+  const locations = profile?.dealerLocations ?? [];
+
+  const bulkUpdate = trpc.dealer.listings.bulkUpdate.useMutation({
+    onSuccess: (data) => {
+      onUpdated?.();
+      if (data.failed === 0) {
+        toast.success(`Updated ${data.updated} listing${data.updated !== 1 ? "s" : ""}`);
+        onOpenChange(false);
+        return;
+      }
+      toast.warning(`Updated ${data.updated}, ${data.failed} could not be updated`);
+      setFailures(data.results.filter((result) => !result.success));
+    },
+    onError: (error) => toast.error(error.message || "Failed to update listings"),
+  });
+
+  const amount = Number(priceValue);
+  const hasFlagChange = Object.values(flags).some((choice) => choice !== "unchanged");
+  const canSubmit =
+    (actionType === "price" && amount > 0) ||
+    (actionType === "flags" && hasFlagChange) ||
+    (actionType === "location" && !!locationId) ||
+    actionType === "status" ||
+    actionType === "archive";
+
+  const submit = () => {
+    const ids = listings.map((listing) => listing.id);
+    setFailures([]);
+    switch (actionType) {
+      case "status":
+        return bulkUpdate.mutate({ ids, action: { type: "status", status } });
+      case "price":
+        return bulkUpdate.mutate({
+          ids,
+          action: { type: "price", mode: priceMode, value: priceDirection === "decrease" ? -amount : amount },
+        });
+      case "flags":
+        return bulkUpdate.mutate({
+          ids,
+          action: {
+            type: "flags",
+            isFeatured: flagValue(flags.isFeatured),
+            isHotDeal: flagValue(flags.isHotDeal),
+            isClearance: flagValue(flags.isClearance),
+          },
+        });
+      case "location":
+        return bulkUpdate.mutate({ ids, action: { type: "location", locationId: Number(locationId) } });
+      case "archive":
+        return bulkUpdate.mutate({ ids, action: { type: "archive" } });
+    }
+  };
+
+  const titles = new Map(listings.map((listing) => [listing.id, listing.title]));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Edit {listings.length} listing{listings.length !== 1 ? "s" : ""}
+          </DialogTitle>
+          <DialogDescription>
+            The change is applied to every selected listing. Listings it does not apply to are skipped and listed below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Action</Label>
+            <Select value={actionType} onValueChange={(value) => setActionType(value as BulkActionType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACTION_LABELS) as BulkActionType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {ACTION_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {actionType === "status" && (
+            <div className="space-y-2">
+              <Label>New Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as ListingStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BULK_STATUSES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {LISTING_STATUS_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">Use Mark as Sold on each listing to record a sale.</p>
+            </div>
+          )}
+
+          {actionType === "price" && (
+            <div className="grid grid-cols-3 gap-2">
+              <Select value={priceDirection} onValueChange={(value) => setPriceDirection(value as "decrease" | "increase")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="decrease">Lower by</SelectItem>
+                  <SelectItem value="increase">Raise by</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                step={priceMode === "percent" ? 0.5 : 100}
+                value={priceValue}
+                onChange={(e) => setPriceValue(e.target.value)}
+                aria-label="Price adjustment"
+              />
+              <Select value={priceMode} onValueChange={(value) => setPriceMode(value as "amount" | "percent")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="amount">Dollars ($)</SelectItem>
+                  <SelectItem value="percent">Percent (%)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="col-span-3 text-sm text-muted-foreground">
+                Asking and special prices are both adjusted and rounded to the nearest dollar.
+              </p>
+            </div>
+          )}
+
+          {actionType === "flags" &&
+            FLAGS.map(({ key, label }) => (
+              <div key={key} className="grid grid-cols-2 items-center gap-2">
+                <Label>{label}</Label>
+                <Select
+                  value={flags[key]}
+                  onValueChange={(value) => setFlags((current) => ({ ...current, [key]: value as FlagChoice }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unchanged">No change</SelectItem>
+                    <SelectItem value="on">On</SelectItem>
+                    <SelectItem value="off">Off</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+          {actionType === "location" && (
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={String(location.id)}>
+                      {location.location_name}
+                      {location.city ? ` — ${location.city}, ${location.state_province ?? ""}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {profile && locations.length === 0 && (
+                <p className="text-sm text-muted-foreground">Add locations in Settings first.</p>
+              )}
+            </div>
+          )}
+
+          {actionType === "archive" && (
+            <p className="text-sm text-muted-foreground">
+              Archived listings come off the marketplace. Move them back to draft to republish them.
+            </p>
+          )}
+
+          {failures.length > 0 && (
+            <div className="rounded-md border border-destructive/50 p-3">
+              <p className="text-sm font-medium text-destructive mb-2">Not updated</p>
+              <ul className="space-y-1 text-sm max-h-40 overflow-y-auto">
+                {failures.map((failure) => (
+                  <li key={failure.id}>
+                    <span className="font-medium">{titles.get(failure.id) ?? `Listing #${failure.id}`}</span>
+                    <span className="text-muted-foreground"> — {failure.error}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {failures.length > 0 ? "Close" : "Cancel"}
+          </Button>
+          <Button disabled={!canSubmit || bulkUpdate.isPending} onClick={submit}>
+            {bulkUpdate.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,6 +4,7 @@ import * as React from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { validateVin, type OfflineVinDecode } from "@shared/vin";
 
 // Helper function to clean NaN values from data before validation
 const cleanNaN = (data: any): any => {
@@ -38,12 +39,12 @@ const listingSchema = z
     listingType: z.enum(["stock_unit", "build_to_order"]).optional(),
 
     // Vehicle Data
-    vin: z.string().optional().refine(
-      (val) => !val || val.length === 0 || (val.length === 17 && /^[A-HJ-NPR-Z0-9]{17}$/.test(val)),
-      {
-        message: "VIN must be 17 characters and cannot contain I, O, or Q",
+    vin: z.string().optional().superRefine((val, ctx) => {
+      if (!val) return;
+      for (const error of validateVin(val).errors) {
+        ctx.addIssue({ code: "custom", message: error.message });
       }
-    ),
+    }),
     year: z
       .number()
       .int()
@@ -301,6 +302,21 @@ export function CreateListingForm({}: CreateListingFormProps) {
   const createListing = trpc.dealer.listings.create.useMutation({
     onSuccess: async (data) => {
       toast.success("Listing created successfully!");
+      const duplicate = data.duplicates?.[0];
+      if (duplicate) {
+        // Other dealers' listings are only reachable through the marketplace page
+        const href = duplicate.sameDealer ? `/dealer/listings/${duplicate.listingId}` : `/vehicle/${duplicate.listingId}`;
+        toast.warning(
+          duplicate.matchType === "vin"
+            ? `This VIN is already listed${duplicate.sameDealer ? " in your inventory" : ` by ${duplicate.dealerName ?? "another dealer"}`}`
+            : "A similar unit with this stock number is already in your inventory",
+          {
+            description: `${duplicate.title}${duplicate.stockNumber ? ` · Stock #${duplicate.stockNumber}` : ""}`,
+            duration: 15000,
+            action: { label: "View listing", onClick: () => setLocation(href) },
+          }
+        );
+      }
       setLocation(`/dealer/listings/${data.listingId}?success=true`);
     },
     onError: (error) => {
@@ -308,6 +324,45 @@ export function CreateListingForm({}: CreateListingFormProps) {
     },
   });
 
+  const selectEpaOption = trpc.vin.selectEpaOption.useMutation({
+    onSuccess: ({ data }) => {
+      handleEpaOptionSelected(data);
+      toast.success("Fuel economy updated for the selected configuration");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to load the selected EPA configuration");
+    },
+  });
+
+  // NHTSA is unavailable: fill in what the VIN itself encodes and let the dealer complete the rest
+  const handleVINDecodeFallback = (decoded: OfflineVinDecode) => {
+    const setValueOptions = { shouldValidate: false, shouldDirty: false };
+    if (decoded.modelYear && !form.getValues("year")) {
+      form.setValue("year", decoded.modelYear, setValueOptions);
+    }
+    if (decoded.make && !form.getValues("make")) {
+      form.setValue("make", decoded.make, setValueOptions);
+    }
+    if (decoded.modelYear || decoded.make) {
+      toast.info("Vehicle lookup is unavailable, so year and make were read from the VIN. Please enter the remaining details.");
+    }
+  };
+
+  // Only the EPA-sourced fields change with the configuration; other decoded or edited fields are kept
+  const handleEpaOptionSelected = (decodedData: any) => {
+    const setValueOptions = { shouldValidate: false, shouldDirty: false };
+    setEnrichedData((current) => current && { ...current, data: decodedData, epaAvailable: decodedData.epaAvailable });
+    form.setValue("mpgCity", decodedData.mpgCity ?? undefined, setValueOptions);
+    form.setValue("mpgHighway", decodedData.mpgHighway ?? undefined, setValueOptions);
+    form.setValue("mpge", decodedData.mpge ?? undefined, setValueOptions);
+    if (decodedData.engineDescription) {
+      form.setValue("engineDescription", decodedData.engineDescription, setValueOptions);
+    }
+    if (decodedData.transmission) {
+      form.setValue("transmission", decodedData.transmission, setValueOptions);
+    }
+  };
+
   const handleVINDecode = (decodedData: any) => {
     const fieldsToMark: string[] = [];
     
@@ -854,6 +909,7 @@ export function CreateListingForm({}: CreateListingFormProps) {
                   value={form.watch("vin") || ""}
                   onChange={(value) => form.setValue("vin", value)}
                   onDecode={handleVINDecode}
+                  onDecodeFallback={handleVINDecodeFallback}
                   label=""
                   error={form.formState.errors.vin?.message}
                   waitForValidation={userLoading || !user}
@@ -874,6 +930,8 @@ export function CreateListingForm({}: CreateListingFormProps) {
                   dataSources={enrichedData.dataSources}
                   nhtsaConfidence={enrichedData.nhtsaConfidence}
                   epaAvailable={enrichedData.epaAvailable}
+                  onSelectEpaOption={(epaId) => vin && selectEpaOption.mutate({ vin, epaId })}
+                  selectingEpaOption={selectEpaOption.isPending}
                 />
               )}
 
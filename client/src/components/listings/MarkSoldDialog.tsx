@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/lib/trpc";
+import { BUYER_TYPE_LABELS, BUYER_TYPES, type BuyerType } from "@shared/listing-lifecycle";
+import { Loader2 } from "lucide-react";
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Take a listing off the market as sold, recording what it sold for and to whom
+ */
+export default function MarkSoldDialog({
+  open,
+  onOpenChange,
+  listingId,
+  defaultPrice,
+  onSold,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listingId: number;
+  defaultPrice?: number | null;
+  onSold?: () => void;
+}) {
+  const [salePrice, setSalePrice] = useState("");
+  const [buyerType, setBuyerType] = useState<BuyerType>("retail");
+  const [soldOn, setSoldOn] = useState(toDateInput(new Date()));
+
+  useEffect(() => {
+    if (open) {
+      setSalePrice(defaultPrice ? String(defaultPrice) : "");
+      setSoldOn(toDateInput(new Date()));
+    }
+  }, [open]);
+
+  const markSold = trpc.dealer.listings.markSold.useMutation({
+    onSuccess: () => {
+      toast.success("Listing marked as sold");
+      onOpenChange(false);
+      onSold?.();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const price = Number(salePrice);
+  const today = toDateInput(new Date());
+
+  const submit = () => {
+    // A sale recorded for today uses the current time; earlier dates use noon to avoid time zone drift
+    const soldAt = soldOn === today ? undefined : new Date(`${soldOn}T12:00:00`);
+    markSold.mutate({ id: listingId, salePrice: price, buyerType, soldAt });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Mark as sold</DialogTitle>
+          <DialogDescription>
+            The listing comes off the marketplace right away and stops taking leads.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sale-price">Sale Price ($)</Label>
+            <Input
+              id="sale-price"
+              type="number"
+              min={1}
+              value={salePrice}
+              onChange={(e) => setSalePrice(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Buyer</Label>
+            <Select value={buyerType} onValueChange={(value) => setBuyerType(value as BuyerType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUYER_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {BUYER_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sold-on">Sale Date</Label>
+            <Input id="sold-on" type="date" max={today} value={soldOn} onChange={(e) => setSoldOn(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!(price > 0) || !soldOn || markSold.isPending} onClick={submit}>
+            {markSold.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Mark as Sold
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
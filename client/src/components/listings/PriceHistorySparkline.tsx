@@ -0,0 +1,93 @@
+import { Line, LineChart, ResponsiveContainer, Tooltip, YAxis } from "recharts";
+
+export interface PriceHistoryPoint {
+  price: number | null;
+  changedAt: string | Date;
+  /** Only present in the dealer view */
+  changedByName?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(price);
+
+const formatDays = (days: number) => (days < 1 ? "under a day" : `${Math.round(days)} ${Math.round(days) === 1 ? "day" : "days"}`);
+
+/**
+ * Step sparkline of a listing's price over time. With `detailed`, also lists
+ * how long the unit sat at each price and who set it.
+ */
+export default function PriceHistorySparkline({
+  points,
+  detailed = false,
+}: {
+  points: PriceHistoryPoint[];
+  detailed?: boolean;
+}) {
+  const priced = points.filter((point): point is PriceHistoryPoint & { price: number } => point.price !== null);
+  if (priced.length === 0) return null;
+
+  const now = Date.now();
+  const periods = priced.map((point, index) => {
+    const start = new Date(point.changedAt).getTime();
+    const end = index + 1 < priced.length ? new Date(priced[index + 1].changedAt).getTime() : now;
+    return { ...point, start, days: Math.max(0, end - start) / DAY_MS };
+  });
+
+  // Carry the current price to today so the last step shows its length
+  const chartData = [
+    ...periods.map((period) => ({ time: period.start, price: period.price })),
+    { time: now, price: periods[periods.length - 1].price },
+  ];
+
+  const first = periods[0].price;
+  const last = periods[periods.length - 1].price;
+  const trendColor = last < first ? "#16a34a" : last > first ? "#dc2626" : "#6b7280";
+
+  return (
+    <div className="space-y-3">
+      {periods.length > 1 && (
+        <div className="h-16">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 4, right: 4, bottom: 4, left: 4 }}>
+              <YAxis hide domain={["dataMin", "dataMax"]} />
+              <Tooltip
+                formatter={(value: number) => formatPrice(value)}
+                labelFormatter={(_, payload) =>
+                  payload?.[0] ? new Date(payload[0].payload.time).toLocaleDateString() : ""
+                }
+              />
+              <Line type="stepAfter" dataKey="price" stroke={trendColor} strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {detailed ? (
+        <ul className="space-y-1 text-sm">
+          {periods
+            .slice()
+            .reverse()
+            .map((period) => (
+              <li key={period.start} className="flex items-center justify-between gap-2">
+                <span className="font-medium">{formatPrice(period.price)}</span>
+                <span className="text-muted-foreground text-right">
+                  {formatDays(period.days)} from {new Date(period.start).toLocaleDateString()}
+                  {period.changedByName && ` · ${period.changedByName}`}
+                </span>
+              </li>
+            ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {periods.length === 1
+            ? `Listed at this price for ${formatDays(periods[0].days)}`
+            : `${periods.length - 1} price ${periods.length === 2 ? "change" : "changes"} since ${new Date(
+                periods[0].start
+              ).toLocaleDateString()}`}
+        </p>
+      )}
+    </div>
+  );
+}
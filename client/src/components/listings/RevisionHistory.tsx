@@ -0,0 +1,142 @@
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/lib/trpc";
+import { History, Loader2, RotateCcw } from "lucide-react";
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  revert: "Reverted",
+};
+
+// Columns whose names don't read well once humanized
+const FIELD_LABELS: Record<string, string> = {
+  status: "Status",
+  listing_status: "Status",
+  special_price: "Special price",
+  asking_price: "Asking price",
+  sale_price: "Sale price",
+  key_highlights: "Key highlights",
+};
+
+const PRICE_FIELDS = new Set(["asking_price", "special_price", "sale_price"]);
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+const fieldLabel = (field: string) => {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const words = field.replace(/_at$/, "").replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (PRICE_FIELDS.has(field) && Number.isFinite(Number(value))) {
+    return `$${Number(value).toLocaleString()}`;
+  }
+  if (typeof value === "string" && ISO_DATE.test(value)) return new Date(value).toLocaleString();
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+/**
+ * Audit log for a dealer's vehicle listing, with field-level changes and revert
+ */
+export default function RevisionHistory({ listingId, canRevert }: { listingId: number; canRevert: boolean }) {
+  const utils = trpc.useUtils();
+  const { data: revisions, isLoading } = trpc.dealer.listings.revisions.useQuery({ id: listingId });
+
+  const revert = trpc.dealer.listings.revert.useMutation({
+    onSuccess: async (_, variables) => {
+      toast.success(`Listing restored to revision ${variables.revision}`);
+      await Promise.all([
+        utils.dealer.listings.revisions.invalidate({ id: listingId }),
+        utils.dealer.listings.getById.invalidate({ id: listingId }),
+        utils.dealer.listings.priceHistory.invalidate({ id: listingId }),
+      ]);
+    },
+    onError: (error) => toast.error(error.message || "Failed to revert listing"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!revisions || revisions.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <History className="h-10 w-10 mx-auto mb-3 text-gray-400" />
+        <p>No changes have been recorded for this listing yet.</p>
+      </div>
+    );
+  }
+
+  const latestRevision = revisions[0].revision;
+
+  return (
+    <ol className="space-y-4">
+      {revisions.map((revision) => {
+        const fields = Object.entries(revision.changes);
+        return (
+          <li key={revision.id} className="border rounded-lg p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge variant={revision.action === "delete" ? "destructive" : "secondary"}>
+                  {ACTION_LABELS[revision.action] ?? revision.action}
+                </Badge>
+                <span className="text-sm font-medium">Revision {revision.revision}</span>
+                {revision.revertedFromRevision && (
+                  <span className="text-sm text-muted-foreground">to revision {revision.revertedFromRevision}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-muted-foreground">
+                  {revision.changedByName || (revision.changedBy ? "Former team member" : "System")} ·{" "}
+                  {new Date(revision.createdAt).toLocaleString()}
+                </span>
+                {canRevert && revision.revision !== latestRevision && revision.action !== "delete" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revert.isPending}
+                    onClick={() => {
+                      if (confirm(`Restore this listing's details and prices to revision ${revision.revision}?`)) {
+                        revert.mutate({ id: listingId, revision: revision.revision });
+                      }
+                    }}
+                  >
+                    <RotateCcw className="mr-2 h-3 w-3" />
+                    Revert to this
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {revision.action !== "create" && fields.length > 0 && (
+              <dl className="mt-3 space-y-1 text-sm">
+                {fields.map(([field, change]) => (
+                  <div key={field} className="grid grid-cols-[10rem_1fr] gap-2">
+                    <dt className="text-muted-foreground">{fieldLabel(field)}</dt>
+                    <dd>
+                      <span className="line-through text-muted-foreground">{formatValue(field, change.from)}</span>
+                      {" → "}
+                      <span className="font-medium">{formatValue(field, change.to)}</span>
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
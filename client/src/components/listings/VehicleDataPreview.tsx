@@ -4,20 +4,41 @@
 
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
-import { CheckCircle2, Database, Edit3, Sparkles, TrendingUp } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, CheckCircle2, Database, Edit3, Fuel, Loader2, Sparkles, TrendingUp } from "lucide-react";
+
+interface EpaOption {
+  epaId: number;
+  description: string;
+  score: number;
+  mpgCity: number | null;
+  mpgHighway: number | null;
+  mpge: number | null;
+}
 
 interface VehicleDataPreviewProps {
   data: any;
   dataSources: string[];
   nhtsaConfidence: 'high' | 'medium' | 'low';
   epaAvailable: boolean;
+  /** Called when the dealer picks a different EPA configuration */
+  onSelectEpaOption?: (epaId: number) => void;
+  selectingEpaOption?: boolean;
 }
 
 export function VehicleDataPreview({ 
   data, 
   dataSources, 
   nhtsaConfidence,
-  epaAvailable 
+  epaAvailable,
+  onSelectEpaOption,
+  selectingEpaOption = false,
 }: VehicleDataPreviewProps) {
   const confidenceColor = {
     high: 'bg-green-500/10 text-green-700 border-green-500/20',
@@ -32,6 +53,9 @@ export function VehicleDataPreview({
   };
   
   const filledCount = countFilledFields(data);
+  const epaOptions: EpaOption[] = data.epaOptions ?? [];
+  const epaConfidence: 'high' | 'medium' | 'low' | undefined = data.epaMatchConfidence;
+  const pickedByDealer = data.epaSelectedBy === 'dealer';
   
   return (
     <Card className="p-5 mb-6 bg-gradient-to-br from-primary/5 via-primary/3 to-primary/5 border-2 border-primary/20 shadow-md animate-in fade-in slide-in-from-top-2 duration-300">
@@ -70,6 +94,49 @@ export function VehicleDataPreview({
               <span className="ml-1.5 capitalize">{nhtsaConfidence} confidence</span>
             </Badge>
           </div>
+
+          {epaAvailable && epaOptions.length > 1 && (
+            <div className="space-y-2 pt-2 border-t border-border/50">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Fuel className="w-4 h-4 text-muted-foreground" />
+                <span className="font-medium text-foreground">EPA configuration</span>
+                {pickedByDealer ? (
+                  <Badge variant="outline" className={confidenceColor.high}>
+                    <CheckCircle2 className="w-3 h-3" />
+                    <span className="ml-1.5">Selected by you</span>
+                  </Badge>
+                ) : epaConfidence && (
+                  <Badge variant="outline" className={confidenceColor[epaConfidence]}>
+                    {confidenceIcon[epaConfidence]}
+                    <span className="ml-1.5 capitalize">{epaConfidence} match</span>
+                  </Badge>
+                )}
+              </div>
+              <Select
+                value={data.epaId ? String(data.epaId) : undefined}
+                onValueChange={(value) => onSelectEpaOption?.(Number(value))}
+                disabled={!onSelectEpaOption || selectingEpaOption}
+              >
+                <SelectTrigger className="w-full bg-background">
+                  {selectingEpaOption && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  <SelectValue placeholder="Select the engine and transmission" />
+                </SelectTrigger>
+                <SelectContent>
+                  {epaOptions.map((option) => (
+                    <SelectItem key={option.epaId} value={String(option.epaId)}>
+                      {option.description} · {formatFuelEconomy(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!pickedByDealer && epaConfidence !== 'high' && (
+                <p className="flex items-center gap-1.5 text-xs text-yellow-700">
+                  <AlertTriangle className="w-3 h-3" />
+                  EPA lists {epaOptions.length} configurations for this model - check this one matches the vehicle so the MPG figures are right
+                </p>
+              )}
+            </div>
+          )}
           
           <div className="flex items-center gap-2 text-sm text-muted-foreground pt-2 border-t border-border/50">
             <Edit3 className="w-4 h-4" />
@@ -85,3 +152,9 @@ function countFilledFields(data: any): number {
   return Object.values(data).filter(v => v !== null && v !== undefined && v !== '').length;
 }
 
+function formatFuelEconomy(option: EpaOption): string {
+  if (option.mpgCity && option.mpgHighway) {
+    return `${option.mpgCity}/${option.mpgHighway} MPG`;
+  }
+  return option.mpge ? `${option.mpge} MPGe` : 'No MPG data';
+}
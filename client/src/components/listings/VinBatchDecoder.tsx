@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { trpc } from "@/lib/trpc";
+import { VIN_BATCH_MAX } from "@shared/vin";
+import { Loader2, ScanLine } from "lucide-react";
+
+type DecodeStatus = "decoded" | "invalid" | "failed";
+
+interface DecodeRow {
+  vin: string;
+  status: DecodeStatus;
+  fromCache: boolean;
+  confidence: "high" | "medium" | "low" | null;
+  vehicle: string | null;
+  error: string | null;
+}
+
+const STATUS_STYLES: Record<DecodeStatus, string> = {
+  decoded: "bg-green-100 text-green-800",
+  invalid: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+function parseVins(text: string): string[] {
+  return Array.from(
+    new Set(
+      text
+        .split(/[\s,;]+/)
+        .map((vin) => vin.trim().toUpperCase())
+        .filter(Boolean)
+    )
+  );
+}
+
+/**
+ * Decode a pasted list of VINs, showing each result as the server streams it
+ */
+export default function VinBatchDecoder() {
+  const [text, setText] = useState("");
+  const [running, setRunning] = useState<string[] | null>(null);
+  const [total, setTotal] = useState(0);
+  const [rows, setRows] = useState<DecodeRow[]>([]);
+
+  const vins = parseVins(text);
+  const tooMany = vins.length > VIN_BATCH_MAX;
+
+  trpc.vin.decodeBatchStream.useSubscription(
+    { vins: running ?? [] },
+    {
+      enabled: running !== null,
+      onData: ({ total: streamTotal, result }) => {
+        setTotal(streamTotal);
+        setRows((current) => [
+          ...current,
+          {
+            vin: result.vin,
+            status: result.status,
+            fromCache: result.fromCache,
+            confidence: result.confidence,
+            vehicle: result.data
+              ? `${result.data.year} ${result.data.make} ${result.data.model}`
+              : result.fallback?.make
+                ? `${result.fallback.modelYear ?? ""} ${result.fallback.make}`.trim()
+                : null,
+            error: result.error,
+          },
+        ]);
+      },
+      onComplete: () => {
+        setRunning(null);
+        toast.success("VIN decode complete");
+      },
+      onError: (error) => {
+        setRunning(null);
+        toast.error(error.message || "VIN decode failed");
+      },
+    }
+  );
+
+  const start = () => {
+    setRows([]);
+    setTotal(vins.length);
+    setRunning(vins);
+  };
+
+  const counts = rows.reduce(
+    (acc, row) => {
+      acc[row.status]++;
+      return acc;
+    },
+    { decoded: 0, invalid: 0, failed: 0 } as Record<DecodeStatus, number>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5" />
+            Decode VINs
+          </span>
+          {rows.length > 0 && (
+            <div className="flex gap-2 text-sm font-normal">
+              {(Object.keys(counts) as DecodeStatus[])
+                .filter((status) => counts[status] > 0)
+                .map((status) => (
+                  <Badge key={status} className={STATUS_STYLES[status]}>
+                    {counts[status]} {status}
+                  </Badge>
+                ))}
+            </div>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-gray-600">
+          Paste up to {VIN_BATCH_MAX} VINs, one per line or separated by commas, to check them against NHTSA and EPA
+          before importing.
+        </p>
+        <Textarea
+          rows={5}
+          className="font-mono"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="1FTBW3XM5HKA12345"
+          disabled={running !== null}
+        />
+        <div className="flex items-center justify-between gap-3">
+          <span className={`text-sm ${tooMany ? "text-red-600" : "text-gray-600"}`}>
+            {vins.length} unique VIN{vins.length !== 1 ? "s" : ""}
+            {tooMany && ` — remove ${vins.length - VIN_BATCH_MAX} to continue`}
+          </span>
+          <Button onClick={start} disabled={running !== null || vins.length === 0 || tooMany}>
+            {running !== null && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Decode
+          </Button>
+        </div>
+        {running !== null && <Progress value={total > 0 ? Math.round((rows.length / total) * 100) : 0} />}
+
+        {rows.length > 0 && (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>VIN</TableHead>
+                  <TableHead className="w-28">Status</TableHead>
+                  <TableHead>Vehicle</TableHead>
+                  <TableHead className="w-28">Confidence</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.vin}>
+                    <TableCell className="font-mono text-sm">{row.vin}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[row.status]}>{row.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{row.vehicle || "—"}</TableCell>
+                    <TableCell className="text-sm capitalize">{row.confidence || "—"}</TableCell>
+                    <TableCell className="text-sm text-gray-600 whitespace-normal">
+                      {row.error || (row.fromCache ? "From cache" : "")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
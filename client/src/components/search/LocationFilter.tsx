@@ -0,0 +1,69 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { MapPin } from "lucide-react";
+
+export const RADIUS_OPTIONS = [25, 50, 100, 250, 500];
+
+export const DEFAULT_RADIUS = 100;
+
+/**
+ * Five-digit ZIP codes are the only input the server accepts
+ */
+export function isCompleteZip(zip: string): boolean {
+  return /^\d{5}$/.test(zip.trim());
+}
+
+/**
+ * "Within N miles of ZIP" filter shared by the public browse pages
+ */
+export default function LocationFilter({
+  zip,
+  radius,
+  onZipChange,
+  onRadiusChange,
+  error,
+}: {
+  zip: string;
+  radius: number;
+  onZipChange: (zip: string) => void;
+  onRadiusChange: (radius: number) => void;
+  error?: string | null;
+}) {
+  return (
+    <div className="mb-4">
+      <label className="text-sm font-medium mb-2 block">Location</label>
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={String(radius)} onValueChange={(value) => onRadiusChange(Number(value))}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RADIUS_OPTIONS.map((miles) => (
+              <SelectItem key={miles} value={String(miles)}>
+                Within {miles} mi
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="relative">
+          <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            inputMode="numeric"
+            maxLength={5}
+            placeholder="ZIP"
+            value={zip}
+            onChange={(e) => onZipChange(e.target.value.replace(/\D/g, ""))}
+            className="pl-9"
+          />
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
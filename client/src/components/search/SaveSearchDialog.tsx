@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { trpc } from "@/lib/trpc";
+import type { SearchFilters } from "@/hooks/useAdvancedListingSearch";
+import { Loader2 } from "lucide-react";
+
+export type AlertFrequency = "instant" | "daily" | "weekly" | "none";
+
+export const ALERT_FREQUENCY_LABELS: Record<AlertFrequency, string> = {
+  instant: "As they happen",
+  daily: "Daily digest",
+  weekly: "Weekly digest",
+  none: "No alerts",
+};
+
+/**
+ * Short human summary of a saved search, used for default names and lists
+ */
+export function describeSearchFilters(filters: SearchFilters): string {
+  const parts: string[] = [];
+  if (filters.years) {
+    parts.push(filters.years[0] === filters.years[1] ? `${filters.years[0]}` : `${filters.years[0]}–${filters.years[1]}`);
+  }
+  if (filters.makes?.length) parts.push(filters.makes.join("/"));
+  if (filters.bodyStyles?.length) parts.push(filters.bodyStyles.join("/"));
+  if (filters.equipmentTypes?.length) parts.push(filters.equipmentTypes.map((type) => type.replace(/_/g, " ")).join("/"));
+  if (filters.gvwrClasses?.length) parts.push(filters.gvwrClasses.join("/"));
+  if (filters.fuelTypes?.length) parts.push(filters.fuelTypes.join("/"));
+  if (filters.query) parts.push(`"${filters.query}"`);
+  if (filters.priceRange) parts.push(`$${filters.priceRange[0].toLocaleString()}–$${filters.priceRange[1].toLocaleString()}`);
+  const location = filters.locations?.find((entry) => entry.zip);
+  if (location) parts.push(`within ${location.radiusMiles} mi of ${location.zip}`);
+  return parts.length > 0 ? parts.join(" · ") : "All vehicles";
+}
+
+/**
+ * Save the current Inventory filters and choose how to be alerted about new matches
+ */
+export default function SaveSearchDialog({
+  open,
+  onOpenChange,
+  filters,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: SearchFilters;
+}) {
+  const utils = trpc.useUtils();
+  const [name, setName] = useState("");
+  const [alertFrequency, setAlertFrequency] = useState<AlertFrequency>("daily");
+  const [emailEnabled, setEmailEnabled] = useState(true);
+
+  useEffect(() => {
+    if (open) setName(describeSearchFilters(filters).slice(0, 120));
+  }, [open]);
+
+  const create = trpc.savedSearches.create.useMutation({
+    onSuccess: async () => {
+      toast.success("Search saved. We'll let you know about new matches.");
+      await utils.savedSearches.list.invalidate();
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save this search</DialogTitle>
+          <DialogDescription>
+            Get alerted when new listings match or a matching vehicle drops in price.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              maxLength={120}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Alerts</Label>
+            <Select value={alertFrequency} onValueChange={(value) => setAlertFrequency(value as AlertFrequency)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ALERT_FREQUENCY_LABELS) as AlertFrequency[]).map((frequency) => (
+                  <SelectItem key={frequency} value={frequency}>
+                    {ALERT_FREQUENCY_LABELS[frequency]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="saved-search-email">Email me as well as notifying me in the app</Label>
+            <Switch
+              id="saved-search-email"
+              checked={emailEnabled}
+              disabled={alertFrequency === "none"}
+              onCheckedChange={setEmailEnabled}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!name.trim() || create.isPending}
+            onClick={() =>
+              create.mutate({
+                name: name.trim(),
+                filters,
+                alertFrequency,
+                emailEnabled,
+                inAppEnabled: true,
+              })
+            }
+          >
+            {create.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Search
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
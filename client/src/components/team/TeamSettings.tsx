@@ -0,0 +1,333 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { trpc } from "@/lib/trpc";
+import { useOrgPermissions } from "@/hooks/useOrgPermissions";
+import { ORG_ROLE_LABELS, ORG_ROLE_RANK, type OrgRole } from "@shared/permissions";
+import { Copy, Crown, Loader2, Mail, Trash2, UserPlus, Users } from "lucide-react";
+
+type InvitableRole = Exclude<OrgRole, "owner">;
+
+const INVITABLE_ROLES: InvitableRole[] = ["admin", "manager", "sales", "viewer"];
+
+/**
+ * Mirrors the server rule: owners manage everyone, other roles only
+ * manage members ranked below them
+ */
+function canManageRole(actorRole: OrgRole | null, targetRole: OrgRole): boolean {
+  if (!actorRole) return false;
+  return actorRole === "owner" || ORG_ROLE_RANK[actorRole] > ORG_ROLE_RANK[targetRole];
+}
+
+export default function TeamSettings() {
+  const utils = trpc.useUtils();
+  const { role: myRole, can } = useOrgPermissions();
+  const canManageMembers = can("members.manage");
+  const canTransfer = can("ownership.transfer");
+
+  const { data, isLoading } = trpc.team.list.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InvitableRole>("sales");
+  const [lastInviteUrl, setLastInviteUrl] = useState<string | null>(null);
+
+  const assignableRoles = INVITABLE_ROLES.filter((role) => canManageRole(myRole, role));
+
+  const refresh = () => utils.team.list.invalidate();
+  const onError = (error: { message: string }) => toast.error(error.message);
+
+  const invite = trpc.team.invite.useMutation({
+    onSuccess: async (result) => {
+      setEmail("");
+      setLastInviteUrl(result.inviteUrl);
+      toast.success(
+        result.emailSent
+          ? `Invitation emailed to ${result.invitation.email}`
+          : `Invitation created for ${result.invitation.email}. Share the link below.`
+      );
+      await refresh();
+    },
+    onError,
+  });
+  const revoke = trpc.team.revokeInvitation.useMutation({
+    onSuccess: async () => {
+      toast.success("Invitation revoked");
+      await refresh();
+    },
+    onError,
+  });
+  const changeRole = trpc.team.changeRole.useMutation({
+    onSuccess: async () => {
+      toast.success("Role updated");
+      await refresh();
+    },
+    onError,
+  });
+  const removeMember = trpc.team.removeMember.useMutation({
+    onSuccess: async () => {
+      toast.success("Member removed");
+      await refresh();
+    },
+    onError,
+  });
+  const transferOwnership = trpc.team.transferOwnership.useMutation({
+    onSuccess: async () => {
+      toast.success("Ownership transferred");
+      await Promise.all([refresh(), utils.user.getPermissions.invalidate()]);
+    },
+    onError,
+  });
+
+  const handleInvite = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!email.trim()) return;
+    invite.mutate({ email: email.trim(), role: inviteRole });
+  };
+
+  const copyInviteUrl = async () => {
+    if (!lastInviteUrl) return;
+    await navigator.clipboard.writeText(lastInviteUrl);
+    toast.success("Invite link copied");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const members = data?.members ?? [];
+  const invitations = data?.invitations ?? [];
+
+  return (
+    <div className="space-y-6">
+      {canManageMembers && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="h-5 w-5" />
+              Invite a Team Member
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-[1fr_180px_auto] gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  placeholder="salesperson@dealership.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as InvitableRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignableRoles.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {ORG_ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" disabled={invite.isPending || !email.trim()}>
+                {invite.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Mail className="mr-2 h-4 w-4" />
+                )}
+                Send Invite
+              </Button>
+            </form>
+
+            {lastInviteUrl && (
+              <div className="flex items-center gap-2">
+                <Input readOnly value={lastInviteUrl} className="font-mono text-xs" />
+                <Button type="button" variant="outline" size="sm" onClick={copyInviteUrl}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+              </div>
+            )}
+            <p className="text-sm text-gray-600">Invite links expire after 7 days and can be used once.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Members
+            <Badge variant="secondary">{members.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                {(canManageMembers || canTransfer) && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map((member) => {
+                const isSelf = member.userId === data?.currentUserId;
+                const manageable = canManageMembers && !isSelf && canManageRole(myRole, member.role);
+                return (
+                  <TableRow key={member.userId}>
+                    <TableCell className="font-medium">
+                      {member.name || "—"}
+                      {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                    </TableCell>
+                    <TableCell>{member.email || "—"}</TableCell>
+                    <TableCell>
+                      {manageable && member.role !== "owner" ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) =>
+                            changeRole.mutate({ userId: member.userId, role: value as InvitableRole })
+                          }
+                          disabled={changeRole.isPending}
+                        >
+                          <SelectTrigger className="w-[140px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {assignableRoles.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {ORG_ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant={member.role === "owner" ? "default" : "outline"}>
+                          {ORG_ROLE_LABELS[member.role]}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    {(canManageMembers || canTransfer) && (
+                      <TableCell className="text-right space-x-2">
+                        {canTransfer && !isSelf && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={transferOwnership.isPending}
+                            onClick={() => {
+                              if (
+                                confirm(
+                                  `Make ${member.name || member.email} the owner? You will become an admin.`
+                                )
+                              ) {
+                                transferOwnership.mutate({ userId: member.userId });
+                              }
+                            }}
+                          >
+                            <Crown className="mr-2 h-4 w-4" />
+                            Make Owner
+                          </Button>
+                        )}
+                        {manageable && member.role !== "owner" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={removeMember.isPending}
+                            onClick={() => {
+                              if (confirm(`Remove ${member.name || member.email} from the organization?`)) {
+                                removeMember.mutate({ userId: member.userId });
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Pending Invitations
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Expires</TableHead>
+                  {canManageMembers && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => (
+                  <TableRow key={invitation.id}>
+                    <TableCell>{invitation.email}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{ORG_ROLE_LABELS[invitation.role]}</Badge>
+                    </TableCell>
+                    <TableCell>{new Date(invitation.expiresAt).toLocaleDateString()}</TableCell>
+                    {canManageMembers && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={revoke.isPending || !canManageRole(myRole, invitation.role)}
+                          onClick={() => revoke.mutate({ invitationId: invitation.id })}
+                        >
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
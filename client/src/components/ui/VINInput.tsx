@@ -6,12 +6,15 @@ import { Button } from "@/components/ui/button";
 import { Loader2, CheckCircle2, XCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { trpc } from "@/lib/trpc";
+import { validateVin, type OfflineVinDecode } from "@shared/vin";
 
 export interface VINInputProps extends Omit<React.ComponentProps<typeof Input>, "onChange" | "value"> {
   value: string;
   onChange: (value: string) => void;
   onDecode?: (decodedData: any) => void;
   onDecodeError?: (error: string) => void;
+  /** Called with what the VIN itself encodes when the online decode fails */
+  onDecodeFallback?: (decoded: OfflineVinDecode) => void;
   label?: string;
   description?: string;
   error?: string;
@@ -24,6 +27,7 @@ export function VINInput({
   onChange,
   onDecode,
   onDecodeError,
+  onDecodeFallback,
   label,
   description,
   error,
@@ -37,13 +41,10 @@ export function VINInput({
   const lastDecodedVIN = React.useRef<string>("");
   const timeoutRef = React.useRef<NodeJS.Timeout | null>(null);
 
-  // Validate VIN format
-  const isValidFormat = React.useMemo(() => {
-    if (!value) return false;
-    if (value.length !== 17) return false;
-    const vinRegex = /^[A-HJ-NPR-Z0-9]{17}$/;
-    return vinRegex.test(value);
-  }, [value]);
+  // Structure and check digit, checked locally while the dealer types
+  const validation = React.useMemo(() => validateVin(value || "", { partial: true }), [value]);
+  const isValidFormat = value.length === 17 && validation.valid;
+  const formatError = validation.errors[0]?.message ?? null;
 
   const decodeMutation = trpc.vin.decode.useMutation({
     onMutate: () => {
@@ -72,6 +73,9 @@ export function VINInput({
         setDecodeError(errorMessage);
         setDecodeStatus("error");
         onDecodeError?.(errorMessage);
+        if (result.fallback) {
+          onDecodeFallback?.(result.fallback);
+        }
       }
     },
     onError: (err) => {
@@ -104,7 +108,7 @@ export function VINInput({
   
   const handleDecode = async () => {
     if (!isValidFormat) {
-      setDecodeError("VIN must be exactly 17 characters and cannot contain I, O, or Q");
+      setDecodeError(formatError || "VIN must be exactly 17 characters");
       setDecodeStatus("error");
       return;
     }
@@ -172,8 +176,8 @@ export function VINInput({
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value.toUpperCase();
-    // Only allow valid VIN characters
-    const filtered = newValue.replace(/[^A-HJ-NPR-Z0-9]/g, "");
+    // I, O and Q are kept so validateVin can point out where they were typed
+    const filtered = newValue.replace(/[^A-Z0-9]/g, "");
     if (filtered.length <= 17) {
       onChange(filtered);
       // Reset status when user types (only if VIN length changes)
@@ -215,7 +219,7 @@ export function VINInput({
             className={cn(
               "uppercase font-mono",
               decodeStatus === "success" && "border-green-500",
-              decodeStatus === "error" && "border-red-500",
+              (decodeStatus === "error" || !!formatError) && "border-red-500",
               className
             )}
             {...props}
@@ -234,8 +238,20 @@ export function VINInput({
       {description && (
         <p className="text-sm text-muted-foreground">{description}</p>
       )}
-      {(error || decodeError) && (
-        <p className="text-sm text-destructive">{error || decodeError}</p>
+      {(formatError || error || decodeError) && (
+        <p className="text-sm text-destructive">{formatError || error || decodeError}</p>
+      )}
+      {validation.decoded && decodeStatus !== "success" && (
+        <p className="text-sm text-muted-foreground">
+          {[
+            validation.decoded.modelYear,
+            validation.decoded.make ?? `WMI ${validation.decoded.wmi}`,
+            validation.decoded.country,
+            validation.decoded.plantName,
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
       )}
       {decodeStatus === "success" && !error && !decodeError && (
         <p className="text-sm text-green-600">VIN decoded successfully</p>
@@ -3,13 +3,16 @@ import { getSupabaseClient } from '@/lib/supabase';
 import { handleSupabaseError } from '@/lib/errorHandler';
 
 export interface SearchFilters {
+  query?: string;
   makes?: string[];
   years?: [number, number];
   priceRange?: [number, number];
   mileageRange?: [number, number];
+  fuelTypes?: string[];
+  bodyStyles?: string[];
   gvwrClasses?: string[];
   equipmentTypes?: string[];
-  locations?: { city: string; state: string; radiusMiles: number }[];
+  locations?: { city?: string; state?: string; zip?: string; radiusMiles: number }[];
   conditions?: string[];
   features?: string[];
   sortBy?: 'price_asc' | 'price_desc' | 'year_desc' | 'mileage_asc' | 'created_desc';
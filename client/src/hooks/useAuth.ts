@@ -8,6 +8,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { getSupabaseClient } from '@/lib/supabase';
 import type { User } from '@supabase/supabase-js';
 import type { UserProfile, UserPermissions } from '@/types/user';
+import { hasPermission } from '@shared/permissions';
 
 interface UseAuthReturn {
   user: User | null;
@@ -138,7 +139,7 @@ export function useAuth(): UseAuthReturn {
         organization_type: profile.organization?.organization_type?.type_code || 
                           profile.organization_type || 
                           'dealer',
-        role: profile.role || 'member',
+        role: profile.role || 'sales',
         status: profile.status || 'active',
         email_notifications: profile.email_notifications !== false,
         sms_notifications: profile.sms_notifications || false,
@@ -146,10 +147,10 @@ export function useAuth(): UseAuthReturn {
       };
 
       const userPermissions: UserPermissions = {
-        canCreateListings: ['owner', 'admin', 'member'].includes(userProfile.role),
-        canManageOrganization: ['owner', 'admin'].includes(userProfile.role),
-        canInviteUsers: ['owner', 'admin'].includes(userProfile.role),
-        canManageUsers: ['owner', 'admin'].includes(userProfile.role),
+        canCreateListings: hasPermission(userProfile.role, 'listings.create'),
+        canManageOrganization: hasPermission(userProfile.role, 'settings.manage'),
+        canInviteUsers: hasPermission(userProfile.role, 'members.manage'),
+        canManageUsers: hasPermission(userProfile.role, 'members.manage'),
         isAdmin: ['owner', 'admin'].includes(userProfile.role),
         isOwner: userProfile.role === 'owner',
       };
@@ -1,37 +1,36 @@
 import { useState, useCallback } from 'react';
-import { getSupabaseClient } from '@/lib/supabase';
-import { handleSupabaseError } from '@/lib/errorHandler';
+import { trpc } from '@/lib/trpc';
 import type { SearchFilters } from './useAdvancedListingSearch';
 
-interface Location {
-  latitude: number;
-  longitude: number;
-}
+type NearbyResults = Awaited<ReturnType<ReturnType<typeof trpc.useUtils>['vehicles']['search']['fetch']>>;
 
 export function useGeographicSearch() {
-  const [results, setResults] = useState<any[]>([]);
+  const utils = trpc.useUtils();
+  const [results, setResults] = useState<NearbyResults['results']>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
   const searchNearby = useCallback(
-    async (location: Location, radiusMiles: number, filters?: SearchFilters) => {
+    async (zipCode: string, radiusMiles: number, filters?: SearchFilters) => {
       setLoading(true);
       setError(null);
 
       try {
-        const supabase = getSupabaseClient();
-
-        // Use PostGIS functions via RPC
-        // Note: This requires the RPC function to be created in Supabase
-        const { data, error: rpcError } = await supabase.rpc('search_listings_by_proximity', {
-          user_lat: location.latitude,
-          user_lng: location.longitude,
-          radius_miles: radiusMiles,
-          filters: filters || {},
+        // Radius search runs server-side against the local ZIP centroid table
+        const data = await utils.vehicles.search.fetch({
+          nearZip: zipCode,
+          radiusMiles,
+          makes: filters?.makes,
+          gvwrClasses: filters?.gvwrClasses,
+          equipmentTypes: filters?.equipmentTypes,
+          conditions: filters?.conditions,
+          minYear: filters?.years?.[0],
+          maxYear: filters?.years?.[1],
+          minPrice: filters?.priceRange?.[0],
+          maxPrice: filters?.priceRange?.[1],
+          sort: 'distance',
         });
-
-        if (rpcError) throw handleSupabaseError(rpcError);
-        setResults(data || []);
+        setResults(data.results);
       } catch (err) {
         setError(err instanceof Error ? err : new Error('Geographic search failed'));
         console.error('Geographic search failed:', err);
@@ -39,9 +38,8 @@ export function useGeographicSearch() {
         setLoading(false);
       }
     },
-    []
+    [utils]
   );
 
   return { results, loading, error, searchNearby };
 }
-
@@ -0,0 +1,26 @@
+/**
+ * Organization role and permissions for the current user, as enforced by the
+ * server. Use `can` to hide or disable dealer actions the role cannot perform.
+ */
+import { useCallback } from 'react';
+import { trpc } from '@/lib/trpc';
+import type { OrgPermission } from '@shared/permissions';
+
+export function useOrgPermissions() {
+  const { data, isLoading } = trpc.user.getPermissions.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+
+  const can = useCallback(
+    (permission: OrgPermission) => data?.permissions.includes(permission) ?? false,
+    [data]
+  );
+
+  return {
+    role: data?.role ?? null,
+    can,
+    isLoading,
+  };
+}
@@ -27,7 +27,7 @@ export function useSupabaseAuth(): UseSupabaseAuthReturn {
         options: {
           data: {
             organization_id: data.organizationId,
-            role: data.role || 'member',
+            role: data.role || 'sales',
             invited_by: data.invitedBy,
           },
         },
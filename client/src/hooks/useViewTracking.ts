@@ -13,30 +13,16 @@ export function useViewTracking(listingId: number) {
 
       try {
         const supabase = getSupabaseClient();
-        const { data: { user } } = await supabase.auth.getUser();
 
-        // Increment view count
-        const { error: rpcError } = await supabase.rpc('increment_view_count', {
-          listing_id: listingId,
+        // Records the view event and increments the listing's view count
+        const { error: rpcError } = await supabase.rpc('record_listing_view', {
+          p_listing_id: listingId,
+          p_referrer: document.referrer || null,
+          p_user_agent: navigator.userAgent || null,
         });
 
         if (rpcError) {
-          console.warn('Failed to increment view count:', rpcError);
-        }
-
-        // Track view event (if table exists)
-        if (user) {
-          const { error: insertError } = await supabase.from('listing_views').insert({
-            listing_id: listingId,
-            user_id: user.id,
-            viewed_at: new Date().toISOString(),
-            referrer: document.referrer || null,
-            user_agent: navigator.userAgent || null,
-          });
-
-          if (insertError) {
-            console.warn('Failed to track view event:', insertError);
-          }
+          console.warn('Failed to track view:', rpcError);
         }
 
         viewTracked.current = true;
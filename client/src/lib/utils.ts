@@ -4,3 +4,12 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Where to send the user after signing in. Honors a same-site `?redirect=`
+ * path (e.g. an invitation link) and falls back to the profile page.
+ */
+export function getPostLoginRedirect(fallback = "/profile"): string {
+  const redirect = new URLSearchParams(window.location.search).get("redirect");
+  return redirect && redirect.startsWith("/") && !redirect.startsWith("//") ? redirect : fallback;
+}
@@ -1,7 +1,7 @@
 import { trpc } from "@/lib/trpc";
 import { UNAUTHED_ERR_MSG } from '@shared/const';
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { httpBatchLink, TRPCClientError } from "@trpc/client";
+import { httpBatchLink, httpSubscriptionLink, splitLink, TRPCClientError } from "@trpc/client";
 import { createRoot } from "react-dom/client";
 import superjson from "superjson";
 import App from "./App";
@@ -111,36 +111,48 @@ async function getSupabaseToken(): Promise<string | null> {
 
 const trpcClient = trpc.createClient({
   links: [
-    httpBatchLink({
-      url: "/api/trpc",
-      transformer: superjson,
-      async headers() {
-        const token = await getSupabaseToken();
-        if (token) {
-          return {
-            authorization: `Bearer ${token}`,
-          };
-        }
-        return {};
-      },
-      fetch(input, init) {
-        // Add timeout to fetch requests (25 seconds - slightly less than component timeout)
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => {
-          console.warn("[tRPC] Request timeout after 25 seconds");
-          controller.abort();
-        }, 25000);
+    splitLink({
+      condition: (op) => op.type === "subscription",
+      // EventSource cannot send headers, so the token goes as a connection param
+      true: httpSubscriptionLink({
+        url: "/api/trpc",
+        transformer: superjson,
+        async connectionParams() {
+          const token = await getSupabaseToken();
+          return token ? { authorization: `Bearer ${token}` } : {};
+        },
+      }),
+      false: httpBatchLink({
+        url: "/api/trpc",
+        transformer: superjson,
+        async headers() {
+          const token = await getSupabaseToken();
+          if (token) {
+            return {
+              authorization: `Bearer ${token}`,
+            };
+          }
+          return {};
+        },
+        fetch(input, init) {
+          // Add timeout to fetch requests (25 seconds - slightly less than component timeout)
+          const controller = new AbortController();
+          const timeoutId = setTimeout(() => {
+            console.warn("[tRPC] Request timeout after 25 seconds");
+            controller.abort();
+          }, 25000);
 
-        return globalThis
-          .fetch(input, {
-            ...(init ?? {}),
-            credentials: "include",
-            signal: controller.signal,
-          })
-          .finally(() => {
-            clearTimeout(timeoutId);
-          });
-      },
+          return globalThis
+            .fetch(input, {
+              ...(init ?? {}),
+              credentials: "include",
+              signal: controller.signal,
+            })
+            .finally(() => {
+              clearTimeout(timeoutId);
+            });
+        },
+      }),
     }),
   ],
 });
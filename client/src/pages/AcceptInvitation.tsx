@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'wouter';
+import { getSupabaseClient } from '@/lib/supabase';
+import { trpc } from '@/lib/trpc';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, AlertCircle, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { ORG_ROLE_LABELS } from '@shared/permissions';
+
+export default function AcceptInvitation() {
+  const token = new URLSearchParams(window.location.search).get('token') ?? '';
+  const [sessionEmail, setSessionEmail] = useState<string | null>(null);
+  const [sessionChecked, setSessionChecked] = useState(false);
+
+  const { data: invitation, isLoading, error } = trpc.team.getInvitation.useQuery(
+    { token },
+    { enabled: token.length > 0, retry: false, refetchOnWindowFocus: false }
+  );
+
+  const accept = trpc.team.acceptInvitation.useMutation({
+    onSuccess: () => {
+      toast.success(`You joined ${invitation?.organizationName ?? 'the organization'}`);
+      // Full reload so auth and organization state are picked up fresh
+      window.location.href = '/dealer';
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  useEffect(() => {
+    // Invited users arriving from the Supabase email get their session from the URL hash
+    const supabase = getSupabaseClient();
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSessionEmail(session?.user.email ?? null);
+      setSessionChecked(true);
+    });
+  }, []);
+
+  const redirectPath = `/invite?token=${encodeURIComponent(token)}`;
+  const emailMatches =
+    !!invitation && !!sessionEmail && sessionEmail.toLowerCase() === invitation.email.toLowerCase();
+
+  const renderContent = () => {
+    if (!token) {
+      return (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>This invitation link is missing its token.</AlertDescription>
+        </Alert>
+      );
+    }
+
+    if (isLoading || !sessionChecked) {
+      return (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (error || !invitation) {
+      return (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {error?.message || 'This invitation could not be found.'} Ask your administrator for a new invite.
+          </AlertDescription>
+        </Alert>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-center text-muted-foreground">
+          You have been invited to join <strong>{invitation.organizationName}</strong> as{' '}
+          <strong>{ORG_ROLE_LABELS[invitation.role]}</strong>.
+        </p>
+        <p className="text-center text-sm text-muted-foreground">
+          Invitation for {invitation.email} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+        </p>
+
+        {!sessionEmail && (
+          <div className="flex flex-col gap-2">
+            <Link href={`/login?redirect=${encodeURIComponent(redirectPath)}`}>
+              <Button className="w-full">Log in to accept</Button>
+            </Link>
+            <Link href="/signup">
+              <Button variant="outline" className="w-full">Create an account</Button>
+            </Link>
+            <p className="text-center text-xs text-muted-foreground">
+              New here? Sign up with {invitation.email}, verify your email, then open this link again.
+            </p>
+          </div>
+        )}
+
+        {sessionEmail && !emailMatches && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              You are signed in as {sessionEmail}. Sign in as {invitation.email} to accept this invitation.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {emailMatches && (
+          <Button className="w-full" onClick={() => accept.mutate({ token })} disabled={accept.isPending}>
+            {accept.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Accept Invitation
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background">
+      <Card className="max-w-md w-full mx-4">
+        <CardHeader>
+          <div className="flex items-center justify-center mb-4">
+            <Users className="w-12 h-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl text-center">Team Invitation</CardTitle>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+}
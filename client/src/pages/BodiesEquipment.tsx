@@ -13,7 +13,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { Package, DollarSign, Clock, CheckCircle, Loader2, Search } from "lucide-react";
+import LocationFilter, { DEFAULT_RADIUS, isCompleteZip } from "@/components/search/LocationFilter";
+import { Package, DollarSign, Clock, CheckCircle, Loader2, Search, MapPin } from "lucide-react";
 
 export default function BodiesEquipment() {
   const [category, setCategory] = useState<string | undefined>(undefined);
@@ -22,15 +23,21 @@ export default function BodiesEquipment() {
   const [maxPrice, setMaxPrice] = useState<string>("");
   const [stockStatus, setStockStatus] = useState<string | undefined>(undefined);
   const [searchTerm, setSearchTerm] = useState<string>("");
+  const [zip, setZip] = useState<string>("");
+  const [radius, setRadius] = useState<number>(DEFAULT_RADIUS);
 
-  const { data: items, isLoading } = trpc.bodiesEquipment.list.useQuery({
+  const nearZip = isCompleteZip(zip) ? zip : undefined;
+
+  const { data: items, isLoading, error } = trpc.bodiesEquipment.list.useQuery({
     category,
     manufacturer,
     minPrice: minPrice ? parseInt(minPrice) : undefined,
     maxPrice: maxPrice ? parseInt(maxPrice) : undefined,
     stockStatus,
+    nearZip,
+    radiusMiles: nearZip ? radius : undefined,
     limit: 50,
-  });
+  }, { retry: false });
 
   // Get unique values for filters from actual data
   const categories = items ? Array.from(new Set(items.map(item => item.category))) : [];
@@ -113,6 +120,14 @@ export default function BodiesEquipment() {
                   </div>
                 </div>
 
+                <LocationFilter
+                  zip={zip}
+                  radius={radius}
+                  onZipChange={setZip}
+                  onRadiusChange={setRadius}
+                  error={nearZip ? error?.message : null}
+                />
+
                 {/* Category Filter */}
                 <div className="mb-4">
                   <label className="text-sm font-medium mb-2 block">Category</label>
@@ -195,6 +210,7 @@ export default function BodiesEquipment() {
                     setMaxPrice("");
                     setStockStatus(undefined);
                     setSearchTerm("");
+                    setZip("");
                   }}
                 >
                   Clear All Filters
@@ -240,6 +256,7 @@ export default function BodiesEquipment() {
                     setMaxPrice("");
                     setStockStatus(undefined);
                     setSearchTerm("");
+                    setZip("");
                   }}>
                     Clear Filters
                   </Button>
@@ -290,6 +307,12 @@ export default function BodiesEquipment() {
                                 {formatPrice(item.msrp)}
                               </p>
                             </div>
+                            {item.distanceMiles != null && (
+                              <div className="flex items-center text-sm text-gray-600">
+                                <MapPin className="h-4 w-4 mr-1" />
+                                {item.distanceMiles} mi
+                              </div>
+                            )}
                             {item.leadTimeDays && (
                               <div className="flex items-center text-sm text-gray-600">
                                 <Clock className="h-4 w-4 mr-1" />
@@ -72,7 +72,7 @@ export default function BodyEquipmentDetail() {
       message: formData.message || undefined,
       leadType: "inquiry",
       leadSource: "marketplace",
-      companyId: item.companyId,
+      companyId: item.companyId ?? Number(item.created_by_dealer_id),
     });
   };
 
@@ -192,7 +192,7 @@ export default function BodyEquipmentDetail() {
             <div>
               <div className="mb-4">
                 <span className="text-sm font-medium text-primary">
-                  {getCategoryLabel(item.category)}
+                  {getCategoryLabel(item.category ?? item.equipment_type)}
                 </span>
               </div>
               <h1 className="text-3xl font-bold mb-2">{item.name}</h1>
@@ -207,7 +207,7 @@ export default function BodyEquipmentDetail() {
                 <div className="flex items-center gap-2">
                   <DollarSign size={28} className="text-primary" />
                   <span className="text-4xl font-bold text-primary">
-                    {formatPrice(item.salePrice)}
+                    {formatPrice(item.salePrice ?? null)}
                   </span>
                 </div>
                 {item.msrp && item.salePrice && item.msrp > item.salePrice && (
@@ -13,7 +13,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { Zap, DollarSign, Gauge, CheckCircle, Loader2, Search } from "lucide-react";
+import LocationFilter, { DEFAULT_RADIUS, isCompleteZip } from "@/components/search/LocationFilter";
+import { Zap, DollarSign, Gauge, CheckCircle, Loader2, Search, MapPin } from "lucide-react";
 
 export default function Infrastructure() {
   const [category, setCategory] = useState<string | undefined>(undefined);
@@ -22,15 +23,21 @@ export default function Infrastructure() {
   const [maxPower, setMaxPower] = useState<string>("");
   const [connectorType, setConnectorType] = useState<string | undefined>(undefined);
   const [searchTerm, setSearchTerm] = useState<string>("");
+  const [zip, setZip] = useState<string>("");
+  const [radius, setRadius] = useState<number>(DEFAULT_RADIUS);
 
-  const { data: items, isLoading } = trpc.infrastructure.list.useQuery({
+  const nearZip = isCompleteZip(zip) ? zip : undefined;
+
+  const { data: items, isLoading, error } = trpc.infrastructure.list.useQuery({
     category,
     manufacturer,
     minPower: minPower ? parseInt(minPower) : undefined,
     maxPower: maxPower ? parseInt(maxPower) : undefined,
     connectorType,
+    nearZip,
+    radiusMiles: nearZip ? radius : undefined,
     limit: 50,
-  });
+  }, { retry: false });
 
   // Get unique values for filters from actual data
   const categories = items ? Array.from(new Set(items.map(item => item.category))) : [];
@@ -117,6 +124,14 @@ export default function Infrastructure() {
                   </div>
                 </div>
 
+                <LocationFilter
+                  zip={zip}
+                  radius={radius}
+                  onZipChange={setZip}
+                  onRadiusChange={setRadius}
+                  error={nearZip ? error?.message : null}
+                />
+
                 {/* Category Filter */}
                 <div className="mb-4">
                   <label className="text-sm font-medium mb-2 block">Charging Level</label>
@@ -201,6 +216,7 @@ export default function Infrastructure() {
                     setMaxPower("");
                     setConnectorType(undefined);
                     setSearchTerm("");
+                    setZip("");
                   }}
                 >
                   Clear All Filters
@@ -246,6 +262,7 @@ export default function Infrastructure() {
                     setMaxPower("");
                     setConnectorType(undefined);
                     setSearchTerm("");
+                    setZip("");
                   }}>
                     Clear Filters
                   </Button>
@@ -304,6 +321,12 @@ export default function Infrastructure() {
                                 {formatPrice(item.msrp)}
                               </p>
                             </div>
+                            {item.distanceMiles != null && (
+                              <div className="flex items-center text-sm text-gray-600">
+                                <MapPin className="h-4 w-4 mr-1" />
+                                {item.distanceMiles} mi
+                              </div>
+                            )}
                           </div>
                         </CardContent>
                       </Card>
@@ -1,10 +1,11 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link } from "wouter";
 import Navigation from "@/components/Navigation";
 import Footer from "@/components/Footer";
 import { trpc } from "@/lib/trpc";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -13,33 +14,240 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { Truck, CheckCircle, Loader2, Search } from "lucide-react";
+import LocationFilter, { DEFAULT_RADIUS, isCompleteZip } from "@/components/search/LocationFilter";
+import SaveSearchDialog from "@/components/search/SaveSearchDialog";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import type { SearchFilters } from "@/hooks/useAdvancedListingSearch";
+import { toast } from "sonner";
+import { Truck, CheckCircle, Loader2, Search, ChevronLeft, ChevronRight, MapPin, BellPlus, TrendingDown } from "lucide-react";
+
+const PAGE_SIZE = 24;
+
+// SearchFilters ranges need both ends; open-ended inputs save as these bounds
+const YEAR_FLOOR = 1900;
+const YEAR_CEILING = new Date().getFullYear() + 2;
+const PRICE_CEILING = 10_000_000;
+
+type SortOption = "newest" | "price_asc" | "price_desc" | "year_desc" | "year_asc" | "distance";
+
+type FacetKey = "makes" | "fuelTypes" | "bodyStyles" | "gvwrClasses" | "equipmentTypes" | "conditions";
+
+interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+const EMPTY_SELECTIONS: Record<FacetKey, string[]> = {
+  makes: [],
+  fuelTypes: [],
+  bodyStyles: [],
+  gvwrClasses: [],
+  equipmentTypes: [],
+  conditions: [],
+};
+
+const formatLabel = (value: string) =>
+  value
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+/**
+ * Checkbox list for one facet. Selected values stay visible with a zero
+ * count so they can still be cleared when other filters exclude them.
+ */
+function FacetFilter({
+  label,
+  buckets,
+  selected,
+  onToggle,
+  formatValue = (value) => value,
+}: {
+  label: string;
+  buckets: FacetBucket[];
+  selected: string[];
+  onToggle: (value: string) => void;
+  formatValue?: (value: string) => string;
+}) {
+  const missing = selected
+    .filter((value) => !buckets.some((bucket) => bucket.value === value))
+    .map((value) => ({ value, count: 0 }));
+  const options = [...buckets, ...missing];
+
+  if (options.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <label className="text-sm font-medium mb-2 block">{label}</label>
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {options.map((bucket) => {
+          const id = `${label}-${bucket.value}`;
+          return (
+            <div key={bucket.value} className="flex items-center gap-2">
+              <Checkbox
+                id={id}
+                checked={selected.includes(bucket.value)}
+                onCheckedChange={() => onToggle(bucket.value)}
+              />
+              <label htmlFor={id} className="text-sm flex-1 cursor-pointer">
+                {formatValue(bucket.value)}
+              </label>
+              <span className="text-xs text-gray-500">{bucket.count}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const toRange = (min: string, max: string, floor: number, ceiling: number): [number, number] | undefined =>
+  min || max ? [min ? parseInt(min) : floor, max ? parseInt(max) : ceiling] : undefined;
+
+const fromBound = (value: number | undefined, openValue: number) =>
+  value === undefined || value === openValue ? "" : String(value);
 
 export default function Inventory() {
-  const [fuelType, setFuelType] = useState<string | undefined>(undefined);
-  const [make, setMake] = useState<string | undefined>(undefined);
-  const [bodyType, setBodyType] = useState<string | undefined>(undefined);
+  const { user } = useCurrentUser();
+  const [selections, setSelections] = useState<Record<FacetKey, string[]>>(EMPTY_SELECTIONS);
   const [minYear, setMinYear] = useState<string>("");
   const [maxYear, setMaxYear] = useState<string>("");
   const [minPrice, setMinPrice] = useState<string>("");
   const [maxPrice, setMaxPrice] = useState<string>("");
   const [searchTerm, setSearchTerm] = useState<string>("");
-
-  const { data: vehicles, isLoading } = trpc.vehicles.list.useQuery({
-    fuelType: fuelType && fuelType !== "__all__" ? [fuelType] : undefined,
-    make: make && make !== "__all__" ? [make] : undefined,
-    bodyType: bodyType && bodyType !== "__all__" ? [bodyType] : undefined,
-    minYear: minYear ? parseInt(minYear) : undefined,
-    maxYear: maxYear ? parseInt(maxYear) : undefined,
-    minPrice: minPrice ? parseInt(minPrice) : undefined,
-    maxPrice: maxPrice ? parseInt(maxPrice) : undefined,
-    limit: 50,
+  const [debouncedSearch, setDebouncedSearch] = useState<string>("");
+  const [zip, setZip] = useState<string>("");
+  const [radius, setRadius] = useState<number>(DEFAULT_RADIUS);
+  const [sort, setSort] = useState<SortOption>("newest");
+  const [page, setPage] = useState(0);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [savedSearchId] = useState(() => {
+    const id = Number(new URLSearchParams(window.location.search).get("savedSearch"));
+    return Number.isInteger(id) && id > 0 ? id : null;
   });
 
-  // Get unique values for filters from actual data
-  const fuelTypes = vehicles ? Array.from(new Set(vehicles.map(v => v.fuelType).filter(Boolean))) : [];
-  const makes = vehicles ? Array.from(new Set(vehicles.map(v => v.make).filter(Boolean))) : [];
-  const bodyTypes = vehicles ? Array.from(new Set(vehicles.map(v => v.bodyType).filter(Boolean))) : [];
+  const nearZip = isCompleteZip(zip) ? zip : undefined;
+
+  // Avoid a query per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Nearest first once a ZIP is entered
+  useEffect(() => {
+    setSort((current) => (nearZip ? "distance" : current === "distance" ? "newest" : current));
+  }, [nearZip]);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [selections, minYear, maxYear, minPrice, maxPrice, debouncedSearch, nearZip, radius, sort]);
+
+  // Opening /inventory?savedSearch=ID (from an alert) restores that search's filters
+  const { data: savedSearch } = trpc.savedSearches.get.useQuery(
+    { id: savedSearchId ?? 0 },
+    { enabled: savedSearchId !== null && !!user, retry: false }
+  );
+
+  useEffect(() => {
+    if (!savedSearch) return;
+    const filters: SearchFilters = savedSearch.filters;
+    const location = filters.locations?.find((entry) => entry.zip);
+    setSelections({
+      makes: filters.makes ?? [],
+      fuelTypes: filters.fuelTypes ?? [],
+      bodyStyles: filters.bodyStyles ?? [],
+      gvwrClasses: filters.gvwrClasses ?? [],
+      equipmentTypes: filters.equipmentTypes ?? [],
+      conditions: filters.conditions ?? [],
+    });
+    setMinYear(fromBound(filters.years?.[0], YEAR_FLOOR));
+    setMaxYear(fromBound(filters.years?.[1], YEAR_CEILING));
+    setMinPrice(fromBound(filters.priceRange?.[0], 0));
+    setMaxPrice(fromBound(filters.priceRange?.[1], PRICE_CEILING));
+    setSearchTerm(filters.query ?? "");
+    setZip(location?.zip ?? "");
+    setRadius(location?.radiusMiles ?? DEFAULT_RADIUS);
+  }, [savedSearch]);
+
+  const { data, isLoading, isFetching, error } = trpc.vehicles.search.useQuery(
+    {
+      query: debouncedSearch || undefined,
+      makes: selections.makes,
+      fuelTypes: selections.fuelTypes,
+      bodyStyles: selections.bodyStyles,
+      gvwrClasses: selections.gvwrClasses,
+      equipmentTypes: selections.equipmentTypes,
+      conditions: selections.conditions,
+      minYear: minYear ? parseInt(minYear) : undefined,
+      maxYear: maxYear ? parseInt(maxYear) : undefined,
+      minPrice: minPrice ? parseInt(minPrice) : undefined,
+      maxPrice: maxPrice ? parseInt(maxPrice) : undefined,
+      nearZip,
+      radiusMiles: nearZip ? radius : undefined,
+      sort,
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+    },
+    { placeholderData: (previous) => previous, retry: false }
+  );
+
+  const vehicles = data?.results ?? [];
+  const total = data?.total ?? 0;
+  const facets = data?.facets;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const hasFilters =
+    Object.values(selections).some((values) => values.length > 0) ||
+    !!(minYear || maxYear || minPrice || maxPrice || searchTerm || zip);
+
+  const nonEmpty = (values: string[]) => (values.length > 0 ? values : undefined);
+
+  const currentFilters: SearchFilters = {
+    query: debouncedSearch || undefined,
+    makes: nonEmpty(selections.makes),
+    fuelTypes: nonEmpty(selections.fuelTypes),
+    bodyStyles: nonEmpty(selections.bodyStyles),
+    gvwrClasses: nonEmpty(selections.gvwrClasses),
+    equipmentTypes: nonEmpty(selections.equipmentTypes),
+    conditions: nonEmpty(selections.conditions),
+    years: toRange(minYear, maxYear, YEAR_FLOOR, YEAR_CEILING),
+    priceRange: toRange(minPrice, maxPrice, 0, PRICE_CEILING),
+    locations: nearZip ? [{ zip: nearZip, radiusMiles: radius }] : undefined,
+  };
+
+  const openSaveSearch = () => {
+    if (!user) {
+      toast.info("Sign in to save searches and get alerts");
+      return;
+    }
+    setSaveOpen(true);
+  };
+
+  const toggleFacet = (key: FacetKey) => (value: string) => {
+    setSelections((current) => ({
+      ...current,
+      [key]: current[key].includes(value)
+        ? current[key].filter((item) => item !== value)
+        : [...current[key], value],
+    }));
+  };
+
+  const selectYear = (year: string) => {
+    setMinYear(year);
+    setMaxYear(year);
+  };
+
+  const clearFilters = () => {
+    setSelections(EMPTY_SELECTIONS);
+    setMinYear("");
+    setMaxYear("");
+    setMinPrice("");
+    setMaxPrice("");
+    setSearchTerm("");
+    setZip("");
+  };
 
   const formatPrice = (price: number | null) => {
     if (!price) return "Contact for pricing";
@@ -50,19 +258,6 @@ export default function Inventory() {
     }).format(price);
   };
 
-  const filteredVehicles = vehicles?.filter(vehicle => {
-    if (searchTerm) {
-      const search = searchTerm.toLowerCase();
-      return (
-        vehicle.make?.toLowerCase().includes(search) ||
-        vehicle.model?.toLowerCase().includes(search) ||
-        vehicle.fuelType?.toLowerCase().includes(search) ||
-        vehicle.bodyType?.toLowerCase().includes(search)
-      );
-    }
-    return true;
-  });
-
   return (
     <div className="min-h-screen flex flex-col bg-background">
       <Navigation />
@@ -102,59 +297,62 @@ export default function Inventory() {
                   </div>
                 </div>
 
-                {/* Fuel Type Filter */}
-                <div className="mb-4">
-                  <label className="text-sm font-medium mb-2 block">Fuel Type</label>
-                  <Select value={fuelType} onValueChange={setFuelType}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="All Fuel Types" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="__all__">All Fuel Types</SelectItem>
-                      {fuelTypes.map((ft) => (
-                        <SelectItem key={ft} value={ft}>
-                          {ft}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+                <LocationFilter
+                  zip={zip}
+                  radius={radius}
+                  onZipChange={setZip}
+                  onRadiusChange={setRadius}
+                  error={
+                    nearZip
+                      ? error?.message ??
+                        (data?.unknownZip ? `Couldn't locate ZIP ${nearZip}; showing listings from all locations` : null)
+                      : null
+                  }
+                />
 
-                {/* Make Filter */}
-                <div className="mb-4">
-                  <label className="text-sm font-medium mb-2 block">Make</label>
-                  <Select value={make} onValueChange={setMake}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="All Makes" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="__all__">All Makes</SelectItem>
-                      {makes.map((m) => (
-                        <SelectItem key={m} value={m}>
-                          {m}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+                <FacetFilter
+                  label="Make"
+                  buckets={facets?.make ?? []}
+                  selected={selections.makes}
+                  onToggle={toggleFacet("makes")}
+                />
 
-                {/* Body Type Filter */}
-                <div className="mb-4">
-                  <label className="text-sm font-medium mb-2 block">Body Type</label>
-                  <Select value={bodyType} onValueChange={setBodyType}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="All Body Types" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="__all__">All Body Types</SelectItem>
-                      {bodyTypes.map((bt) => (
-                        <SelectItem key={bt} value={bt}>
-                          {bt}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+                <FacetFilter
+                  label="Fuel Type"
+                  buckets={facets?.fuelType ?? []}
+                  selected={selections.fuelTypes}
+                  onToggle={toggleFacet("fuelTypes")}
+                />
+
+                <FacetFilter
+                  label="Body Type"
+                  buckets={facets?.bodyStyle ?? []}
+                  selected={selections.bodyStyles}
+                  onToggle={toggleFacet("bodyStyles")}
+                />
+
+                <FacetFilter
+                  label="GVWR Class"
+                  buckets={facets?.gvwrClass ?? []}
+                  selected={selections.gvwrClasses}
+                  onToggle={toggleFacet("gvwrClasses")}
+                />
+
+                <FacetFilter
+                  label="Equipment"
+                  buckets={facets?.equipmentType ?? []}
+                  selected={selections.equipmentTypes}
+                  onToggle={toggleFacet("equipmentTypes")}
+                  formatValue={formatLabel}
+                />
+
+                <FacetFilter
+                  label="Condition"
+                  buckets={facets?.condition ?? []}
+                  selected={selections.conditions}
+                  onToggle={toggleFacet("conditions")}
+                  formatValue={formatLabel}
+                />
 
                 {/* Year Range */}
                 <div className="mb-4">
@@ -173,6 +371,21 @@ export default function Inventory() {
                       onChange={(e) => setMaxYear(e.target.value)}
                     />
                   </div>
+                  {facets && facets.year.length > 1 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {facets.year.map((bucket) => (
+                        <Button
+                          key={bucket.value}
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => selectYear(bucket.value)}
+                        >
+                          {bucket.value} ({bucket.count})
+                        </Button>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 {/* Price Range */}
@@ -198,16 +411,7 @@ export default function Inventory() {
                 <Button
                   variant="outline"
                   className="w-full"
-                  onClick={() => {
-                    setFuelType(undefined);
-                    setMake(undefined);
-                    setBodyType(undefined);
-                    setMinYear("");
-                    setMaxYear("");
-                    setMinPrice("");
-                    setMaxPrice("");
-                    setSearchTerm("");
-                  }}
+                  onClick={clearFilters}
                 >
                   Clear All Filters
                 </Button>
@@ -217,15 +421,35 @@ export default function Inventory() {
             {/* Results */}
             <div className="lg:col-span-3">
               {/* Results Header */}
-              <div className="flex items-center justify-between mb-6">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
                 <div>
-                  <h2 className="text-2xl font-bold">
-                    {isLoading ? "Loading..." : `${filteredVehicles?.length || 0} Results`}
+                  <h2 className="text-2xl font-bold flex items-center gap-2">
+                    {isLoading ? "Loading..." : `${total} ${total === 1 ? "Result" : "Results"}`}
+                    {isFetching && !isLoading && <Loader2 className="h-5 w-5 animate-spin text-gray-400" />}
                   </h2>
                   <p className="text-gray-600 mt-1">
-                    Browse available commercial vehicles
+                    {savedSearch ? `Saved search: ${savedSearch.name}` : "Browse available commercial vehicles"}
                   </p>
                 </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" onClick={openSaveSearch}>
+                    <BellPlus className="h-4 w-4 mr-2" />
+                    Save Search
+                  </Button>
+                  <Select value={sort} onValueChange={(value) => setSort(value as SortOption)}>
+                    <SelectTrigger className="w-[200px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="newest">Newest Listings</SelectItem>
+                      <SelectItem value="price_asc">Price: Low to High</SelectItem>
+                      <SelectItem value="price_desc">Price: High to Low</SelectItem>
+                      <SelectItem value="year_desc">Year: Newest First</SelectItem>
+                      <SelectItem value="year_asc">Year: Oldest First</SelectItem>
+                      {nearZip && <SelectItem value="distance">Distance: Nearest First</SelectItem>}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
               {/* Loading State */}
@@ -236,34 +460,25 @@ export default function Inventory() {
               )}
 
               {/* Empty State */}
-              {!isLoading && (!filteredVehicles || filteredVehicles.length === 0) && (
+              {!isLoading && vehicles.length === 0 && (
                 <Card className="p-12 text-center">
                   <Truck className="h-16 w-16 mx-auto mb-4 text-gray-400" />
                   <h3 className="text-xl font-semibold mb-2">No Vehicles Found</h3>
                   <p className="text-gray-600 mb-6">
-                    {searchTerm || fuelType || make
+                    {hasFilters
                       ? "Try adjusting your filters to see more results"
                       : "There are currently no vehicle listings available"}
                   </p>
-                  <Button onClick={() => {
-                    setFuelType(undefined);
-                    setMake(undefined);
-                    setBodyType(undefined);
-                    setMinYear("");
-                    setMaxYear("");
-                    setMinPrice("");
-                    setMaxPrice("");
-                    setSearchTerm("");
-                  }}>
+                  <Button onClick={clearFilters}>
                     Clear Filters
                   </Button>
                 </Card>
               )}
 
               {/* Results Grid */}
-              {!isLoading && filteredVehicles && filteredVehicles.length > 0 && (
+              {!isLoading && vehicles.length > 0 && (
                 <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-                  {filteredVehicles.map((vehicle) => (
+                  {vehicles.map((vehicle) => (
                     <Link key={vehicle.id} href={`/vehicle/${vehicle.id}`}>
                       <Card className="h-full hover:shadow-lg transition-shadow cursor-pointer">
                         <div className="aspect-video bg-gray-100 relative overflow-hidden">
@@ -283,6 +498,12 @@ export default function Inventory() {
                               Featured
                             </div>
                           )}
+                          {vehicle.previousPrice !== null && (
+                            <div className="absolute top-2 left-2 bg-red-600 text-white px-2 py-1 rounded text-xs font-medium flex items-center">
+                              <TrendingDown className="h-3 w-3 mr-1" />
+                              Price Dropped
+                            </div>
+                          )}
                         </div>
                         <CardContent className="p-4">
                           <div className="mb-2">
@@ -298,13 +519,30 @@ export default function Inventory() {
                               {vehicle.fuelType} • {vehicle.bodyType}
                             </p>
                           )}
+                          {(vehicle.gvwrClass || vehicle.equipmentType) && (
+                            <p className="text-sm text-gray-600 mb-2">
+                              {[vehicle.gvwrClass, vehicle.equipmentType && formatLabel(vehicle.equipmentType)]
+                                .filter(Boolean)
+                                .join(" • ")}
+                            </p>
+                          )}
                           <div className="flex items-center justify-between mt-4">
                             <div>
                               <p className="text-2xl font-bold text-primary">
                                 {formatPrice(vehicle.salePrice)}
                               </p>
+                              {vehicle.previousPrice !== null && (
+                                <p className="text-sm text-gray-500 line-through">
+                                  {formatPrice(vehicle.previousPrice)}
+                                </p>
+                              )}
                             </div>
-                            {vehicle.stockNumber && (
+                            {vehicle.distanceMiles !== null ? (
+                              <div className="flex items-center text-sm text-gray-600">
+                                <MapPin className="h-4 w-4 mr-1" />
+                                {vehicle.distanceMiles} mi
+                              </div>
+                            ) : vehicle.stockNumber && (
                               <div className="flex items-center text-sm text-gray-600">
                                 <CheckCircle className="h-4 w-4 mr-1" />
                                 Stock #{vehicle.stockNumber}
@@ -317,11 +555,45 @@ export default function Inventory() {
                   ))}
                 </div>
               )}
+
+              {/* Pagination */}
+              {!isLoading && total > PAGE_SIZE && (
+                <div className="flex items-center justify-between mt-8">
+                  <p className="text-sm text-gray-600">
+                    Showing {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, total)} of {total}
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={page === 0}
+                      onClick={() => setPage((current) => current - 1)}
+                    >
+                      <ChevronLeft className="h-4 w-4 mr-1" />
+                      Previous
+                    </Button>
+                    <span className="text-sm text-gray-600">
+                      Page {page + 1} of {pageCount}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={page + 1 >= pageCount}
+                      onClick={() => setPage((current) => current + 1)}
+                    >
+                      Next
+                      <ChevronRight className="h-4 w-4 ml-1" />
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
       </section>
 
+      <SaveSearchDialog open={saveOpen} onOpenChange={setSaveOpen} filters={currentFilters} />
+
       <Footer />
     </div>
   );
@@ -4,6 +4,7 @@ import Footer from "@/components/Footer";
 import { useEffect } from "react";
 import { useLocation } from "wouter";
 import { getSupabaseClient } from "@/lib/supabase";
+import { getPostLoginRedirect } from "@/lib/utils";
 
 export default function Login() {
   const [, setLocation] = useLocation();
@@ -18,7 +19,7 @@ export default function Login() {
         if (user) {
           console.log('[Login] User already authenticated, redirecting to profile');
           // User is already logged in, redirect to profile page
-          setLocation('/profile');
+          setLocation(getPostLoginRedirect());
         }
       } catch (error) {
         // If check fails, stay on login page
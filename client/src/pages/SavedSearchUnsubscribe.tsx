@@ -0,0 +1,71 @@
+import { useEffect } from 'react';
+import { Link } from 'wouter';
+import { trpc } from '@/lib/trpc';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, AlertCircle, BellOff } from 'lucide-react';
+
+export default function SavedSearchUnsubscribe() {
+  const token = new URLSearchParams(window.location.search).get('token') ?? '';
+  const unsubscribe = trpc.savedSearches.unsubscribe.useMutation();
+
+  // The link itself is the confirmation; no sign-in required
+  useEffect(() => {
+    if (token) unsubscribe.mutate({ token });
+  }, [token]);
+
+  const renderContent = () => {
+    if (!token) {
+      return (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>This unsubscribe link is missing its token.</AlertDescription>
+        </Alert>
+      );
+    }
+
+    if (unsubscribe.isError) {
+      return (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{unsubscribe.error.message}</AlertDescription>
+        </Alert>
+      );
+    }
+
+    if (!unsubscribe.isSuccess) {
+      return (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-center text-muted-foreground">
+          You will no longer get emails for <strong>{unsubscribe.data.name}</strong>. Alerts still appear in your
+          notifications when you are signed in.
+        </p>
+        <Link href="/saved-searches">
+          <Button variant="outline" className="w-full">Manage saved searches</Button>
+        </Link>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background">
+      <Card className="max-w-md w-full mx-4">
+        <CardHeader>
+          <div className="flex items-center justify-center mb-4">
+            <BellOff className="w-12 h-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl text-center">Email Alerts</CardTitle>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+}
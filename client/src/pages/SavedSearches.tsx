@@ -0,0 +1,179 @@
+import { Link } from "wouter";
+import { toast } from "sonner";
+import Navigation from "@/components/Navigation";
+import Footer from "@/components/Footer";
+import { trpc } from "@/lib/trpc";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ALERT_FREQUENCY_LABELS,
+  describeSearchFilters,
+  type AlertFrequency,
+} from "@/components/search/SaveSearchDialog";
+import { Bell, Loader2, Search, Trash2 } from "lucide-react";
+
+export default function SavedSearches() {
+  const { user, loading: authLoading } = useCurrentUser();
+  const utils = trpc.useUtils();
+
+  const { data: searches, isLoading } = trpc.savedSearches.list.useQuery(undefined, {
+    enabled: !!user,
+  });
+
+  const onError = (error: { message: string }) => toast.error(error.message);
+  const refresh = () => utils.savedSearches.list.invalidate();
+
+  const update = trpc.savedSearches.update.useMutation({
+    onSuccess: refresh,
+    onError,
+  });
+
+  const remove = trpc.savedSearches.delete.useMutation({
+    onSuccess: async () => {
+      toast.success("Saved search deleted");
+      await refresh();
+    },
+    onError,
+  });
+
+  const renderContent = () => {
+    if (authLoading || (user && isLoading)) {
+      return (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <Card className="p-12 text-center">
+          <Bell className="h-16 w-16 mx-auto mb-4 text-gray-400" />
+          <h3 className="text-xl font-semibold mb-2">Sign in to see your saved searches</h3>
+          <Button asChild>
+            <Link href={`/login?redirect=${encodeURIComponent("/saved-searches")}`}>Sign In</Link>
+          </Button>
+        </Card>
+      );
+    }
+
+    if (!searches || searches.length === 0) {
+      return (
+        <Card className="p-12 text-center">
+          <Search className="h-16 w-16 mx-auto mb-4 text-gray-400" />
+          <h3 className="text-xl font-semibold mb-2">No saved searches yet</h3>
+          <p className="text-gray-600 mb-6">
+            Set your filters on the inventory page and choose Save Search to get alerts for new matches.
+          </p>
+          <Button asChild>
+            <Link href="/inventory">Browse Vehicles</Link>
+          </Button>
+        </Card>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {searches.map((search) => (
+          <Card key={search.id}>
+            <CardContent className="p-6">
+              <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-lg">{search.name}</h3>
+                  <p className="text-sm text-gray-600 mt-1">{describeSearchFilters(search.filters)}</p>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Saved {new Date(search.createdAt).toLocaleDateString()}
+                    {search.lastEmailedAt && ` · last emailed ${new Date(search.lastEmailedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/inventory?savedSearch=${search.id}`}>View Results</Link>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Delete saved search"
+                    disabled={remove.isPending}
+                    onClick={() => remove.mutate({ id: search.id })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4 mt-4 pt-4 border-t">
+                <Select
+                  value={search.alertFrequency}
+                  onValueChange={(value) =>
+                    update.mutate({ id: search.id, alertFrequency: value as AlertFrequency })
+                  }
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ALERT_FREQUENCY_LABELS) as AlertFrequency[]).map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {ALERT_FREQUENCY_LABELS[frequency]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`email-${search.id}`}
+                    checked={search.emailEnabled}
+                    disabled={search.alertFrequency === "none"}
+                    onCheckedChange={(checked) => update.mutate({ id: search.id, emailEnabled: checked })}
+                  />
+                  <Label htmlFor={`email-${search.id}`}>Email</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`in-app-${search.id}`}
+                    checked={search.inAppEnabled}
+                    disabled={search.alertFrequency === "none"}
+                    onCheckedChange={(checked) => update.mutate({ id: search.id, inAppEnabled: checked })}
+                  />
+                  <Label htmlFor={`in-app-${search.id}`}>In-app</Label>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Navigation />
+
+      <section className="bg-gradient-to-r from-gray-900 to-gray-800 text-white py-16">
+        <div className="container">
+          <h1 className="text-4xl md:text-5xl font-bold mb-4">Saved Searches</h1>
+          <p className="text-xl text-gray-300 max-w-3xl">
+            Get told when new vehicles match your searches or a match drops in price
+          </p>
+        </div>
+      </section>
+
+      <section className="py-12 flex-1">
+        <div className="container max-w-4xl">{renderContent()}</div>
+      </section>
+
+      <Footer />
+    </div>
+  );
+}
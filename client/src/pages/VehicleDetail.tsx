@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useRoute } from "wouter";
+import Navigation from "@/components/Navigation";
+import Footer from "@/components/Footer";
+import PriceHistorySparkline from "@/components/listings/PriceHistorySparkline";
+import { trpc } from "@/lib/trpc";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { toast } from "sonner";
+import { Heart, Loader2, Truck, TrendingDown } from "lucide-react";
+
+const formatPrice = (price: number | null | undefined) => {
+  if (!price) return "Contact for pricing";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+const formatLabel = (value: string) =>
+  value
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+export default function VehicleDetail() {
+  const [, params] = useRoute("/vehicle/:id");
+  const id = params?.id ? parseInt(params.id) : 0;
+  const { user } = useCurrentUser();
+  const utils = trpc.useUtils();
+
+  const { data: vehicle, isLoading } = trpc.vehicles.getById.useQuery({ id }, { enabled: id > 0 });
+  const { data: images } = trpc.vehicles.getImages.useQuery({ vehicleId: id }, { enabled: id > 0 });
+  const { data: saved } = trpc.saved.list.useQuery(undefined, { enabled: !!user });
+
+  const [selectedImage, setSelectedImage] = useState<string>("");
+  const isSaved = !!saved?.some((item) => item.vehicleId === id);
+
+  const onSavedChange = () => utils.saved.list.invalidate();
+  const save = trpc.saved.save.useMutation({
+    onSuccess: async () => {
+      toast.success("Vehicle saved. We'll let you know if the price drops.");
+      await onSavedChange();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+  const unsave = trpc.saved.unsave.useMutation({
+    onSuccess: onSavedChange,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const toggleSaved = () => {
+    if (!user) {
+      toast.info("Sign in to save vehicles and get price-drop alerts");
+      return;
+    }
+    if (isSaved) {
+      unsave.mutate({ vehicleId: id });
+    } else {
+      save.mutate({ vehicleId: id });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex flex-col bg-background">
+        <Navigation />
+        <div className="flex-1 flex items-center justify-center">
+          <Loader2 className="animate-spin h-8 w-8 text-primary" />
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (!vehicle) {
+    return (
+      <div className="min-h-screen flex flex-col bg-background">
+        <Navigation />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <h2 className="text-2xl font-bold mb-2">Vehicle not found</h2>
+            <p className="text-muted-foreground">
+              The vehicle you're looking for doesn't exist or is no longer listed.
+            </p>
+          </div>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  const title = `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+  const allImages = [vehicle.featuredImage, ...(images?.map((img) => img.url) || [])].filter(
+    (url, index, urls): url is string => !!url && urls.indexOf(url) === index
+  );
+  const displayImage = selectedImage || allImages[0] || "";
+  const currentPrice = vehicle.specialPrice ?? vehicle.salePrice;
+  const history = vehicle.priceHistory;
+  const previousPrice = history.length > 1 ? history[history.length - 2].price : null;
+  const dropped = previousPrice !== null && currentPrice !== null && currentPrice < previousPrice;
+
+  const details = [
+    ["Condition", vehicle.condition && formatLabel(vehicle.condition)],
+    ["Fuel Type", vehicle.fuelType],
+    ["Body Style", vehicle.bodyType],
+    ["GVWR", vehicle.gvwr && `${Number(vehicle.gvwr).toLocaleString()} lbs`],
+    ["Equipment", vehicle.equipmentType && formatLabel(vehicle.equipmentType)],
+    ["VIN", vehicle.vin],
+    ["Dealer", vehicle.dealerName],
+  ].filter((entry): entry is [string, string] => !!entry[1]);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Navigation />
+
+      <main className="flex-1 py-8">
+        <div className="container">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+            {/* Images */}
+            <div>
+              {displayImage ? (
+                <div className="space-y-4">
+                  <div className="aspect-[4/3] bg-muted rounded-lg overflow-hidden">
+                    <img src={displayImage} alt={title} className="w-full h-full object-cover" />
+                  </div>
+                  {allImages.length > 1 && (
+                    <div className="grid grid-cols-4 gap-2">
+                      {allImages.map((img, idx) => (
+                        <button
+                          key={img}
+                          onClick={() => setSelectedImage(img)}
+                          className={`aspect-square rounded-lg overflow-hidden border-2 ${
+                            img === displayImage ? "border-primary" : "border-transparent"
+                          }`}
+                        >
+                          <img src={img} alt={`${title} ${idx + 1}`} className="w-full h-full object-cover" />
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="aspect-[4/3] bg-muted rounded-lg flex items-center justify-center">
+                  <Truck className="h-24 w-24 text-muted-foreground" />
+                </div>
+              )}
+            </div>
+
+            {/* Details */}
+            <div>
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <h1 className="text-3xl font-bold">{title}</h1>
+                <Button
+                  variant="outline"
+                  onClick={toggleSaved}
+                  disabled={save.isPending || unsave.isPending}
+                >
+                  <Heart className={`h-4 w-4 mr-2 ${isSaved ? "fill-current text-red-500" : ""}`} />
+                  {isSaved ? "Saved" : "Save"}
+                </Button>
+              </div>
+
+              <Card className="p-6 mb-6">
+                <div className="flex items-end gap-3 mb-4">
+                  <p className="text-3xl font-bold text-primary">{formatPrice(currentPrice)}</p>
+                  {dropped && (
+                    <>
+                      <p className="text-lg text-muted-foreground line-through">{formatPrice(previousPrice)}</p>
+                      <span className="flex items-center text-sm font-medium text-red-600">
+                        <TrendingDown className="h-4 w-4 mr-1" />
+                        Price dropped
+                      </span>
+                    </>
+                  )}
+                </div>
+                {history.length > 0 && <PriceHistorySparkline points={history} />}
+              </Card>
+
+              <Card className="p-6 mb-6">
+                <dl className="grid grid-cols-2 gap-y-3 text-sm">
+                  {details.map(([label, value]) => (
+                    <div key={label} className="contents">
+                      <dt className="text-muted-foreground">{label}</dt>
+                      <dd className="font-medium">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </Card>
+
+              {vehicle.description && (
+                <div>
+                  <h2 className="text-lg font-semibold mb-2">Description</h2>
+                  <p className="text-muted-foreground whitespace-pre-line">{vehicle.description}</p>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -12,9 +12,15 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import DealerDashboardLayout from "@/components/DealerDashboardLayout";
+import { LISTING_STATUS_LABELS } from "@shared/listing-lifecycle";
+import { Link } from "wouter";
 
 export default function DataQualityDashboard() {
   const { data: stats, isLoading } = trpc.admin.vehicleDataStats.useQuery();
+  // Platform staff only; organization admins get FORBIDDEN and no report
+  const { data: duplicates, error: duplicatesError } = trpc.admin.duplicateListings.useQuery(undefined, {
+    retry: false,
+  });
 
   if (isLoading) {
     return (
@@ -132,7 +138,8 @@ export default function DataQualityDashboard() {
                 </div>
                 <div className="pt-2 border-t">
                   <p className="text-xs text-muted-foreground">
-                    Performance metrics coming soon
+                    NHTSA lookups since{' '}
+                    {stats?.cache ? new Date(stats.cache.since).toLocaleString() : 'server start'}
                   </p>
                 </div>
               </div>
@@ -140,6 +147,67 @@ export default function DataQualityDashboard() {
           </Card>
         </div>
 
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Decode Cache</span>
+              {stats?.cache && (
+                <span className="text-sm font-normal text-muted-foreground">
+                  {stats.cache.backend === 'postgres' ? 'Shared (Postgres)' : 'In-memory'} ·{' '}
+                  {stats.cache.entries ?? '?'} / {stats.cache.maxEntries} entries
+                  {stats.cache.backendErrors > 0 && ` · ${stats.cache.backendErrors} cache errors`}
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {stats?.cache && stats.cache.sources.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Hit Rate</TableHead>
+                    <TableHead>Hits / Misses</TableHead>
+                    <TableHead>Evictions</TableHead>
+                    <TableHead>Upstream Calls</TableHead>
+                    <TableHead>Avg Latency</TableHead>
+                    <TableHead>Upstream Errors</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stats.cache.sources.map((source) => (
+                    <TableRow key={source.source}>
+                      <TableCell className="font-medium uppercase">{source.source}</TableCell>
+                      <TableCell>{source.hitRate}%</TableCell>
+                      <TableCell>
+                        {source.hits} / {source.misses}
+                      </TableCell>
+                      <TableCell>{source.evictions}</TableCell>
+                      <TableCell>{source.upstreamCalls}</TableCell>
+                      <TableCell>{source.avgUpstreamMs}ms</TableCell>
+                      <TableCell>
+                        {source.upstreamErrors > 0 ? (
+                          <span title={source.lastUpstreamError ?? undefined} className="text-red-700">
+                            {source.upstreamErrors}
+                            {source.lastUpstreamErrorAt &&
+                              ` (last ${new Date(source.lastUpstreamErrorAt).toLocaleString()})`}
+                          </span>
+                        ) : (
+                          0
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <p>No cache activity since the server started.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Recent VIN Decodes</CardTitle>
@@ -211,6 +279,63 @@ export default function DataQualityDashboard() {
             )}
           </CardContent>
         </Card>
+
+        {!duplicatesError && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Cross-Dealer Duplicate VINs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {duplicates && duplicates.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>VIN</TableHead>
+                      <TableHead>Dealer</TableHead>
+                      <TableHead>Listing</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Listed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {duplicates.flatMap((duplicate) =>
+                      duplicate.listings.map((listing, index) => (
+                        <TableRow key={listing.listingId}>
+                          <TableCell className="font-mono text-sm">
+                            {index === 0 ? duplicate.vin : ''}
+                          </TableCell>
+                          <TableCell>{listing.dealerName || `Dealer #${listing.dealerId}`}</TableCell>
+                          <TableCell>
+                            {listing.status === 'available' ? (
+                              <Link href={`/vehicle/${listing.listingId}`} className="text-primary hover:underline">
+                                {listing.title}
+                              </Link>
+                            ) : (
+                              listing.title
+                            )}
+                            {listing.stockNumber && (
+                              <span className="text-sm text-muted-foreground"> · Stock #{listing.stockNumber}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{LISTING_STATUS_LABELS[listing.status]}</Badge>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {new Date(listing.createdAt).toLocaleDateString()}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <p>No VIN is listed by more than one dealer.</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
     </DealerDashboardLayout>
   );
@@ -1,130 +1,375 @@
+import { useState } from "react";
 import DealerDashboardLayout from "@/components/DealerDashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { BarChart3, TrendingUp, Eye, MessageSquare, DollarSign, Clock } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { trpc } from "@/lib/trpc";
+import { Link } from "wouter";
+import { BarChart3, TrendingUp, Eye, MessageSquare, DollarSign, Clock, Heart, Loader2 } from "lucide-react";
+
+const RANGE_OPTIONS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last 12 months" },
+];
+
+const activityChartConfig = {
+  views: { label: "Views", color: "var(--chart-2)" },
+  leads: { label: "Leads", color: "var(--chart-4)" },
+} satisfies ChartConfig;
+
+const agingChartConfig = {
+  count: { label: "Listings", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+const LEAD_SOURCE_LABELS: Record<string, string> = {
+  marketplace: "Marketplace",
+  dealer_site: "Dealer Website",
+  private_catalog: "Private Catalog",
+  referral: "Referral",
+  other: "Other",
+};
+
+function formatResponseTime(minutes: number | null | undefined) {
+  if (minutes === null || minutes === undefined) return "—";
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 60 * 48) return `${(minutes / 60).toFixed(1)}h`;
+  return `${(minutes / 60 / 24).toFixed(1)}d`;
+}
+
+function formatDay(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
 
 export default function DealerAnalytics() {
-  // Placeholder data - will be replaced with actual tRPC queries
-  const stats = {
-    totalViews: 0,
-    totalLeads: 0,
-    conversionRate: 0,
-    avgResponseTime: 0,
-  };
+  const [days, setDays] = useState("30");
+
+  const { data, isLoading } = trpc.dealer.analytics.overview.useQuery({ days: Number(days) });
+  const { data: timeSeries } = trpc.dealer.analytics.timeSeries.useQuery({ days: Number(days) });
+
+  const stats = data?.overview;
 
   return (
     <DealerDashboardLayout>
       <div className="space-y-6">
         {/* Header */}
-        <div>
-          <h1 className="text-3xl font-bold text-gray-900">Analytics & Insights</h1>
-          <p className="text-gray-600 mt-2">Track your inventory performance and lead metrics</p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Analytics & Insights</h1>
+            <p className="text-gray-600 mt-2">Track your inventory performance and lead metrics</p>
+          </div>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
-        {/* Key Metrics */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-          <Card>
-            <CardContent className="pt-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">Total Views</p>
-                  <p className="text-3xl font-bold text-gray-900 mt-2">
-                    {stats.totalViews.toLocaleString()}
-                  </p>
-                </div>
-                <div className="h-12 w-12 bg-blue-100 rounded-lg flex items-center justify-center">
-                  <Eye className="h-6 w-6 text-blue-600" />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardContent className="pt-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">Total Leads</p>
-                  <p className="text-3xl font-bold text-gray-900 mt-2">
-                    {stats.totalLeads.toLocaleString()}
-                  </p>
-                </div>
-                <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center">
-                  <MessageSquare className="h-6 w-6 text-green-600" />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardContent className="pt-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">Conversion Rate</p>
-                  <p className="text-3xl font-bold text-gray-900 mt-2">
-                    {stats.conversionRate.toFixed(1)}%
-                  </p>
-                </div>
-                <div className="h-12 w-12 bg-purple-100 rounded-lg flex items-center justify-center">
-                  <TrendingUp className="h-6 w-6 text-purple-600" />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardContent className="pt-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">Avg Response Time</p>
-                  <p className="text-3xl font-bold text-gray-900 mt-2">
-                    {stats.avgResponseTime}h
-                  </p>
-                </div>
-                <div className="h-12 w-12 bg-orange-100 rounded-lg flex items-center justify-center">
-                  <Clock className="h-6 w-6 text-orange-600" />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <>
+            {/* Key Metrics */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">Views</p>
+                      <p className="text-3xl font-bold text-gray-900 mt-2">
+                        {(stats?.periodViews ?? 0).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {(stats?.totalViews ?? 0).toLocaleString()} all time
+                      </p>
+                    </div>
+                    <div className="h-12 w-12 bg-blue-100 rounded-lg flex items-center justify-center">
+                      <Eye className="h-6 w-6 text-blue-600" />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
 
-        {/* Charts and Detailed Analytics */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>Top Performing Listings</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-center py-12 text-gray-500">
-                <BarChart3 className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-                <p>Analytics data will appear here once you have active listings</p>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader>
-              <CardTitle>Lead Sources</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-center py-12 text-gray-500">
-                <DollarSign className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-                <p>Lead source breakdown will appear here</p>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">Leads</p>
+                      <p className="text-3xl font-bold text-gray-900 mt-2">
+                        {(stats?.periodLeads ?? 0).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {(stats?.totalFavorites ?? 0).toLocaleString()} favorites
+                      </p>
+                    </div>
+                    <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center">
+                      <MessageSquare className="h-6 w-6 text-green-600" />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">Conversion Rate</p>
+                      <p className="text-3xl font-bold text-gray-900 mt-2">
+                        {(stats?.conversionRate ?? 0).toFixed(1)}%
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">Views to leads</p>
+                    </div>
+                    <div className="h-12 w-12 bg-purple-100 rounded-lg flex items-center justify-center">
+                      <TrendingUp className="h-6 w-6 text-purple-600" />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">Median Response Time</p>
+                      <p className="text-3xl font-bold text-gray-900 mt-2">
+                        {formatResponseTime(stats?.medianResponseMinutes)}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {stats?.medianDaysOnMarket ?? 0} median days on market
+                      </p>
+                    </div>
+                    <div className="h-12 w-12 bg-orange-100 rounded-lg flex items-center justify-center">
+                      <Clock className="h-6 w-6 text-orange-600" />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Views & Leads over time */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Views & Leads</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {timeSeries && timeSeries.length > 0 ? (
+                  <ChartContainer config={activityChartConfig} className="h-72 w-full aspect-auto">
+                    <AreaChart data={timeSeries} margin={{ left: 0, right: 12 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={formatDay} minTickGap={24} />
+                      <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Area
+                        dataKey="views"
+                        type="monotone"
+                        fill="var(--color-views)"
+                        fillOpacity={0.2}
+                        stroke="var(--color-views)"
+                      />
+                      <Area
+                        dataKey="leads"
+                        type="monotone"
+                        fill="var(--color-leads)"
+                        fillOpacity={0.3}
+                        stroke="var(--color-leads)"
+                      />
+                    </AreaChart>
+                  </ChartContainer>
+                ) : (
+                  <div className="text-center py-12 text-gray-500">
+                    <BarChart3 className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                    <p>No activity recorded for this period</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Charts and Detailed Analytics */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Top Performing Listings</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {data?.topListings && data.topListings.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Listing</TableHead>
+                          <TableHead className="text-right">Views</TableHead>
+                          <TableHead className="text-right">Leads</TableHead>
+                          <TableHead className="text-right">
+                            <Heart className="h-4 w-4 inline" />
+                          </TableHead>
+                          <TableHead className="text-right">Conv.</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {data.topListings.map((listing) => (
+                          <TableRow key={listing.listingId}>
+                            <TableCell className="max-w-48 truncate">
+                              <Link href={`/dealer/listings/${listing.listingId}`} className="text-blue-600 hover:underline">
+                                {listing.title || listing.stockNumber || listing.vin || `Listing #${listing.listingId}`}
+                              </Link>
+                            </TableCell>
+                            <TableCell className="text-right">{listing.periodViews}</TableCell>
+                            <TableCell className="text-right">{listing.periodLeads}</TableCell>
+                            <TableCell className="text-right">{listing.favoriteCount}</TableCell>
+                            <TableCell className="text-right">{listing.conversionRate.toFixed(1)}%</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">
+                      <BarChart3 className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                      <p>Analytics data will appear here once you have active listings</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Lead Sources</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {data?.leadSources && data.leadSources.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Source</TableHead>
+                          <TableHead className="text-right">Leads</TableHead>
+                          <TableHead className="text-right">Converted</TableHead>
+                          <TableHead className="text-right">Median Response</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {data.leadSources.map((source) => (
+                          <TableRow key={source.source}>
+                            <TableCell>{LEAD_SOURCE_LABELS[source.source] || source.source}</TableCell>
+                            <TableCell className="text-right">{source.leadCount}</TableCell>
+                            <TableCell className="text-right">{source.convertedCount}</TableCell>
+                            <TableCell className="text-right">
+                              {formatResponseTime(source.medianResponseMinutes)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">
+                      <DollarSign className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                      <p>Lead source breakdown will appear here</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Inventory Aging Report</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {stats && stats.activeListings > 0 ? (
+                    <>
+                      <ChartContainer config={agingChartConfig} className="h-56 w-full aspect-auto">
+                        <BarChart data={data?.inventoryAging}>
+                          <CartesianGrid vertical={false} />
+                          <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                          <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={32} />
+                          <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+                          <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                        </BarChart>
+                      </ChartContainer>
+                      <p className="text-sm text-gray-600 mt-4">
+                        {stats.activeListings} active listings · {stats.avgDaysOnMarket} average days on market
+                        {stats.soldListings > 0 && ` across ${stats.soldListings} sold units`}
+                      </p>
+                    </>
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">
+                      <Clock className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                      <p>Inventory aging analysis will appear here</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Inventory Aging Report</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-center py-12 text-gray-500">
-              <Clock className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-              <p>Inventory aging analysis will appear here</p>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Performance by Location</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {data?.locations && data.locations.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Location</TableHead>
+                          <TableHead className="text-right">Units</TableHead>
+                          <TableHead className="text-right">Views</TableHead>
+                          <TableHead className="text-right">Leads</TableHead>
+                          <TableHead className="text-right">Avg DOM</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {data.locations.map((location) => (
+                          <TableRow key={location.location}>
+                            <TableCell>{location.location}</TableCell>
+                            <TableCell className="text-right">{location.listingCount}</TableCell>
+                            <TableCell className="text-right">{location.periodViews}</TableCell>
+                            <TableCell className="text-right">{location.periodLeads}</TableCell>
+                            <TableCell className="text-right">{location.avgDaysOnMarket}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">
+                      <BarChart3 className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                      <p>Location breakdown will appear here</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
             </div>
-          </CardContent>
-        </Card>
+          </>
+        )}
       </div>
     </DealerDashboardLayout>
   );
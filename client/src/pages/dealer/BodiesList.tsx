@@ -11,11 +11,14 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
+import { useOrgPermissions } from "@/hooks/useOrgPermissions";
 import { Link } from "wouter";
 import { Plus, Search, Edit, Trash2, Eye, MessageSquare } from "lucide-react";
+import { RECYCLE_BIN_DAYS } from "@shared/listing-lifecycle";
 import { toast } from "sonner";
 
 export default function DealerBodiesList() {
+  const { can } = useOrgPermissions();
   const [search, setSearch] = useState("");
   const [status, setStatus] = useState<string>("all");
   const [stockStatus, setStockStatus] = useState<string>("all");
@@ -28,7 +31,7 @@ export default function DealerBodiesList() {
 
   const deleteBody = trpc.dealer.bodies.delete.useMutation({
     onSuccess: () => {
-      toast.success("Body/Equipment deleted successfully");
+      toast.success("Body/Equipment moved to the recycle bin");
       refetch();
     },
     onError: (error) => {
@@ -37,7 +40,7 @@ export default function DealerBodiesList() {
   });
 
   const handleDelete = async (id: number, name: string) => {
-    if (confirm(`Are you sure you want to delete ${name}?`)) {
+    if (confirm(`Are you sure you want to delete ${name}? It will stay in the recycle bin for ${RECYCLE_BIN_DAYS} days.`)) {
       await deleteBody.mutateAsync({ id });
     }
   };
@@ -57,12 +60,14 @@ export default function DealerBodiesList() {
             <h1 className="text-3xl font-bold text-gray-900">Bodies & Equipment</h1>
             <p className="text-gray-600 mt-2">Manage your upfitting equipment catalog</p>
           </div>
-          <Button asChild>
-            <Link href="/dealer/bodies/new">
-              <Plus className="mr-2 h-4 w-4" />
-              Add Body/Equipment
-            </Link>
-          </Button>
+          {can("listings.create") && (
+            <Button asChild>
+              <Link href="/dealer/bodies/new">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Body/Equipment
+              </Link>
+            </Button>
+          )}
         </div>
 
         {/* Filters */}
@@ -181,14 +186,16 @@ export default function DealerBodiesList() {
                             <Edit className="h-4 w-4" />
                           </Link>
                         </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleDelete(body.id, body.name)}
-                          disabled={deleteBody.isPending}
-                        >
-                          <Trash2 className="h-4 w-4 text-red-600" />
-                        </Button>
+                        {can("listings.delete") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDelete(body.id, body.name)}
+                            disabled={deleteBody.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -219,12 +226,14 @@ export default function DealerBodiesList() {
                     ? "Try adjusting your filters"
                     : "Start by adding your first body or equipment item"}
                 </p>
-                <Button asChild>
-                  <Link href="/dealer/bodies/new">
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Body/Equipment
-                  </Link>
-                </Button>
+                {can("listings.create") && (
+                  <Button asChild>
+                    <Link href="/dealer/bodies/new">
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Body/Equipment
+                    </Link>
+                  </Button>
+                )}
               </div>
             )}
           </CardContent>
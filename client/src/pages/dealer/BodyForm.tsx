@@ -15,6 +15,7 @@ import {
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { trpc } from "@/lib/trpc";
+import { useOrgPermissions } from "@/hooks/useOrgPermissions";
 import { toast } from "sonner";
 import { ArrowLeft } from "lucide-react";
 import { ImageUpload } from "@/components/ImageUpload";
@@ -23,6 +24,9 @@ export default function BodyForm() {
   const [, params] = useRoute("/dealer/bodies/:id");
   const [, setLocation] = useLocation();
   const bodyId = params?.id && params.id !== "new" ? parseInt(params.id) : null;
+  const { can } = useOrgPermissions();
+  // Anyone who can create items sets their initial price; changing it later needs pricing.manage
+  const canEditPricing = !bodyId || can("pricing.manage");
 
   const { data: body, isLoading } = trpc.dealer.bodies.getById.useQuery(
     { id: bodyId! },
@@ -84,8 +88,8 @@ export default function BodyForm() {
   useEffect(() => {
     if (body) {
       setFormData({
-        name: body.name,
-        category: body.category,
+        name: body.name || "",
+        category: body.category ?? "other",
         manufacturer: body.manufacturer || "",
         model: body.model || "",
         description: body.description || "",
@@ -104,15 +108,15 @@ export default function BodyForm() {
         gvwrMin: body.gvwrMin || 0,
         gvwrMax: body.gvwrMax || 0,
         leadTimeDays: body.leadTimeDays || 0,
-        stockStatus: body.stockStatus,
+        stockStatus: body.stockStatus ?? "in_stock",
         installationTime: body.installationTime || "",
         installationRequirements: body.installationRequirements || "",
         warrantyYears: body.warrantyYears || 0,
         warrantyDetails: body.warrantyDetails || "",
         configurationOptions: body.configurationOptions || "",
         featuredImage: body.featuredImage || "",
-        status: body.status,
-        isPublished: body.isPublished,
+        status: body.status ?? "draft",
+        isPublished: body.isPublished ?? false,
       });
     }
   }, [body]);
@@ -276,6 +280,11 @@ export default function BodyForm() {
         <Card>
           <CardHeader>
             <CardTitle>Pricing</CardTitle>
+            {!canEditPricing && (
+              <p className="text-sm text-muted-foreground">
+                Only owners, admins and managers can change prices.
+              </p>
+            )}
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -284,6 +293,7 @@ export default function BodyForm() {
                 <Input
                   id="msrp"
                   type="number"
+                  disabled={!canEditPricing}
                   value={formData.msrp || ""}
                   onChange={(e) => setFormData({ ...formData, msrp: parseInt(e.target.value) || 0 })}
                   placeholder="0"
@@ -295,6 +305,7 @@ export default function BodyForm() {
                 <Input
                   id="salePrice"
                   type="number"
+                  disabled={!canEditPricing}
                   value={formData.salePrice || ""}
                   onChange={(e) => setFormData({ ...formData, salePrice: parseInt(e.target.value) || 0 })}
                   placeholder="0"
@@ -306,6 +317,7 @@ export default function BodyForm() {
                 <Input
                   id="installationCost"
                   type="number"
+                  disabled={!canEditPricing}
                   value={formData.installationCost || ""}
                   onChange={(e) => setFormData({ ...formData, installationCost: parseInt(e.target.value) || 0 })}
                   placeholder="0"
@@ -565,8 +577,12 @@ export default function BodyForm() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="draft">Draft</SelectItem>
-                    <SelectItem value="live">Live</SelectItem>
-                    <SelectItem value="archived">Archived</SelectItem>
+                    <SelectItem value="live" disabled={!can("listings.publish") && body?.status !== "live"}>
+                      Live
+                    </SelectItem>
+                    <SelectItem value="archived" disabled={!can("listings.delete") && body?.status !== "archived"}>
+                      Archived
+                    </SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -594,7 +610,11 @@ export default function BodyForm() {
           </Button>
           <Button
             type="submit"
-            disabled={createBody.isPending || updateBody.isPending}
+            disabled={
+              createBody.isPending ||
+              updateBody.isPending ||
+              !can(bodyId ? "listings.edit" : "listings.create")
+            }
           >
             {createBody.isPending || updateBody.isPending
               ? "Saving..."
@@ -1,9 +1,197 @@
+import { useRef, useState } from "react";
 import DealerDashboardLayout from "@/components/DealerDashboardLayout";
+import VinBatchDecoder from "@/components/listings/VinBatchDecoder";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Upload, Download, FileSpreadsheet } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { trpc } from "@/lib/trpc";
+import { useOrgPermissions } from "@/hooks/useOrgPermissions";
+import { Upload, Download, FileSpreadsheet, CheckCircle, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+
+type EntityType = "vehicles" | "bodies" | "infrastructure";
+type ExportFormat = "csv" | "xlsx" | "json";
+type RowStatus = "created" | "valid" | "skipped" | "error";
+
+interface RowResult {
+  row: number;
+  status: RowStatus;
+  identifier?: string;
+  id?: number;
+  reason?: string;
+}
+
+const ENTITY_LABELS: Record<EntityType, string> = {
+  vehicles: "Vehicles",
+  bodies: "Bodies & Equipment",
+  infrastructure: "Charging Infrastructure",
+};
+
+const STATUS_STYLES: Record<RowStatus, string> = {
+  created: "bg-green-100 text-green-800",
+  valid: "bg-blue-100 text-blue-800",
+  skipped: "bg-yellow-100 text-yellow-800",
+  error: "bg-red-100 text-red-800",
+};
+
+// Rows per request; keeps each call well inside the client timeout
+const CHUNK_SIZE = 25;
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.substring(result.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+function downloadFile(content: BlobPart, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function base64ToBytes(data: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
 
 export default function BulkOperations() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [entityType, setEntityType] = useState<EntityType>("vehicles");
+  const [file, setFile] = useState<File | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [lastRunWasDryRun, setLastRunWasDryRun] = useState(false);
+  const [results, setResults] = useState<RowResult[]>([]);
+  const [unmappedColumns, setUnmappedColumns] = useState<string[]>([]);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [exportingType, setExportingType] = useState<EntityType | null>(null);
+
+  const { can } = useOrgPermissions();
+  const canImport = can("listings.create");
+
+  const utils = trpc.useUtils();
+  const importMutation = trpc.dealer.bulk.import.useMutation();
+
+  const selectFile = (selected: File | undefined) => {
+    if (!selected) return;
+    if (!/\.(csv|xlsx|xls)$/i.test(selected.name)) {
+      toast.error("Please select a CSV or XLSX file");
+      return;
+    }
+    setFile(selected);
+    setResults([]);
+    setUnmappedColumns([]);
+    setProgress(0);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setIsRunning(true);
+    setLastRunWasDryRun(dryRun);
+    setResults([]);
+    setProgress(0);
+
+    try {
+      const data = await readFileAsBase64(file);
+      const collected: RowResult[] = [];
+      let offset: number | null = 0;
+
+      while (offset !== null) {
+        const report = await importMutation.mutateAsync({
+          entityType,
+          fileName: file.name,
+          data,
+          dryRun,
+          offset,
+          limit: CHUNK_SIZE,
+        });
+
+        collected.push(...report.results);
+        setResults([...collected]);
+        setUnmappedColumns(report.unmappedColumns);
+        setProgress(report.totalRows > 0 ? Math.round(((report.nextOffset ?? report.totalRows) / report.totalRows) * 100) : 100);
+        offset = report.nextOffset;
+      }
+
+      const failed = collected.filter((r) => r.status === "error").length;
+      if (dryRun) {
+        toast.success(`Validation complete: ${collected.length - failed} of ${collected.length} rows ready to import`);
+      } else {
+        const created = collected.filter((r) => r.status === "created").length;
+        toast.success(`Import complete: ${created} created, ${failed} failed`);
+        utils.dealer.listings.list.invalidate();
+        utils.dealer.bodies.list.invalidate();
+        utils.dealer.infrastructure.list.invalidate();
+      }
+    } catch (error: any) {
+      toast.error(error.message || "Import failed");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const downloadTemplate = async (type: EntityType) => {
+    try {
+      const template = await utils.dealer.bulk.template.fetch({ entityType: type });
+      downloadFile(template.content, template.fileName, "text/csv");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to download template");
+    }
+  };
+
+  const exportInventory = async (type: EntityType) => {
+    setExportingType(type);
+    try {
+      const file = await utils.dealer.bulk.export.fetch({ entityType: type, format: exportFormat });
+      downloadFile(base64ToBytes(file.data), file.fileName, file.mimeType);
+      toast.success(`Exported ${file.rowCount} ${ENTITY_LABELS[type].toLowerCase()} records`);
+    } catch (error: any) {
+      toast.error(error.message || "Export failed");
+    } finally {
+      setExportingType(null);
+    }
+  };
+
+  const summary = results.reduce(
+    (acc, result) => {
+      acc[result.status]++;
+      return acc;
+    },
+    { created: 0, valid: 0, skipped: 0, error: 0 } as Record<RowStatus, number>
+  );
+
   return (
     <DealerDashboardLayout>
       <div className="space-y-6">
@@ -24,23 +212,97 @@ export default function BulkOperations() {
             </CardHeader>
             <CardContent className="space-y-4">
               <p className="text-gray-600">
-                Upload a CSV file to add multiple vehicles, bodies, or chargers at once.
+                Upload a CSV or XLSX file to add multiple vehicles, bodies, or chargers at once.
               </p>
-              <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
-                <FileSpreadsheet className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-                <p className="text-sm text-gray-600 mb-4">
-                  Drag and drop your CSV file here, or click to browse
+              {!canImport && (
+                <p className="text-sm text-amber-700">Your role does not allow adding inventory.</p>
+              )}
+              {canImport && !can("listings.publish") && (
+                <p className="text-sm text-gray-500">
+                  Vehicles you import are saved as drafts for a manager to publish.
                 </p>
-                <Button variant="outline">
+              )}
+              <Select value={entityType} onValueChange={(value) => setEntityType(value as EntityType)} disabled={isRunning}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ENTITY_LABELS) as EntityType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {ENTITY_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div
+                className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+                  isDragging ? "border-blue-500 bg-blue-50" : "border-gray-300"
+                }`}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setIsDragging(false);
+                  selectFile(e.dataTransfer.files[0]);
+                }}
+              >
+                <FileSpreadsheet className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                {file ? (
+                  <div className="flex items-center justify-center gap-2 mb-4 text-sm text-gray-900">
+                    <span className="font-medium">{file.name}</span>
+                    <button
+                      type="button"
+                      className="text-gray-400 hover:text-gray-600"
+                      onClick={() => {
+                        setFile(null);
+                        setResults([]);
+                      }}
+                      disabled={isRunning}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600 mb-4">
+                    Drag and drop your CSV or XLSX file here, or click to browse
+                  </p>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.xlsx,.xls"
+                  className="hidden"
+                  onChange={(e) => {
+                    selectFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isRunning || !canImport}>
                   Select File
                 </Button>
               </div>
+              {file && (
+                <div className="flex gap-3">
+                  <Button variant="outline" className="flex-1" onClick={() => runImport(true)} disabled={isRunning || !canImport}>
+                    <CheckCircle className="mr-2 h-4 w-4" />
+                    Validate
+                  </Button>
+                  <Button className="flex-1" onClick={() => runImport(false)} disabled={isRunning || !canImport}>
+                    {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                    Import
+                  </Button>
+                </div>
+              )}
+              {isRunning && <Progress value={progress} />}
               <div className="text-sm text-gray-600">
                 <p className="font-medium mb-2">Supported formats:</p>
                 <ul className="list-disc list-inside space-y-1">
-                  <li>Vehicles CSV</li>
-                  <li>Bodies & Equipment CSV</li>
-                  <li>Charging Infrastructure CSV</li>
+                  <li>Vehicles CSV/XLSX</li>
+                  <li>Bodies & Equipment CSV/XLSX</li>
+                  <li>Charging Infrastructure CSV/XLSX</li>
                 </ul>
               </div>
             </CardContent>
@@ -55,34 +317,104 @@ export default function BulkOperations() {
             </CardHeader>
             <CardContent className="space-y-4">
               <p className="text-gray-600">
-                Download your current inventory as a CSV file for backup or editing.
+                Download your current inventory for backup, reconciliation or editing.
               </p>
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
               <div className="space-y-3">
-                <Button variant="outline" className="w-full justify-start">
-                  <Download className="mr-2 h-4 w-4" />
-                  Export Vehicles
-                </Button>
-                <Button variant="outline" className="w-full justify-start">
-                  <Download className="mr-2 h-4 w-4" />
-                  Export Bodies & Equipment
-                </Button>
-                <Button variant="outline" className="w-full justify-start">
-                  <Download className="mr-2 h-4 w-4" />
-                  Export Infrastructure
-                </Button>
+                {(Object.keys(ENTITY_LABELS) as EntityType[]).map((type) => (
+                  <Button
+                    key={type}
+                    variant="outline"
+                    className="w-full justify-start"
+                    onClick={() => exportInventory(type)}
+                    disabled={exportingType !== null}
+                  >
+                    {exportingType === type ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Download className="mr-2 h-4 w-4" />
+                    )}
+                    Export {ENTITY_LABELS[type]}
+                  </Button>
+                ))}
               </div>
               <div className="text-sm text-gray-600">
                 <p className="font-medium mb-2">Export includes:</p>
                 <ul className="list-disc list-inside space-y-1">
-                  <li>All inventory fields</li>
+                  <li>All importable inventory fields</li>
                   <li>Performance metrics</li>
                   <li>Current status</li>
+                  <li>Files can be edited and re-imported</li>
                 </ul>
               </div>
             </CardContent>
           </Card>
         </div>
 
+        <VinBatchDecoder />
+
+        {/* Import Results */}
+        {results.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>{lastRunWasDryRun ? "Validation Results" : "Import Results"}</span>
+                <div className="flex gap-2 text-sm font-normal">
+                  {(Object.keys(summary) as RowStatus[])
+                    .filter((status) => summary[status] > 0)
+                    .map((status) => (
+                      <Badge key={status} className={STATUS_STYLES[status]}>
+                        {summary[status]} {status}
+                      </Badge>
+                    ))}
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {unmappedColumns.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  Ignored columns: {unmappedColumns.join(", ")}
+                </p>
+              )}
+              <div className="max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-20">Row</TableHead>
+                      <TableHead>{entityType === "vehicles" ? "VIN" : "Name"}</TableHead>
+                      <TableHead className="w-28">Status</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map((result) => (
+                      <TableRow key={result.row}>
+                        <TableCell>{result.row}</TableCell>
+                        <TableCell className="font-mono text-sm">{result.identifier || "—"}</TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_STYLES[result.status]}>{result.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600 whitespace-normal">
+                          {result.reason || (result.id ? `Created #${result.id}` : "")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Template Downloads */}
         <Card>
           <CardHeader>
@@ -93,15 +425,15 @@ export default function BulkOperations() {
               Download template files to see the required format for bulk imports.
             </p>
             <div className="flex flex-wrap gap-3">
-              <Button variant="outline">
+              <Button variant="outline" onClick={() => downloadTemplate("vehicles")}>
                 <FileSpreadsheet className="mr-2 h-4 w-4" />
                 Vehicle Template
               </Button>
-              <Button variant="outline">
+              <Button variant="outline" onClick={() => downloadTemplate("bodies")}>
                 <FileSpreadsheet className="mr-2 h-4 w-4" />
                 Body/Equipment Template
               </Button>
-              <Button variant="outline">
+              <Button variant="outline" onClick={() => downloadTemplate("infrastructure")}>
                 <FileSpreadsheet className="mr-2 h-4 w-4" />
                 Infrastructure Template
               </Button>
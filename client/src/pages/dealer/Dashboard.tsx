@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Link } from "wouter";
+import { useOrgPermissions } from "@/hooks/useOrgPermissions";
 import {
   Package,
   Zap,
@@ -14,6 +15,7 @@ import {
 } from "lucide-react";
 
 function DealerDashboardContent() {
+  const { can } = useOrgPermissions();
   // Check if onboarding is complete from URL params
   const searchParams = new URLSearchParams(window.location.search);
   const [showOnboardingComplete, setShowOnboardingComplete] = React.useState(
@@ -74,32 +76,34 @@ function DealerDashboardContent() {
         </div>
 
         {/* Quick Actions */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Quick Actions</CardTitle>
-            <CardDescription>Add new items to your inventory</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {quickActions.map((action) => (
-                <Button
-                  key={action.title}
-                  variant="outline"
-                  className="h-auto p-6 flex flex-col items-start gap-3 hover:border-primary"
-                  asChild
-                >
-                  <Link href={action.href}>
-                    <div className="flex items-center gap-3 w-full">
-                      <action.icon className={`h-5 w-5 ${action.color}`} />
-                      <span className="font-semibold">{action.title}</span>
-                    </div>
-                    <p className="text-sm text-gray-600 text-left">{action.description}</p>
-                  </Link>
-                </Button>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+        {can("listings.create") && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Quick Actions</CardTitle>
+              <CardDescription>Add new items to your inventory</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {quickActions.map((action) => (
+                  <Button
+                    key={action.title}
+                    variant="outline"
+                    className="h-auto p-6 flex flex-col items-start gap-3 hover:border-primary"
+                    asChild
+                  >
+                    <Link href={action.href}>
+                      <div className="flex items-center gap-3 w-full">
+                        <action.icon className={`h-5 w-5 ${action.color}`} />
+                        <span className="font-semibold">{action.title}</span>
+                      </div>
+                      <p className="text-sm text-gray-600 text-left">{action.description}</p>
+                    </Link>
+                  </Button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
 
       </div>
     </DealerDashboardLayout>
@@ -15,14 +15,30 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
+import { useOrgPermissions } from "@/hooks/useOrgPermissions";
 import { toast } from "sonner";
 import { ArrowLeft, Loader2, Save } from "lucide-react";
 import { ImageUploadZone } from "@/components/ui/ImageUploadZone";
+import {
+  canTransitionListing,
+  LISTING_STATUSES,
+  LISTING_STATUS_LABELS,
+  type ListingStatus,
+} from "@shared/listing-lifecycle";
+
+// datetime-local inputs work in local time without a zone suffix
+const toDateTimeInput = (value: Date | string | null | undefined) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
 
 export default function EditListing() {
   const [, params] = useRoute("/dealer/listings/:id/edit");
   const [, setLocation] = useLocation();
   const listingId = params?.id ? parseInt(params.id) : null;
+  const { can } = useOrgPermissions();
+  const canManagePricing = can("pricing.manage");
 
   const { data: listing, isLoading } = trpc.dealer.listings.getById.useQuery(
     { id: listingId! },
@@ -50,7 +66,8 @@ export default function EditListing() {
     description: "",
     locationCity: "",
     locationState: "",
-    status: "draft" as "draft" | "available" | "pending" | "sold" | "archived",
+    status: "draft" as ListingStatus,
+    scheduledPublishAt: "",
     photos: [] as string[],
   });
 
@@ -69,7 +86,8 @@ export default function EditListing() {
         description: listing.description || "",
         locationCity: listing.location_city || "",
         locationState: listing.location_state || "",
-        status: listing.status,
+        status: listing.listing_status,
+        scheduledPublishAt: toDateTimeInput(listing.scheduled_publish_at),
         photos: listing.images?.map((img) => img.url) || [],
       });
     }
@@ -83,8 +101,9 @@ export default function EditListing() {
     try {
       await updateListing.mutateAsync({
         id: listingId,
-        askingPrice: formData.askingPrice || undefined,
-        specialPrice: formData.specialPrice || undefined,
+        // Prices are only sent by members allowed to change them
+        askingPrice: canManagePricing ? formData.askingPrice || undefined : undefined,
+        specialPrice: canManagePricing ? formData.specialPrice || undefined : undefined,
         stockNumber: formData.stockNumber || undefined,
         condition: formData.condition,
         mileage: formData.mileage || undefined,
@@ -94,6 +113,13 @@ export default function EditListing() {
         locationCity: formData.locationCity || undefined,
         locationState: formData.locationState || undefined,
         status: formData.status,
+        // Only drafts carry a schedule; clear any stale one otherwise
+        scheduledPublishAt:
+          formData.status === "draft" && formData.scheduledPublishAt
+            ? new Date(formData.scheduledPublishAt)
+            : listing?.scheduled_publish_at
+            ? null
+            : undefined,
         photos: formData.photos.length > 0 ? formData.photos : undefined,
       });
     } catch (error) {
@@ -161,6 +187,11 @@ export default function EditListing() {
         <Card>
           <CardHeader>
             <CardTitle>Pricing</CardTitle>
+            {!canManagePricing && (
+              <p className="text-sm text-muted-foreground">
+                Only owners, admins and managers can change prices.
+              </p>
+            )}
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -174,6 +205,7 @@ export default function EditListing() {
                     id="askingPrice"
                     type="number"
                     className="pl-7"
+                    disabled={!canManagePricing}
                     value={formData.askingPrice || ""}
                     onChange={(e) =>
                       setFormData({
@@ -195,6 +227,7 @@ export default function EditListing() {
                     id="specialPrice"
                     type="number"
                     className="pl-7"
+                    disabled={!canManagePricing}
                     value={formData.specialPrice || ""}
                     onChange={(e) =>
                       setFormData({
@@ -277,14 +310,47 @@ export default function EditListing() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="draft">Draft</SelectItem>
-                    <SelectItem value="available">Available</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="sold">Sold</SelectItem>
-                    <SelectItem value="archived">Archived</SelectItem>
+                    {LISTING_STATUSES.map((status) => (
+                      <SelectItem
+                        key={status}
+                        value={status}
+                        disabled={
+                          listing.listing_status !== status &&
+                          (!canTransitionListing(listing.listing_status, status) ||
+                            // Sales are recorded from the listing page so the price and buyer are captured
+                            status === "sold" ||
+                            (status === "available" && !can("listings.publish")) ||
+                            (status === "archived" && !can("listings.delete")))
+                        }
+                      >
+                        {LISTING_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
+                {listing.listing_status !== "sold" && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Use Mark as Sold on the listing page to record a sale.
+                  </p>
+                )}
               </div>
+              {formData.status === "draft" && can("listings.publish") && (
+                <div>
+                  <Label htmlFor="scheduledPublishAt">Go Live On</Label>
+                  <Input
+                    id="scheduledPublishAt"
+                    type="datetime-local"
+                    min={toDateTimeInput(new Date())}
+                    value={formData.scheduledPublishAt}
+                    onChange={(e) =>
+                      setFormData({ ...formData, scheduledPublishAt: e.target.value })
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Leave empty to keep the listing as a draft until you publish it.
+                  </p>
+                </div>
+              )}
               <div>
                 <Label htmlFor="exteriorColor">Exterior Color</Label>
                 <Input
@@ -377,7 +443,7 @@ export default function EditListing() {
           >
             Cancel
           </Button>
-          <Button type="submit" disabled={updateListing.isPending}>
+          <Button type="submit" disabled={updateListing.isPending || !can("listings.edit")}>
             {updateListing.isPending ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -15,6 +15,7 @@ import {
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { trpc } from "@/lib/trpc";
+import { useOrgPermissions } from "@/hooks/useOrgPermissions";
 import { toast } from "sonner";
 import { ArrowLeft } from "lucide-react";
 import { ImageUpload } from "@/components/ImageUpload";
@@ -23,6 +24,9 @@ export default function InfrastructureForm() {
   const [, params] = useRoute("/dealer/infrastructure/:id");
   const [, setLocation] = useLocation();
   const infrastructureId = params?.id && params.id !== "new" ? parseInt(params.id) : null;
+  const { can } = useOrgPermissions();
+  // Anyone who can create items sets their initial price; changing it later needs pricing.manage
+  const canEditPricing = !infrastructureId || can("pricing.manage");
 
   const { data: infrastructure, isLoading } = trpc.dealer.infrastructure.getById.useQuery(
     { id: infrastructureId! },
@@ -295,6 +299,11 @@ export default function InfrastructureForm() {
         <Card>
           <CardHeader>
             <CardTitle>Pricing</CardTitle>
+            {!canEditPricing && (
+              <p className="text-sm text-muted-foreground">
+                Only owners, admins and managers can change prices.
+              </p>
+            )}
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -303,6 +312,7 @@ export default function InfrastructureForm() {
                 <Input
                   id="msrp"
                   type="number"
+                  disabled={!canEditPricing}
                   value={formData.msrp || ""}
                   onChange={(e) => setFormData({ ...formData, msrp: parseInt(e.target.value) || 0 })}
                   placeholder="0"
@@ -314,6 +324,7 @@ export default function InfrastructureForm() {
                 <Input
                   id="salePrice"
                   type="number"
+                  disabled={!canEditPricing}
                   value={formData.salePrice || ""}
                   onChange={(e) => setFormData({ ...formData, salePrice: parseInt(e.target.value) || 0 })}
                   placeholder="0"
@@ -325,6 +336,7 @@ export default function InfrastructureForm() {
                 <Input
                   id="installationCost"
                   type="number"
+                  disabled={!canEditPricing}
                   value={formData.installationCost || ""}
                   onChange={(e) => setFormData({ ...formData, installationCost: parseInt(e.target.value) || 0 })}
                   placeholder="0"
@@ -708,8 +720,12 @@ export default function InfrastructureForm() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="draft">Draft</SelectItem>
-                    <SelectItem value="live">Live</SelectItem>
-                    <SelectItem value="archived">Archived</SelectItem>
+                    <SelectItem value="live" disabled={!can("listings.publish") && infrastructure?.status !== "live"}>
+                      Live
+                    </SelectItem>
+                    <SelectItem value="archived" disabled={!can("listings.delete") && infrastructure?.status !== "archived"}>
+                      Archived
+                    </SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -737,7 +753,11 @@ export default function InfrastructureForm() {
           </Button>
           <Button
             type="submit"
-            disabled={createInfrastructure.isPending || updateInfrastructure.isPending}
+            disabled={
+              createInfrastructure.isPending ||
+              updateInfrastructure.isPending ||
+              !can(infrastructureId ? "listings.edit" : "listings.create")
+            }
           >
             {createInfrastructure.isPending || updateInfrastructure.isPending
               ? "Saving..."
@@ -11,11 +11,13 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
+import { useOrgPermissions } from "@/hooks/useOrgPermissions";
 import { Link } from "wouter";
 import { Plus, Search, Edit, Trash2, Eye, MessageSquare } from "lucide-react";
 import { toast } from "sonner";
 
 export default function DealerInfrastructureList() {
+  const { can } = useOrgPermissions();
   const [search, setSearch] = useState("");
   const [status, setStatus] = useState<string>("all");
   const [stockStatus, setStockStatus] = useState<string>("all");
@@ -57,12 +59,14 @@ export default function DealerInfrastructureList() {
             <h1 className="text-3xl font-bold text-gray-900">Charging Infrastructure</h1>
             <p className="text-gray-600 mt-2">Manage your charging equipment catalog</p>
           </div>
-          <Button asChild>
-            <Link href="/dealer/infrastructure/new">
-              <Plus className="mr-2 h-4 w-4" />
-              Add Charger
-            </Link>
-          </Button>
+          {can("listings.create") && (
+            <Button asChild>
+              <Link href="/dealer/infrastructure/new">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Charger
+              </Link>
+            </Button>
+          )}
         </div>
 
         {/* Filters */}
@@ -182,14 +186,16 @@ export default function DealerInfrastructureList() {
                             <Edit className="h-4 w-4" />
                           </Link>
                         </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleDelete(item.id, item.name)}
-                          disabled={deleteInfrastructure.isPending}
-                        >
-                          <Trash2 className="h-4 w-4 text-red-600" />
-                        </Button>
+                        {can("listings.delete") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDelete(item.id, item.name)}
+                            disabled={deleteInfrastructure.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -220,12 +226,14 @@ export default function DealerInfrastructureList() {
                     ? "Try adjusting your filters"
                     : "Start by adding your first charger"}
                 </p>
-                <Button asChild>
-                  <Link href="/dealer/infrastructure/new">
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Charger
-                  </Link>
-                </Button>
+                {can("listings.create") && (
+                  <Button asChild>
+                    <Link href="/dealer/infrastructure/new">
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Charger
+                    </Link>
+                  </Button>
+                )}
               </div>
             )}
           </CardContent>
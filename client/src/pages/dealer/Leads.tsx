@@ -0,0 +1,629 @@
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import DealerDashboardLayout from "@/components/DealerDashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { trpc } from "@/lib/trpc";
+import { hasPermission, type OrgRole } from "@shared/permissions";
+import { Link } from "wouter";
+import {
+  AlarmClock,
+  ArrowRight,
+  Bell,
+  CheckCircle2,
+  Inbox,
+  Loader2,
+  Mail,
+  MessageSquare,
+  Phone,
+  Search,
+  StickyNote,
+  UserPlus,
+} from "lucide-react";
+
+type LeadStatus = "new" | "contacted" | "qualified" | "converted" | "closed";
+
+const PAGE_SIZE = 25;
+const ALL = "all";
+
+const STATUS_LABELS: Record<LeadStatus, string> = {
+  new: "New",
+  contacted: "Contacted",
+  qualified: "Qualified",
+  converted: "Converted",
+  closed: "Closed",
+};
+
+const STATUS_STYLES: Record<LeadStatus, string> = {
+  new: "bg-blue-100 text-blue-800",
+  contacted: "bg-yellow-100 text-yellow-800",
+  qualified: "bg-purple-100 text-purple-800",
+  converted: "bg-green-100 text-green-800",
+  closed: "bg-gray-100 text-gray-800",
+};
+
+const LEAD_TYPE_LABELS: Record<string, string> = {
+  inquiry: "Inquiry",
+  quote: "Quote",
+  test_drive: "Test Drive",
+  financing: "Financing",
+  trade_in: "Trade-In",
+};
+
+function formatDateTime(value: string | Date | null | undefined) {
+  if (!value) return "—";
+  return new Date(value).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function isOverdue(value: string | Date | null | undefined) {
+  return !!value && new Date(value).getTime() <= Date.now();
+}
+
+/**
+ * Default follow-up time: tomorrow at 9am, formatted for datetime-local inputs
+ */
+function defaultFollowUpTime() {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(9, 0, 0, 0);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function LeadDetail({
+  leadId,
+  members,
+  currentUserId,
+  canManage,
+  canWork,
+}: {
+  leadId: number;
+  members: Array<{ userId: string; name: string | null; email: string | null; role: OrgRole }>;
+  currentUserId: string | null;
+  canManage: boolean;
+  canWork: boolean;
+}) {
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.leads.get.useQuery({ leadId });
+
+  const [statusNote, setStatusNote] = useState("");
+  const [note, setNote] = useState("");
+  const [followUpAt, setFollowUpAt] = useState(defaultFollowUpTime);
+  const [followUpNote, setFollowUpNote] = useState("");
+
+  useEffect(() => {
+    setStatusNote("");
+    setNote("");
+    setFollowUpAt(defaultFollowUpTime());
+    setFollowUpNote("");
+  }, [leadId]);
+
+  const refresh = async () => {
+    await Promise.all([
+      utils.leads.get.invalidate({ leadId }),
+      utils.leads.inbox.invalidate(),
+      utils.leads.dueFollowUps.invalidate(),
+    ]);
+  };
+
+  const onError = (error: { message: string }) => toast.error(error.message);
+
+  const updateStatus = trpc.leads.updateStatus.useMutation({
+    onSuccess: async (lead) => {
+      toast.success(`Lead moved to ${STATUS_LABELS[lead.status as LeadStatus] ?? lead.status}`);
+      setStatusNote("");
+      await refresh();
+    },
+    onError,
+  });
+  const assign = trpc.leads.assign.useMutation({
+    onSuccess: async () => {
+      toast.success("Assignment updated");
+      await refresh();
+    },
+    onError,
+  });
+  const claim = trpc.leads.claim.useMutation({
+    onSuccess: async () => {
+      toast.success("Assignment updated");
+      await refresh();
+    },
+    onError,
+  });
+  const addNote = trpc.leads.addNote.useMutation({
+    onSuccess: async () => {
+      setNote("");
+      await refresh();
+    },
+    onError,
+  });
+  const scheduleFollowUp = trpc.leads.scheduleFollowUp.useMutation({
+    onSuccess: async () => {
+      toast.success("Follow-up scheduled");
+      setFollowUpNote("");
+      setFollowUpAt(defaultFollowUpTime());
+      await refresh();
+    },
+    onError,
+  });
+  const completeFollowUp = trpc.leads.completeFollowUp.useMutation({
+    onSuccess: refresh,
+    onError,
+  });
+
+  const memberName = useMemo(() => {
+    const names = new Map(members.map((member) => [member.userId, member.name || member.email || "Team member"]));
+    return (userId: string | null | undefined) => (userId ? names.get(userId) ?? "Former member" : "System");
+  }, [members]);
+
+  if (isLoading || !data) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { lead, activities, followUps, allowedStatuses } = data;
+  const status = lead.status as LeadStatus;
+  const assignableMembers = members.filter((member) => hasPermission(member.role, "leads.update"));
+  // Members can claim unassigned leads or release their own; owners and admins can assign anyone
+  const canAssign = canWork && (canManage || !lead.assigned_to || lead.assigned_to === currentUserId);
+
+  const describeActivity = (activity: (typeof activities)[number]) => {
+    switch (activity.activity_type) {
+      case "created":
+        return "Lead received";
+      case "status_changed":
+        return `Moved from ${STATUS_LABELS[activity.from_status as LeadStatus] ?? activity.from_status} to ${
+          STATUS_LABELS[activity.to_status as LeadStatus] ?? activity.to_status
+        }`;
+      case "assigned":
+        return activity.assigned_to ? `Assigned to ${memberName(activity.assigned_to)}` : "Unassigned";
+      case "note":
+        return "Note";
+      case "follow_up_scheduled":
+        return `Follow-up scheduled${activity.assigned_to ? ` for ${memberName(activity.assigned_to)}` : ""}`;
+      case "follow_up_completed":
+        return "Follow-up completed";
+      default:
+        return activity.activity_type;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>
+              {lead.first_name} {lead.last_name}
+            </CardTitle>
+            <p className="text-sm text-gray-600 mt-1">
+              {LEAD_TYPE_LABELS[lead.lead_type] ?? lead.lead_type}
+              {lead.company ? ` · ${lead.company}` : ""} · {formatDateTime(lead.created_at)}
+            </p>
+          </div>
+          <Badge className={STATUS_STYLES[status]}>{STATUS_LABELS[status] ?? lead.status}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Contact */}
+        <div className="space-y-2 text-sm">
+          <a href={`mailto:${lead.email}`} className="flex items-center gap-2 text-blue-600 hover:underline">
+            <Mail className="h-4 w-4" />
+            {lead.email}
+          </a>
+          {lead.phone && (
+            <a href={`tel:${lead.phone}`} className="flex items-center gap-2 text-blue-600 hover:underline">
+              <Phone className="h-4 w-4" />
+              {lead.phone}
+            </a>
+          )}
+          {lead.listing_id && (
+            <Link href={`/dealer/listings/${lead.listing_id}`} className="text-blue-600 hover:underline">
+              View listing #{lead.listing_id}
+            </Link>
+          )}
+          {lead.message && <p className="rounded-lg bg-gray-50 p-3 text-gray-700 whitespace-pre-wrap">{lead.message}</p>}
+        </div>
+
+        {/* Status */}
+        {canWork && allowedStatuses.length > 0 && (
+          <div className="space-y-2">
+            <Label>Move to</Label>
+            <Input
+              placeholder="Optional note for this change"
+              value={statusNote}
+              onChange={(e) => setStatusNote(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-2">
+              {allowedStatuses.map((next) => (
+                <Button
+                  key={next}
+                  variant="outline"
+                  size="sm"
+                  disabled={updateStatus.isPending}
+                  onClick={() => updateStatus.mutate({ leadId, status: next, note: statusNote || undefined })}
+                >
+                  <ArrowRight className="mr-1 h-3 w-3" />
+                  {STATUS_LABELS[next]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Assignment */}
+        <div className="space-y-2">
+          <Label>Assigned to</Label>
+          {canAssign ? (
+            <Select
+              value={lead.assigned_to ?? "unassigned"}
+              onValueChange={(value) =>
+                canManage
+                  ? assign.mutate({ leadId, userId: value === "unassigned" ? null : value })
+                  : claim.mutate({ leadId, claim: value !== "unassigned" })
+              }
+              disabled={assign.isPending || claim.isPending}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+                {assignableMembers
+                  .filter((member) => canManage || member.userId === currentUserId || member.userId === lead.assigned_to)
+                  .map((member) => (
+                    <SelectItem key={member.userId} value={member.userId}>
+                      {member.name || member.email}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="text-sm text-gray-700">{lead.assigned_to ? memberName(lead.assigned_to) : "Unassigned"}</p>
+          )}
+        </div>
+
+        {/* Follow-ups */}
+        <div className="space-y-2">
+          <Label>Follow-ups</Label>
+          {followUps.length === 0 && <p className="text-sm text-gray-500">No follow-ups scheduled</p>}
+          {followUps.map((followUp) => (
+            <div key={followUp.id} className="flex items-start justify-between gap-2 rounded-lg border p-3 text-sm">
+              <div>
+                <p
+                  className={
+                    followUp.completed_at
+                      ? "text-gray-400 line-through"
+                      : isOverdue(followUp.due_at)
+                        ? "font-medium text-red-600"
+                        : "font-medium"
+                  }
+                >
+                  {formatDateTime(followUp.due_at)} · {memberName(followUp.assigned_to)}
+                </p>
+                {followUp.note && <p className="text-gray-600">{followUp.note}</p>}
+              </div>
+              {!followUp.completed_at && canWork && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={completeFollowUp.isPending}
+                  onClick={() => completeFollowUp.mutate({ followUpId: followUp.id })}
+                >
+                  <CheckCircle2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+          {canWork && (
+            <div className="space-y-2 rounded-lg border border-dashed p-3">
+              <Input type="datetime-local" value={followUpAt} onChange={(e) => setFollowUpAt(e.target.value)} />
+              <Input
+                placeholder="What needs to happen?"
+                value={followUpNote}
+                onChange={(e) => setFollowUpNote(e.target.value)}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!followUpAt || scheduleFollowUp.isPending}
+                onClick={() =>
+                  scheduleFollowUp.mutate({
+                    leadId,
+                    dueAt: new Date(followUpAt),
+                    note: followUpNote || undefined,
+                  })
+                }
+              >
+                <AlarmClock className="mr-2 h-4 w-4" />
+                Schedule Follow-up
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Notes */}
+        {canWork && (
+          <div className="space-y-2">
+            <Label htmlFor="leadNote">Add Note</Label>
+            <Textarea
+              id="leadNote"
+              rows={3}
+              placeholder="Call summary, pricing discussed, next steps..."
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                disabled={!note.trim() || addNote.isPending}
+                onClick={() => addNote.mutate({ leadId, body: note })}
+              >
+                <StickyNote className="mr-2 h-4 w-4" />
+                Save Note
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Timeline */}
+        <div className="space-y-2">
+          <Label>Activity</Label>
+          <ol className="space-y-3 border-l pl-4">
+            {activities.map((activity) => (
+              <li key={activity.id} className="text-sm">
+                <p className="font-medium text-gray-900">{describeActivity(activity)}</p>
+                {activity.body && <p className="text-gray-700 whitespace-pre-wrap">{activity.body}</p>}
+                <p className="text-xs text-gray-500">
+                  {formatDateTime(activity.created_at)}
+                  {activity.activity_type !== "created" ? ` · ${memberName(activity.actor_user_id)}` : ""}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DealerLeads() {
+  const [status, setStatus] = useState<string>(ALL);
+  const [assignedTo, setAssignedTo] = useState<string>(ALL);
+  const [search, setSearch] = useState("");
+  const [followUpDue, setFollowUpDue] = useState(false);
+  const [page, setPage] = useState(0);
+  const [selectedLeadId, setSelectedLeadId] = useState<number | null>(null);
+
+  useEffect(() => setPage(0), [status, assignedTo, search, followUpDue]);
+
+  const { data, isLoading } = trpc.leads.inbox.useQuery({
+    status: status === ALL ? undefined : (status as LeadStatus),
+    assignedTo: assignedTo === ALL ? undefined : assignedTo,
+    search: search.trim() || undefined,
+    followUpDue: followUpDue || undefined,
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE,
+  });
+  const { data: members = [] } = trpc.leads.members.useQuery();
+  const { data: dueFollowUps = [] } = trpc.leads.dueFollowUps.useQuery();
+
+  const leads = data?.leads ?? [];
+  const counts = data?.counts;
+  const totalCount = counts ? Object.values(counts).reduce((sum, count) => sum + count, 0) : 0;
+  const canWork = hasPermission(data?.role, "leads.update");
+  const canManage = hasPermission(data?.role, "leads.assign");
+  const pageCount = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  const memberName = (userId: string | null | undefined) => {
+    if (!userId) return "Unassigned";
+    const member = members.find((m) => m.userId === userId);
+    return member?.name || member?.email || "Former member";
+  };
+
+  return (
+    <DealerDashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Leads</h1>
+          <p className="text-gray-600 mt-2">Work your pipeline, assign leads and track follow-ups</p>
+        </div>
+
+        {dueFollowUps.length > 0 && (
+          <Card className="border-amber-200 bg-amber-50">
+            <CardContent className="flex items-center justify-between gap-4 py-4">
+              <div className="flex items-center gap-3">
+                <Bell className="h-5 w-5 text-amber-600" />
+                <p className="text-sm text-amber-900">
+                  You have {dueFollowUps.length} follow-up{dueFollowUps.length === 1 ? "" : "s"} due today
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setFollowUpDue(true)}>
+                Show leads
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Pipeline tabs */}
+        <Tabs value={status} onValueChange={setStatus}>
+          <TabsList>
+            <TabsTrigger value={ALL}>All ({totalCount})</TabsTrigger>
+            {(Object.keys(STATUS_LABELS) as LeadStatus[]).map((key) => (
+              <TabsTrigger key={key} value={key}>
+                {STATUS_LABELS[key]} ({counts?.[key] ?? 0})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="relative w-full max-w-xs">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search name, email, company"
+              className="pl-10"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <Select value={assignedTo} onValueChange={setAssignedTo}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Everyone</SelectItem>
+              {data?.currentUserId && <SelectItem value="me">Assigned to me</SelectItem>}
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {members
+                .filter((member) => hasPermission(member.role, "leads.update") && member.userId !== data?.currentUserId)
+                .map((member) => (
+                  <SelectItem key={member.userId} value={member.userId}>
+                    {member.name || member.email}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch id="followUpDue" checked={followUpDue} onCheckedChange={setFollowUpDue} />
+            <Label htmlFor="followUpDue">Follow-up due</Label>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          {/* Inbox */}
+          <Card className="lg:col-span-3">
+            <CardContent className="p-0">
+              {isLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+                </div>
+              ) : leads.length === 0 ? (
+                <div className="py-12 text-center">
+                  <Inbox className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <p className="text-gray-600">No leads match these filters</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Lead</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Assigned</TableHead>
+                      <TableHead>Follow-up</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {leads.map((lead) => (
+                      <TableRow
+                        key={lead.id}
+                        className={`cursor-pointer ${selectedLeadId === lead.id ? "bg-gray-50" : ""}`}
+                        onClick={() => setSelectedLeadId(lead.id)}
+                      >
+                        <TableCell>
+                          <p className="font-medium">
+                            {lead.first_name} {lead.last_name}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {LEAD_TYPE_LABELS[lead.lead_type] ?? lead.lead_type} · {formatDateTime(lead.created_at)}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_STYLES[lead.status as LeadStatus]}>
+                            {STATUS_LABELS[lead.status as LeadStatus] ?? lead.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {lead.assigned_to ? (
+                            memberName(lead.assigned_to)
+                          ) : (
+                            <span className="flex items-center gap-1 text-gray-500">
+                              <UserPlus className="h-3 w-3" />
+                              Unassigned
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell
+                          className={`text-sm ${isOverdue(lead.next_follow_up_at) ? "font-medium text-red-600" : ""}`}
+                        >
+                          {formatDateTime(lead.next_follow_up_at)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Detail */}
+          <div className="lg:col-span-2">
+            {selectedLeadId ? (
+              <LeadDetail
+                leadId={selectedLeadId}
+                members={members}
+                currentUserId={data?.currentUserId ?? null}
+                canManage={canManage}
+                canWork={canWork}
+              />
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <p className="text-gray-600">Select a lead to see its details and activity</p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-end gap-2">
+            <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+    </DealerDashboardLayout>
+  );
+}
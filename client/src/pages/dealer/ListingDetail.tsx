@@ -5,6 +5,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
+import { useOrgPermissions } from "@/hooks/useOrgPermissions";
+import PriceHistorySparkline from "@/components/listings/PriceHistorySparkline";
+import MarkSoldDialog from "@/components/listings/MarkSoldDialog";
+import RevisionHistory from "@/components/listings/RevisionHistory";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BUYER_TYPE_LABELS, LISTING_STATUS_LABELS, RECYCLE_BIN_DAYS } from "@shared/listing-lifecycle";
 import { toast } from "sonner";
 import {
   ArrowLeft,
@@ -19,11 +25,14 @@ import {
   Gauge,
   Weight,
   Wrench,
+  BadgeCheck,
+  RefreshCw,
 } from "lucide-react";
 
 export default function ListingDetail() {
   const [, params] = useRoute("/dealer/listings/:id");
   const [, setLocation] = useLocation();
+  const { can } = useOrgPermissions();
   const listingId = params?.id ? parseInt(params.id) : null;
 
   const { data: listing, isLoading, refetch } = trpc.dealer.listings.getById.useQuery(
@@ -31,9 +40,26 @@ export default function ListingDetail() {
     { enabled: !!listingId }
   );
 
+  const { data: priceHistory } = trpc.dealer.listings.priceHistory.useQuery(
+    { id: listingId! },
+    { enabled: !!listingId }
+  );
+
+  const [markSoldOpen, setMarkSoldOpen] = useState(false);
+
+  const refreshListing = trpc.dealer.listings.refresh.useMutation({
+    onSuccess: () => {
+      toast.success("Listing confirmed as still available");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to refresh listing");
+    },
+  });
+
   const deleteListing = trpc.dealer.listings.delete.useMutation({
     onSuccess: () => {
-      toast.success("Listing deleted successfully");
+      toast.success("Listing moved to the recycle bin");
       setLocation("/dealer/vehicles");
     },
     onError: (error) => {
@@ -48,7 +74,7 @@ export default function ListingDetail() {
       ? `${listing.vehicle.year} ${listing.vehicle.make_name} ${listing.vehicle.model_name}`
       : "this listing";
     
-    if (confirm(`Are you sure you want to delete ${vehicleInfo}? This will archive the listing.`)) {
+    if (confirm(`Are you sure you want to delete ${vehicleInfo}? It will stay in the recycle bin for ${RECYCLE_BIN_DAYS} days.`)) {
       deleteListing.mutate({ id: listingId! });
     }
   };
@@ -90,6 +116,17 @@ export default function ListingDetail() {
   const equipmentConfig = listing.equipmentConfig;
   const images = listing.images || [];
   const primaryImage = images.find((img) => img.isPrimary) || images[0];
+  const isLive = listing.listing_status === "available" || listing.listing_status === "pending";
+
+  const lifecycleDates = [
+    ["Created", listing.created_at],
+    ["Scheduled to publish", listing.listing_status === "draft" ? listing.scheduled_publish_at : null],
+    ["Published", listing.published_at],
+    ["Last refreshed", isLive ? listing.last_refreshed_at : null],
+    ["Sale pending", listing.listing_status === "pending" ? listing.pending_at : null],
+    ["Sold", listing.sold_at],
+    ["Archived", listing.listing_status === "archived" ? listing.archived_at : null],
+  ].filter((entry): entry is [string, Date] => !!entry[1]);
 
   return (
     <DealerDashboardLayout>
@@ -110,290 +147,356 @@ export default function ListingDetail() {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              onClick={() => setLocation(`/dealer/listings/${listingId}/edit`)}
-            >
-              <Edit className="mr-2 h-4 w-4" />
-              Edit
-            </Button>
-            <Button
-              variant="outline"
-              onClick={handleDelete}
-              disabled={deleteListing.isPending}
-              className="text-destructive hover:text-destructive"
-            >
-              {deleteListing.isPending ? (
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              ) : (
-                <Trash2 className="mr-2 h-4 w-4" />
-              )}
-              Delete
-            </Button>
-          </div>
-        </div>
-
-        {/* Main Content */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Left Column - Images and Main Info */}
-          <div className="lg:col-span-2 space-y-6">
-            {/* Images */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Photos</CardTitle>
-              </CardHeader>
-              <CardContent>
-                {images.length > 0 ? (
-                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                    {images.map((image, index) => (
-                      <div
-                        key={image.id}
-                        className={`relative aspect-square rounded-lg overflow-hidden border-2 ${
-                          image.isPrimary ? "border-primary" : "border-gray-200"
-                        }`}
-                      >
-                        <img
-                          src={image.url}
-                          alt={`Vehicle image ${index + 1}`}
-                          className="w-full h-full object-cover"
-                        />
-                        {image.isPrimary && (
-                          <Badge className="absolute top-2 left-2">Primary</Badge>
-                        )}
-                      </div>
-                    ))}
-                  </div>
+            {can("listings.edit") && isLive && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => refreshListing.mutate({ id: listingId! })}
+                  disabled={refreshListing.isPending}
+                >
+                  {refreshListing.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                  )}
+                  Still Available
+                </Button>
+                <Button variant="outline" onClick={() => setMarkSoldOpen(true)}>
+                  <BadgeCheck className="mr-2 h-4 w-4" />
+                  Mark as Sold
+                </Button>
+              </>
+            )}
+            {can("listings.edit") && (
+              <Button
+                variant="outline"
+                onClick={() => setLocation(`/dealer/listings/${listingId}/edit`)}
+              >
+                <Edit className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+            )}
+            {can("listings.delete") && (
+              <Button
+                variant="outline"
+                onClick={handleDelete}
+                disabled={deleteListing.isPending}
+                className="text-destructive hover:text-destructive"
+              >
+                {deleteListing.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 ) : (
-                  <div className="aspect-video bg-gray-100 rounded-lg flex items-center justify-center">
-                    <Car className="h-12 w-12 text-gray-400" />
-                  </div>
+                  <Trash2 className="mr-2 h-4 w-4" />
                 )}
-              </CardContent>
-            </Card>
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
 
-            {/* Vehicle Information */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Vehicle Information</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                {vehicle && (
-                  <div>
-                    <h2 className="text-2xl font-bold">
-                      {vehicle.year} {vehicle.make_name} {vehicle.model_name}
-                      {vehicle.series && ` ${vehicle.series}`}
-                    </h2>
-                    {listing.config?.vin && (
-                      <p className="text-sm text-muted-foreground mt-1">VIN: {listing.config.vin}</p>
-                    )}
-                  </div>
-                )}
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
 
-                {vehicleConfig && (
-                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4 pt-4 border-t">
-                    {vehicleConfig.fuel_type && (
-                      <div>
-                        <p className="text-sm text-muted-foreground">Fuel Type</p>
-                        <p className="font-medium capitalize">{vehicleConfig.fuel_type}</p>
+          <TabsContent value="details" className="mt-6">
+            {/* Main Content */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Left Column - Images and Main Info */}
+              <div className="lg:col-span-2 space-y-6">
+                {/* Images */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Photos</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {images.length > 0 ? (
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                        {images.map((image, index) => (
+                          <div
+                            key={image.id}
+                            className={`relative aspect-square rounded-lg overflow-hidden border-2 ${
+                              image.isPrimary ? "border-primary" : "border-gray-200"
+                            }`}
+                          >
+                            <img
+                              src={image.url}
+                              alt={`Vehicle image ${index + 1}`}
+                              className="w-full h-full object-cover"
+                            />
+                            {image.isPrimary && (
+                              <Badge className="absolute top-2 left-2">Primary</Badge>
+                            )}
+                          </div>
+                        ))}
                       </div>
-                    )}
-                    {vehicleConfig.body_style && (
-                      <div>
-                        <p className="text-sm text-muted-foreground">Body Style</p>
-                        <p className="font-medium capitalize">
-                          {vehicleConfig.body_style.replace(/_/g, " ")}
-                        </p>
+                    ) : (
+                      <div className="aspect-video bg-gray-100 rounded-lg flex items-center justify-center">
+                        <Car className="h-12 w-12 text-gray-400" />
                       </div>
                     )}
-                    {vehicleConfig.drive_type && (
+                  </CardContent>
+                </Card>
+
+                {/* Vehicle Information */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Vehicle Information</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {vehicle && (
                       <div>
-                        <p className="text-sm text-muted-foreground">Drive Type</p>
-                        <p className="font-medium">{vehicleConfig.drive_type}</p>
+                        <h2 className="text-2xl font-bold">
+                          {vehicle.year} {vehicle.make_name} {vehicle.model_name}
+                          {vehicle.series && ` ${vehicle.series}`}
+                        </h2>
+                        {listing.config?.vin && (
+                          <p className="text-sm text-muted-foreground mt-1">VIN: {listing.config.vin}</p>
+                        )}
                       </div>
                     )}
-                    {vehicleConfig.wheelbase_inches && (
-                      <div>
-                        <p className="text-sm text-muted-foreground">Wheelbase</p>
-                        <p className="font-medium">{vehicleConfig.wheelbase_inches}"</p>
+
+                    {vehicleConfig && (
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 pt-4 border-t">
+                        {vehicleConfig.fuel_type && (
+                          <div>
+                            <p className="text-sm text-muted-foreground">Fuel Type</p>
+                            <p className="font-medium capitalize">{vehicleConfig.fuel_type}</p>
+                          </div>
+                        )}
+                        {vehicleConfig.body_style && (
+                          <div>
+                            <p className="text-sm text-muted-foreground">Body Style</p>
+                            <p className="font-medium capitalize">
+                              {vehicleConfig.body_style.replace(/_/g, " ")}
+                            </p>
+                          </div>
+                        )}
+                        {vehicleConfig.drive_type && (
+                          <div>
+                            <p className="text-sm text-muted-foreground">Drive Type</p>
+                            <p className="font-medium">{vehicleConfig.drive_type}</p>
+                          </div>
+                        )}
+                        {vehicleConfig.wheelbase_inches && (
+                          <div>
+                            <p className="text-sm text-muted-foreground">Wheelbase</p>
+                            <p className="font-medium">{vehicleConfig.wheelbase_inches}"</p>
+                          </div>
+                        )}
+                        {vehicleConfig.gvwr && (
+                          <div>
+                            <p className="text-sm text-muted-foreground">GVWR</p>
+                            <p className="font-medium">{vehicleConfig.gvwr.toLocaleString()} lbs</p>
+                          </div>
+                        )}
+                        {vehicleConfig.payload_capacity && (
+                          <div>
+                            <p className="text-sm text-muted-foreground">Payload Capacity</p>
+                            <p className="font-medium">{vehicleConfig.payload_capacity.toLocaleString()} lbs</p>
+                          </div>
+                        )}
+                        {vehicleConfig.engine && (
+                          <div>
+                            <p className="text-sm text-muted-foreground">Engine</p>
+                            <p className="font-medium">{vehicleConfig.engine}</p>
+                          </div>
+                        )}
+                        {vehicleConfig.transmission && (
+                          <div>
+                            <p className="text-sm text-muted-foreground">Transmission</p>
+                            <p className="font-medium">{vehicleConfig.transmission}</p>
+                          </div>
+                        )}
                       </div>
                     )}
-                    {vehicleConfig.gvwr && (
-                      <div>
-                        <p className="text-sm text-muted-foreground">GVWR</p>
-                        <p className="font-medium">{vehicleConfig.gvwr.toLocaleString()} lbs</p>
+
+                    {equipmentConfig && (
+                      <div className="pt-4 border-t">
+                        <h3 className="font-semibold mb-3">Equipment</h3>
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                          {equipmentConfig.length_inches && (
+                            <div>
+                              <p className="text-sm text-muted-foreground">Length</p>
+                              <p className="font-medium">{equipmentConfig.length_inches}"</p>
+                            </div>
+                          )}
+                          {equipmentConfig.weight_lbs && (
+                            <div>
+                              <p className="text-sm text-muted-foreground">Weight</p>
+                              <p className="font-medium">{equipmentConfig.weight_lbs.toLocaleString()} lbs</p>
+                            </div>
+                          )}
+                        </div>
                       </div>
                     )}
-                    {vehicleConfig.payload_capacity && (
+                  </CardContent>
+                </Card>
+
+                {/* Description */}
+                {listing.description && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Description</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-gray-700 whitespace-pre-wrap">{listing.description}</p>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+
+              {/* Right Column - Pricing and Details */}
+              <div className="space-y-6">
+                {/* Pricing Card */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <DollarSign className="h-5 w-5" />
+                      Pricing
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Asking Price</p>
+                      <p className="text-3xl font-bold text-primary">
+                        ${listing.asking_price?.toLocaleString() || "N/A"}
+                      </p>
+                    </div>
+                    {listing.special_price && (
                       <div>
-                        <p className="text-sm text-muted-foreground">Payload Capacity</p>
-                        <p className="font-medium">{vehicleConfig.payload_capacity.toLocaleString()} lbs</p>
+                        <p className="text-sm text-muted-foreground">Special Price</p>
+                        <p className="text-2xl font-semibold text-green-600">
+                          ${listing.special_price.toLocaleString()}
+                        </p>
                       </div>
                     )}
-                    {vehicleConfig.engine && (
-                      <div>
-                        <p className="text-sm text-muted-foreground">Engine</p>
-                        <p className="font-medium">{vehicleConfig.engine}</p>
+                    {priceHistory && priceHistory.length > 0 && (
+                      <div className="pt-4 border-t">
+                        <p className="text-sm text-muted-foreground mb-2">Price History</p>
+                        <PriceHistorySparkline points={priceHistory} detailed />
                       </div>
                     )}
-                    {vehicleConfig.transmission && (
-                      <div>
-                        <p className="text-sm text-muted-foreground">Transmission</p>
-                        <p className="font-medium">{vehicleConfig.transmission}</p>
+                    <div className="pt-4 border-t space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Condition</span>
+                        <Badge className="capitalize">
+                          {listing.condition?.replace(/_/g, " ") || "N/A"}
+                        </Badge>
                       </div>
-                    )}
-                  </div>
-                )}
-
-                {equipmentConfig && (
-                  <div className="pt-4 border-t">
-                    <h3 className="font-semibold mb-3">Equipment</h3>
-                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                      {equipmentConfig.length_inches && (
-                        <div>
-                          <p className="text-sm text-muted-foreground">Length</p>
-                          <p className="font-medium">{equipmentConfig.length_inches}"</p>
+                      {listing.mileage && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-muted-foreground">Mileage</span>
+                          <span className="font-medium">{listing.mileage.toLocaleString()} miles</span>
                         </div>
                       )}
-                      {equipmentConfig.weight_lbs && (
-                        <div>
-                          <p className="text-sm text-muted-foreground">Weight</p>
-                          <p className="font-medium">{equipmentConfig.weight_lbs.toLocaleString()} lbs</p>
+                      {listing.stock_number && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-muted-foreground">Stock #</span>
+                          <span className="font-medium">{listing.stock_number}</span>
                         </div>
                       )}
                     </div>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-
-            {/* Description */}
-            {listing.description && (
-              <Card>
-                <CardHeader>
-                  <CardTitle>Description</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-gray-700 whitespace-pre-wrap">{listing.description}</p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
+                  </CardContent>
+                </Card>
 
-          {/* Right Column - Pricing and Details */}
-          <div className="space-y-6">
-            {/* Pricing Card */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <DollarSign className="h-5 w-5" />
-                  Pricing
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <p className="text-sm text-muted-foreground">Asking Price</p>
-                  <p className="text-3xl font-bold text-primary">
-                    ${listing.asking_price?.toLocaleString() || "N/A"}
-                  </p>
-                </div>
-                {listing.special_price && (
-                  <div>
-                    <p className="text-sm text-muted-foreground">Special Price</p>
-                    <p className="text-2xl font-semibold text-green-600">
-                      ${listing.special_price.toLocaleString()}
-                    </p>
-                  </div>
-                )}
-                <div className="pt-4 border-t space-y-2">
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">Condition</span>
-                    <Badge className="capitalize">
-                      {listing.condition?.replace(/_/g, " ") || "N/A"}
-                    </Badge>
-                  </div>
-                  {listing.mileage && (
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-muted-foreground">Mileage</span>
-                      <span className="font-medium">{listing.mileage.toLocaleString()} miles</span>
+                {/* Status and Stats */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Status & Statistics</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground mb-2">Status</p>
+                      <Badge
+                        variant={
+                          listing.listing_status === "available"
+                            ? "default"
+                            : listing.listing_status === "draft"
+                            ? "secondary"
+                            : listing.listing_status === "sold"
+                            ? "destructive"
+                            : "outline"
+                        }
+                      >
+                        {LISTING_STATUS_LABELS[listing.listing_status]}
+                      </Badge>
                     </div>
-                  )}
-                  {listing.stock_number && (
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-muted-foreground">Stock #</span>
-                      <span className="font-medium">{listing.stock_number}</span>
+                    {listing.listing_status === "sold" && listing.sale_price && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Sold For</span>
+                        <span className="font-medium">
+                          ${Number(listing.sale_price).toLocaleString()}
+                          {listing.buyer_type && ` · ${BUYER_TYPE_LABELS[listing.buyer_type]}`}
+                        </span>
+                      </div>
+                    )}
+                    <div className="pt-4 border-t space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Eye className="h-4 w-4 text-muted-foreground" />
+                          <span className="text-sm text-muted-foreground">Views</span>
+                        </div>
+                        <span className="font-medium">{listing.view_count || 0}</span>
+                      </div>
+                      {lifecycleDates.map(([label, date]) => (
+                        <div key={label} className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <Calendar className="h-4 w-4 text-muted-foreground" />
+                            <span className="text-sm text-muted-foreground">{label}</span>
+                          </div>
+                          <span className="font-medium text-sm">
+                            {new Date(date).toLocaleDateString()}
+                          </span>
+                        </div>
+                      ))}
                     </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
+                  </CardContent>
+                </Card>
 
-            {/* Status and Stats */}
+                {/* Location */}
+                {(listing.location_city || listing.location_state) && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <MapPin className="h-5 w-5" />
+                        Location
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="font-medium">
+                        {listing.location_city}
+                        {listing.location_city && listing.location_state && ", "}
+                        {listing.location_state}
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history" className="mt-6">
             <Card>
               <CardHeader>
-                <CardTitle>Status & Statistics</CardTitle>
+                <CardTitle>Revision History</CardTitle>
               </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <p className="text-sm text-muted-foreground mb-2">Status</p>
-                  <Badge
-                    variant={
-                      listing.status === "available"
-                        ? "default"
-                        : listing.status === "draft"
-                        ? "secondary"
-                        : listing.status === "sold"
-                        ? "destructive"
-                        : "outline"
-                    }
-                    className="capitalize"
-                  >
-                    {listing.status}
-                  </Badge>
-                </div>
-                <div className="pt-4 border-t space-y-3">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      <Eye className="h-4 w-4 text-muted-foreground" />
-                      <span className="text-sm text-muted-foreground">Views</span>
-                    </div>
-                    <span className="font-medium">{listing.view_count || 0}</span>
-                  </div>
-                  {listing.created_at && (
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <Calendar className="h-4 w-4 text-muted-foreground" />
-                        <span className="text-sm text-muted-foreground">Created</span>
-                      </div>
-                      <span className="font-medium text-sm">
-                        {new Date(listing.created_at).toLocaleDateString()}
-                      </span>
-                    </div>
-                  )}
-                </div>
+              <CardContent>
+                <RevisionHistory listingId={listingId!} canRevert={can("listings.edit")} />
               </CardContent>
             </Card>
-
-            {/* Location */}
-            {(listing.location_city || listing.location_state) && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <MapPin className="h-5 w-5" />
-                    Location
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="font-medium">
-                    {listing.location_city}
-                    {listing.location_city && listing.location_state && ", "}
-                    {listing.location_state}
-                  </p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
-        </div>
+          </TabsContent>
+        </Tabs>
       </div>
+
+      <MarkSoldDialog
+        open={markSoldOpen}
+        onOpenChange={setMarkSoldOpen}
+        listingId={listingId!}
+        defaultPrice={listing.special_price ?? listing.asking_price}
+        onSold={() => refetch()}
+      />
     </DealerDashboardLayout>
   );
 }
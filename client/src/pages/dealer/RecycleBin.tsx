@@ -0,0 +1,123 @@
+import DealerDashboardLayout from "@/components/DealerDashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/lib/trpc";
+import { useOrgPermissions } from "@/hooks/useOrgPermissions";
+import { RECYCLE_BIN_DAYS } from "@shared/listing-lifecycle";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+const ENTITY_LABELS: Record<string, string> = {
+  vehicle_listing: "Vehicle",
+  body_equipment: "Body/Equipment",
+  charging_infrastructure: "Charging Infrastructure",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysLeft = (purgeAt: Date) => Math.max(0, Math.ceil((new Date(purgeAt).getTime() - Date.now()) / DAY_MS));
+
+export default function RecycleBin() {
+  const { can } = useOrgPermissions();
+  const utils = trpc.useUtils();
+  const { data: items, isLoading } = trpc.dealer.recycleBin.list.useQuery();
+
+  const restore = trpc.dealer.recycleBin.restore.useMutation({
+    onSuccess: async (_, variables) => {
+      toast.success(
+        variables.entityType === "vehicle_listing"
+          ? "Listing restored as archived. Move it to draft to republish it."
+          : `${ENTITY_LABELS[variables.entityType]} restored`
+      );
+      await Promise.all([
+        utils.dealer.recycleBin.list.invalidate(),
+        utils.dealer.listings.list.invalidate(),
+        utils.dealer.bodies.list.invalidate(),
+        utils.dealer.infrastructure.list.invalidate(),
+      ]);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to restore item");
+    },
+  });
+
+  return (
+    <DealerDashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Recycle Bin</h1>
+          <p className="text-gray-600 mt-2">
+            Deleted vehicles, bodies/equipment and charging infrastructure are kept for {RECYCLE_BIN_DAYS} days, then removed permanently
+            along with their photos.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {items?.length || 0} Item{items?.length !== 1 ? "s" : ""}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : items && items.length > 0 ? (
+              <div className="space-y-4">
+                {items.map((item) => (
+                  <div
+                    key={`${item.entityType}-${item.id}`}
+                    className="flex items-center gap-4 p-4 border border-gray-200 rounded-lg"
+                  >
+                    <div className="w-20 h-20 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                      {item.imageUrl ? (
+                        <img src={item.imageUrl} alt={item.title} className="w-full h-full object-cover rounded-lg" />
+                      ) : (
+                        <span className="text-gray-400 text-xs">No Image</span>
+                      )}
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold text-gray-900 truncate">{item.title}</h3>
+                        <Badge variant="secondary">{ENTITY_LABELS[item.entityType]}</Badge>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">
+                        Deleted {new Date(item.deletedAt).toLocaleDateString()}
+                      </p>
+                      <p className="text-sm text-red-600 mt-1">
+                        {daysLeft(item.purgeAt) === 0
+                          ? "Will be removed permanently soon"
+                          : `Removed permanently in ${daysLeft(item.purgeAt)} day${daysLeft(item.purgeAt) !== 1 ? "s" : ""}`}
+                      </p>
+                    </div>
+
+                    {can("listings.delete") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={restore.isPending}
+                        onClick={() => restore.mutate({ entityType: item.entityType, id: item.id })}
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <Trash2 className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">The recycle bin is empty</h3>
+                <p className="text-gray-600">Deleted inventory will appear here for {RECYCLE_BIN_DAYS} days.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DealerDashboardLayout>
+  );
+}
@@ -1,138 +1,1010 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { z } from "zod";
+import { toast } from "sonner";
+import { Link } from "wouter";
 import DealerDashboardLayout from "@/components/DealerDashboardLayout";
+import TeamSettings from "@/components/team/TeamSettings";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
-import { Building2, MapPin, Phone, Mail, Globe } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import type { CompleteProfile, DealerLocation } from "@/types/profile";
+import { hasPermission } from "@shared/permissions";
+import { AUTO_ARCHIVE_DAY_OPTIONS, DEFAULT_AUTO_ARCHIVE_DAYS } from "@shared/listing-lifecycle";
+import { Building2, MapPin, Phone, Mail, Globe, Inbox, Loader2, Plus } from "lucide-react";
+
+type BusinessHours = Record<string, { open: string; close: string; closed: boolean }>;
+type PriceType = "negotiable" | "fixed" | "call_for_price";
+
+const DAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+const DEFAULT_BUSINESS_HOURS: BusinessHours = Object.fromEntries(
+  DAYS.map((day) => [day, { open: "08:00", close: "18:00", closed: day === "sunday" }])
+);
+
+const PRICE_TYPE_LABELS: Record<PriceType, string> = {
+  negotiable: "Negotiable",
+  fixed: "Fixed price",
+  call_for_price: "Call for price",
+};
+
+const NO_DEFAULT_LOCATION = "none";
+const NEVER_AUTO_ARCHIVE = "never";
+
+const optionalEmail = z.union([z.string().trim().email("Enter a valid email address").max(255), z.literal("")]);
+
+const companySchema = z.object({
+  organization_name: z.string().trim().min(1, "Company name is required").max(255),
+  display_name: z.string().max(255),
+  primary_email: z.string().trim().email("Enter a valid email address").max(255),
+  primary_phone: z.string().max(50),
+  website_url: z.union([z.string().trim().url("Enter a full URL, including https://").max(500), z.literal("")]),
+});
+
+const leadSettingsSchema = z.object({
+  lead_routing_email: optionalEmail,
+  inquiry_email_notification: z.boolean(),
+  weekly_performance_report: z.boolean(),
+  default_listing_location_id: z.string(),
+  default_price_type: z.enum(["negotiable", "fixed", "call_for_price"]),
+  listing_auto_archive_days: z.string(),
+});
+
+const businessHoursSchema = z
+  .record(
+    z.string(),
+    z.object({
+      open: z.string().regex(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, "Enter a time"),
+      close: z.string().regex(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, "Enter a time"),
+      closed: z.boolean(),
+    })
+  )
+  .superRefine((hours, ctx) => {
+    for (const [day, entry] of Object.entries(hours)) {
+      // HH:MM strings compare correctly as text
+      if (!entry.closed && entry.open >= entry.close) {
+        ctx.addIssue({ code: "custom", path: [day], message: "Closing time must be after opening time" });
+      }
+    }
+  });
+
+const locationSchema = z.object({
+  location_name: z.string().trim().min(1, "Location name is required").max(255),
+  address_line1: z.string().max(255),
+  city: z.string().max(100),
+  state_province: z.string().max(100),
+  postal_code: z.union([z.string().regex(/^\d{5}(-\d{4})?$/, "Enter a 5 or 9 digit ZIP code"), z.literal("")]),
+  phone: z.string().max(50),
+  email: optionalEmail,
+  business_hours: businessHoursSchema,
+  is_primary: z.boolean(),
+});
+
+type CompanyForm = z.infer<typeof companySchema>;
+type LeadSettingsForm = z.infer<typeof leadSettingsSchema>;
+type LocationForm = z.infer<typeof locationSchema> & { id?: number };
+type FieldErrors = Record<string, string>;
+
+function toFieldErrors(error: z.ZodError): FieldErrors {
+  const errors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const key = issue.path.join(".");
+    if (!errors[key]) errors[key] = issue.message;
+  }
+  return errors;
+}
+
+function normalizeBusinessHours(raw: unknown): BusinessHours {
+  const hours = raw && typeof raw === "object" ? (raw as Record<string, any>) : {};
+  return Object.fromEntries(
+    DAYS.map((day) => {
+      const entry = hours[day];
+      const fallback = DEFAULT_BUSINESS_HOURS[day];
+      return [
+        day,
+        entry && typeof entry === "object"
+          ? {
+              open: entry.open || fallback.open,
+              close: entry.close || fallback.close,
+              closed: !!entry.closed,
+            }
+          : fallback,
+      ];
+    })
+  );
+}
+
+function toLocationForm(location: DealerLocation): LocationForm {
+  return {
+    id: location.id,
+    location_name: location.location_name || "",
+    address_line1: location.address_line1 || "",
+    city: location.city || "",
+    state_province: location.state_province || "",
+    postal_code: location.postal_code || "",
+    phone: location.phone || "",
+    email: location.email || "",
+    business_hours: normalizeBusinessHours(location.business_hours),
+    is_primary: !!location.is_primary,
+  };
+}
+
+/**
+ * Form state for one settings section
+ * Tracks the last saved values so each section knows whether it is dirty,
+ * and marks the section saved as soon as a save starts (rolled back on failure)
+ */
+function useSectionForm<T>(source: T, schema: z.ZodType<T>) {
+  const [values, setValues] = useState<T>(source);
+  const [baseline, setBaseline] = useState<T>(source);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [saving, setSaving] = useState(false);
+  const savingRef = useRef(false);
+  const baselineRef = useRef(baseline);
+  baselineRef.current = baseline;
+
+  // Pick up server changes, keeping any edits the user has not saved yet
+  const sourceKey = JSON.stringify(source);
+  useEffect(() => {
+    if (savingRef.current) return;
+    const previousBaseline = JSON.stringify(baselineRef.current);
+    setValues((current) => (JSON.stringify(current) === previousBaseline ? source : current));
+    setBaseline(source);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sourceKey]);
+
+  const dirty = useMemo(() => JSON.stringify(values) !== JSON.stringify(baseline), [values, baseline]);
+
+  const setField = useCallback(<K extends keyof T>(key: K, value: T[K]) => {
+    setValues((current) => ({ ...current, [key]: value }));
+    setErrors((current) => {
+      const next = { ...current };
+      for (const errorKey of Object.keys(next)) {
+        if (errorKey === key || errorKey.startsWith(`${String(key)}.`)) delete next[errorKey];
+      }
+      return next;
+    });
+  }, []);
+
+  const discard = useCallback(() => {
+    setValues(baselineRef.current);
+    setErrors({});
+  }, []);
+
+  const save = useCallback(
+    async (persist: (values: T) => Promise<unknown>): Promise<boolean> => {
+      const parsed = schema.safeParse(values);
+      if (!parsed.success) {
+        setErrors(toFieldErrors(parsed.error));
+        return false;
+      }
+
+      const previous = baselineRef.current;
+      savingRef.current = true;
+      setSaving(true);
+      setErrors({});
+      setBaseline(values);
+      try {
+        await persist(values);
+        return true;
+      } catch (error) {
+        setBaseline(previous);
+        throw error;
+      } finally {
+        savingRef.current = false;
+        setSaving(false);
+      }
+    },
+    [schema, values]
+  );
+
+  return { values, setField, errors, dirty, saving, save, discard };
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-sm text-red-600">{message}</p>;
+}
+
+function SectionActions({
+  dirty,
+  saving,
+  disabled,
+  onSave,
+  onDiscard,
+}: {
+  dirty: boolean;
+  saving: boolean;
+  disabled?: boolean;
+  onSave: () => void;
+  onDiscard: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      {dirty && <Badge variant="secondary">Unsaved changes</Badge>}
+      <Button variant="ghost" size="sm" onClick={onDiscard} disabled={!dirty || saving}>
+        Discard
+      </Button>
+      <Button size="sm" onClick={onSave} disabled={!dirty || saving || disabled}>
+        {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save
+      </Button>
+    </div>
+  );
+}
+
+function BusinessHoursEditor({
+  hours,
+  errors,
+  onChange,
+}: {
+  hours: BusinessHours;
+  errors: FieldErrors;
+  onChange: (hours: BusinessHours) => void;
+}) {
+  const updateDay = (day: string, field: "open" | "close" | "closed", value: string | boolean) => {
+    onChange({ ...hours, [day]: { ...hours[day], [field]: value } });
+  };
+
+  return (
+    <div className="space-y-2 border rounded-lg p-4">
+      {DAYS.map((day) => (
+        <div key={day} className="space-y-1">
+          <div className="flex items-center gap-2">
+            <div className="w-24 text-sm capitalize">{day}</div>
+            <Switch
+              checked={!hours[day]?.closed}
+              onCheckedChange={(checked) => updateDay(day, "closed", !checked)}
+            />
+            {hours[day]?.closed ? (
+              <span className="text-sm text-muted-foreground">Closed</span>
+            ) : (
+              <>
+                <Input
+                  type="time"
+                  value={hours[day]?.open || ""}
+                  onChange={(e) => updateDay(day, "open", e.target.value)}
+                  className="w-32"
+                />
+                <span className="text-sm">to</span>
+                <Input
+                  type="time"
+                  value={hours[day]?.close || ""}
+                  onChange={(e) => updateDay(day, "close", e.target.value)}
+                  className="w-32"
+                />
+              </>
+            )}
+          </div>
+          <FieldError
+            message={errors[`business_hours.${day}`] ?? errors[`business_hours.${day}.open`] ?? errors[`business_hours.${day}.close`]}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function LocationSection({
+  location,
+  original,
+  dealerId,
+  organizationId,
+  canManage,
+  onDirtyChange,
+  onRemoveDraft,
+}: {
+  location: LocationForm;
+  original?: DealerLocation;
+  dealerId: number;
+  organizationId: number;
+  canManage: boolean;
+  onDirtyChange: (key: string, dirty: boolean) => void;
+  onRemoveDraft?: () => void;
+}) {
+  const utils = trpc.useUtils();
+  const form = useSectionForm<LocationForm>(location, locationSchema as z.ZodType<LocationForm>);
+  const sectionKey = `location-${location.id ?? "new"}`;
+
+  const upsertLocation = trpc.profile.upsertDealerLocation.useMutation({
+    onMutate: async (input) => {
+      await utils.profile.get.cancel();
+      const previous = utils.profile.get.getData();
+      if (input.id) {
+        utils.profile.get.setData(undefined, (old: any) =>
+          old?.dealerLocations
+            ? {
+                ...old,
+                dealerLocations: old.dealerLocations.map((existing: DealerLocation) =>
+                  existing.id === input.id
+                    ? { ...existing, ...input }
+                    : input.is_primary
+                      ? { ...existing, is_primary: false }
+                      : existing
+                ),
+              }
+            : old
+        );
+      }
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      if (context?.previous) utils.profile.get.setData(undefined, context.previous);
+    },
+    onSettled: () => utils.profile.get.invalidate(),
+  });
+
+  useEffect(() => {
+    onDirtyChange(sectionKey, form.dirty);
+  }, [form.dirty, onDirtyChange, sectionKey]);
+
+  useEffect(() => () => onDirtyChange(sectionKey, false), [onDirtyChange, sectionKey]);
+
+  const handleSave = async () => {
+    try {
+      const saved = await form.save((values) =>
+        upsertLocation.mutateAsync({
+          id: values.id,
+          dealer_id: dealerId,
+          organization_id: organizationId,
+          // The upsert writes every column, so carry over fields this page doesn't edit
+          location_type: original?.location_type ?? (values.is_primary ? "main" : "satellite"),
+          address_line2: original?.address_line2 || undefined,
+          country: original?.country || undefined,
+          latitude: original?.latitude ?? null,
+          longitude: original?.longitude ?? null,
+          phone_ext: original?.phone_ext || undefined,
+          fax: original?.fax || undefined,
+          is_active: original?.is_active ?? true,
+          manager_name: original?.manager_name || undefined,
+          manager_email: original?.manager_email || undefined,
+          manager_phone: original?.manager_phone || undefined,
+          notes: original?.notes || undefined,
+          location_name: values.location_name.trim(),
+          address_line1: values.address_line1,
+          city: values.city,
+          state_province: values.state_province,
+          postal_code: values.postal_code,
+          phone: values.phone,
+          email: values.email || undefined,
+          business_hours: values.business_hours,
+          is_primary: values.is_primary,
+        })
+      );
+      if (saved) {
+        toast.success(`${form.values.location_name} saved`);
+        if (!location.id) onRemoveDraft?.();
+      } else {
+        toast.error("Please fix the highlighted fields");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save location");
+    }
+  };
+
+  const { values, errors, setField } = form;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="h-5 w-5" />
+          {location.id ? location.location_name || "Location" : "New Location"}
+          {location.is_primary && <Badge variant="outline">Primary</Badge>}
+        </CardTitle>
+        <SectionActions
+          dirty={form.dirty || !location.id}
+          saving={form.saving}
+          disabled={!canManage}
+          onSave={handleSave}
+          onDiscard={() => {
+            form.discard();
+            if (!location.id) onRemoveDraft?.();
+          }}
+        />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${sectionKey}-name`}>Location Name</Label>
+            <Input
+              id={`${sectionKey}-name`}
+              placeholder="Main Lot"
+              value={values.location_name}
+              onChange={(e) => setField("location_name", e.target.value)}
+            />
+            <FieldError message={errors.location_name} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${sectionKey}-address`}>Street Address</Label>
+            <Input
+              id={`${sectionKey}-address`}
+              placeholder="123 Main St"
+              value={values.address_line1}
+              onChange={(e) => setField("address_line1", e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${sectionKey}-city`}>City</Label>
+            <Input
+              id={`${sectionKey}-city`}
+              placeholder="City"
+              value={values.city}
+              onChange={(e) => setField("city", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${sectionKey}-state`}>State</Label>
+            <Input
+              id={`${sectionKey}-state`}
+              placeholder="State"
+              value={values.state_province}
+              onChange={(e) => setField("state_province", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${sectionKey}-zip`}>ZIP Code</Label>
+            <Input
+              id={`${sectionKey}-zip`}
+              placeholder="12345"
+              value={values.postal_code}
+              onChange={(e) => setField("postal_code", e.target.value)}
+            />
+            <FieldError message={errors.postal_code} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${sectionKey}-phone`}>Phone Number</Label>
+            <div className="relative">
+              <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                id={`${sectionKey}-phone`}
+                placeholder="(555) 123-4567"
+                className="pl-10"
+                value={values.phone}
+                onChange={(e) => setField("phone", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${sectionKey}-email`}>Email</Label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                id={`${sectionKey}-email`}
+                type="email"
+                placeholder="lot@example.com"
+                className="pl-10"
+                value={values.email}
+                onChange={(e) => setField("email", e.target.value)}
+              />
+            </div>
+            <FieldError message={errors.email} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Business Hours</Label>
+          <BusinessHoursEditor
+            hours={values.business_hours}
+            errors={errors}
+            onChange={(hours) => setField("business_hours", hours)}
+          />
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Switch
+            id={`${sectionKey}-primary`}
+            checked={values.is_primary}
+            onCheckedChange={(checked) => setField("is_primary", checked)}
+          />
+          <Label htmlFor={`${sectionKey}-primary`}>Primary Location</Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function DealerSettings() {
+  const utils = trpc.useUtils();
+  const { data, isLoading, error } = trpc.profile.get.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  }) as { data: CompleteProfile | undefined; isLoading: boolean; error: any };
+
+  const organization = data?.organization ?? null;
+  const dealer = data?.dealer ?? null;
+  const savedLocations = useMemo(() => data?.dealerLocations ?? [], [data?.dealerLocations]);
+  const canManage = hasPermission(data?.account.role, "settings.manage");
+
+  const [showNewLocation, setShowNewLocation] = useState(false);
+  const [dirtySections, setDirtySections] = useState<Set<string>>(new Set());
+
+  const markDirty = useCallback((key: string, dirty: boolean) => {
+    setDirtySections((current) => {
+      if (current.has(key) === dirty) return current;
+      const next = new Set(current);
+      if (dirty) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  }, []);
+
+  const company = useSectionForm<CompanyForm>(
+    {
+      organization_name: organization?.organization_name || "",
+      display_name: organization?.display_name || "",
+      primary_email: organization?.primary_email || "",
+      primary_phone: organization?.primary_phone || "",
+      website_url: organization?.website_url || "",
+    },
+    companySchema
+  );
+
+  const leadSettings = useSectionForm<LeadSettingsForm>(
+    {
+      lead_routing_email: dealer?.lead_routing_email || "",
+      inquiry_email_notification: dealer?.inquiry_email_notification ?? true,
+      weekly_performance_report: dealer?.weekly_performance_report ?? true,
+      default_listing_location_id: dealer?.default_listing_location_id
+        ? String(dealer.default_listing_location_id)
+        : NO_DEFAULT_LOCATION,
+      default_price_type: dealer?.default_price_type || "negotiable",
+      listing_auto_archive_days:
+        dealer?.listing_auto_archive_days === null
+          ? NEVER_AUTO_ARCHIVE
+          : String(dealer?.listing_auto_archive_days ?? DEFAULT_AUTO_ARCHIVE_DAYS),
+    },
+    leadSettingsSchema
+  );
+
+  useEffect(() => markDirty("company", company.dirty), [company.dirty, markDirty]);
+  useEffect(() => markDirty("leads", leadSettings.dirty), [leadSettings.dirty, markDirty]);
+
+  // Warn before leaving with unsaved sections
+  useEffect(() => {
+    if (dirtySections.size === 0) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [dirtySections.size]);
+
+  const updateOrganization = trpc.profile.updateOrganization.useMutation({
+    onMutate: async (input) => {
+      await utils.profile.get.cancel();
+      const previous = utils.profile.get.getData();
+      const { organizationId, ...fields } = input;
+      utils.profile.get.setData(undefined, (old: any) =>
+        old?.organization ? { ...old, organization: { ...old.organization, ...fields } } : old
+      );
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      if (context?.previous) utils.profile.get.setData(undefined, context.previous);
+    },
+    onSettled: () => utils.profile.get.invalidate(),
+  });
+
+  const updateDealer = trpc.profile.updateDealer.useMutation({
+    onMutate: async (input) => {
+      await utils.profile.get.cancel();
+      const previous = utils.profile.get.getData();
+      const { organizationId, ...fields } = input;
+      utils.profile.get.setData(undefined, (old: any) =>
+        old?.dealer ? { ...old, dealer: { ...old.dealer, ...fields } } : old
+      );
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      if (context?.previous) utils.profile.get.setData(undefined, context.previous);
+    },
+    onSettled: () => utils.profile.get.invalidate(),
+  });
+
+  const saveCompany = async () => {
+    if (!organization) return;
+    try {
+      const saved = await company.save((values) =>
+        updateOrganization.mutateAsync({
+          organizationId: organization.id,
+          organization_name: values.organization_name.trim(),
+          display_name: values.display_name,
+          primary_email: values.primary_email.trim(),
+          primary_phone: values.primary_phone,
+          website_url: values.website_url.trim(),
+          // Organization hours aren't edited here; locations carry their own
+          business_hours: undefined,
+        })
+      );
+      if (saved) toast.success("Company information saved");
+      else toast.error("Please fix the highlighted fields");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save company information");
+    }
+  };
+
+  const saveLeadSettings = async () => {
+    if (!organization) return;
+    try {
+      const saved = await leadSettings.save((values) =>
+        updateDealer.mutateAsync({
+          organizationId: organization.id,
+          lead_routing_email: values.lead_routing_email.trim(),
+          inquiry_email_notification: values.inquiry_email_notification,
+          weekly_performance_report: values.weekly_performance_report,
+          default_listing_location_id:
+            values.default_listing_location_id === NO_DEFAULT_LOCATION
+              ? null
+              : Number(values.default_listing_location_id),
+          default_price_type: values.default_price_type,
+          listing_auto_archive_days:
+            values.listing_auto_archive_days === NEVER_AUTO_ARCHIVE
+              ? null
+              : Number(values.listing_auto_archive_days),
+        })
+      );
+      if (saved) toast.success("Lead and listing settings saved");
+      else toast.error("Please fix the highlighted fields");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save lead and listing settings");
+    }
+  };
+
+  const locationForms = useMemo(() => savedLocations.map(toLocationForm), [savedLocations]);
+
+  const newLocation: LocationForm = useMemo(
+    () => ({
+      location_name: savedLocations.length === 0 ? organization?.organization_name || "" : "",
+      address_line1: "",
+      city: "",
+      state_province: "",
+      postal_code: "",
+      phone: "",
+      email: "",
+      business_hours: DEFAULT_BUSINESS_HOURS,
+      is_primary: savedLocations.length === 0,
+    }),
+    [savedLocations.length, organization?.organization_name]
+  );
+
+  if (isLoading) {
+    return (
+      <DealerDashboardLayout>
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      </DealerDashboardLayout>
+    );
+  }
+
+  if (error || !organization) {
+    return (
+      <DealerDashboardLayout>
+        <Card>
+          <CardContent className="py-12 text-center space-y-4">
+            <p className="text-gray-600">
+              {error?.message || "Your account is not linked to a dealer organization yet."}
+            </p>
+            <Link href="/profile">
+              <Button variant="outline">Complete your profile</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </DealerDashboardLayout>
+    );
+  }
+
   return (
     <DealerDashboardLayout>
       <div className="space-y-6">
         {/* Header */}
-        <div>
-          <h1 className="text-3xl font-bold text-gray-900">Dealer Settings</h1>
-          <p className="text-gray-600 mt-2">Manage your company profile and preferences</p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Dealer Settings</h1>
+            <p className="text-gray-600 mt-2">Manage your company profile, team and preferences</p>
+          </div>
+          {dirtySections.size > 0 && (
+            <Badge variant="secondary">
+              {dirtySections.size} section{dirtySections.size === 1 ? "" : "s"} with unsaved changes
+            </Badge>
+          )}
         </div>
 
-        {/* Company Information */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Building2 className="h-5 w-5" />
-              Company Information
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="companyName">Company Name</Label>
-                <Input id="companyName" placeholder="Your Company Name" />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="website">Website</Label>
-                <div className="relative">
-                  <Globe className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                  <Input id="website" placeholder="https://example.com" className="pl-10" />
-                </div>
-              </div>
-            </div>
+        <Tabs defaultValue="general" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="general">General</TabsTrigger>
+            <TabsTrigger value="team">Team</TabsTrigger>
+          </TabsList>
 
-            <div className="space-y-2">
-              <Label htmlFor="description">Company Description</Label>
-              <Textarea
-                id="description"
-                placeholder="Tell buyers about your company..."
-                rows={4}
-              />
-            </div>
+          {/* Kept mounted so unsaved location edits survive switching tabs */}
+          <TabsContent value="general" forceMount className="space-y-6 data-[state=inactive]:hidden">
+            {!canManage && (
+              <p className="text-sm text-gray-600">
+                Only organization owners and admins can change company, location and lead settings.
+              </p>
+            )}
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="phone">Phone Number</Label>
-                <div className="relative">
-                  <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                  <Input id="phone" placeholder="(555) 123-4567" className="pl-10" />
+            {/* Company Information */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="flex items-center gap-2">
+                  <Building2 className="h-5 w-5" />
+                  Company Information
+                </CardTitle>
+                <SectionActions
+                  dirty={company.dirty}
+                  saving={company.saving}
+                  disabled={!canManage}
+                  onSave={saveCompany}
+                  onDiscard={company.discard}
+                />
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="companyName">Company Name</Label>
+                    <Input
+                      id="companyName"
+                      placeholder="Your Company Name"
+                      value={company.values.organization_name}
+                      onChange={(e) => company.setField("organization_name", e.target.value)}
+                    />
+                    <FieldError message={company.errors.organization_name} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="displayName">Display Name</Label>
+                    <Input
+                      id="displayName"
+                      placeholder="Name shown to buyers"
+                      value={company.values.display_name}
+                      onChange={(e) => company.setField("display_name", e.target.value)}
+                    />
+                  </div>
                 </div>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <div className="relative">
-                  <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                  <Input id="email" type="email" placeholder="contact@example.com" className="pl-10" />
+
+                <div className="space-y-2">
+                  <Label htmlFor="website">Website</Label>
+                  <div className="relative">
+                    <Globe className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="website"
+                      placeholder="https://example.com"
+                      className="pl-10"
+                      value={company.values.website_url}
+                      onChange={(e) => company.setField("website_url", e.target.value)}
+                    />
+                  </div>
+                  <FieldError message={company.errors.website_url} />
                 </div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
 
-        {/* Location */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <MapPin className="h-5 w-5" />
-              Primary Location
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="address">Street Address</Label>
-              <Input id="address" placeholder="123 Main St" />
-            </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="phone">Phone Number</Label>
+                    <div className="relative">
+                      <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="phone"
+                        placeholder="(555) 123-4567"
+                        className="pl-10"
+                        value={company.values.primary_phone}
+                        onChange={(e) => company.setField("primary_phone", e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Email</Label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="email"
+                        type="email"
+                        placeholder="contact@example.com"
+                        className="pl-10"
+                        value={company.values.primary_email}
+                        onChange={(e) => company.setField("primary_email", e.target.value)}
+                      />
+                    </div>
+                    <FieldError message={company.errors.primary_email} />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="city">City</Label>
-                <Input id="city" placeholder="City" />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="state">State</Label>
-                <Input id="state" placeholder="State" />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="zip">ZIP Code</Label>
-                <Input id="zip" placeholder="12345" />
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+            {/* Leads & Listing Defaults */}
+            {dealer && (
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle className="flex items-center gap-2">
+                    <Inbox className="h-5 w-5" />
+                    Leads & Listing Defaults
+                  </CardTitle>
+                  <SectionActions
+                    dirty={leadSettings.dirty}
+                    saving={leadSettings.saving}
+                    disabled={!canManage}
+                    onSave={saveLeadSettings}
+                    onDiscard={leadSettings.discard}
+                  />
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="leadRoutingEmail">Lead Routing Email</Label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="leadRoutingEmail"
+                        type="email"
+                        placeholder={organization.primary_email || "sales@example.com"}
+                        className="pl-10"
+                        value={leadSettings.values.lead_routing_email}
+                        onChange={(e) => leadSettings.setField("lead_routing_email", e.target.value)}
+                      />
+                    </div>
+                    <p className="text-sm text-gray-600">New leads go here. Leave blank to use the company email.</p>
+                    <FieldError message={leadSettings.errors.lead_routing_email} />
+                  </div>
 
-        {/* Notification Preferences */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Notification Preferences</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="font-medium">New Lead Notifications</p>
-                  <p className="text-sm text-gray-600">Receive email when you get a new lead</p>
-                </div>
-                <Button variant="outline" size="sm">
-                  Configure
-                </Button>
-              </div>
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="font-medium">Weekly Summary</p>
-                  <p className="text-sm text-gray-600">Get a weekly summary of your performance</p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Default Listing Location</Label>
+                      <Select
+                        value={leadSettings.values.default_listing_location_id}
+                        onValueChange={(value) => leadSettings.setField("default_listing_location_id", value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a location" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_DEFAULT_LOCATION}>No default</SelectItem>
+                          {savedLocations.map((location) => (
+                            <SelectItem key={location.id} value={String(location.id)}>
+                              {location.location_name}
+                              {location.city ? ` (${[location.city, location.state_province].filter(Boolean).join(", ")})` : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-sm text-gray-600">Used when a new listing has no city or state.</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Default Price Type</Label>
+                      <Select
+                        value={leadSettings.values.default_price_type}
+                        onValueChange={(value) => leadSettings.setField("default_price_type", value as PriceType)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(PRICE_TYPE_LABELS) as PriceType[]).map((priceType) => (
+                            <SelectItem key={priceType} value={priceType}>
+                              {PRICE_TYPE_LABELS[priceType]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Auto-Archive Stale Listings</Label>
+                      <Select
+                        value={leadSettings.values.listing_auto_archive_days}
+                        onValueChange={(value) => leadSettings.setField("listing_auto_archive_days", value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {AUTO_ARCHIVE_DAY_OPTIONS.map((days) => (
+                            <SelectItem key={days} value={String(days)}>
+                              After {days} days without a refresh
+                            </SelectItem>
+                          ))}
+                          <SelectItem value={NEVER_AUTO_ARCHIVE}>Never</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-sm text-gray-600">
+                        Live listings nobody has edited or refreshed in this time are archived automatically.
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-4 pt-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">New Lead Notifications</p>
+                        <p className="text-sm text-gray-600">Receive email when you get a new lead</p>
+                      </div>
+                      <Switch
+                        checked={leadSettings.values.inquiry_email_notification}
+                        onCheckedChange={(checked) => leadSettings.setField("inquiry_email_notification", checked)}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">Weekly Summary</p>
+                        <p className="text-sm text-gray-600">Get a weekly summary of your performance</p>
+                      </div>
+                      <Switch
+                        checked={leadSettings.values.weekly_performance_report}
+                        onCheckedChange={(checked) => leadSettings.setField("weekly_performance_report", checked)}
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Locations */}
+            {dealer ? (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xl font-semibold text-gray-900">Locations</h2>
+                  {!showNewLocation && (
+                    <Button variant="outline" size="sm" onClick={() => setShowNewLocation(true)}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Location
+                    </Button>
+                  )}
                 </div>
-                <Button variant="outline" size="sm">
-                  Configure
-                </Button>
+
+                {locationForms.map((location, index) => (
+                  <LocationSection
+                    key={location.id}
+                    location={location}
+                    original={savedLocations[index]}
+                    dealerId={dealer.id}
+                    organizationId={organization.id}
+                    canManage={canManage}
+                    onDirtyChange={markDirty}
+                  />
+                ))}
+
+                {(showNewLocation || locationForms.length === 0) && (
+                  <LocationSection
+                    location={newLocation}
+                    dealerId={dealer.id}
+                    organizationId={organization.id}
+                    canManage={canManage}
+                    onDirtyChange={markDirty}
+                    onRemoveDraft={() => setShowNewLocation(false)}
+                  />
+                )}
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            ) : (
+              <Card>
+                <CardContent className="py-8 text-center text-gray-600">
+                  Complete the dealer section of your{" "}
+                  <Link href="/profile" className="text-blue-600 hover:underline">
+                    profile
+                  </Link>{" "}
+                  to manage locations and lead settings.
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
 
-        {/* Save Button */}
-        <div className="flex justify-end">
-          <Button size="lg">
-            Save Changes
-          </Button>
-        </div>
+          <TabsContent value="team">
+            <TeamSettings />
+          </TabsContent>
+        </Tabs>
       </div>
     </DealerDashboardLayout>
   );
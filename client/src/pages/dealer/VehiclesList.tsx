@@ -11,15 +11,22 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import BulkEditDialog from "@/components/listings/BulkEditDialog";
 import { trpc } from "@/lib/trpc";
+import { useOrgPermissions } from "@/hooks/useOrgPermissions";
 import { useLocation } from "wouter";
-import { Plus, Search, Edit, Trash2, Eye, Loader2, Car } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Eye, Loader2, Car, ListChecks } from "lucide-react";
+import { RECYCLE_BIN_DAYS } from "@shared/listing-lifecycle";
 import { toast } from "sonner";
 
 export default function DealerVehiclesList() {
   const [, setLocation] = useLocation();
+  const { can } = useOrgPermissions();
   const [search, setSearch] = useState("");
   const [status, setStatus] = useState<string>("all");
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [bulkEditOpen, setBulkEditOpen] = useState(false);
 
   const { data: listings, isLoading, refetch } = trpc.dealer.listings.list.useQuery({
     status: status !== "all" ? (status as any) : undefined,
@@ -28,7 +35,7 @@ export default function DealerVehiclesList() {
 
   const deleteListing = trpc.dealer.listings.delete.useMutation({
     onSuccess: () => {
-      toast.success("Listing deleted successfully");
+      toast.success("Listing moved to the recycle bin");
       refetch();
     },
     onError: (error) => {
@@ -42,7 +49,7 @@ export default function DealerVehiclesList() {
       ? `${listing.vehicle.year} ${listing.vehicle.make_name} ${listing.vehicle.model_name}`
       : "this listing";
     
-    if (confirm(`Are you sure you want to delete ${vehicleInfo}? This will archive the listing.`)) {
+    if (confirm(`Are you sure you want to delete ${vehicleInfo}? It will stay in the recycle bin for ${RECYCLE_BIN_DAYS} days.`)) {
       try {
         await deleteListing.mutateAsync({ id });
       } catch (error) {
@@ -74,6 +81,28 @@ export default function DealerVehiclesList() {
     return true;
   });
 
+  const listingTitle = (listing: any) =>
+    listing.vehicle
+      ? `${listing.vehicle.year} ${listing.vehicle.make_name} ${listing.vehicle.model_name}`
+      : `Listing #${listing.id}`;
+
+  // Only listings still shown by the current filters count as selected
+  const selectedListings = (filteredListings ?? []).filter((listing: any) => selectedIds.has(listing.id));
+  const allSelected = !!filteredListings?.length && selectedListings.length === filteredListings.length;
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(filteredListings?.map((listing: any) => listing.id)) : new Set());
+  };
+
   return (
     <DealerDashboardLayout>
       <div className="space-y-6">
@@ -83,10 +112,12 @@ export default function DealerVehiclesList() {
             <h1 className="text-3xl font-bold text-gray-900">Vehicle Listings</h1>
             <p className="text-gray-600 mt-2">Manage your vehicle inventory</p>
           </div>
-          <Button onClick={() => setLocation("/dealer/listings/new")}>
-            <Plus className="mr-2 h-4 w-4" />
-            Create New Listing
-          </Button>
+          {can("listings.create") && (
+            <Button onClick={() => setLocation("/dealer/listings/new")}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create New Listing
+            </Button>
+          )}
         </div>
 
         {/* Filters */}
@@ -124,9 +155,32 @@ export default function DealerVehiclesList() {
         {/* Listings List */}
         <Card>
           <CardHeader>
-            <CardTitle>
-              {filteredListings?.length || 0} Listing{filteredListings?.length !== 1 ? "s" : ""}
-            </CardTitle>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                {can("listings.edit") && !!filteredListings?.length && (
+                  <Checkbox
+                    checked={allSelected ? true : selectedListings.length > 0 ? "indeterminate" : false}
+                    onCheckedChange={(checked) => toggleAll(checked === true)}
+                    aria-label="Select all listings"
+                  />
+                )}
+                <CardTitle>
+                  {filteredListings?.length || 0} Listing{filteredListings?.length !== 1 ? "s" : ""}
+                </CardTitle>
+              </div>
+              {selectedListings.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-600">{selectedListings.length} selected</span>
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                    Clear
+                  </Button>
+                  <Button size="sm" onClick={() => setBulkEditOpen(true)}>
+                    <ListChecks className="mr-2 h-4 w-4" />
+                    Bulk Edit
+                  </Button>
+                </div>
+              )}
+            </div>
           </CardHeader>
           <CardContent>
             {isLoading ? (
@@ -146,6 +200,13 @@ export default function DealerVehiclesList() {
                       key={listing.id}
                       className="flex items-center gap-4 p-4 border border-gray-200 rounded-lg hover:border-primary transition-colors"
                     >
+                      {can("listings.edit") && (
+                        <Checkbox
+                          checked={selectedIds.has(listing.id)}
+                          onCheckedChange={(checked) => toggleSelected(listing.id, checked === true)}
+                          aria-label={`Select ${listingTitle(listing)}`}
+                        />
+                      )}
                       <div className="w-32 h-32 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden">
                         {primaryImage?.url ? (
                           <img
@@ -230,28 +291,32 @@ export default function DealerVehiclesList() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => setLocation(`/dealer/listings/${listing.id}/edit`)}
-                          title="Edit Listing"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleDelete(listing.id)}
-                          disabled={deleteListing.isPending}
-                          title="Delete Listing"
-                          className="text-destructive hover:text-destructive"
-                        >
-                          {deleteListing.isPending ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                          ) : (
-                            <Trash2 className="h-4 w-4" />
-                          )}
-                        </Button>
+                        {can("listings.edit") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setLocation(`/dealer/listings/${listing.id}/edit`)}
+                            title="Edit Listing"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can("listings.delete") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDelete(listing.id)}
+                            disabled={deleteListing.isPending}
+                            title="Delete Listing"
+                            className="text-destructive hover:text-destructive"
+                          >
+                            {deleteListing.isPending ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="h-4 w-4" />
+                            )}
+                          </Button>
+                        )}
                       </div>
                     </div>
                   );
@@ -265,7 +330,7 @@ export default function DealerVehiclesList() {
                     ? "No listings match your filters"
                     : "You don't have any vehicle listings yet"}
                 </p>
-                {!search && status === "all" && (
+                {!search && status === "all" && can("listings.create") && (
                   <Button onClick={() => setLocation("/dealer/listings/new")}>
                     <Plus className="mr-2 h-4 w-4" />
                     Create Your First Listing
@@ -276,6 +341,13 @@ export default function DealerVehiclesList() {
           </CardContent>
         </Card>
       </div>
+
+      <BulkEditDialog
+        open={bulkEditOpen}
+        onOpenChange={setBulkEditOpen}
+        listings={selectedListings.map((listing: any) => ({ id: listing.id, title: listingTitle(listing) }))}
+        onUpdated={() => refetch()}
+      />
     </DealerDashboardLayout>
   );
 }
@@ -3,6 +3,8 @@
  * Types for user profile management matching Supabase schema
  */
 
+import type { OrgRole } from '@shared/permissions';
+
 export interface PersonalInfo {
   id: string;
   email: string;
@@ -124,6 +126,10 @@ export interface DealerInfo {
   dms_dealer_id?: string; // Unified DMS Dealer ID field for form
   dms_sync_enabled: boolean;
   business_hours?: Record<string, { open: string; close: string; closed: boolean }>;
+  lead_routing_email?: string | null;
+  default_listing_location_id?: number | null;
+  default_price_type?: 'negotiable' | 'fixed' | 'call_for_price';
+  listing_auto_archive_days?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -193,7 +199,7 @@ export interface Make {
 }
 
 export interface AccountInfo {
-  role: 'owner' | 'admin' | 'member' | 'viewer' | null;
+  role: OrgRole | null;
   memberSince: string | null;
 }
 
@@ -3,12 +3,14 @@
  * Based on "01. Organization" schema
  */
 
+import type { OrgRole } from '@shared/permissions';
+
 export interface UserProfile {
   user_id: string;
   organization_id: number;
   organization_name: string;
   organization_type: 'dealer' | 'upfitter' | 'fleet_operator' | 'oem' | 'charging_provider';
-  role: 'owner' | 'admin' | 'member' | 'viewer';
+  role: OrgRole;
   status: 'pending' | 'active' | 'suspended' | 'removed';
   email_notifications: boolean;
   sms_notifications: boolean;
@@ -39,7 +41,7 @@ export interface OrganizationUser {
   id: number;
   organization_id: number;
   user_id: string;
-  role: 'owner' | 'admin' | 'member' | 'viewer';
+  role: OrgRole;
   permissions?: Record<string, boolean>;
   invited_by?: string;
   invited_at?: string;
@@ -55,7 +57,7 @@ export interface SignupData {
   email: string;
   password: string;
   organizationId?: number;
-  role?: 'owner' | 'admin' | 'member' | 'viewer';
+  role?: OrgRole;
   invitedBy?: string;
 }
 
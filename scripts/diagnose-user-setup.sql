@@ -60,7 +60,7 @@ diagnostic_data AS (
     CASE WHEN ou.status = 'active' THEN true ELSE false END AS org_user_active,
     CASE WHEN o.status = 'active' THEN true ELSE false END AS org_active,
     CASE WHEN ot.can_list_vehicles = true THEN true ELSE false END AS org_can_list,
-    CASE WHEN ou.role IN ('owner', 'admin', 'member') THEN true ELSE false END AS has_listing_permission
+    CASE WHEN ou.role IN ('owner', 'admin', 'manager', 'sales') THEN true ELSE false END AS has_listing_permission
     
   FROM user_id_param uid
   LEFT JOIN auth.users u ON u.id = uid.user_id
@@ -0,0 +1,96 @@
+/**
+ * Load ZIP code centroids into public.zip_code_centroids
+ *
+ * Usage: DATABASE_URL=... node scripts/load-zip-centroids.mjs <file>
+ *
+ * Accepts the Census Bureau ZCTA gazetteer file (tab separated, GEOID /
+ * INTPTLAT / INTPTLONG columns, public domain) or a CSV with
+ * zip_code, latitude, longitude and optional city, state columns.
+ * Existing rows are updated, so the script can be re-run with a newer file.
+ */
+import { readFileSync } from "node:fs";
+import postgres from "postgres";
+
+const BATCH_SIZE = 1000;
+
+const COLUMN_ALIASES = {
+  zip_code: ["zip_code", "zip", "zcta", "geoid"],
+  latitude: ["latitude", "lat", "intptlat"],
+  longitude: ["longitude", "lng", "lon", "intptlong"],
+  city: ["city"],
+  state: ["state", "state_code"],
+};
+
+function findColumn(headers, field) {
+  return headers.findIndex((header) => COLUMN_ALIASES[field].includes(header));
+}
+
+function parseRows(contents) {
+  const lines = contents.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  const delimiter = lines[0].includes("\t") ? "\t" : ",";
+  const headers = lines[0].split(delimiter).map((header) => header.trim().toLowerCase());
+
+  const columns = Object.fromEntries(
+    Object.keys(COLUMN_ALIASES).map((field) => [field, findColumn(headers, field)])
+  );
+  if (columns.zip_code < 0 || columns.latitude < 0 || columns.longitude < 0) {
+    throw new Error(`Missing zip/latitude/longitude columns in header: ${lines[0]}`);
+  }
+
+  const rows = [];
+  for (const line of lines.slice(1)) {
+    const values = line.split(delimiter).map((value) => value.trim());
+    const zip = values[columns.zip_code]?.padStart(5, "0");
+    const latitude = Number(values[columns.latitude]);
+    const longitude = Number(values[columns.longitude]);
+    if (!/^\d{5}$/.test(zip ?? "") || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      continue;
+    }
+    rows.push({
+      zip_code: zip,
+      latitude,
+      longitude,
+      city: columns.city >= 0 ? values[columns.city] || null : null,
+      state: columns.state >= 0 ? values[columns.state]?.toUpperCase().slice(0, 2) || null : null,
+    });
+  }
+  return rows;
+}
+
+async function loadZipCentroids() {
+  const file = process.argv[2];
+  if (!file) {
+    console.error("Usage: node scripts/load-zip-centroids.mjs <gazetteer-or-csv-file>");
+    process.exit(1);
+  }
+  if (!process.env.DATABASE_URL) {
+    console.error("DATABASE_URL is not set");
+    process.exit(1);
+  }
+
+  const rows = parseRows(readFileSync(file, "utf8"));
+  console.log(`Loading ${rows.length} ZIP centroids from ${file}...`);
+
+  const sql = postgres(process.env.DATABASE_URL, { max: 1 });
+  try {
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      const batch = rows.slice(i, i + BATCH_SIZE);
+      await sql`
+        INSERT INTO public.zip_code_centroids ${sql(batch, "zip_code", "latitude", "longitude", "city", "state")}
+        ON CONFLICT (zip_code) DO UPDATE SET
+          latitude = EXCLUDED.latitude,
+          longitude = EXCLUDED.longitude,
+          city = COALESCE(EXCLUDED.city, zip_code_centroids.city),
+          state = COALESCE(EXCLUDED.state, zip_code_centroids.state)
+      `;
+    }
+    console.log("ZIP centroids loaded.");
+  } finally {
+    await sql.end();
+  }
+}
+
+loadZipCentroids().catch((error) => {
+  console.error("Failed to load ZIP centroids:", error);
+  process.exit(1);
+});
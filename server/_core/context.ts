@@ -7,17 +7,28 @@ export type TrpcContext = {
   req: CreateExpressContextOptions["req"];
   res: CreateExpressContextOptions["res"];
   user: User | null;
-  supabaseUser: { id: string; email?: string } | null; // Supabase auth user
+  supabaseUser: SupabaseUser | null; // Supabase auth user
 };
 
+export interface SupabaseUser {
+  id: string;
+  email?: string;
+  /**
+   * Platform staff, set with app_metadata.role = "admin". Only the service
+   * role can write app_metadata, unlike organization roles.
+   */
+  isPlatformAdmin: boolean;
+}
+
 export async function createContext(
   opts: CreateExpressContextOptions
 ): Promise<TrpcContext> {
   let user: User | null = null;
-  let supabaseUser: { id: string; email?: string } | null = null;
+  let supabaseUser: SupabaseUser | null = null;
 
-  // Try Supabase auth first (from Authorization header)
-  const authHeader = opts.req.headers.authorization;
+  // Try Supabase auth first (from Authorization header). Subscriptions run over
+  // EventSource, which cannot set headers, so they pass it as a connection param.
+  const authHeader = opts.req.headers.authorization ?? opts.info.connectionParams?.authorization;
   if (authHeader && authHeader.startsWith('Bearer ')) {
     try {
       const token = authHeader.substring(7);
@@ -28,6 +39,7 @@ export async function createContext(
         supabaseUser = {
           id: sbUser.id,
           email: sbUser.email,
+          isPlatformAdmin: sbUser.app_metadata?.role === "admin",
         };
         // For Supabase auth, we can proceed with supabaseUser
         // The protectedProcedure will check for either user or supabaseUser
@@ -0,0 +1,60 @@
+import { ENV } from "./env";
+
+export type EmailPayload = {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+};
+
+const EMAIL_API_URL = "https://api.resend.com/emails";
+
+export function isEmailConfigured(): boolean {
+  return Boolean(ENV.emailApiKey && ENV.emailFrom);
+}
+
+/**
+ * Sends a transactional email through the Resend API.
+ * Returns `true` if the message was accepted, `false` when email is not
+ * configured or the provider rejects it, so callers can retry later.
+ */
+export async function sendEmail(payload: EmailPayload): Promise<boolean> {
+  if (!isEmailConfigured()) {
+    console.warn("[Email] RESEND_API_KEY or EMAIL_FROM is not configured; email not sent");
+    return false;
+  }
+
+  try {
+    const response = await fetch(EMAIL_API_URL, {
+      method: "POST",
+      headers: {
+        authorization: `Bearer ${ENV.emailApiKey}`,
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({
+        from: ENV.emailFrom,
+        to: [payload.to],
+        subject: payload.subject,
+        html: payload.html,
+        text: payload.text,
+        headers: payload.headers,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      console.warn(
+        `[Email] Failed to send email (${response.status} ${response.statusText})${
+          detail ? `: ${detail}` : ""
+        }`
+      );
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.warn("[Email] Error calling email service:", error);
+    return false;
+  }
+}
@@ -10,4 +10,11 @@ export const ENV = {
   supabaseUrl: process.env.SUPABASE_URL ?? "",
   supabaseAnonKey: process.env.SUPABASE_ANON_KEY ?? "",
   supabaseServiceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY ?? "",
+  appUrl: process.env.APP_URL ?? "",
+  emailApiKey: process.env.RESEND_API_KEY ?? "",
+  emailFrom: process.env.EMAIL_FROM ?? "",
+  apiCacheBackend: process.env.API_CACHE_BACKEND ?? "",
+  apiCacheMaxEntries: process.env.API_CACHE_MAX_ENTRIES ?? "",
+  upstreamFixtures: process.env.UPSTREAM_FIXTURES ?? "",
+  upstreamFixturesDir: process.env.UPSTREAM_FIXTURES_DIR ?? "",
 };
@@ -78,6 +78,23 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Saved-search alerts (in-app notifications and email digests)
+  const { startSavedSearchAlertJob } = await import("../lib/search/saved-search-alerts");
+  startSavedSearchAlertJob();
+
+  // Scheduled go-live and auto-archiving of stale listings
+  const { startListingLifecycleJob } = await import("../lib/database/listing-lifecycle");
+  startListingLifecycleJob();
+
+  // Permanently remove inventory that has been in the recycle bin for 30 days
+  const { startRecycleBinPurgeJob } = await import("../lib/database/recycle-bin");
+  startRecycleBinPurgeJob();
+
+  // Expire and size-limit the VIN/EPA decode cache, and save its hit/miss counters
+  const { startApiCacheCleanupJob, startApiCacheStatsJob } = await import("../lib/utils/api-cache");
+  startApiCacheCleanupJob();
+  startApiCacheStatsJob();
 }
 
 startServer().catch(console.error);
@@ -1,9 +1,16 @@
-import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
+import { NO_DEALER_ERR_MSG, NO_ORG_ERR_MSG, NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
+import { hasPermission, type OrgPermission, type OrgRole } from '@shared/permissions';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import { ENV } from "./env";
 
-const t = initTRPC.context<TrpcContext>().create({
+export interface ProcedureMeta {
+  /** Permission required to call an org/dealer procedure */
+  permission?: OrgPermission;
+}
+
+const t = initTRPC.context<TrpcContext>().meta<ProcedureMeta>().create({
   transformer: superjson,
 });
 
@@ -73,3 +80,81 @@ export const adminProcedure = t.procedure.use(
     });
   }),
 );
+
+/**
+ * Platform staff only. adminProcedure also admits organization owners and
+ * admins, which every dealer is for their own organization, so anything
+ * that reads across dealers must use this instead.
+ */
+export const platformAdminProcedure = protectedProcedure.use(
+  t.middleware(async opts => {
+    const { ctx, next } = opts;
+
+    const isPlatformAdmin =
+      ctx.supabaseUser?.isPlatformAdmin === true ||
+      (!!ctx.user && !!ENV.ownerOpenId && ctx.user.openId === ENV.ownerOpenId);
+
+    if (!isPlatformAdmin) {
+      throw new TRPCError({ code: "FORBIDDEN", message: NOT_ADMIN_ERR_MSG });
+    }
+
+    return next({ ctx });
+  }),
+);
+
+// Viewers have read-only access unless a procedure declares its permission
+const DEFAULT_MUTATION_ROLES: OrgRole[] = ["owner", "admin", "manager", "sales"];
+
+/**
+ * Resolves the caller's organization membership once per request and
+ * checks it against the procedure's `permission` meta
+ */
+const requireOrgMember = t.middleware(async opts => {
+  const { ctx, meta, type, next } = opts;
+
+  const { resolveOrgMembership } = await import("../lib/database/dealer-context");
+  const org = await resolveOrgMembership(ctx);
+
+  if (!org) {
+    throw new TRPCError({ code: "FORBIDDEN", message: NO_ORG_ERR_MSG });
+  }
+
+  const allowed = meta?.permission
+    ? hasPermission(org.role, meta.permission)
+    : type !== "mutation" || DEFAULT_MUTATION_ROLES.includes(org.role);
+  if (!allowed) {
+    throw new TRPCError({ code: "FORBIDDEN", message: NOT_ADMIN_ERR_MSG });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      org,
+    },
+  });
+});
+
+export const orgProcedure = protectedProcedure.use(requireOrgMember);
+
+export const dealerProcedure = orgProcedure.use(async opts => {
+  const { ctx, next } = opts;
+  const { dealerId, organizationId } = ctx.org;
+
+  const { createDealerSupabaseClient } = await import("../lib/database/dealer-context");
+  const supabase = createDealerSupabaseClient(ctx);
+
+  if (!dealerId || !supabase) {
+    throw new TRPCError({ code: "FORBIDDEN", message: NO_DEALER_ERR_MSG });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      dealer: {
+        supabase,
+        dealerId,
+        companyId: organizationId,
+      },
+    },
+  });
+});
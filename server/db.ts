@@ -23,7 +23,13 @@ import type {
   Equipment,
   EquipmentConfig,
   CompleteConfiguration,
+  ChargingInfrastructureItem,
+  Dealer,
+  Lead,
+  UserFavorite,
 } from "./lib/supabase-types";
+import type { BodyEquipment, ChargingInfrastructure } from "@shared/types";
+import type { ChargingInfrastructureFormData } from "./lib/validation/infrastructure-schema";
 import { getSupabaseClient } from "./_core/supabase";
 import { ENV } from "./_core/env";
 
@@ -254,101 +260,41 @@ export async function getVehicles(filters?: {
   offset?: number;
 }) {
   try {
-    // Query vehicle listings from Schema 02a which reference complete_configurations
-    // Then join to get vehicle data from Schema 03
-    const whereClause: Record<string, any> = {};
-
-    if (filters?.status) {
-      whereClause.status = filters.status;
-    }
-
-    const listings = await querySchemaTable<VehicleListing>(
-      "02a. Dealership",
-      "vehicle_listings",
+    // Filters run in the database so paging and filtering agree; the same
+    // function backs the faceted vehicles.search procedure
+    const { searchVehicleListings } = await import("./lib/search/vehicle-search");
+    const { results } = await searchVehicleListings(
       {
-        where: whereClause,
-        orderBy: { column: "created_at", ascending: false },
+        makes: filters?.make,
+        fuelTypes: filters?.fuelType,
+        bodyStyles: filters?.bodyType,
+        minYear: filters?.minYear,
+        maxYear: filters?.maxYear,
+        minPrice: filters?.minPrice,
+        maxPrice: filters?.maxPrice,
+      },
+      {
+        status: filters?.status,
         limit: filters?.limit || 20,
         offset: filters?.offset || 0,
       }
     );
 
-    // For each listing, get the complete_configuration and then vehicle data
-    const results = [];
-    for (const listing of listings) {
-      const configs = await querySchemaTable<CompleteConfiguration>(
-        "05. Completed Unit Configuration",
-        "complete_configurations",
-        {
-          where: { id: listing.complete_configuration_id },
-          limit: 1,
-        }
-      );
-
-      if (configs.length > 0) {
-        const config = configs[0];
-        const vehicleConfigs = await querySchemaTable<VehicleConfig>(
-          "03. Vehicle Data",
-          "vehicle_config",
-          {
-            where: { id: config.vehicle_config_id },
-            limit: 1,
-          }
-        );
-
-        if (vehicleConfigs.length > 0) {
-          const vehicleConfig = vehicleConfigs[0];
-          const vehicles = await querySchemaTable<Vehicle>(
-            "03. Vehicle Data",
-            "vehicle",
-            {
-              where: { id: vehicleConfig.vehicle_id },
-              limit: 1,
-            }
-          );
-
-          if (vehicles.length > 0) {
-            const vehicle = vehicles[0];
-            // Apply filters
-            if (filters?.fuelType && !filters.fuelType.includes(vehicleConfig.fuel_type || "")) {
-              continue;
-            }
-            if (filters?.make && !filters.make.includes(vehicle.make_name)) {
-              continue;
-            }
-            if (filters?.minYear && vehicle.year < filters.minYear) {
-              continue;
-            }
-            if (filters?.maxYear && vehicle.year > filters.maxYear) {
-              continue;
-            }
-            if (filters?.minPrice && listing.asking_price < filters.minPrice) {
-              continue;
-            }
-            if (filters?.maxPrice && listing.asking_price > filters.maxPrice) {
-              continue;
-            }
-
-            // Map to expected format
-            results.push({
-              id: listing.id,
-              year: vehicle.year,
-              make: vehicle.make_name,
-              model: vehicle.model_name,
-              fuelType: vehicleConfig.fuel_type,
-              bodyType: vehicleConfig.body_style,
-              salePrice: listing.asking_price,
-              status: listing.status,
-              viewCount: listing.view_count,
-              createdAt: listing.created_at,
-              // ... other fields
-            });
-          }
-        }
-      }
-    }
-
-    return results;
+    return results.map((hit) => ({
+      id: hit.id,
+      year: hit.year,
+      make: hit.make,
+      model: hit.model,
+      fuelType: hit.fuelType,
+      bodyType: hit.bodyType,
+      salePrice: hit.salePrice,
+      status: hit.status,
+      viewCount: hit.viewCount,
+      createdAt: hit.createdAt,
+      stockNumber: hit.stockNumber,
+      featuredImage: hit.featuredImage,
+      isFeatured: hit.isFeatured,
+    }));
   } catch (error) {
     console.error("[Database] Failed to get vehicles:", error);
     return [];
@@ -364,6 +310,7 @@ export async function getVehicleById(id: number) {
       "vehicle_listings",
       {
         where: { id },
+        whereNull: ["deleted_at"],
         limit: 1,
       }
     );
@@ -372,51 +319,18 @@ export async function getVehicleById(id: number) {
       return undefined;
     }
 
-    // Get full vehicle data through complete_configuration
-    const listing = listings[0];
-    const configs = await querySchemaTable<CompleteConfiguration>(
-      "05. Completed Unit Configuration",
-      "complete_configurations",
-      {
-        where: { id: listing.complete_configuration_id },
-        limit: 1,
-      }
-    );
-
-    if (configs.length === 0) {
-      return undefined;
-    }
-
-    const config = configs[0];
-    const vehicleConfigs = await querySchemaTable<VehicleConfig>(
-      "03. Vehicle Data",
-      "vehicle_config",
-      {
-        where: { id: config.vehicle_config_id },
-        limit: 1,
-      }
-    );
+    const { hydrateListings } = await import("./lib/database/listing-loader");
+    const { getPriceHistory } = await import("./lib/database/listing-price-history");
+    const [[hydrated], priceHistory] = await Promise.all([
+      hydrateListings(listings),
+      getPriceHistory(id),
+    ]);
+    const { listing, config, vehicleConfig, vehicle } = hydrated;
 
-    if (vehicleConfigs.length === 0) {
+    if (!config || !vehicleConfig || !vehicle) {
       return undefined;
     }
 
-    const vehicleConfig = vehicleConfigs[0];
-    const vehicles = await querySchemaTable<Vehicle>(
-      "03. Vehicle Data",
-      "vehicle",
-      {
-        where: { id: vehicleConfig.vehicle_id },
-        limit: 1,
-      }
-    );
-
-    if (vehicles.length === 0) {
-      return undefined;
-    }
-
-    const vehicle = vehicles[0];
-
     // Map to expected format
     return {
       id: listing.id,
@@ -428,11 +342,18 @@ export async function getVehicleById(id: number) {
       bodyType: vehicleConfig.body_style,
       gvwr: vehicleConfig.gvwr,
       salePrice: listing.asking_price,
+      specialPrice: listing.special_price ?? null,
+      // Who changed a price is only shown to the dealer
+      priceHistory: priceHistory.map((point) => ({ price: point.price, changedAt: point.changedAt })),
       condition: listing.condition,
-      status: listing.status,
+      status: listing.listing_status,
       description: listing.description,
       viewCount: listing.view_count,
       createdAt: listing.created_at,
+      equipmentType: hydrated.equipment?.equipment_type ?? null,
+      dealerId: listing.dealer_id,
+      dealerName: hydrated.dealer?.dealer_name ?? null,
+      featuredImage: hydrated.primaryImage?.image_url ?? null,
       // ... map other fields
     };
   } catch (error) {
@@ -497,7 +418,6 @@ export async function getFeaturedVehicles(limit: number = 6) {
 }
 
 // ============ Lead Management ============
-// TODO: Implement leads in appropriate Supabase schema
 export interface InsertLead {
   vehicleId?: number;
   companyId: number;
@@ -509,16 +429,63 @@ export interface InsertLead {
   message?: string;
   leadType?: string;
   leadSource?: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  referrer?: string | null;
 }
 
-export async function createLead(data: InsertLead): Promise<void> {
-  // TODO: Implement lead creation in Supabase schema
-  console.warn("[DB] Lead creation not yet implemented in Supabase schema");
+export async function createLead(data: InsertLead): Promise<number> {
+  const dealers = await querySchemaTable<{ id: number }>(
+    "02a. Dealership",
+    "dealers",
+    {
+      where: { organization_id: data.companyId },
+      limit: 1,
+    }
+  );
+
+  const lead = await insertSchemaTable<Lead>(
+    "02a. Dealership",
+    "leads",
+    {
+      dealer_id: dealers[0]?.id ?? null,
+      organization_id: data.companyId,
+      listing_id: data.vehicleId ?? null,
+      first_name: data.firstName,
+      last_name: data.lastName,
+      email: data.email,
+      phone: data.phone || null,
+      company: data.company || null,
+      message: data.message || null,
+      lead_type: data.leadType || "inquiry",
+      lead_source: data.leadSource || "marketplace",
+      ip_address: data.ipAddress || null,
+      user_agent: data.userAgent || null,
+      referrer: data.referrer || null,
+    }
+  );
+
+  // Start the lead timeline; a failure here shouldn't lose the lead
+  try {
+    const { recordLeadCreated } = await import("./lib/leads/pipeline");
+    await recordLeadCreated(lead);
+  } catch (error) {
+    console.error("[Database] Failed to record lead activity:", error);
+  }
+
+  return lead.id;
 }
 
 export async function getLeadsByCompany(companyId: number, limit?: number) {
-  // TODO: Implement lead retrieval
-  return [];
+  return await querySchemaTable<Lead>(
+    "02a. Dealership",
+    "leads",
+    {
+      where: { organization_id: companyId },
+      orderBy: { column: "created_at", ascending: false },
+      limit: limit || 100,
+    }
+  );
 }
 
 // ============ Blog Management ============
@@ -572,24 +539,65 @@ export async function getCompanyLocations(companyId: number) {
 }
 
 // ============ Saved Vehicles ============
-// TODO: Implement saved vehicles in Supabase schema
-export async function saveVehicle(userId: number, vehicleId: number, notes?: string): Promise<void> {
-  console.warn("[DB] Save vehicle not yet implemented in Supabase schema");
-}
+// Saved listings live in public.user_favorites, keyed by Supabase user ID.
+// Savers are notified when the listing's price drops.
+
+export async function saveVehicle(userId: string, vehicleId: number, notes?: string): Promise<void> {
+  const existing = await querySchemaTable<UserFavorite>("public", "user_favorites", {
+    where: { user_id: userId, listing_id: vehicleId },
+    limit: 1,
+  });
+
+  if (existing.length > 0) {
+    if (notes !== undefined) {
+      await updateSchemaTable("public", "user_favorites", { notes }, { id: existing[0].id });
+    }
+    return;
+  }
 
-export async function unsaveVehicle(userId: number, vehicleId: number): Promise<void> {
-  console.warn("[DB] Unsave vehicle not yet implemented in Supabase schema");
+  await insertSchemaTable("public", "user_favorites", {
+    user_id: userId,
+    listing_id: vehicleId,
+    notes: notes ?? null,
+  });
 }
 
-export async function getSavedVehicles(userId: number) {
-  return [];
+export async function unsaveVehicle(userId: string, vehicleId: number): Promise<void> {
+  await deleteSchemaTable("public", "user_favorites", { user_id: userId, listing_id: vehicleId });
 }
 
-// ============ Search Helpers ============
+export async function getSavedVehicles(userId: string) {
+  const favorites = await querySchemaTable<UserFavorite>("public", "user_favorites", {
+    where: { user_id: userId },
+    orderBy: { column: "created_at", ascending: false },
+  });
+  if (favorites.length === 0) {
+    return [];
+  }
 
-export async function searchVehicles(searchTerm: string, limit: number = 20) {
-  // TODO: Implement full-text search across vehicle listings
-  return [];
+  const listings = await querySchemaTable<VehicleListing>("02a. Dealership", "vehicle_listings", {
+    where: { id: favorites.map((favorite) => favorite.listing_id) },
+  });
+  const { hydrateListings } = await import("./lib/database/listing-loader");
+  const hydrated = new Map(
+    (await hydrateListings(listings)).map((item) => [item.listing.id, item])
+  );
+
+  return favorites.flatMap((favorite) => {
+    const item = hydrated.get(favorite.listing_id);
+    if (!item) return [];
+    return [{
+      vehicleId: favorite.listing_id,
+      notes: favorite.notes ?? null,
+      savedAt: favorite.created_at,
+      year: item.vehicle?.year ?? null,
+      make: item.vehicle?.make_name ?? null,
+      model: item.vehicle?.model_name ?? null,
+      status: item.listing.listing_status,
+      salePrice: item.listing.special_price ?? item.listing.asking_price,
+      featuredImage: item.primaryImage?.image_url ?? null,
+    }];
+  });
 }
 
 // ============ Stats and Analytics ============
@@ -613,6 +621,8 @@ export async function getBodyEquipment(filters: {
   minPrice?: number;
   maxPrice?: number;
   stockStatus?: string;
+  nearZip?: string;
+  radiusMiles?: number;
   limit?: number;
   offset?: number;
 }) {
@@ -622,11 +632,45 @@ export async function getBodyEquipment(filters: {
       whereClause.manufacturer = filters.manufacturer;
     }
 
+    const geo = filters.nearZip ? await import("./lib/search/geo") : null;
+    // A ZIP nothing is known about is ignored rather than failing the search
+    const origin = geo && filters.nearZip ? await geo.resolveZipCode(filters.nearZip) : null;
+    if (geo && origin) {
+      // Equipment is located at the dealer that listed it. Load everything from
+      // dealers in range so distance ordering holds across pages.
+      const { DEFAULT_RADIUS_MILES, getDealerDistances, roundMiles } = geo;
+      const distances = await getDealerDistances(origin, filters.radiusMiles ?? DEFAULT_RADIUS_MILES);
+      if (distances.size === 0) {
+        return [];
+      }
+
+      const nearby = await querySchemaTable<Equipment>(
+        "04. Equipment Data",
+        "equipment",
+        {
+          where: { ...whereClause, created_by_dealer_id: Array.from(distances.keys()) },
+          whereNull: ["deleted_at"],
+        }
+      );
+
+      const offset = filters.offset || 0;
+      return nearby
+        .map((eq) => ({
+          id: eq.id,
+          manufacturer: eq.manufacturer,
+          category: eq.equipment_type,
+          distanceMiles: roundMiles(distances.get(Number(eq.created_by_dealer_id)) ?? null),
+        }))
+        .sort((a, b) => (a.distanceMiles ?? Infinity) - (b.distanceMiles ?? Infinity))
+        .slice(offset, offset + (filters.limit || 20));
+    }
+
     const equipment = await querySchemaTable<Equipment>(
       "04. Equipment Data",
       "equipment",
       {
         where: whereClause,
+        whereNull: ["deleted_at"],
         limit: filters.limit || 20,
         offset: filters.offset || 0,
       }
@@ -636,6 +680,7 @@ export async function getBodyEquipment(filters: {
       id: eq.id,
       manufacturer: eq.manufacturer,
       category: eq.equipment_type,
+      distanceMiles: null as number | null,
       // Map other fields
     }));
   } catch (error) {
@@ -644,18 +689,44 @@ export async function getBodyEquipment(filters: {
   }
 }
 
-export async function getBodyEquipmentById(id: number) {
+/**
+ * Body/equipment as the dealer forms see it. The catalog equipment table
+ * does not have the dealer listing columns (pricing, status, specs) yet, so
+ * they may be missing.
+ */
+export type DealerBodyEquipment = Equipment & Partial<Omit<BodyEquipment, "id" | "manufacturer">>;
+
+export async function getBodyEquipmentById(id: number): Promise<DealerBodyEquipment | null> {
   try {
+    // Items in the recycle bin are only reachable through the recycle bin
     const equipment = await querySchemaTable<Equipment>(
       "04. Equipment Data",
       "equipment",
       {
         where: { id },
+        whereNull: ["deleted_at"],
         limit: 1,
       }
     );
 
-    return equipment.length > 0 ? equipment[0] : null;
+    if (equipment.length === 0) {
+      return null;
+    }
+
+    // Equipment is keyed by the dealer that created it; its organization owns it
+    const [dealer] = equipment[0].created_by_dealer_id
+      ? await querySchemaTable<Pick<Dealer, "organization_id">>("02a. Dealership", "dealers", {
+          select: "organization_id",
+          where: { id: equipment[0].created_by_dealer_id },
+          limit: 1,
+        })
+      : [];
+
+    return {
+      ...equipment[0],
+      companyId: dealer?.organization_id ? Number(dealer.organization_id) : undefined,
+      featuredImage: equipment[0].featured_image ?? null,
+    };
   } catch (error) {
     console.error("[Database] Failed to get body equipment by id:", error);
     return null;
@@ -689,15 +760,127 @@ export async function getChargingInfrastructure(filters: {
   city?: string;
   state?: string;
   stockStatus?: string;
+  nearZip?: string;
+  radiusMiles?: number;
   limit?: number;
   offset?: number;
 }) {
-  // TODO: Implement charging infrastructure queries
-  return [];
+  try {
+    const whereClause: Record<string, any> = { status: "live" };
+    if (filters.category) whereClause.category = filters.category;
+    if (filters.manufacturer) whereClause.manufacturer = filters.manufacturer;
+    if (filters.city) whereClause.location_city = filters.city;
+    if (filters.state) whereClause.location_state = filters.state;
+    if (filters.stockStatus) whereClause.stock_status = filters.stockStatus;
+
+    // Power and connector filters are not simple equality, so they run after the query
+    const matchesSpecs = (item: ChargingInfrastructure) =>
+      (filters.minPower === undefined || (item.outputPower ?? 0) >= filters.minPower) &&
+      (filters.maxPower === undefined || (item.outputPower !== null && item.outputPower <= filters.maxPower)) &&
+      (!filters.connectorType || parseConnectorTypes(item.connectorTypes).includes(filters.connectorType));
+    const filterInMemory =
+      filters.minPower !== undefined || filters.maxPower !== undefined || !!filters.connectorType;
+
+    const offset = filters.offset || 0;
+    const limit = filters.limit || 20;
+
+    const geo = filters.nearZip ? await import("./lib/search/geo") : null;
+    // A ZIP nothing is known about is ignored rather than failing the search
+    const origin = geo && filters.nearZip ? await geo.resolveZipCode(filters.nearZip) : null;
+    if (geo && origin) {
+      // Infrastructure is located at the owning organization's nearest dealer.
+      // Load everything from organizations in range so distance ordering holds across pages.
+      const { DEFAULT_RADIUS_MILES, getDealerDistances, roundMiles } = geo;
+      const distances = await getDealerDistances(origin, filters.radiusMiles ?? DEFAULT_RADIUS_MILES);
+      if (distances.size === 0) {
+        return [];
+      }
+
+      const dealers = await querySchemaTable<Dealer>("02a. Dealership", "dealers", {
+        select: "id, organization_id",
+        where: { id: Array.from(distances.keys()) },
+      });
+      const organizationDistances = new Map<number, number>();
+      for (const dealer of dealers) {
+        const organizationId = Number(dealer.organization_id);
+        const miles = distances.get(Number(dealer.id))!;
+        organizationDistances.set(organizationId, Math.min(miles, organizationDistances.get(organizationId) ?? Infinity));
+      }
+      if (organizationDistances.size === 0) {
+        return [];
+      }
+
+      const nearby = await querySchemaTable<ChargingInfrastructureItem>(
+        "04. Equipment Data",
+        "charging_infrastructure",
+        {
+          where: { ...whereClause, organization_id: Array.from(organizationDistances.keys()) },
+          whereNull: ["deleted_at"],
+        }
+      );
+
+      return nearby
+        .map((row) => ({
+          ...toChargingInfrastructure(row),
+          distanceMiles: roundMiles(organizationDistances.get(Number(row.organization_id)) ?? null),
+        }))
+        .filter(matchesSpecs)
+        .sort((a, b) => (a.distanceMiles ?? Infinity) - (b.distanceMiles ?? Infinity))
+        .slice(offset, offset + limit);
+    }
+
+    const rows = await querySchemaTable<ChargingInfrastructureItem>(
+      "04. Equipment Data",
+      "charging_infrastructure",
+      {
+        where: whereClause,
+        whereNull: ["deleted_at"],
+        orderBy: { column: "created_at", ascending: false },
+        ...(filterInMemory ? {} : { limit, offset }),
+      }
+    );
+
+    const items = rows
+      .map((row) => ({ ...toChargingInfrastructure(row), distanceMiles: null as number | null }))
+      .filter(matchesSpecs);
+    return filterInMemory ? items.slice(offset, offset + limit) : items;
+  } catch (error) {
+    console.error("[Database] Failed to get charging infrastructure:", error);
+    return [];
+  }
 }
 
-export async function getChargingInfrastructureById(id: number) {
-  return null;
+/**
+ * Connector types are stored as a JSON array string
+ */
+function parseConnectorTypes(connectorTypes: string | null): string[] {
+  if (!connectorTypes) return [];
+  try {
+    const parsed = JSON.parse(connectorTypes);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function getChargingInfrastructureById(id: number): Promise<ChargingInfrastructure | null> {
+  try {
+    // Items in the recycle bin are only reachable through the recycle bin
+    const rows = await querySchemaTable<ChargingInfrastructureItem>(
+      "04. Equipment Data",
+      "charging_infrastructure",
+      {
+        where: { id },
+        whereNull: ["deleted_at"],
+        limit: 1,
+      }
+    );
+
+    return rows.length > 0 ? toChargingInfrastructure(rows[0]) : null;
+  } catch (error) {
+    console.error("[Database] Failed to get charging infrastructure by id:", error);
+    return null;
+  }
 }
 
 export async function getChargingInfrastructureImages(chargingInfrastructureId: number) {
@@ -720,9 +903,23 @@ export interface InsertBodyEquipment {
   name: string;
   category: string;
   manufacturer?: string;
+  featuredImage?: string;
+  isPublished?: boolean;
   // ... other fields
 }
 
+/**
+ * Dealers (locations) of an organization. Equipment is keyed by the creating
+ * dealer, so organization-wide equipment queries filter on these IDs.
+ */
+export async function getOrganizationDealerIds(organizationId: number): Promise<number[]> {
+  const dealers = await querySchemaTable<Pick<Dealer, "id">>("02a. Dealership", "dealers", {
+    select: "id",
+    where: { organization_id: organizationId },
+  });
+  return dealers.map((dealer) => Number(dealer.id));
+}
+
 export async function getDealerBodiesEquipment(companyId: number, filters?: {
   category?: string;
   manufacturer?: string;
@@ -731,8 +928,12 @@ export async function getDealerBodiesEquipment(companyId: number, filters?: {
   limit?: number;
   offset?: number;
 }) {
-  // Query equipment created by this dealer
-  const whereClause: Record<string, any> = { created_by_dealer_id: companyId };
+  // Query equipment created by any of the organization's dealers
+  const dealerIds = await getOrganizationDealerIds(companyId);
+  if (dealerIds.length === 0) {
+    return [];
+  }
+  const whereClause: Record<string, any> = { created_by_dealer_id: dealerIds };
 
   if (filters?.manufacturer) {
     whereClause.manufacturer = filters.manufacturer;
@@ -743,6 +944,7 @@ export async function getDealerBodiesEquipment(companyId: number, filters?: {
     "equipment",
     {
       where: whereClause,
+      whereNull: ["deleted_at"],
       limit: filters?.limit || 50,
       offset: filters?.offset || 0,
     }
@@ -758,6 +960,7 @@ export async function updateBodyEquipment(id: number, data: Partial<InsertBodyEq
   const updateData: Record<string, any> = {};
   if (data.name !== undefined) updateData.name = data.name;
   if (data.manufacturer !== undefined) updateData.manufacturer = data.manufacturer;
+  if (data.featuredImage !== undefined) updateData.featured_image = data.featuredImage || null;
 
   await updateSchemaTable(
     "04. Equipment Data",
@@ -767,6 +970,19 @@ export async function updateBodyEquipment(id: number, data: Partial<InsertBodyEq
   );
 }
 
+/**
+ * Move body/equipment to the recycle bin. The purge job hard-deletes it
+ * with deleteBodyEquipment once the recycle bin window has passed.
+ */
+export async function softDeleteBodyEquipment(id: number, deletedBy: string | null): Promise<Equipment> {
+  return await updateSchemaTable<Equipment>(
+    "04. Equipment Data",
+    "equipment",
+    { deleted_at: new Date(), deleted_by: deletedBy },
+    { id }
+  );
+}
+
 export async function deleteBodyEquipment(id: number): Promise<void> {
   // Delete equipment configs first
   const configs = await querySchemaTable<EquipmentConfig>(
@@ -794,12 +1010,94 @@ export async function deleteBodyEquipment(id: number): Promise<void> {
 }
 
 // ============ Dealer Charging Infrastructure Management ============
+// Maps to 04. Equipment Data.charging_infrastructure
 
-export interface InsertChargingInfrastructure {
+export interface InsertChargingInfrastructure extends ChargingInfrastructureFormData {
   companyId: number;
-  name: string;
-  category: string;
-  // ... other fields
+  isPublished?: boolean;
+}
+
+// Form field -> column for everything the dealer forms edit
+const INFRASTRUCTURE_COLUMNS = {
+  name: "name",
+  category: "category",
+  manufacturer: "manufacturer",
+  model: "model",
+  description: "description",
+  msrp: "msrp",
+  salePrice: "sale_price",
+  installationCost: "installation_cost",
+  inputVoltage: "input_voltage",
+  outputPower: "output_power",
+  outputCurrent: "output_current",
+  efficiency: "efficiency",
+  connectorTypes: "connector_types",
+  numberOfPorts: "number_of_ports",
+  simultaneousCharging: "simultaneous_charging",
+  cableLength: "cable_length",
+  cableType: "cable_type",
+  installationType: "installation_type",
+  installationRequirements: "installation_requirements",
+  electricalRequirements: "electrical_requirements",
+  dimensions: "dimensions",
+  networkConnected: "network_connected",
+  paymentCapable: "payment_capable",
+  loadManagement: "load_management",
+  weatherRating: "weather_rating",
+  certifications: "certifications",
+  warrantyYears: "warranty_years",
+  warrantyDetails: "warranty_details",
+  leadTimeDays: "lead_time_days",
+  stockStatus: "stock_status",
+  locationAddress: "location_address",
+  locationCity: "location_city",
+  locationState: "location_state",
+  locationZipCode: "location_zip_code",
+  latitude: "latitude",
+  longitude: "longitude",
+  isPublicAccess: "is_public_access",
+  featuredImage: "featured_image",
+  status: "status",
+  isPublished: "is_published",
+} as const satisfies Partial<Record<keyof InsertChargingInfrastructure, keyof ChargingInfrastructureItem>>;
+
+function toInfrastructureColumns(data: Partial<InsertChargingInfrastructure>): Record<string, any> {
+  const columns: Record<string, any> = {};
+  for (const [field, column] of Object.entries(INFRASTRUCTURE_COLUMNS)) {
+    const value = data[field as keyof typeof INFRASTRUCTURE_COLUMNS];
+    // Fields left out of an update keep their current value
+    if (value !== undefined) columns[column] = value;
+  }
+  return columns;
+}
+
+/**
+ * Charging infrastructure row in the shape the dealer forms and bulk export use
+ */
+export function toChargingInfrastructure(
+  row: ChargingInfrastructureItem
+): ChargingInfrastructure & { deletedAt: Date | null } {
+  const item: Record<string, unknown> = {};
+  for (const [field, column] of Object.entries(INFRASTRUCTURE_COLUMNS)) {
+    item[field] = row[column] ?? null;
+  }
+
+  // numeric columns come back from postgres as strings
+  const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+  return {
+    ...(item as Omit<ChargingInfrastructure, "id" | "companyId">),
+    id: Number(row.id),
+    companyId: Number(row.organization_id),
+    msrp: toNumber(row.msrp),
+    salePrice: toNumber(row.sale_price),
+    installationCost: toNumber(row.installation_cost),
+    viewCount: row.view_count,
+    inquiryCount: row.inquiry_count,
+    deletedAt: row.deleted_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
 }
 
 export async function getDealerInfrastructure(companyId: number, filters?: {
@@ -810,21 +1108,68 @@ export async function getDealerInfrastructure(companyId: number, filters?: {
   limit?: number;
   offset?: number;
 }) {
-  // TODO: Map to appropriate Supabase schema
-  return [];
+  const whereClause: Record<string, any> = { organization_id: companyId };
+
+  if (filters?.category) {
+    whereClause.category = filters.category;
+  }
+  if (filters?.manufacturer) {
+    whereClause.manufacturer = filters.manufacturer;
+  }
+  if (filters?.stockStatus) {
+    whereClause.stock_status = filters.stockStatus;
+  }
+
+  const rows = await querySchemaTable<ChargingInfrastructureItem>(
+    "04. Equipment Data",
+    "charging_infrastructure",
+    {
+      where: whereClause,
+      whereNull: ["deleted_at"],
+      orderBy: { column: "created_at", ascending: false },
+      limit: filters?.limit || 50,
+      offset: filters?.offset || 0,
+    }
+  );
+
+  return rows.map(toChargingInfrastructure);
 }
 
 export async function createInfrastructure(data: InsertChargingInfrastructure): Promise<number> {
-  // TODO: Implement
-  throw new Error("Charging infrastructure creation not yet implemented");
+  const row = await insertSchemaTable<ChargingInfrastructureItem>(
+    "04. Equipment Data",
+    "charging_infrastructure",
+    { ...toInfrastructureColumns(data), organization_id: data.companyId }
+  );
+  return Number(row.id);
 }
 
 export async function updateInfrastructure(id: number, data: Partial<InsertChargingInfrastructure>): Promise<void> {
-  // TODO: Implement
-  throw new Error("Charging infrastructure update not yet implemented");
+  await updateSchemaTable(
+    "04. Equipment Data",
+    "charging_infrastructure",
+    { ...toInfrastructureColumns(data), updated_at: new Date() },
+    { id }
+  );
+}
+
+/**
+ * Move charging infrastructure to the recycle bin. The purge job hard-deletes
+ * it with deleteInfrastructure once the recycle bin window has passed.
+ */
+export async function softDeleteInfrastructure(id: number, deletedBy: string | null): Promise<ChargingInfrastructureItem> {
+  return await updateSchemaTable<ChargingInfrastructureItem>(
+    "04. Equipment Data",
+    "charging_infrastructure",
+    { deleted_at: new Date(), deleted_by: deletedBy },
+    { id }
+  );
 }
 
 export async function deleteInfrastructure(id: number): Promise<void> {
-  // TODO: Implement
-  throw new Error("Charging infrastructure deletion not yet implemented");
+  await deleteSchemaTable(
+    "04. Equipment Data",
+    "charging_infrastructure",
+    { id }
+  );
 }
@@ -0,0 +1,283 @@
+/**
+ * Dealer Analytics
+ * Aggregates listing views, leads and favorites into the metrics shown
+ * on the dealer Analytics page
+ */
+
+import { callSchemaRPC } from "../supabase-db";
+
+export interface AnalyticsRange {
+  start: Date;
+  end: Date;
+}
+
+export interface DailyActivity {
+  date: string; // YYYY-MM-DD
+  views: number;
+  uniqueViewers: number;
+  leads: number;
+}
+
+export interface ListingPerformance {
+  listingId: number;
+  title: string | null;
+  vin: string | null;
+  stockNumber: string | null;
+  status: string | null;
+  askingPrice: number | null;
+  locationCity: string | null;
+  locationState: string | null;
+  viewCount: number;
+  leadCount: number;
+  favoriteCount: number;
+  periodViews: number;
+  periodLeads: number;
+  conversionRate: number; // Period leads per 100 period views
+  listedAt: Date | null;
+  soldAt: Date | null;
+  daysOnMarket: number;
+}
+
+export interface LocationPerformance {
+  location: string;
+  listingCount: number;
+  periodViews: number;
+  periodLeads: number;
+  favoriteCount: number;
+  conversionRate: number;
+  avgDaysOnMarket: number;
+}
+
+export interface LeadSourceBreakdown {
+  source: string;
+  leadCount: number;
+  respondedCount: number;
+  convertedCount: number;
+  medianResponseMinutes: number | null;
+}
+
+export interface InventoryAgingBucket {
+  label: string;
+  minDays: number;
+  maxDays: number | null;
+  count: number;
+}
+
+export interface AnalyticsOverview {
+  totalViews: number;
+  periodViews: number;
+  totalLeads: number;
+  periodLeads: number;
+  totalFavorites: number;
+  conversionRate: number;
+  medianResponseMinutes: number | null;
+  activeListings: number;
+  soldListings: number;
+  avgDaysOnMarket: number;
+  medianDaysOnMarket: number;
+}
+
+// Listings that are still on the lot for aging purposes
+const ACTIVE_STATUSES = new Set(["available", "pending"]);
+
+const AGING_BUCKETS: Array<Omit<InventoryAgingBucket, "count">> = [
+  { label: "0-30 days", minDays: 0, maxDays: 30 },
+  { label: "31-60 days", minDays: 31, maxDays: 60 },
+  { label: "61-90 days", minDays: 61, maxDays: 90 },
+  { label: "90+ days", minDays: 91, maxDays: null },
+];
+
+/**
+ * Build a range covering the last N days up to now
+ */
+export function getRangeForDays(days: number): AnalyticsRange {
+  const end = new Date();
+  const start = new Date(end);
+  start.setUTCHours(0, 0, 0, 0);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+  return { start, end };
+}
+
+/**
+ * postgres returns bigint and numeric columns as strings
+ */
+function toNumber(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function toNullableNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function conversionRate(leads: number, views: number): number {
+  return views > 0 ? Math.round((leads / views) * 1000) / 10 : 0;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function average(values: number[]): number {
+  if (values.length === 0) return 0;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+/**
+ * Daily views and leads for the range, with zero-filled gaps
+ */
+export async function getDailyActivity(dealerId: number, range: AnalyticsRange): Promise<DailyActivity[]> {
+  const rows = (await callSchemaRPC("02a. Dealership", "get_dealer_daily_activity", [
+    dealerId,
+    range.start,
+    range.end,
+  ])) as any[];
+
+  return rows.map((row) => ({
+    date: row.day instanceof Date ? row.day.toISOString().slice(0, 10) : String(row.day),
+    views: toNumber(row.views),
+    uniqueViewers: toNumber(row.unique_viewers),
+    leads: toNumber(row.leads),
+  }));
+}
+
+/**
+ * Lifetime counters and period activity for every listing
+ */
+export async function getListingPerformance(dealerId: number, range: AnalyticsRange): Promise<ListingPerformance[]> {
+  const rows = (await callSchemaRPC("02a. Dealership", "get_dealer_listing_performance", [
+    dealerId,
+    range.start,
+    range.end,
+  ])) as any[];
+
+  return rows.map((row) => {
+    const periodViews = toNumber(row.period_views);
+    const periodLeads = toNumber(row.period_leads);
+    return {
+      listingId: toNumber(row.listing_id),
+      title: row.listing_title ?? null,
+      vin: row.vin ?? null,
+      stockNumber: row.stock_number ?? null,
+      status: row.status ?? null,
+      askingPrice: toNullableNumber(row.asking_price),
+      locationCity: row.location_city ?? null,
+      locationState: row.location_state ?? null,
+      viewCount: toNumber(row.view_count),
+      leadCount: toNumber(row.lead_count),
+      favoriteCount: toNumber(row.favorite_count),
+      periodViews,
+      periodLeads,
+      conversionRate: conversionRate(periodLeads, periodViews),
+      listedAt: row.listed_at ?? null,
+      soldAt: row.sold_at ?? null,
+      daysOnMarket: toNumber(row.days_on_market),
+    };
+  });
+}
+
+/**
+ * Lead volume and response times by source, plus the all-source total
+ */
+export async function getLeadSources(
+  dealerId: number,
+  range: AnalyticsRange
+): Promise<{ total: LeadSourceBreakdown; sources: LeadSourceBreakdown[] }> {
+  const rows = (await callSchemaRPC("02a. Dealership", "get_dealer_lead_sources", [
+    dealerId,
+    range.start,
+    range.end,
+  ])) as any[];
+
+  const toBreakdown = (row: any): LeadSourceBreakdown => ({
+    source: row?.lead_source ?? "all",
+    leadCount: toNumber(row?.lead_count),
+    respondedCount: toNumber(row?.responded_count),
+    convertedCount: toNumber(row?.converted_count),
+    medianResponseMinutes: toNullableNumber(row?.median_response_minutes),
+  });
+
+  return {
+    total: toBreakdown(rows.find((row) => row.lead_source === null)),
+    sources: rows.filter((row) => row.lead_source !== null).map(toBreakdown),
+  };
+}
+
+/**
+ * Group listing performance by listing location
+ */
+export function groupByLocation(listings: ListingPerformance[]): LocationPerformance[] {
+  const groups = new Map<string, ListingPerformance[]>();
+  for (const listing of listings) {
+    const location =
+      [listing.locationCity, listing.locationState].filter(Boolean).join(", ") || "Unspecified";
+    const group = groups.get(location) ?? [];
+    group.push(listing);
+    groups.set(location, group);
+  }
+
+  return Array.from(groups.entries())
+    .map(([location, group]) => {
+      const periodViews = group.reduce((sum, l) => sum + l.periodViews, 0);
+      const periodLeads = group.reduce((sum, l) => sum + l.periodLeads, 0);
+      return {
+        location,
+        listingCount: group.length,
+        periodViews,
+        periodLeads,
+        favoriteCount: group.reduce((sum, l) => sum + l.favoriteCount, 0),
+        conversionRate: conversionRate(periodLeads, periodViews),
+        avgDaysOnMarket: average(group.map((l) => l.daysOnMarket)),
+      };
+    })
+    .sort((a, b) => b.periodViews - a.periodViews);
+}
+
+/**
+ * Count active listings by days on market
+ */
+export function getInventoryAging(listings: ListingPerformance[]): InventoryAgingBucket[] {
+  const active = listings.filter((l) => l.status && ACTIVE_STATUSES.has(l.status));
+  return AGING_BUCKETS.map((bucket) => ({
+    ...bucket,
+    count: active.filter(
+      (l) => l.daysOnMarket >= bucket.minDays && (bucket.maxDays === null || l.daysOnMarket <= bucket.maxDays)
+    ).length,
+  }));
+}
+
+/**
+ * Headline metrics for the analytics page
+ */
+export function buildOverview(
+  listings: ListingPerformance[],
+  leadTotals: LeadSourceBreakdown
+): AnalyticsOverview {
+  const periodViews = listings.reduce((sum, l) => sum + l.periodViews, 0);
+  const periodLeads = listings.reduce((sum, l) => sum + l.periodLeads, 0);
+  const sold = listings.filter((l) => l.status === "sold");
+  // Days on market is measured on sold units; fall back to the current lot when nothing has sold
+  const marketDays = (sold.length > 0 ? sold : listings.filter((l) => l.status && ACTIVE_STATUSES.has(l.status))).map(
+    (l) => l.daysOnMarket
+  );
+
+  return {
+    totalViews: listings.reduce((sum, l) => sum + l.viewCount, 0),
+    periodViews,
+    totalLeads: listings.reduce((sum, l) => sum + l.leadCount, 0),
+    periodLeads: leadTotals.leadCount || periodLeads,
+    totalFavorites: listings.reduce((sum, l) => sum + l.favoriteCount, 0),
+    conversionRate: conversionRate(periodLeads, periodViews),
+    medianResponseMinutes: leadTotals.medianResponseMinutes,
+    activeListings: listings.filter((l) => l.status && ACTIVE_STATUSES.has(l.status)).length,
+    soldListings: sold.length,
+    avgDaysOnMarket: average(marketDays),
+    medianDaysOnMarket: median(marketDays),
+  };
+}
@@ -0,0 +1,287 @@
+/**
+ * Bulk Inventory Column Mappings
+ * Maps spreadsheet columns to form fields for each inventory type.
+ * The same definitions drive imports, exports and downloadable templates,
+ * so an exported file can be edited and imported again without changes.
+ */
+
+export type BulkEntityType = "vehicles" | "bodies" | "infrastructure";
+
+export type ColumnType = "string" | "number" | "integer" | "boolean" | "date" | "list";
+
+export interface ColumnDefinition {
+  /** Form field key (ListingFormData / InsertBodyEquipment / InsertChargingInfrastructure) */
+  key: string;
+  /** Canonical header used in templates and exports */
+  header: string;
+  type: ColumnType;
+  /** Alternate header spellings, e.g. from DMS exports */
+  aliases?: string[];
+  required?: boolean;
+  /** Normalize enum-like values before validation */
+  enumCase?: "lower" | "upper";
+  /** Exported for reference only; recognised but ignored on import */
+  readOnly?: boolean;
+}
+
+export const VEHICLE_COLUMNS: ColumnDefinition[] = [
+  { key: "vin", header: "VIN", type: "string", required: true, aliases: ["vehicle identification number", "vin number"] },
+  { key: "stockNumber", header: "Stock Number", type: "string", aliases: ["stock", "stock #", "stock no", "stock_no"] },
+  { key: "listingType", header: "Listing Type", type: "string", enumCase: "lower" },
+  { key: "year", header: "Year", type: "integer", required: true, aliases: ["model year"] },
+  { key: "make", header: "Make", type: "string", required: true },
+  { key: "model", header: "Model", type: "string", required: true },
+  { key: "series", header: "Series", type: "string", aliases: ["trim"] },
+  { key: "bodyStyle", header: "Body Style", type: "string", aliases: ["body type"] },
+  { key: "fuelType", header: "Fuel Type", type: "string", required: true, enumCase: "lower", aliases: ["fuel"] },
+  { key: "wheelbase", header: "Wheelbase (in)", type: "number", aliases: ["wheelbase", "wb"] },
+  { key: "gvwr", header: "GVWR (lbs)", type: "number", aliases: ["gvwr"] },
+  { key: "payload", header: "Payload (lbs)", type: "number", aliases: ["payload"] },
+  { key: "engineDescription", header: "Engine", type: "string", aliases: ["engine description"] },
+  { key: "transmission", header: "Transmission", type: "string" },
+  { key: "driveType", header: "Drive Type", type: "string", enumCase: "upper", aliases: ["drivetrain", "drive"] },
+  { key: "condition", header: "Condition", type: "string", required: true, enumCase: "lower", aliases: ["new/used"] },
+  { key: "mileage", header: "Mileage", type: "number", aliases: ["odometer", "miles"] },
+  { key: "askingPrice", header: "Asking Price", type: "number", required: true, aliases: ["price", "internet price", "list price"] },
+  { key: "specialPrice", header: "Special Price", type: "number", aliases: ["sale price"] },
+  { key: "priceType", header: "Price Type", type: "string", enumCase: "lower" },
+  { key: "exteriorColor", header: "Exterior Color", type: "string", aliases: ["color", "ext color"] },
+  { key: "interiorColor", header: "Interior Color", type: "string", aliases: ["int color"] },
+  { key: "listingTitle", header: "Listing Title", type: "string", aliases: ["title"] },
+  { key: "marketingHeadline", header: "Marketing Headline", type: "string", aliases: ["headline"] },
+  { key: "description", header: "Description", type: "string", aliases: ["comments", "notes"] },
+  { key: "keyHighlights", header: "Key Highlights", type: "string", aliases: ["highlights"] },
+  { key: "locationCity", header: "Location City", type: "string", aliases: ["city"] },
+  { key: "locationState", header: "Location State", type: "string", aliases: ["state"] },
+  { key: "isFeatured", header: "Featured", type: "boolean" },
+  { key: "isHotDeal", header: "Hot Deal", type: "boolean" },
+  { key: "isClearance", header: "Clearance", type: "boolean" },
+  { key: "hasEquipment", header: "Has Equipment", type: "boolean" },
+  { key: "equipmentManufacturer", header: "Equipment Manufacturer", type: "string", aliases: ["upfitter", "body manufacturer"] },
+  { key: "equipmentProductLine", header: "Equipment Product Line", type: "string" },
+  { key: "equipmentType", header: "Equipment Type", type: "string", aliases: ["body category"] },
+  { key: "equipmentLength", header: "Equipment Length (in)", type: "number" },
+  { key: "equipmentWidth", header: "Equipment Width (in)", type: "number" },
+  { key: "equipmentHeight", header: "Equipment Height (in)", type: "number" },
+  { key: "equipmentWeight", header: "Equipment Weight (lbs)", type: "number" },
+  { key: "equipmentMaterial", header: "Equipment Material", type: "string" },
+  { key: "photos", header: "Photo URLs", type: "list", aliases: ["photos", "images", "image urls"] },
+  { key: "listingId", header: "Listing ID", type: "integer", readOnly: true },
+  { key: "status", header: "Status", type: "string", readOnly: true },
+  { key: "viewCount", header: "Views", type: "integer", readOnly: true },
+  { key: "inquiryCount", header: "Inquiries", type: "integer", readOnly: true },
+  { key: "favoriteCount", header: "Favorites", type: "integer", readOnly: true },
+  { key: "createdAt", header: "Created At", type: "date", readOnly: true },
+  { key: "updatedAt", header: "Updated At", type: "date", readOnly: true },
+];
+
+export const BODY_EQUIPMENT_COLUMNS: ColumnDefinition[] = [
+  { key: "name", header: "Name", type: "string", required: true },
+  { key: "category", header: "Category", type: "string", required: true, enumCase: "lower" },
+  { key: "manufacturer", header: "Manufacturer", type: "string" },
+  { key: "model", header: "Model", type: "string" },
+  { key: "description", header: "Description", type: "string" },
+  { key: "msrp", header: "MSRP", type: "number" },
+  { key: "salePrice", header: "Sale Price", type: "number", aliases: ["price"] },
+  { key: "installationCost", header: "Installation Cost", type: "number" },
+  { key: "dimensions", header: "Dimensions", type: "string" },
+  { key: "weight", header: "Weight (lbs)", type: "number", aliases: ["weight"] },
+  { key: "capacity", header: "Capacity (lbs)", type: "number", aliases: ["capacity"] },
+  { key: "material", header: "Material", type: "string" },
+  { key: "color", header: "Color", type: "string" },
+  { key: "compatibleChassisTypes", header: "Compatible Chassis Types", type: "string" },
+  { key: "compatibleMakes", header: "Compatible Makes", type: "string" },
+  { key: "wheelbaseMin", header: "Wheelbase Min (in)", type: "number" },
+  { key: "wheelbaseMax", header: "Wheelbase Max (in)", type: "number" },
+  { key: "gvwrMin", header: "GVWR Min (lbs)", type: "number" },
+  { key: "gvwrMax", header: "GVWR Max (lbs)", type: "number" },
+  { key: "leadTimeDays", header: "Lead Time (days)", type: "integer" },
+  { key: "stockStatus", header: "Stock Status", type: "string", enumCase: "lower" },
+  { key: "installationTime", header: "Installation Time", type: "string" },
+  { key: "installationRequirements", header: "Installation Requirements", type: "string" },
+  { key: "warrantyYears", header: "Warranty (years)", type: "number" },
+  { key: "warrantyDetails", header: "Warranty Details", type: "string" },
+  { key: "configurationOptions", header: "Configuration Options", type: "string" },
+  { key: "featuredImage", header: "Featured Image URL", type: "string", aliases: ["image url"] },
+  { key: "status", header: "Status", type: "string", enumCase: "lower" },
+  { key: "id", header: "ID", type: "integer", readOnly: true },
+  { key: "createdAt", header: "Created At", type: "date", readOnly: true },
+  { key: "updatedAt", header: "Updated At", type: "date", readOnly: true },
+];
+
+export const CHARGING_INFRASTRUCTURE_COLUMNS: ColumnDefinition[] = [
+  { key: "name", header: "Name", type: "string", required: true },
+  { key: "category", header: "Category", type: "string", required: true, enumCase: "lower" },
+  { key: "manufacturer", header: "Manufacturer", type: "string" },
+  { key: "model", header: "Model", type: "string" },
+  { key: "description", header: "Description", type: "string" },
+  { key: "msrp", header: "MSRP", type: "number" },
+  { key: "salePrice", header: "Sale Price", type: "number", aliases: ["price"] },
+  { key: "installationCost", header: "Installation Cost", type: "number" },
+  { key: "inputVoltage", header: "Input Voltage", type: "string" },
+  { key: "outputPower", header: "Output Power (kW)", type: "number", aliases: ["output power", "kw"] },
+  { key: "outputCurrent", header: "Output Current (A)", type: "number", aliases: ["output current"] },
+  { key: "efficiency", header: "Efficiency (%)", type: "number", aliases: ["efficiency"] },
+  { key: "connectorTypes", header: "Connector Types", type: "string", aliases: ["connectors"] },
+  { key: "numberOfPorts", header: "Number of Ports", type: "integer", aliases: ["ports"] },
+  { key: "simultaneousCharging", header: "Simultaneous Charging", type: "boolean" },
+  { key: "cableLength", header: "Cable Length (ft)", type: "number", aliases: ["cable length"] },
+  { key: "cableType", header: "Cable Type", type: "string" },
+  { key: "installationType", header: "Installation Type", type: "string", enumCase: "lower" },
+  { key: "installationRequirements", header: "Installation Requirements", type: "string" },
+  { key: "electricalRequirements", header: "Electrical Requirements", type: "string" },
+  { key: "dimensions", header: "Dimensions", type: "string" },
+  { key: "networkConnected", header: "Network Connected", type: "boolean" },
+  { key: "paymentCapable", header: "Payment Capable", type: "boolean" },
+  { key: "loadManagement", header: "Load Management", type: "boolean" },
+  { key: "weatherRating", header: "Weather Rating", type: "string" },
+  { key: "certifications", header: "Certifications", type: "string" },
+  { key: "warrantyYears", header: "Warranty (years)", type: "number" },
+  { key: "warrantyDetails", header: "Warranty Details", type: "string" },
+  { key: "leadTimeDays", header: "Lead Time (days)", type: "integer" },
+  { key: "stockStatus", header: "Stock Status", type: "string", enumCase: "lower" },
+  { key: "locationAddress", header: "Location Address", type: "string", aliases: ["address"] },
+  { key: "locationCity", header: "Location City", type: "string", aliases: ["city"] },
+  { key: "locationState", header: "Location State", type: "string", aliases: ["state"] },
+  { key: "locationZipCode", header: "Location ZIP", type: "string", aliases: ["zip", "zip code", "postal code"] },
+  { key: "latitude", header: "Latitude", type: "string" },
+  { key: "longitude", header: "Longitude", type: "string" },
+  { key: "isPublicAccess", header: "Public Access", type: "boolean" },
+  { key: "featuredImage", header: "Featured Image URL", type: "string", aliases: ["image url"] },
+  { key: "status", header: "Status", type: "string", enumCase: "lower" },
+  { key: "id", header: "ID", type: "integer", readOnly: true },
+  { key: "createdAt", header: "Created At", type: "date", readOnly: true },
+  { key: "updatedAt", header: "Updated At", type: "date", readOnly: true },
+];
+
+export const BULK_COLUMNS: Record<BulkEntityType, ColumnDefinition[]> = {
+  vehicles: VEHICLE_COLUMNS,
+  bodies: BODY_EQUIPMENT_COLUMNS,
+  infrastructure: CHARGING_INFRASTRUCTURE_COLUMNS,
+};
+
+/**
+ * Normalize a header for matching: case, punctuation and spacing are ignored
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Match spreadsheet headers to column definitions.
+ * Returns the definition for each header position (null if unmapped)
+ * plus the list of headers that could not be mapped.
+ */
+export function resolveColumns(
+  headers: string[],
+  columns: ColumnDefinition[]
+): {
+  mapping: (ColumnDefinition | null)[];
+  unmappedHeaders: string[];
+  missingRequired: string[];
+} {
+  const lookup = new Map<string, ColumnDefinition>();
+  for (const column of columns) {
+    for (const name of [column.key, column.header, ...(column.aliases || [])]) {
+      const normalized = normalizeHeader(name);
+      if (!lookup.has(normalized)) {
+        lookup.set(normalized, column);
+      }
+    }
+  }
+
+  const used = new Set<string>();
+  const unmappedHeaders: string[] = [];
+  const mapping = headers.map((header) => {
+    const column = lookup.get(normalizeHeader(header || ""));
+    // First matching column wins when a file repeats a field
+    if (!column || used.has(column.key)) {
+      if (header) unmappedHeaders.push(header);
+      return null;
+    }
+    used.add(column.key);
+    return column;
+  });
+
+  const missingRequired = columns
+    .filter((column) => column.required && !used.has(column.key))
+    .map((column) => column.header);
+
+  return { mapping, unmappedHeaders, missingRequired };
+}
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1", "x"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0"]);
+
+/**
+ * Convert a raw cell value to the type expected by the column.
+ * Returns undefined for blank cells so optional fields stay unset.
+ * Values that cannot be converted are passed through unchanged and
+ * reported by schema validation.
+ */
+export function coerceCell(value: unknown, column: ColumnDefinition): unknown {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === "string" && value.trim() === "") return undefined;
+
+  switch (column.type) {
+    case "number":
+    case "integer": {
+      if (typeof value === "number") return value;
+      const cleaned = String(value).replace(/[$,\s]/g, "");
+      const parsed = Number(cleaned);
+      if (cleaned === "" || Number.isNaN(parsed)) return value;
+      return column.type === "integer" ? Math.trunc(parsed) : parsed;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      const normalized = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.has(normalized)) return true;
+      if (FALSE_VALUES.has(normalized)) return false;
+      return value;
+    }
+    case "date": {
+      if (value instanceof Date) return value;
+      const parsed = new Date(String(value));
+      return Number.isNaN(parsed.getTime()) ? value : parsed;
+    }
+    case "list":
+      return String(value)
+        .split(/[|;\n]/)
+        .map((item) => item.trim())
+        .filter(Boolean);
+    default: {
+      const text = value instanceof Date ? value.toISOString().slice(0, 10) : String(value).trim();
+      if (column.enumCase === "lower") {
+        return text.toLowerCase().replace(/[\s-]+/g, "_");
+      }
+      if (column.enumCase === "upper") {
+        return text.toUpperCase();
+      }
+      return text;
+    }
+  }
+}
+
+/**
+ * Format a value for export so it parses back with coerceCell
+ */
+export function formatCell(value: unknown, column: ColumnDefinition): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+
+  switch (column.type) {
+    case "list":
+      return Array.isArray(value) ? value.join(" | ") : String(value);
+    case "boolean":
+      return Boolean(value);
+    case "number":
+    case "integer": {
+      const parsed = typeof value === "number" ? value : Number(value);
+      return Number.isNaN(parsed) ? null : parsed;
+    }
+    case "date":
+      return value instanceof Date ? value.toISOString() : String(value);
+    default:
+      if (Array.isArray(value)) return value.join("\n");
+      return String(value);
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Bulk Inventory Export
+ * Builds CSV, XLSX or JSON files of a dealer's inventory using the same
+ * column definitions as the importer so exported files can be re-imported
+ */
+
+import * as db from "../../db";
+import { querySchemaTable } from "../supabase-db";
+import type {
+  CompleteConfiguration,
+  Equipment,
+  EquipmentConfig,
+  ListingImage,
+  Vehicle,
+  VehicleConfig,
+  VehicleListing,
+} from "../supabase-types";
+import type { DealerContext } from "../database/dealer-context";
+import { BULK_COLUMNS, formatCell, type BulkEntityType } from "./column-mappings";
+import { writeSpreadsheet } from "./spreadsheet";
+
+export type BulkExportFormat = "csv" | "xlsx" | "json";
+
+export interface BulkExportFile {
+  fileName: string;
+  mimeType: string;
+  /** Base64-encoded file contents */
+  data: string;
+  rowCount: number;
+}
+
+const MIME_TYPES: Record<BulkExportFormat, string> = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json",
+};
+
+/**
+ * Memoize single-row lookups so listings sharing a configuration
+ * only hit the database once
+ */
+function createLookup<T>(schema: string, table: string) {
+  const cache = new Map<number, Promise<T | null>>();
+  return (id: number | null | undefined): Promise<T | null> => {
+    if (!id) return Promise.resolve(null);
+    if (!cache.has(id)) {
+      cache.set(
+        id,
+        querySchemaTable<T>(schema, table, { where: { id }, limit: 1 }).then((rows) => rows[0] ?? null)
+      );
+    }
+    return cache.get(id)!;
+  };
+}
+
+/**
+ * Load the dealer's listings joined to their configuration records,
+ * keyed by the importer's form field names
+ */
+async function loadVehicleRecords(dealerId: number): Promise<Record<string, unknown>[]> {
+  const listings = await querySchemaTable<VehicleListing>(
+    "02a. Dealership",
+    "vehicle_listings",
+    {
+      where: { dealer_id: dealerId },
+      whereNull: ["deleted_at"],
+      orderBy: { column: "created_at", ascending: false },
+    }
+  );
+
+  const getCompleteConfig = createLookup<CompleteConfiguration>("05. Completed Unit Configuration", "complete_configurations");
+  const getVehicleConfig = createLookup<VehicleConfig>("03. Vehicle Data", "vehicle_config");
+  const getVehicle = createLookup<Vehicle>("03. Vehicle Data", "vehicle");
+  const getEquipmentConfig = createLookup<EquipmentConfig>("04. Equipment Data", "equipment_config");
+  const getEquipment = createLookup<Equipment>("04. Equipment Data", "equipment");
+
+  const records: Record<string, unknown>[] = [];
+  for (const listing of listings) {
+    // Column names differ between older and newer schema revisions
+    const l = listing as any;
+    const completeConfig = await getCompleteConfig(listing.complete_configuration_id);
+    const vehicleConfig: any = await getVehicleConfig(completeConfig?.vehicle_config_id);
+    const vehicle: any = await getVehicle(vehicleConfig?.vehicle_id);
+    const equipmentConfig: any = await getEquipmentConfig(completeConfig?.equipment_config_id);
+    const equipment: any = await getEquipment(equipmentConfig?.equipment_id);
+
+    const images = await querySchemaTable<ListingImage>(
+      "02a. Dealership",
+      "listing_images",
+      {
+        where: { listing_id: listing.id },
+        orderBy: { column: "sort_order", ascending: true },
+      }
+    );
+
+    records.push({
+      vin: l.vin ?? completeConfig?.vin,
+      stockNumber: listing.stock_number,
+      listingType: completeConfig?.configuration_type === "custom_build" ? "build_to_order" : "stock_unit",
+      year: vehicle?.year,
+      make: vehicle?.make_name,
+      model: vehicle?.model_name,
+      series: vehicle?.series ?? vehicle?.series_name,
+      bodyStyle: vehicleConfig?.body_style,
+      fuelType: vehicleConfig?.fuel_type,
+      wheelbase: vehicleConfig?.wheelbase_inches,
+      gvwr: vehicleConfig?.gvwr ?? vehicleConfig?.gvwr_lbs,
+      payload: vehicleConfig?.payload_capacity ?? vehicleConfig?.payload_capacity_lbs,
+      engineDescription: vehicleConfig?.engine ?? vehicleConfig?.engine_description,
+      transmission: vehicleConfig?.transmission,
+      driveType: vehicleConfig?.drive_type,
+      condition: listing.condition,
+      mileage: listing.mileage,
+      askingPrice: listing.asking_price,
+      specialPrice: l.special_price,
+      priceType: listing.price_type,
+      exteriorColor: l.exterior_color,
+      interiorColor: l.interior_color,
+      listingTitle: listing.listing_title,
+      marketingHeadline: listing.marketing_headline,
+      description: l.listing_description ?? listing.description,
+      keyHighlights: listing.key_highlights,
+      locationCity: listing.location_city,
+      locationState: listing.location_state,
+      isFeatured: listing.is_featured,
+      isHotDeal: listing.is_hot_deal,
+      isClearance: listing.is_clearance,
+      hasEquipment: !!equipmentConfig,
+      equipmentManufacturer: equipment?.upfitter_name ?? equipment?.manufacturer,
+      equipmentProductLine: equipment?.product_line,
+      equipmentType: equipment?.equipment_type,
+      equipmentLength: equipmentConfig?.length_inches,
+      equipmentWidth: equipmentConfig?.width_inches,
+      equipmentHeight: equipmentConfig?.height_inches,
+      equipmentWeight: equipmentConfig?.equipment_weight_lbs ?? equipmentConfig?.weight_lbs,
+      equipmentMaterial: equipmentConfig?.material,
+      photos: images.map((image) => image.image_url),
+      listingId: listing.id,
+      status: listing.listing_status,
+      viewCount: listing.view_count,
+      inquiryCount: l.inquiry_count,
+      favoriteCount: l.favorite_count,
+      createdAt: listing.created_at,
+      updatedAt: listing.updated_at,
+    });
+  }
+
+  return records;
+}
+
+async function loadBodyEquipmentRecords(companyId: number): Promise<Record<string, unknown>[]> {
+  const rows = await db.getDealerBodiesEquipment(companyId, { limit: 10000 });
+
+  return rows.map((row) => {
+    const r = row as any;
+    return {
+      name: r.name ?? r.model_name,
+      category: r.category ?? r.body_category ?? r.equipment_type,
+      manufacturer: r.manufacturer ?? r.upfitter_name,
+      model: r.model ?? r.product_line,
+      description: r.description ?? r.marketing_description,
+      msrp: r.msrp ?? r.starting_msrp,
+      salePrice: r.salePrice,
+      installationCost: r.installationCost,
+      dimensions: r.dimensions,
+      weight: r.weight,
+      capacity: r.capacity,
+      material: r.material ?? r.primary_material,
+      color: r.color,
+      compatibleChassisTypes: r.compatibleChassisTypes,
+      compatibleMakes: r.compatibleMakes,
+      wheelbaseMin: r.wheelbaseMin,
+      wheelbaseMax: r.wheelbaseMax,
+      gvwrMin: r.gvwrMin,
+      gvwrMax: r.gvwrMax,
+      leadTimeDays: r.leadTimeDays,
+      stockStatus: r.stockStatus,
+      installationTime: r.installationTime,
+      installationRequirements: r.installationRequirements,
+      warrantyYears: r.warrantyYears,
+      warrantyDetails: r.warrantyDetails,
+      configurationOptions: r.configurationOptions,
+      featuredImage: r.featuredImage ?? r.primary_image_url,
+      status: r.status === "active" ? "live" : r.status === "discontinued" ? "archived" : r.status,
+      id: r.id,
+      createdAt: r.created_at ?? r.createdAt,
+      updatedAt: r.updated_at ?? r.updatedAt,
+    };
+  });
+}
+
+async function loadInfrastructureRecords(companyId: number): Promise<Record<string, unknown>[]> {
+  const rows = await db.getDealerInfrastructure(companyId, { limit: 10000 });
+  // Infrastructure rows already use form field names
+  return rows as Record<string, unknown>[];
+}
+
+/**
+ * Export a dealer's inventory of the given type
+ */
+export async function exportInventory(
+  entityType: BulkEntityType,
+  format: BulkExportFormat,
+  context: Pick<DealerContext, "dealerId" | "companyId">
+): Promise<BulkExportFile> {
+  let records: Record<string, unknown>[];
+  if (entityType === "vehicles") {
+    if (!context.dealerId) {
+      throw new Error("Dealer record not found");
+    }
+    records = await loadVehicleRecords(context.dealerId);
+  } else {
+    if (!context.companyId) {
+      throw new Error("No company associated with user");
+    }
+    records =
+      entityType === "bodies"
+        ? await loadBodyEquipmentRecords(context.companyId)
+        : await loadInfrastructureRecords(context.companyId);
+  }
+
+  const columns = BULK_COLUMNS[entityType];
+  const date = new Date().toISOString().slice(0, 10);
+  const fileName = `${entityType}-export-${date}.${format}`;
+
+  let content: Buffer;
+  if (format === "json") {
+    const rows = records.map((record) =>
+      Object.fromEntries(columns.map((column) => [column.key, record[column.key] ?? null]))
+    );
+    content = Buffer.from(JSON.stringify(rows, null, 2), "utf8");
+  } else {
+    const rows = records.map((record) => columns.map((column) => formatCell(record[column.key], column)));
+    content = writeSpreadsheet(
+      columns.map((column) => column.header),
+      rows,
+      format
+    );
+  }
+
+  return {
+    fileName,
+    mimeType: MIME_TYPES[format],
+    data: content.toString("base64"),
+    rowCount: records.length,
+  };
+}
@@ -0,0 +1,80 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as db from "../../db";
+import { findOrCreateEquipment } from "../catalog-helpers";
+import { importInventoryFile, type BulkImportContext } from "./import";
+
+vi.mock("../catalog-helpers", () => ({
+  findOrCreateEquipment: vi.fn(),
+}));
+
+vi.mock("../../db", () => ({
+  updateBodyEquipment: vi.fn(),
+}));
+
+const context: BulkImportContext = {
+  supabase: {} as SupabaseClient,
+  dealerId: 7,
+  companyId: 3,
+};
+
+const bodiesCsv = (...rows: string[]) =>
+  Buffer.from(["Name,Category,Manufacturer,Model,Weight (lbs),Featured Image URL,Status", ...rows].join("\n"));
+
+describe("importInventoryFile bodies", () => {
+  beforeEach(() => {
+    vi.mocked(findOrCreateEquipment).mockReset();
+    vi.mocked(db.updateBodyEquipment).mockReset();
+  });
+
+  it("adds body/equipment rows to the equipment catalog", async () => {
+    vi.mocked(findOrCreateEquipment).mockResolvedValue({
+      equipmentId: 41,
+      equipmentConfigId: 410,
+      created: true,
+      matchedExisting: false,
+    });
+
+    const report = await importInventoryFile(
+      "bodies",
+      "bodies.csv",
+      bodiesCsv("9ft service body,Service_Body,Reading,SL,2400,https://cdn.example.com/body.jpg,draft"),
+      context
+    );
+
+    expect(report.results).toEqual([{ row: 2, status: "created", identifier: "9ft service body", id: 41 }]);
+    expect(findOrCreateEquipment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        manufacturer: "Reading",
+        product_line: "SL",
+        equipment_type: "service_body",
+        weight_lbs: 2400,
+      }),
+      context.dealerId
+    );
+    expect(db.updateBodyEquipment).toHaveBeenCalledWith(41, { featuredImage: "https://cdn.example.com/body.jpg" });
+  });
+
+  it("skips rows that match equipment already in the catalog", async () => {
+    vi.mocked(findOrCreateEquipment).mockResolvedValue({
+      equipmentId: 12,
+      equipmentConfigId: 120,
+      created: false,
+      matchedExisting: true,
+    });
+
+    const report = await importInventoryFile("bodies", "bodies.csv", bodiesCsv("Box body,box_body,Morgan,,,,draft"), context);
+
+    expect(report.results[0]).toMatchObject({ status: "skipped", id: 12 });
+    expect(db.updateBodyEquipment).not.toHaveBeenCalled();
+  });
+
+  it("rejects rows without a manufacturer in the dry run", async () => {
+    const report = await importInventoryFile("bodies", "bodies.csv", bodiesCsv("Box body,box_body,,,,,draft"), context, {
+      dryRun: true,
+    });
+
+    expect(report.results[0]).toMatchObject({ status: "error", reason: "manufacturer: Required" });
+    expect(findOrCreateEquipment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Bulk Inventory Import
+ * Parses CSV/XLSX files, validates each row and routes valid rows
+ * through the same creation paths as the single-item dealer forms
+ */
+
+import type { ZodError } from "zod";
+import * as db from "../../db";
+import { findOrCreateEquipment } from "../catalog-helpers";
+import { querySchemaTable } from "../supabase-db";
+import type { CompleteConfiguration } from "../supabase-types";
+import { createListingFromDealerInput, type ListingFormData } from "../database/smart-routing";
+import type { DealerContext } from "../database/dealer-context";
+import { listingSchema } from "../validation/listing-schema";
+import { bodyEquipmentSchema } from "../validation/body-equipment-schema";
+import { chargingInfrastructureSchema } from "../validation/infrastructure-schema";
+import { getCachedEnrichment } from "../services/vehicle-data-enrichment";
+import { BULK_COLUMNS, coerceCell, resolveColumns, type BulkEntityType } from "./column-mappings";
+import { detectFormat, parseSpreadsheet } from "./spreadsheet";
+
+export type BulkRowStatus = "created" | "valid" | "skipped" | "error";
+
+export interface BulkImportRowResult {
+  /** Spreadsheet row number (header is row 1) */
+  row: number;
+  status: BulkRowStatus;
+  /** VIN for vehicles, name for bodies/infrastructure */
+  identifier?: string;
+  /** ID of the created record */
+  id?: number;
+  reason?: string;
+}
+
+export interface BulkImportReport {
+  entityType: BulkEntityType;
+  dryRun: boolean;
+  totalRows: number;
+  /** Offset to pass for the next chunk, null once the file is complete */
+  nextOffset: number | null;
+  unmappedColumns: string[];
+  results: BulkImportRowResult[];
+  summary: Record<BulkRowStatus, number>;
+}
+
+export type BulkImportContext = DealerContext;
+
+export interface BulkImportOptions {
+  /** Validate only, nothing is written */
+  dryRun?: boolean;
+  /** Index of the first data row to process */
+  offset?: number;
+  /** Maximum number of rows to process in this call */
+  limit?: number;
+  /** Whether rows may be published; without it vehicles import as drafts and live rows are rejected */
+  canPublish?: boolean;
+  /** Supabase user running the import, recorded in listing price history */
+  userId?: string | null;
+}
+
+type RowImportOptions = Required<Pick<BulkImportOptions, "dryRun" | "canPublish" | "userId">>;
+
+const DEFAULT_CHUNK_SIZE = 25;
+
+/**
+ * Flatten zod issues into "field: message" strings
+ */
+function formatValidationError(error: ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+/**
+ * Turn a spreadsheet row into a form-shaped record using the column mapping
+ */
+function buildRecord(cells: unknown[], mapping: ReturnType<typeof resolveColumns>["mapping"]) {
+  const record: Record<string, unknown> = {};
+  mapping.forEach((column, index) => {
+    if (!column || column.readOnly) return;
+    const value = coerceCell(cells[index], column);
+    if (value !== undefined) {
+      record[column.key] = value;
+    }
+  });
+  return record;
+}
+
+async function importVehicleRow(
+  record: Record<string, unknown>,
+  context: BulkImportContext,
+  { dryRun, canPublish, userId }: RowImportOptions
+): Promise<Omit<BulkImportRowResult, "row">> {
+  record.listingType ??= "stock_unit";
+  record.hasEquipment ??= !!record.equipmentManufacturer;
+
+  const identifier = typeof record.vin === "string" ? record.vin : undefined;
+  const parsed = listingSchema.safeParse(record);
+  if (!parsed.success) {
+    return { status: "error", identifier, reason: formatValidationError(parsed.error) };
+  }
+
+  const formData = parsed.data as ListingFormData;
+
+  const existing = await querySchemaTable<CompleteConfiguration>(
+    "05. Completed Unit Configuration",
+    "complete_configurations",
+    {
+      select: "id",
+      where: { vin: formData.vin, created_by_dealer_id: context.dealerId },
+      limit: 1,
+    }
+  );
+  if (existing.length > 0) {
+    return { status: "skipped", identifier, reason: "VIN already exists in your inventory" };
+  }
+
+  if (dryRun) {
+    return { status: "valid", identifier };
+  }
+
+  // Reuse decoded VIN data if it has already been cached
+  const enrichedData = (await getCachedEnrichment(formData.vin, context.companyId)) ?? undefined;
+  const result = await createListingFromDealerInput(context.supabase, context.dealerId, formData, enrichedData, {
+    canPublish,
+    createdBy: userId,
+    source: "bulk",
+  });
+
+  if (!result.success) {
+    return {
+      status: "error",
+      identifier,
+      reason: result.errors?.join("; ") || "Failed to create listing",
+    };
+  }
+
+  // Same-dealer VINs were skipped above, so these are other dealers' or similar units
+  const duplicate = result.duplicates?.[0];
+  return {
+    status: "created",
+    identifier,
+    id: result.listingId,
+    reason: duplicate
+      ? `Created #${result.listingId}; possible duplicate of listing #${duplicate.listingId}${duplicate.sameDealer ? "" : ` at ${duplicate.dealerName ?? "another dealer"}`}`
+      : undefined,
+  };
+}
+
+async function importBodyEquipmentRow(
+  record: Record<string, unknown>,
+  context: BulkImportContext,
+  { dryRun, canPublish }: RowImportOptions
+): Promise<Omit<BulkImportRowResult, "row">> {
+  const identifier = typeof record.name === "string" ? record.name : undefined;
+  const parsed = bodyEquipmentSchema.safeParse(record);
+  if (!parsed.success) {
+    return { status: "error", identifier, reason: formatValidationError(parsed.error) };
+  }
+  if (parsed.data.status === "live" && !canPublish) {
+    return { status: "error", identifier, reason: "Your role cannot publish items; import them as draft" };
+  }
+  // The equipment catalog is keyed by manufacturer
+  const { manufacturer } = parsed.data;
+  if (!manufacturer) {
+    return { status: "error", identifier, reason: "manufacturer: Required" };
+  }
+
+  if (dryRun) {
+    return { status: "valid", identifier };
+  }
+
+  const result = await findOrCreateEquipment(
+    {
+      manufacturer,
+      product_line: parsed.data.model,
+      equipment_type: parsed.data.category,
+      weight_lbs: parsed.data.weight,
+      material: parsed.data.material,
+      compatible_gvwr_min: parsed.data.gvwrMin,
+      compatible_gvwr_max: parsed.data.gvwrMax,
+    },
+    context.dealerId!
+  );
+
+  if (!result.created) {
+    return {
+      status: "skipped",
+      identifier,
+      id: result.equipmentId,
+      reason: `Matches existing equipment #${result.equipmentId}`,
+    };
+  }
+
+  if (parsed.data.featuredImage) {
+    await db.updateBodyEquipment(result.equipmentId, { featuredImage: parsed.data.featuredImage });
+  }
+
+  return { status: "created", identifier, id: result.equipmentId };
+}
+
+async function importInfrastructureRow(
+  record: Record<string, unknown>,
+  context: BulkImportContext,
+  { dryRun, canPublish }: RowImportOptions
+): Promise<Omit<BulkImportRowResult, "row">> {
+  const identifier = typeof record.name === "string" ? record.name : undefined;
+  const parsed = chargingInfrastructureSchema.safeParse(record);
+  if (!parsed.success) {
+    return { status: "error", identifier, reason: formatValidationError(parsed.error) };
+  }
+  if (parsed.data.status === "live" && !canPublish) {
+    return { status: "error", identifier, reason: "Your role cannot publish items; import them as draft" };
+  }
+
+  if (dryRun) {
+    return { status: "valid", identifier };
+  }
+
+  const id = await db.createInfrastructure({
+    ...parsed.data,
+    companyId: context.companyId!,
+    isPublished: parsed.data.status === "live",
+  });
+
+  return { status: "created", identifier, id };
+}
+
+const ROW_IMPORTERS: Record<
+  BulkEntityType,
+  (record: Record<string, unknown>, context: BulkImportContext, options: RowImportOptions) => Promise<Omit<BulkImportRowResult, "row">>
+> = {
+  vehicles: importVehicleRow,
+  bodies: importBodyEquipmentRow,
+  infrastructure: importInfrastructureRow,
+};
+
+/**
+ * Import one chunk of a bulk inventory file.
+ * Large files are processed in chunks (offset/limit) so each request stays
+ * well inside the client timeout; the caller repeats until nextOffset is null.
+ */
+export async function importInventoryFile(
+  entityType: BulkEntityType,
+  fileName: string,
+  file: Buffer,
+  context: BulkImportContext,
+  options: BulkImportOptions = {}
+): Promise<BulkImportReport> {
+  const { dryRun = false, offset = 0, limit = DEFAULT_CHUNK_SIZE, canPublish = true, userId = null } = options;
+
+  if (entityType !== "vehicles" && !context.companyId) {
+    throw new Error("No company associated with user");
+  }
+
+  const sheet = parseSpreadsheet(file, detectFormat(fileName));
+  const { mapping, unmappedHeaders, missingRequired } = resolveColumns(sheet.headers, BULK_COLUMNS[entityType]);
+
+  if (missingRequired.length > 0) {
+    throw new Error(`Missing required columns: ${missingRequired.join(", ")}`);
+  }
+
+  const records = sheet.rows.map(({ rowNumber, cells }) => {
+    const record = buildRecord(cells, mapping);
+    if (typeof record.vin === "string") {
+      record.vin = record.vin.toUpperCase().replace(/\s/g, "");
+    }
+    return { rowNumber, record };
+  });
+  const chunk = records.slice(offset, offset + limit);
+
+  // VINs seen earlier in the file, including rows from previous chunks
+  const seenVins = new Map<string, number>();
+  if (entityType === "vehicles") {
+    for (const { rowNumber, record } of records.slice(0, offset)) {
+      if (typeof record.vin === "string" && !seenVins.has(record.vin)) {
+        seenVins.set(record.vin, rowNumber);
+      }
+    }
+  }
+
+  const results: BulkImportRowResult[] = [];
+  for (const { rowNumber, record } of chunk) {
+    if (entityType === "vehicles" && typeof record.vin === "string") {
+      const vin = record.vin;
+      const firstRow = seenVins.get(vin);
+      if (firstRow !== undefined) {
+        results.push({ row: rowNumber, status: "skipped", identifier: vin, reason: `Duplicate of row ${firstRow}` });
+        continue;
+      }
+      seenVins.set(vin, rowNumber);
+    }
+
+    try {
+      const result = await ROW_IMPORTERS[entityType](record, context, { dryRun, canPublish, userId });
+      results.push({ row: rowNumber, ...result });
+    } catch (error) {
+      results.push({
+        row: rowNumber,
+        status: "error",
+        identifier: typeof (record.vin ?? record.name) === "string" ? String(record.vin ?? record.name) : undefined,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const summary: Record<BulkRowStatus, number> = { created: 0, valid: 0, skipped: 0, error: 0 };
+  for (const result of results) {
+    summary[result.status]++;
+  }
+
+  const processedTo = offset + chunk.length;
+
+  return {
+    entityType,
+    dryRun,
+    totalRows: records.length,
+    nextOffset: processedTo < records.length ? processedTo : null,
+    unmappedColumns: unmappedHeaders,
+    results,
+    summary,
+  };
+}
+
+/**
+ * Header row for a blank import template
+ */
+export function getImportTemplateHeaders(entityType: BulkEntityType): string[] {
+  return BULK_COLUMNS[entityType].filter((column) => !column.readOnly).map((column) => column.header);
+}
@@ -0,0 +1,85 @@
+/**
+ * Spreadsheet Reader/Writer
+ * Thin wrapper around SheetJS for CSV and XLSX files used by bulk operations
+ */
+
+import * as XLSX from "xlsx";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+export interface ParsedSheet {
+  headers: string[];
+  /** Data rows with their 1-based spreadsheet row number (header is row 1) */
+  rows: Array<{ rowNumber: number; cells: unknown[] }>;
+}
+
+/**
+ * Detect the spreadsheet format from a file name
+ */
+export function detectFormat(fileName: string): SpreadsheetFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "csv" || extension === "txt") return "csv";
+  if (extension === "xlsx" || extension === "xls") return "xlsx";
+  throw new Error(`Unsupported file type ".${extension}". Upload a CSV or XLSX file.`);
+}
+
+/**
+ * Parse the first worksheet of a CSV or XLSX file.
+ * Blank rows are dropped but row numbers are preserved for error reporting.
+ */
+export function parseSpreadsheet(buffer: Buffer, format: SpreadsheetFormat): ParsedSheet {
+  // CSV is read as text with raw values so VINs, ZIP codes and
+  // stock numbers keep their leading zeros
+  const workbook =
+    format === "csv"
+      ? XLSX.read(buffer.toString("utf8").replace(/^\uFEFF/, ""), { type: "string", raw: true })
+      : XLSX.read(buffer, { type: "buffer", cellDates: true });
+
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    throw new Error("The file does not contain any worksheets");
+  }
+
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    defval: null,
+    blankrows: true,
+    raw: true,
+  });
+
+  const headerIndex = matrix.findIndex((row) => row.some((cell) => cell !== null && String(cell).trim() !== ""));
+  if (headerIndex === -1) {
+    throw new Error("The file is empty");
+  }
+
+  const headers = matrix[headerIndex].map((cell) => (cell === null ? "" : String(cell).trim()));
+  const rows: ParsedSheet["rows"] = [];
+
+  for (let i = headerIndex + 1; i < matrix.length; i++) {
+    const cells = matrix[i];
+    if (!cells.some((cell) => cell !== null && String(cell).trim() !== "")) continue;
+    rows.push({ rowNumber: i + 1, cells });
+  }
+
+  return { headers, rows };
+}
+
+/**
+ * Write rows to a CSV or XLSX file
+ */
+export function writeSpreadsheet(
+  headers: string[],
+  rows: unknown[][],
+  format: SpreadsheetFormat,
+  sheetName = "Inventory"
+): Buffer {
+  const worksheet = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+
+  if (format === "csv") {
+    return Buffer.from(XLSX.utils.sheet_to_csv(worksheet), "utf8");
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
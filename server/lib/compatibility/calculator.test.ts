@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { handleComplianceRequest, type ComplianceRequest } from "../../../supabase/functions/calculate-compliance/handler";
+import { querySchemaTable } from "../supabase-db";
+import { evaluateCompatibilityByIds } from "./calculator";
+
+vi.mock("../supabase-db", () => ({
+  querySchemaTable: vi.fn(),
+}));
+
+// Rows as postgres returns them (numeric columns as strings)
+const vehicleConfigs: Record<number, Record<string, unknown>> = {
+  10: {
+    id: 10,
+    wheelbase_inches: "165",
+    gvwr_lbs: "14500",
+    base_curb_weight_lbs: "7000",
+    front_curb_weight_lbs: "4200",
+    rear_curb_weight_lbs: "2800",
+    gawr_front_lbs: "6000",
+    gawr_rear_lbs: "10000",
+    cab_to_axle_inches: "84",
+    cab_to_tail_inches: "150",
+  },
+  11: {
+    id: 11,
+    wheelbase_inches: "141",
+    gvwr_lbs: "9900",
+    base_curb_weight_lbs: "6200",
+  },
+};
+
+const equipmentConfigs: Record<number, Record<string, unknown>> = {
+  1: { id: 1, config_name: "12ft box body", length_inches: "144", equipment_weight_lbs: "3000" },
+  2: { id: 2, config_name: "Liftgate", length_inches: "12", weight_lbs: "650", center_of_gravity_from_rear_axle_inches: "-70" },
+  3: { id: 3, config_name: "Service body", equipment_weight_lbs: "2400", minimum_cab_to_axle_inches: "96" },
+};
+
+const requests: Array<[string, ComplianceRequest]> = [
+  ["no equipment", { vehicleConfigId: 10 }],
+  ["a single legacy equipmentConfigId", { vehicleConfigId: 10, equipmentConfigId: 3 }],
+  ["stacked and placed items", {
+    vehicleConfigId: 10,
+    equipment: [
+      { equipmentConfigId: 1 },
+      { equipmentConfigId: 2, label: "Rear liftgate" },
+    ],
+  }],
+  ["an explicit mounting position", {
+    vehicleConfigId: 10,
+    equipment: [{ equipmentConfigId: 1, mountingPositionInches: 190 }],
+  }],
+  ["a chassis without axle ratings", {
+    vehicleConfigId: 11,
+    equipment: [{ equipmentConfigId: 1 }, { equipmentConfigId: 3 }],
+  }],
+];
+
+describe("evaluateCompatibilityByIds", () => {
+  beforeEach(() => {
+    vi.mocked(querySchemaTable).mockImplementation(async (_schema, table, options) => {
+      const id = Number(options?.where?.id);
+      const rows = table === "vehicle_config" ? vehicleConfigs : equipmentConfigs;
+      return (rows[id] ? [rows[id]] : []) as any;
+    });
+  });
+
+  it.each(requests)("matches the calculate-compliance edge function for %s", async (_name, request) => {
+    const equipment =
+      request.equipment ?? (request.equipmentConfigId ? [{ equipmentConfigId: request.equipmentConfigId }] : []);
+
+    const server = await evaluateCompatibilityByIds(request.vehicleConfigId, equipment);
+    const edge = await handleComplianceRequest(request, {
+      getVehicleConfig: async (id) => vehicleConfigs[id] ?? null,
+      getEquipmentConfig: async (id) => (equipmentConfigs[id] as any) ?? null,
+    });
+
+    expect(edge).toEqual({ status: 200, body: server });
+  });
+
+  it("reports unknown equipment with the same message as the edge function", async () => {
+    const edge = await handleComplianceRequest(
+      { vehicleConfigId: 10, equipment: [{ equipmentConfigId: 99 }] },
+      {
+        getVehicleConfig: async (id) => vehicleConfigs[id] ?? null,
+        getEquipmentConfig: async () => null,
+      }
+    );
+
+    expect(edge).toEqual({ status: 404, body: { error: "Equipment config 99 not found" } });
+    await expect(evaluateCompatibilityByIds(10, [{ equipmentConfigId: 99 }])).rejects.toThrow(
+      "Equipment config 99 not found"
+    );
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Dealer Context
+ * Resolves the organization membership, dealer and Supabase client for the current user
+ */
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { TRPCError } from "@trpc/server";
+import { hasPermission, type OrgPermission, type OrgRole } from "@shared/permissions";
+import type { TrpcContext } from "../../_core/context";
+import { ENV } from "../../_core/env";
+import { getSupabaseClient } from "../../_core/supabase";
+import * as db from "../../db";
+import { querySchemaTable } from "../supabase-db";
+
+export interface DealerContext {
+  supabase: SupabaseClient;
+  dealerId: number | null;
+  companyId: number | null;
+}
+
+/**
+ * Supabase users get a user-scoped client so auth.uid() permission checks
+ * work; OAuth dealers fall back to the service client (legacy support).
+ * Returns null for users who are neither.
+ */
+export function createDealerSupabaseClient(
+  ctx: Pick<TrpcContext, "req" | "user" | "supabaseUser">
+): SupabaseClient | null {
+  const authHeader = ctx.req.headers.authorization;
+  if (ctx.supabaseUser && authHeader?.startsWith("Bearer ")) {
+    return createClient(ENV.supabaseUrl, ENV.supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: authHeader,
+        },
+      },
+    });
+  }
+  if (ctx.user?.role === "dealer" || ctx.user?.role === "admin") {
+    return getSupabaseClient();
+  }
+  return null;
+}
+
+export interface OrgMembership {
+  organizationId: number;
+  dealerId: number | null;
+  /** Supabase auth user ID; null for legacy OAuth dealers */
+  userId: string | null;
+  role: OrgRole;
+}
+
+/**
+ * Resolve the organization, dealer and member role of the current user.
+ * Returns null when the user is not an active member of any organization.
+ * Legacy OAuth dealers have no organization_users record and are treated
+ * as admins of their company.
+ */
+export async function resolveOrgMembership(
+  ctx: Pick<TrpcContext, "user" | "supabaseUser">
+): Promise<OrgMembership | null> {
+  let membership: Omit<OrgMembership, "dealerId"> | null = null;
+
+  if (ctx.supabaseUser) {
+    const orgUsers = await querySchemaTable<{
+      organization_id: number;
+      role: OrgRole;
+      status?: string | null;
+    }>(
+      "01. Organization",
+      "organization_users",
+      {
+        where: { user_id: ctx.supabaseUser.id },
+      }
+    );
+    // Members removed from a previous organization keep that row
+    const orgUser = orgUsers.find((row) => !row.status || row.status === "active");
+    if (orgUser) {
+      membership = {
+        organizationId: orgUser.organization_id,
+        userId: ctx.supabaseUser.id,
+        role: orgUser.role,
+      };
+    }
+  } else if (ctx.user && (ctx.user.role === "dealer" || ctx.user.role === "admin")) {
+    const profile = await db.getUserById(ctx.user.id);
+    if (profile?.companyId) {
+      membership = {
+        organizationId: profile.companyId,
+        userId: null,
+        role: "admin",
+      };
+    }
+  }
+
+  if (!membership) {
+    return null;
+  }
+
+  const dealers = await querySchemaTable<{ id: number }>(
+    "02a. Dealership",
+    "dealers",
+    {
+      where: { organization_id: membership.organizationId },
+      limit: 1,
+    }
+  );
+
+  return { ...membership, dealerId: dealers[0]?.id ?? null };
+}
+
+/**
+ * Reject requests that target an organization other than the caller's
+ */
+export function assertOrganizationAccess(org: OrgMembership, organizationId: number): void {
+  if (org.organizationId !== organizationId) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You do not have permission to access this organization",
+    });
+  }
+}
+
+/**
+ * Reject requests that target a dealer other than the caller's
+ */
+export function assertDealerAccess(org: OrgMembership, dealerId: number): void {
+  if (!org.dealerId || org.dealerId !== dealerId) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You do not have permission to access this dealer",
+    });
+  }
+}
+
+/**
+ * Reject callers whose role lacks a permission. Used for checks that depend
+ * on the input, such as price changes inside a listing update.
+ */
+export function assertPermission(org: OrgMembership, permission: OrgPermission): void {
+  if (!hasPermission(org.role, permission)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Your role (${org.role}) does not allow ${permission}`,
+    });
+  }
+}
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { findCrossDealerDuplicates, findDuplicateListings } from "./duplicate-listings";
+
+type Row = Record<string, unknown>;
+
+const { executed, tables } = vi.hoisted(() => {
+  process.env.DATABASE_URL = "postgres://duplicate-listings.test";
+  return {
+    executed: [] as Array<{ query: string; params: unknown[] }>,
+    tables: {} as Record<string, { columns: string[]; rows: Row[] }>,
+  };
+});
+
+/**
+ * Stand-in for postgres that runs the simple SELECTs querySchemaTable
+ * builds, and fails like postgres on columns the table does not have
+ */
+vi.mock("postgres", () => ({
+  default: () => ({
+    unsafe: async (query: string, params: unknown[]) => {
+      executed.push({ query, params });
+      const [, table, where = ""] = /FROM ("[^"]+"\.\w+)(?: WHERE (.*?))?(?: ORDER BY| LIMIT| OFFSET|$)/.exec(query)!;
+      const { columns, rows } = tables[table];
+
+      const conditions = where ? where.split(" AND ") : [];
+      return rows.filter((row) =>
+        conditions.every((condition) => {
+          const [, column, test] = /^(\w+) (.*)$/.exec(condition)!;
+          if (!columns.includes(column)) {
+            throw new Error(`column "${column}" does not exist`);
+          }
+          const value = row[column] ?? null;
+          if (test === "IS NULL") return value === null;
+          if (test === "IS NOT NULL") return value !== null;
+          const param = params[Number(/\$(\d+)/.exec(test)![1]) - 1];
+          return test.startsWith("= ANY") ? (param as unknown[]).includes(value) : value === param;
+        })
+      );
+    },
+  }),
+}));
+
+vi.mock("./listing-loader", () => ({
+  hydrateListings: async (listings: Row[]) =>
+    listings.map((listing) => ({
+      listing,
+      config: tables['"05. Completed Unit Configuration".complete_configurations'].rows.find(
+        (config) => config.id === listing.complete_configuration_id
+      ),
+      vehicleConfig: null,
+      vehicle: { year: 2022, make_name: "Ford", model_name: "Transit" },
+      equipmentConfig: null,
+      equipment: null,
+      dealer: { dealer_name: `Dealer ${listing.dealer_id}` },
+      images: [],
+      primaryImage: null,
+    })),
+}));
+
+const VIN = "1FTBW3XM5NKA12345";
+
+function listing(id: number, dealerId: number, configId: number, overrides: Row = {}): Row {
+  return {
+    id,
+    dealer_id: dealerId,
+    complete_configuration_id: configId,
+    listing_status: "available",
+    listing_title: null,
+    stock_number: `STK-${id}`,
+    deleted_at: null,
+    created_at: new Date("2025-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+function listingQueries(): string[] {
+  return executed.map(({ query }) => query).filter((query) => query.includes("vehicle_listings"));
+}
+
+describe("duplicate listings", () => {
+  beforeEach(() => {
+    executed.length = 0;
+    tables['"05. Completed Unit Configuration".complete_configurations'] = {
+      columns: ["id", "vin"],
+      rows: [
+        { id: 100, vin: VIN },
+        { id: 101, vin: VIN },
+        { id: 102, vin: VIN },
+        { id: 103, vin: VIN },
+        { id: 104, vin: "1FTBW3XM5NKA99999" },
+      ],
+    };
+    tables['"02a. Dealership".vehicle_listings'] = {
+      columns: ["id", "dealer_id", "complete_configuration_id", "listing_status", "listing_title", "stock_number", "deleted_at", "created_at"],
+      rows: [
+        listing(1, 1, 100),
+        listing(2, 2, 101, { listing_status: "pending" }),
+        // Sold units and the recycle bin are not live inventory
+        listing(3, 3, 102, { listing_status: "sold" }),
+        listing(4, 4, 103, { deleted_at: new Date("2025-01-02T00:00:00Z") }),
+        listing(5, 1, 104, { stock_number: "A-100" }),
+      ],
+    };
+  });
+
+  it("filters live inventory on the listing_status column", async () => {
+    await findCrossDealerDuplicates();
+    await findDuplicateListings(1, { vin: VIN, year: 2022, make: "Ford", model: "Transit" });
+    await findDuplicateListings(1, { year: 2022, make: "Ford", model: "Transit", stockNumber: "A-100" });
+
+    const queries = listingQueries();
+    expect(queries).toHaveLength(3);
+    for (const query of queries) {
+      expect(query).toMatch(/\blisting_status = ANY\(\$\d+\)/);
+      expect(query).not.toMatch(/(^|[^_])status = /);
+      expect(query).toContain("deleted_at IS NULL");
+    }
+  });
+
+  it("reports VINs listed by more than one dealer", async () => {
+    const duplicates = await findCrossDealerDuplicates();
+
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0]).toMatchObject({ vin: VIN, dealerCount: 2 });
+    expect(duplicates[0].listings.map((match) => match.listingId)).toEqual([1, 2]);
+    expect(duplicates[0].listings[1]).toMatchObject({ dealerName: "Dealer 2", status: "pending", vin: VIN });
+  });
+
+  it("warns about a VIN another dealer already lists", async () => {
+    const matches = await findDuplicateListings(2, { vin: VIN.toLowerCase(), year: 2022, make: "Ford", model: "Transit" });
+
+    expect(matches.map(({ listingId, sameDealer, matchType }) => ({ listingId, sameDealer, matchType }))).toEqual([
+      { listingId: 1, sameDealer: false, matchType: "vin" },
+      { listingId: 2, sameDealer: true, matchType: "vin" },
+    ]);
+  });
+
+  it("falls back to the dealer's own stock numbers without a VIN match", async () => {
+    const matches = await findDuplicateListings(1, {
+      vin: "1FTBW3XM5NKA00000",
+      year: 2022,
+      make: "ford",
+      model: "Transit",
+      stockNumber: "a-100",
+    });
+
+    expect(matches).toEqual([expect.objectContaining({ listingId: 5, matchType: "similar", sameDealer: true })]);
+  });
+});
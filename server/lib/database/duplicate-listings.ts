@@ -0,0 +1,177 @@
+/**
+ * Duplicate Listings
+ * Finds live inventory that a new listing would duplicate: the same VIN at
+ * any dealer, or (without a VIN match) a unit from the same dealer with a
+ * similar year, make, model and stock number. Also builds the admin report
+ * of VINs listed by more than one dealer.
+ */
+
+import { stringsMatch } from "../fuzzy-matching/config";
+import { querySchemaTable } from "../supabase-db";
+import type { CompleteConfiguration, VehicleListing } from "../supabase-types";
+import { hydrateListings, type HydratedListing } from "./listing-loader";
+
+// Sold and archived units can legitimately come back, e.g. on a trade-in
+const ACTIVE_LISTING_STATUSES = ["draft", "available", "pending"];
+
+export interface DuplicateListingMatch {
+  listingId: number;
+  dealerId: number;
+  dealerName: string | null;
+  sameDealer: boolean;
+  matchType: "vin" | "similar";
+  status: VehicleListing["listing_status"];
+  title: string;
+  vin: string | null;
+  stockNumber: string | null;
+}
+
+export interface DuplicateListingCandidate {
+  vin?: string | null;
+  year: number;
+  make: string;
+  model: string;
+  stockNumber?: string | null;
+}
+
+export interface CrossDealerDuplicate {
+  vin: string;
+  dealerCount: number;
+  listings: Array<Omit<DuplicateListingMatch, "sameDealer" | "matchType"> & { createdAt: Date }>;
+}
+
+function normalizeVin(vin: string | null | undefined): string | null {
+  const normalized = vin?.trim().toUpperCase();
+  return normalized ? normalized : null;
+}
+
+function listingTitle({ listing, vehicle }: HydratedListing): string {
+  if (listing.listing_title) return listing.listing_title;
+  return vehicle ? `${vehicle.year} ${vehicle.make_name} ${vehicle.model_name}` : `Listing #${listing.id}`;
+}
+
+function toMatch(item: HydratedListing, dealerId: number, matchType: DuplicateListingMatch["matchType"]): DuplicateListingMatch {
+  return {
+    listingId: Number(item.listing.id),
+    dealerId: Number(item.listing.dealer_id),
+    dealerName: item.dealer?.dealer_name ?? null,
+    sameDealer: Number(item.listing.dealer_id) === dealerId,
+    matchType,
+    status: item.listing.listing_status,
+    title: listingTitle(item),
+    vin: item.config?.vin ?? null,
+    stockNumber: item.listing.stock_number ?? null,
+  };
+}
+
+/**
+ * Active listings carrying any of the given VINs
+ */
+async function listingsByVin(vins: string[]): Promise<VehicleListing[]> {
+  const configs = await querySchemaTable<CompleteConfiguration>(
+    "05. Completed Unit Configuration",
+    "complete_configurations",
+    {
+      select: "id",
+      where: { vin: vins },
+    }
+  );
+  if (configs.length === 0) return [];
+
+  return querySchemaTable<VehicleListing>("02a. Dealership", "vehicle_listings", {
+    where: {
+      complete_configuration_id: configs.map((config) => Number(config.id)),
+      listing_status: ACTIVE_LISTING_STATUSES,
+    },
+    whereNull: ["deleted_at"],
+  });
+}
+
+/**
+ * Active listings a new listing for the dealer would duplicate.
+ * Exact VIN matches are returned when there are any; otherwise the dealer's
+ * own inventory is fuzzy-matched on year, make, model and stock number.
+ */
+export async function findDuplicateListings(
+  dealerId: number,
+  candidate: DuplicateListingCandidate
+): Promise<DuplicateListingMatch[]> {
+  const vin = normalizeVin(candidate.vin);
+  if (vin) {
+    const vinMatches = await listingsByVin([vin]);
+    if (vinMatches.length > 0) {
+      const hydrated = await hydrateListings(vinMatches);
+      return hydrated.map((item) => toMatch(item, dealerId, "vin"));
+    }
+  }
+
+  // Stock numbers are only meaningful within one dealer's inventory
+  if (!candidate.stockNumber) return [];
+
+  const dealerListings = await querySchemaTable<VehicleListing>("02a. Dealership", "vehicle_listings", {
+    where: { dealer_id: dealerId, listing_status: ACTIVE_LISTING_STATUSES },
+    whereNull: ["deleted_at"],
+  });
+  const sameStock = dealerListings.filter((listing) => stringsMatch(listing.stock_number, candidate.stockNumber));
+  if (sameStock.length === 0) return [];
+
+  const hydrated = await hydrateListings(sameStock);
+  return hydrated
+    .filter(
+      ({ vehicle }) =>
+        !!vehicle &&
+        Number(vehicle.year) === Number(candidate.year) &&
+        stringsMatch(vehicle.make_name, candidate.make) &&
+        stringsMatch(vehicle.model_name, candidate.model)
+    )
+    .map((item) => toMatch(item, dealerId, "similar"));
+}
+
+/**
+ * VINs with active listings at more than one dealer, most widely listed first
+ */
+export async function findCrossDealerDuplicates(): Promise<CrossDealerDuplicate[]> {
+  const listings = await querySchemaTable<VehicleListing>("02a. Dealership", "vehicle_listings", {
+    where: { listing_status: ACTIVE_LISTING_STATUSES },
+    whereNull: ["deleted_at"],
+  });
+  if (listings.length === 0) return [];
+
+  const configIds = Array.from(new Set(listings.map((listing) => Number(listing.complete_configuration_id))));
+  const configs = await querySchemaTable<CompleteConfiguration>(
+    "05. Completed Unit Configuration",
+    "complete_configurations",
+    {
+      select: "id, vin",
+      where: { id: configIds },
+    }
+  );
+  const vinByConfig = new Map(configs.map((config) => [Number(config.id), normalizeVin(config.vin)]));
+
+  const byVin = new Map<string, VehicleListing[]>();
+  for (const listing of listings) {
+    const vin = vinByConfig.get(Number(listing.complete_configuration_id));
+    if (!vin) continue;
+    byVin.set(vin, [...(byVin.get(vin) ?? []), listing]);
+  }
+
+  const duplicated = Array.from(byVin.entries()).filter(
+    ([, group]) => new Set(group.map((listing) => Number(listing.dealer_id))).size > 1
+  );
+  if (duplicated.length === 0) return [];
+
+  const hydrated = await hydrateListings(duplicated.flatMap(([, group]) => group));
+  const hydratedById = new Map(hydrated.map((item) => [Number(item.listing.id), item]));
+
+  return duplicated
+    .map(([vin, group]) => ({
+      vin,
+      dealerCount: new Set(group.map((listing) => Number(listing.dealer_id))).size,
+      listings: group.map((listing) => {
+        const item = hydratedById.get(Number(listing.id))!;
+        const { sameDealer, matchType, ...match } = toMatch(item, Number(listing.dealer_id), "vin");
+        return { ...match, createdAt: listing.created_at };
+      }),
+    }))
+    .sort((a, b) => b.dealerCount - a.dealerCount || b.listings.length - a.listings.length);
+}
@@ -0,0 +1,213 @@
+/**
+ * Listing Bulk Update
+ * Applies one action (status, price adjustment, flags, location or archive)
+ * to many of a dealer's vehicle listings. Each listing is checked on its own
+ * and reported back; the listings that pass are saved in one transaction.
+ */
+
+import type { ListingStatus } from "@shared/listing-lifecycle";
+import { querySchemaTable, updateSchemaTable, withSchemaTransaction } from "../supabase-db";
+import type { VehicleListing } from "../supabase-types";
+import type { BulkListingAction } from "../validation/listing-bulk-schema";
+import type { OrgMembership } from "./dealer-context";
+import { assertListingTransition, transitionColumns } from "./listing-lifecycle";
+import { assertListingUpdateAllowed } from "./listing-permissions";
+import { recordPriceChange } from "./listing-price-history";
+import { recordRevision } from "./listing-revisions";
+
+export interface BulkUpdateResult {
+  id: number;
+  success: boolean;
+  /** False when the listing already matched the action */
+  changed: boolean;
+  error?: string;
+}
+
+interface ListingLocation {
+  city: string | null;
+  state_province: string | null;
+}
+
+interface PlannedUpdate {
+  listing: VehicleListing;
+  data: Record<string, unknown>;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Apply an amount or percent adjustment, rounded to whole dollars
+ */
+function adjustPrice(price: number | string, action: Extract<BulkListingAction, { type: "price" }>): number {
+  const current = Number(price);
+  const adjusted = action.mode === "percent" ? current * (1 + action.value / 100) : current + action.value;
+  return Math.round(adjusted);
+}
+
+/**
+ * Columns to write for one listing, or an error when the action is not allowed for it
+ */
+function planUpdate(
+  org: OrgMembership,
+  listing: VehicleListing,
+  action: BulkListingAction,
+  location: ListingLocation | null,
+  now: Date
+): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  switch (action.type) {
+    case "status":
+    case "archive": {
+      const toStatus: ListingStatus = action.type === "archive" ? "archived" : action.status;
+      if (toStatus === "sold" && listing.listing_status !== "sold") {
+        throw new Error("Use Mark as Sold to record the sale price and buyer type");
+      }
+      assertListingUpdateAllowed(org, {
+        priceChanged: false,
+        fromStatus: listing.listing_status,
+        toStatus,
+        publishedStatus: "available",
+      });
+      assertListingTransition(listing.listing_status, toStatus);
+      // Going live stamps last_refreshed_at itself
+      return transitionColumns(listing.listing_status, toStatus, now);
+    }
+    case "price": {
+      assertListingUpdateAllowed(org, { priceChanged: true, publishedStatus: "available" });
+      data.asking_price = adjustPrice(listing.asking_price, action);
+      if (listing.special_price !== null && listing.special_price !== undefined) {
+        data.special_price = adjustPrice(listing.special_price, action);
+      }
+      if (Number(data.asking_price) <= 0 || (data.special_price !== undefined && Number(data.special_price) <= 0)) {
+        throw new Error("The adjusted price must be greater than zero");
+      }
+      break;
+    }
+    case "flags": {
+      if (action.isFeatured !== undefined) data.is_featured = action.isFeatured;
+      if (action.isHotDeal !== undefined) data.is_hot_deal = action.isHotDeal;
+      if (action.isClearance !== undefined) data.is_clearance = action.isClearance;
+      break;
+    }
+    case "location": {
+      data.location_city = location?.city ?? null;
+      data.location_state = location?.state_province ?? null;
+      break;
+    }
+  }
+
+  // Any edit to a live listing counts as the dealer confirming it is still for sale
+  if (listing.listing_status === "available" || listing.listing_status === "pending") {
+    data.last_refreshed_at = now;
+  }
+  return data;
+}
+
+/**
+ * Apply an action to the dealer's listings
+ * @returns One result per requested ID, in request order
+ */
+export async function bulkUpdateListings(
+  org: OrgMembership,
+  dealerId: number,
+  ids: number[],
+  action: BulkListingAction
+): Promise<BulkUpdateResult[]> {
+  const uniqueIds = Array.from(new Set(ids));
+
+  let location: ListingLocation | null = null;
+  if (action.type === "location") {
+    const locations = await querySchemaTable<ListingLocation>("02a. Dealership", "dealer_locations", {
+      select: "city, state_province",
+      where: { id: action.locationId, dealer_id: dealerId },
+      limit: 1,
+    });
+    if (locations.length === 0) {
+      throw new Error("Location not found or unauthorized");
+    }
+    location = locations[0];
+  }
+
+  const listings = await querySchemaTable<VehicleListing>("02a. Dealership", "vehicle_listings", {
+    where: { id: uniqueIds, dealer_id: dealerId },
+    whereNull: ["deleted_at"],
+  });
+  const listingsById = new Map(listings.map((listing) => [Number(listing.id), listing]));
+
+  const now = new Date();
+  const results = new Map<number, BulkUpdateResult>();
+  const planned: PlannedUpdate[] = [];
+
+  for (const id of uniqueIds) {
+    const listing = listingsById.get(id);
+    if (!listing) {
+      results.set(id, { id, success: false, changed: false, error: "Listing not found or unauthorized" });
+      continue;
+    }
+    try {
+      const data = planUpdate(org, listing, action, location, now);
+      if (Object.keys(data).length === 0) {
+        results.set(id, { id, success: true, changed: false });
+      } else {
+        planned.push({ listing, data });
+      }
+    } catch (error) {
+      results.set(id, { id, success: false, changed: false, error: errorMessage(error) });
+    }
+  }
+
+  let saved: Array<{ before: VehicleListing; after: VehicleListing }> = [];
+  try {
+    saved = await withSchemaTransaction(async () => {
+      const rows: Array<{ before: VehicleListing; after: VehicleListing }> = [];
+      for (const { listing, data } of planned) {
+        const after = await updateSchemaTable<VehicleListing>("02a. Dealership", "vehicle_listings", data, {
+          id: listing.id,
+        });
+        await recordRevision("vehicle_listing", Number(listing.id), {
+          action: "update",
+          before: listing,
+          after,
+          changedBy: org.userId,
+        });
+        rows.push({ before: listing, after });
+      }
+      return rows;
+    });
+  } catch (error) {
+    // Nothing was saved, so every listing that passed its checks failed too
+    console.error("[Bulk Update] Transaction rolled back:", error);
+    for (const { listing } of planned) {
+      results.set(Number(listing.id), {
+        id: Number(listing.id),
+        success: false,
+        changed: false,
+        error: `Not saved: ${errorMessage(error)}`,
+      });
+    }
+  }
+
+  for (const { before, after } of saved) {
+    const id = Number(before.id);
+    results.set(id, { id, success: true, changed: true });
+
+    // Recorded after commit because price drops notify watchers
+    if (action.type === "price") {
+      try {
+        await recordPriceChange(
+          id,
+          { askingPrice: before.asking_price, specialPrice: before.special_price },
+          { askingPrice: after.asking_price, specialPrice: after.special_price },
+          { changedBy: org.userId, source: "bulk", listingTitle: before.listing_title }
+        );
+      } catch (error) {
+        console.warn(`[Bulk Update] Could not record price history for listing ${id}:`, error);
+      }
+    }
+  }
+
+  return ids.map((id) => results.get(id)!);
+}
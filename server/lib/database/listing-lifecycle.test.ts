@@ -0,0 +1,107 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import type { ListingStatus } from "@shared/listing-lifecycle";
+import { saleColumns, transitionColumns } from "./listing-lifecycle";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The job is SQL, so read the columns it uses from the migration that defines it
+const migration = readFileSync(
+  path.resolve(import.meta.dirname, "../../../supabase/migrations/20250130_add_listing_lifecycle.sql"),
+  "utf8"
+);
+const jobSql = migration.slice(migration.indexOf('FUNCTION "02a. Dealership".process_listing_lifecycle'));
+const statusColumn = /WHERE vl\.(\w+) = 'draft'/.exec(jobSql)?.[1] ?? "";
+
+type ListingRow = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for process_listing_lifecycle on a single row, using
+ * the status column the SQL filters and sets
+ */
+function runJob(row: ListingRow, now: Date, autoArchiveDays: number): "published" | "archived" | null {
+  const status = row[statusColumn];
+  const scheduled = row.scheduled_publish_at as Date | null | undefined;
+  if (status === "draft" && scheduled && scheduled <= now) {
+    Object.assign(row, {
+      [statusColumn]: "available",
+      published_at: now,
+      last_refreshed_at: now,
+      scheduled_publish_at: null,
+    });
+    return "published";
+  }
+
+  const refreshed = (row.last_refreshed_at ?? row.published_at ?? row.created_at) as Date;
+  if ((status === "available" || status === "pending") && refreshed.getTime() < now.getTime() - autoArchiveDays * DAY_MS) {
+    Object.assign(row, { [statusColumn]: "archived", archived_at: now });
+    return "archived";
+  }
+  return null;
+}
+
+function transition(row: ListingRow, to: ListingStatus, now: Date): void {
+  Object.assign(row, transitionColumns(row[statusColumn] as ListingStatus, to, now));
+}
+
+describe("listing lifecycle", () => {
+  const created = new Date("2025-01-01T00:00:00Z");
+
+  it("writes the status column the lifecycle job reads and sets", () => {
+    expect(statusColumn).toBe("listing_status");
+    expect(jobSql).toContain(`${statusColumn} = 'available'`);
+    expect(jobSql).toContain(`${statusColumn} = 'archived'`);
+    expect(transitionColumns("draft", "available")).toHaveProperty(statusColumn, "available");
+    expect(saleColumns("available", { salePrice: 42000, buyerType: "fleet" })).toHaveProperty(statusColumn, "sold");
+  });
+
+  it("archives a listing the dealer moved to pending once it goes stale", () => {
+    const row: ListingRow = {
+      [statusColumn]: "draft",
+      created_at: created,
+      scheduled_publish_at: new Date("2025-01-10T00:00:00Z"),
+    };
+
+    expect(runJob(row, new Date("2025-01-10T00:05:00Z"), 60)).toBe("published");
+
+    transition(row, "pending", new Date("2025-01-20T00:00:00Z"));
+    expect(row[statusColumn]).toBe("pending");
+    expect(runJob(row, new Date("2025-02-20T00:00:00Z"), 60)).toBeNull();
+
+    expect(runJob(row, new Date("2025-03-20T00:00:00Z"), 60)).toBe("archived");
+    expect(row[statusColumn]).toBe("archived");
+  });
+
+  it("leaves a listing alone after the dealer archives it", () => {
+    const row: ListingRow = {
+      [statusColumn]: "available",
+      created_at: created,
+      published_at: created,
+      last_refreshed_at: created,
+    };
+    const archivedAt = new Date("2025-01-15T00:00:00Z");
+
+    transition(row, "archived", archivedAt);
+
+    expect(runJob(row, new Date("2025-06-01T00:00:00Z"), 60)).toBeNull();
+    expect(row).toMatchObject({ [statusColumn]: "archived", archived_at: archivedAt });
+  });
+
+  it("restarts the refresh window when an archived listing is republished", () => {
+    const row: ListingRow = {
+      [statusColumn]: "archived",
+      created_at: created,
+      published_at: created,
+      last_refreshed_at: created,
+    };
+    const republishedAt = new Date("2025-05-01T00:00:00Z");
+
+    transition(row, "draft", republishedAt);
+    transition(row, "available", republishedAt);
+
+    expect(row).toMatchObject({ [statusColumn]: "available", published_at: republishedAt, last_refreshed_at: republishedAt });
+    expect(runJob(row, new Date("2025-06-01T00:00:00Z"), 60)).toBeNull();
+    expect(runJob(row, new Date("2025-07-15T00:00:00Z"), 60)).toBe("archived");
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Listing Lifecycle
+ * Enforces the allowed status transitions for vehicle listings, stamps the
+ * transition timestamps, and runs the background job that publishes
+ * scheduled listings and archives ones the dealer has stopped refreshing.
+ */
+
+import {
+  canTransitionListing,
+  LISTING_STATUS_LABELS,
+  type BuyerType,
+  type ListingStatus,
+} from "@shared/listing-lifecycle";
+import { callSchemaRPC } from "../supabase-db";
+
+const DEFAULT_JOB_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface SaleDetails {
+  salePrice: number;
+  buyerType: BuyerType;
+  soldAt?: Date;
+}
+
+export interface ListingLifecycleRun {
+  published: number;
+  archived: number;
+}
+
+/**
+ * Throw when a listing may not move from one status to another
+ */
+export function assertListingTransition(from: ListingStatus, to: ListingStatus): void {
+  if (!canTransitionListing(from, to)) {
+    throw new Error(
+      `A ${LISTING_STATUS_LABELS[from].toLowerCase()} listing cannot be changed to ${LISTING_STATUS_LABELS[to].toLowerCase()}`
+    );
+  }
+}
+
+/**
+ * Columns to write alongside a status change. Returns an empty object when
+ * the status is unchanged.
+ */
+export function transitionColumns(
+  from: ListingStatus,
+  to: ListingStatus,
+  now: Date = new Date()
+): Record<string, unknown> {
+  if (from === to) return {};
+
+  const columns: Record<string, unknown> = { listing_status: to };
+  switch (to) {
+    case "available":
+      // Coming back from pending keeps the original go-live date
+      if (from !== "pending") columns.published_at = now;
+      columns.last_refreshed_at = now;
+      columns.scheduled_publish_at = null;
+      if (from === "sold") {
+        columns.sold_at = null;
+        columns.sale_price = null;
+        columns.buyer_type = null;
+      }
+      break;
+    case "pending":
+      columns.pending_at = now;
+      break;
+    case "sold":
+      columns.sold_at = now;
+      break;
+    case "archived":
+      columns.archived_at = now;
+      columns.scheduled_publish_at = null;
+      break;
+  }
+  return columns;
+}
+
+/**
+ * Columns that mark a listing sold with its sale details
+ */
+export function saleColumns(from: ListingStatus, sale: SaleDetails, now: Date = new Date()): Record<string, unknown> {
+  assertListingTransition(from, "sold");
+  return {
+    ...transitionColumns(from, "sold", now),
+    listing_status: "sold",
+    sold_at: sale.soldAt ?? now,
+    sale_price: sale.salePrice,
+    buyer_type: sale.buyerType,
+  };
+}
+
+/**
+ * Publish due scheduled listings and archive stale ones
+ */
+export async function runListingLifecycle(now: Date = new Date()): Promise<ListingLifecycleRun> {
+  const rows = (await callSchemaRPC<{ listing_id: number; action: "published" | "archived" }>(
+    "02a. Dealership",
+    "process_listing_lifecycle",
+    [now]
+  )) as Array<{ listing_id: number; action: "published" | "archived" }>;
+
+  return {
+    published: rows.filter((row) => row.action === "published").length,
+    archived: rows.filter((row) => row.action === "archived").length,
+  };
+}
+
+/**
+ * Run the lifecycle job on an interval for the life of the server process.
+ * Runs never overlap; a slow run delays the next one instead.
+ */
+export function startListingLifecycleJob(intervalMs: number = DEFAULT_JOB_INTERVAL_MS): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const run = await runListingLifecycle();
+      if (run.published > 0 || run.archived > 0) {
+        console.log(
+          `[Listing Lifecycle] Published ${run.published} scheduled listings, archived ${run.archived} stale listings`
+        );
+      }
+    } catch (error) {
+      console.error("[Listing Lifecycle] Job failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
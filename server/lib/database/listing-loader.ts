@@ -0,0 +1,134 @@
+/**
+ * Listing Loader
+ * Hydrates a page of vehicle listings with their configuration, chassis,
+ * equipment, dealer and images. Each related table is fetched once for the
+ * whole page, so the number of queries does not grow with the page size.
+ */
+
+import { querySchemaTable } from "../supabase-db";
+import type {
+  CompleteConfiguration,
+  Dealer,
+  Equipment,
+  EquipmentConfig,
+  ListingImage,
+  Vehicle,
+  VehicleConfig,
+  VehicleListing,
+} from "../supabase-types";
+
+export interface HydratedListing {
+  listing: VehicleListing;
+  config: CompleteConfiguration | null;
+  vehicleConfig: VehicleConfig | null;
+  vehicle: Vehicle | null;
+  equipmentConfig: EquipmentConfig | null;
+  equipment: Equipment | null;
+  dealer: Dealer | null;
+  images: ListingImage[];
+  primaryImage: ListingImage | null;
+}
+
+function uniqueIds(values: Array<number | null | undefined>): number[] {
+  return Array.from(new Set(values.filter((value): value is number => value !== null && value !== undefined)));
+}
+
+/**
+ * Fetch rows by ID in one query and index them by ID
+ */
+async function loadByIds<T extends { id: number }>(
+  schema: string,
+  table: string,
+  ids: Array<number | null | undefined>
+): Promise<Map<number, T>> {
+  const unique = uniqueIds(ids);
+  if (unique.length === 0) {
+    return new Map();
+  }
+  const rows = await querySchemaTable<T>(schema, table, { where: { id: unique } });
+  // bigint IDs come back as strings from postgres
+  return new Map(rows.map((row) => [Number(row.id), row]));
+}
+
+function lookup<T>(map: Map<number, T>, id: number | null | undefined): T | null {
+  if (id === null || id === undefined) return null;
+  return map.get(Number(id)) ?? null;
+}
+
+/**
+ * Hydrate listings in a fixed number of round trips, preserving input order
+ */
+export async function hydrateListings(listings: VehicleListing[]): Promise<HydratedListing[]> {
+  if (listings.length === 0) {
+    return [];
+  }
+
+  const listingIds = uniqueIds(listings.map((listing) => listing.id));
+
+  const [configs, dealers, images] = await Promise.all([
+    loadByIds<CompleteConfiguration>(
+      "05. Completed Unit Configuration",
+      "complete_configurations",
+      listings.map((listing) => listing.complete_configuration_id)
+    ),
+    loadByIds<Dealer>("02a. Dealership", "dealers", listings.map((listing) => listing.dealer_id)),
+    querySchemaTable<ListingImage>("02a. Dealership", "listing_images", {
+      where: { listing_id: listingIds },
+      orderBy: { column: "sort_order", ascending: true },
+    }),
+  ]);
+
+  const configList = Array.from(configs.values());
+  const [vehicleConfigs, equipmentConfigs] = await Promise.all([
+    loadByIds<VehicleConfig>(
+      "03. Vehicle Data",
+      "vehicle_config",
+      configList.map((config) => config.vehicle_config_id)
+    ),
+    loadByIds<EquipmentConfig>(
+      "04. Equipment Data",
+      "equipment_config",
+      configList.map((config) => config.equipment_config_id)
+    ),
+  ]);
+
+  const [vehicles, equipment] = await Promise.all([
+    loadByIds<Vehicle>(
+      "03. Vehicle Data",
+      "vehicle",
+      Array.from(vehicleConfigs.values()).map((vehicleConfig) => vehicleConfig.vehicle_id)
+    ),
+    loadByIds<Equipment>(
+      "04. Equipment Data",
+      "equipment",
+      Array.from(equipmentConfigs.values()).map((equipmentConfig) => equipmentConfig.equipment_id)
+    ),
+  ]);
+
+  const imagesByListing = new Map<number, ListingImage[]>();
+  for (const image of images) {
+    const listingId = Number(image.listing_id);
+    const existing = imagesByListing.get(listingId) ?? [];
+    existing.push(image);
+    imagesByListing.set(listingId, existing);
+  }
+
+  return listings.map((listing) => {
+    const config = lookup(configs, listing.complete_configuration_id);
+    const vehicleConfig = lookup(vehicleConfigs, config?.vehicle_config_id);
+    const equipmentConfig = lookup(equipmentConfigs, config?.equipment_config_id);
+    const listingImages = imagesByListing.get(Number(listing.id)) ?? [];
+
+    return {
+      listing,
+      config,
+      vehicleConfig,
+      vehicle: lookup(vehicles, vehicleConfig?.vehicle_id),
+      equipmentConfig,
+      equipment: lookup(equipment, equipmentConfig?.equipment_id),
+      dealer: lookup(dealers, listing.dealer_id),
+      images: listingImages,
+      primaryImage: listingImages.find((image) => image.is_primary) ?? listingImages[0] ?? null,
+    };
+  });
+}
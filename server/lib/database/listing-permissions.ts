@@ -0,0 +1,53 @@
+/**
+ * Listing Permissions
+ * Checks for inventory updates that need more than listings.edit: price
+ * changes, publishing and archiving
+ */
+
+import { assertPermission, type OrgMembership } from "./dealer-context";
+
+type PriceValue = number | string | null | undefined;
+
+/**
+ * True when any submitted price differs from the stored value.
+ * Prices that were not submitted (undefined) are ignored.
+ */
+export function hasPriceChange(prices: Array<[submitted: PriceValue, current: PriceValue]>): boolean {
+  return prices.some(([submitted, current]) => {
+    if (submitted === undefined) {
+      return false;
+    }
+    if (submitted === null || current === null || current === undefined) {
+      return submitted !== current;
+    }
+    return Number(submitted) !== Number(current);
+  });
+}
+
+/**
+ * Check the permissions needed to change a listing's prices and status
+ * @param publishedStatus - Status that makes the item publicly visible
+ */
+export function assertListingUpdateAllowed(
+  org: OrgMembership,
+  change: {
+    priceChanged: boolean;
+    fromStatus?: string | null;
+    toStatus?: string;
+    publishedStatus: string;
+  }
+): void {
+  if (change.priceChanged) {
+    assertPermission(org, "pricing.manage");
+  }
+
+  const { fromStatus, toStatus, publishedStatus } = change;
+  if (toStatus === undefined || toStatus === fromStatus) {
+    return;
+  }
+  if (toStatus === "archived") {
+    assertPermission(org, "listings.delete");
+  } else if (toStatus === publishedStatus) {
+    assertPermission(org, "listings.publish");
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Listing Price History
+ * Records every asking/special price a listing has had and who set it.
+ * A lower buyer-facing price notifies everyone who saved the vehicle.
+ */
+
+import { createUserNotification } from "../notifications/user-notifications";
+import { insertSchemaTable, querySchemaTable } from "../supabase-db";
+import type { ListingPriceHistory, UserFavorite } from "../supabase-types";
+
+type PriceValue = number | string | null | undefined;
+
+export interface ListingPrices {
+  askingPrice: PriceValue;
+  specialPrice: PriceValue;
+}
+
+export interface PriceChangeContext {
+  /** Supabase auth user ID; null for legacy OAuth dealers and system changes */
+  changedBy: string | null;
+  source: ListingPriceHistory["source"];
+  /** Shown in price-drop notifications */
+  listingTitle?: string | null;
+}
+
+export interface PriceHistoryPoint {
+  askingPrice: number | null;
+  specialPrice: number | null;
+  price: number | null;
+  previousPrice: number | null;
+  changedBy: string | null;
+  source: ListingPriceHistory["source"];
+  changedAt: Date;
+}
+
+function toNumber(value: PriceValue): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * The price buyers see: the special price when set, otherwise the asking price
+ */
+export function effectivePrice(prices: ListingPrices): number | null {
+  return toNumber(prices.specialPrice) ?? toNumber(prices.askingPrice);
+}
+
+/**
+ * Record a listing's new prices. Does nothing when neither price changed.
+ * @param before - Prices before the change; null for a new listing
+ * @returns The history row, or null when nothing changed
+ */
+export async function recordPriceChange(
+  listingId: number,
+  before: ListingPrices | null,
+  after: ListingPrices,
+  context: PriceChangeContext
+): Promise<ListingPriceHistory | null> {
+  const unchanged =
+    before !== null &&
+    toNumber(before.askingPrice) === toNumber(after.askingPrice) &&
+    toNumber(before.specialPrice) === toNumber(after.specialPrice);
+  if (unchanged) return null;
+
+  const price = effectivePrice(after);
+  const previousPrice = before ? effectivePrice(before) : null;
+
+  const entry = await insertSchemaTable<ListingPriceHistory>("02a. Dealership", "listing_price_history", {
+    listing_id: listingId,
+    asking_price: toNumber(after.askingPrice),
+    special_price: toNumber(after.specialPrice),
+    price,
+    previous_price: previousPrice,
+    changed_by: context.changedBy,
+    source: context.source,
+  });
+
+  if (price !== null && previousPrice !== null && price < previousPrice) {
+    try {
+      await notifyPriceDrop(listingId, previousPrice, price, context.listingTitle);
+    } catch (error) {
+      // The price change itself has been saved; a failed notification should not undo it
+      console.warn(`[Price History] Could not notify watchers of listing ${listingId}:`, error);
+    }
+  }
+  return entry;
+}
+
+/**
+ * Tell everyone who saved the listing that its price dropped
+ */
+async function notifyPriceDrop(
+  listingId: number,
+  previousPrice: number,
+  price: number,
+  listingTitle?: string | null
+): Promise<void> {
+  const favorites = await querySchemaTable<UserFavorite>("public", "user_favorites", {
+    select: "user_id",
+    where: { listing_id: listingId },
+  });
+  if (favorites.length === 0) return;
+
+  const format = (amount: number) => `$${amount.toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
+  const title = `Price drop on ${listingTitle || "a vehicle you saved"}`;
+  const body = `Now ${format(price)}, down from ${format(previousPrice)}.`;
+
+  for (const favorite of favorites) {
+    await createUserNotification(favorite.user_id, {
+      type: "price_drop",
+      title,
+      body,
+      link: `/vehicle/${listingId}`,
+      data: { listingId, previousPrice, price },
+    });
+  }
+}
+
+/**
+ * Price changes for a listing, oldest first
+ */
+export async function getPriceHistory(listingId: number): Promise<PriceHistoryPoint[]> {
+  const rows = await querySchemaTable<ListingPriceHistory>("02a. Dealership", "listing_price_history", {
+    where: { listing_id: listingId },
+    orderBy: { column: "changed_at", ascending: true },
+  });
+
+  return rows.map((row) => ({
+    askingPrice: toNumber(row.asking_price),
+    specialPrice: toNumber(row.special_price),
+    price: toNumber(row.price),
+    previousPrice: toNumber(row.previous_price),
+    changedBy: row.changed_by ?? null,
+    source: row.source,
+    changedAt: row.changed_at,
+  }));
+}
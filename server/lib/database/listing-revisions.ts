@@ -0,0 +1,177 @@
+/**
+ * Listing Revisions
+ * Immutable audit log for dealer inventory. Every create, update and delete
+ * of a vehicle listing, body/equipment item or charging infrastructure item
+ * records a numbered revision with a field-level diff, a snapshot of the row
+ * and the acting user. Vehicle listings can be reverted to a prior revision.
+ */
+
+import { insertSchemaTable, querySchemaTable } from "../supabase-db";
+import type { ListingRevision, VehicleListing } from "../supabase-types";
+
+export type RevisionEntityType = ListingRevision["entity_type"];
+export type RevisionAction = ListingRevision["action"];
+export type FieldChanges = ListingRevision["changes"];
+
+type RecordLike = Record<string, unknown>;
+
+// Bookkeeping columns that change on their own and would drown out real edits
+const IGNORED_FIELDS = new Set([
+  "id",
+  "created_at",
+  "updated_at",
+  "view_count",
+  "favorite_count",
+  "last_viewed_at",
+  "last_refreshed_at",
+]);
+
+/**
+ * Listing columns a revert restores. Status and lifecycle timestamps are left
+ * alone so reverts cannot bypass the lifecycle transitions.
+ */
+export const REVERTIBLE_LISTING_FIELDS = [
+  "asking_price",
+  "special_price",
+  "price_type",
+  "stock_number",
+  "condition",
+  "mileage",
+  "exterior_color",
+  "interior_color",
+  "description",
+  "location_city",
+  "location_state",
+  "listing_title",
+  "marketing_headline",
+  "key_highlights",
+  "paint_condition",
+  "interior_condition",
+  "is_featured",
+  "is_hot_deal",
+  "is_clearance",
+  "warranty_type",
+  "warranty_expires_at",
+  "previous_owners",
+  "accident_history",
+] as const;
+
+export interface RecordRevisionInput {
+  action: RevisionAction;
+  /** Row before the change; null for creates */
+  before: object | null;
+  /** Row after the change; null for hard deletes */
+  after: object | null;
+  /** Supabase auth user ID; null for legacy OAuth dealers and system changes */
+  changedBy: string | null;
+  revertedFromRevision?: number;
+}
+
+/**
+ * JSON-safe form of a column value. Numeric columns come back from postgres
+ * as strings, so numbers and numeric strings compare by value.
+ */
+function toJsonValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.parse(JSON.stringify(value));
+  return value;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  const left = toJsonValue(a);
+  const right = toJsonValue(b);
+  if (left === right) return true;
+  if (left === null || right === null) return false;
+  if (typeof left !== "object" && typeof right !== "object" && left !== "" && right !== "") {
+    const leftNumber = Number(left);
+    const rightNumber = Number(right);
+    if (Number.isFinite(leftNumber) && Number.isFinite(rightNumber)) {
+      return leftNumber === rightNumber;
+    }
+  }
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+/**
+ * Field-level diff between two versions of a row
+ */
+export function diffRecords(before: object | null, after: object | null): FieldChanges {
+  const from = (before ?? {}) as RecordLike;
+  const to = (after ?? {}) as RecordLike;
+  const changes: FieldChanges = {};
+
+  const fields = Array.from(new Set([...Object.keys(from), ...Object.keys(to)]));
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field) || valuesEqual(from[field], to[field])) continue;
+    changes[field] = { from: toJsonValue(from[field]), to: toJsonValue(to[field]) };
+  }
+  return changes;
+}
+
+/**
+ * Record a revision. Updates that changed nothing are skipped.
+ * @returns The revision, or null when nothing changed
+ */
+export async function recordRevision(
+  entityType: RevisionEntityType,
+  entityId: number,
+  input: RecordRevisionInput
+): Promise<ListingRevision | null> {
+  // A hard delete keeps the last state as its snapshot rather than diffing every field to null
+  const hardDelete = input.action === "delete" && input.after === null;
+  const changes = hardDelete ? {} : diffRecords(input.before, input.after);
+  if (!hardDelete && Object.keys(changes).length === 0) return null;
+
+  return insertSchemaTable<ListingRevision>("02a. Dealership", "listing_revisions", {
+    entity_type: entityType,
+    entity_id: entityId,
+    action: input.action,
+    changes,
+    snapshot: toJsonValue(input.after ?? input.before),
+    changed_by: input.changedBy,
+    reverted_from_revision: input.revertedFromRevision ?? null,
+  });
+}
+
+/**
+ * Revisions for one item, newest first
+ */
+export async function listRevisions(entityType: RevisionEntityType, entityId: number): Promise<ListingRevision[]> {
+  return querySchemaTable<ListingRevision>("02a. Dealership", "listing_revisions", {
+    where: { entity_type: entityType, entity_id: entityId },
+    orderBy: { column: "revision", ascending: false },
+  });
+}
+
+export async function getRevision(
+  entityType: RevisionEntityType,
+  entityId: number,
+  revision: number
+): Promise<ListingRevision | null> {
+  const rows = await querySchemaTable<ListingRevision>("02a. Dealership", "listing_revisions", {
+    where: { entity_type: entityType, entity_id: entityId, revision },
+    limit: 1,
+  });
+  return rows[0] ?? null;
+}
+
+/**
+ * Columns to write to bring a listing back to a revision's snapshot.
+ * Only revertible columns that differ from the current row are returned.
+ */
+export function listingRevertColumns(current: VehicleListing, target: ListingRevision): Record<string, unknown> {
+  if (!target.snapshot) {
+    throw new Error("This revision has no snapshot to restore");
+  }
+
+  const snapshot = target.snapshot;
+  const columns: Record<string, unknown> = {};
+  for (const field of REVERTIBLE_LISTING_FIELDS) {
+    if (!(field in snapshot)) continue;
+    if (!valuesEqual(current[field as keyof VehicleListing], snapshot[field])) {
+      columns[field] = snapshot[field] ?? null;
+    }
+  }
+  return columns;
+}
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as db from "../../db";
+import { querySchemaTable, updateSchemaTable } from "../supabase-db";
+import { listRecycleBin, restoreFromRecycleBin } from "./recycle-bin";
+
+vi.mock("../supabase-db", () => ({
+  querySchemaTable: vi.fn(),
+  updateSchemaTable: vi.fn(),
+  deleteSchemaTable: vi.fn(),
+}));
+
+vi.mock("../../db", () => ({
+  getOrganizationDealerIds: vi.fn(),
+  toChargingInfrastructure: vi.fn(),
+}));
+
+vi.mock("../../storage", () => ({
+  storageDelete: vi.fn(),
+}));
+
+vi.mock("./listing-loader", () => ({
+  hydrateListings: async () => [],
+}));
+
+// Organization 3 has two dealer locations
+const owner = { dealerId: 7, organizationId: 3 };
+
+function whereFor(table: string) {
+  return vi.mocked(querySchemaTable).mock.calls.find(([, name]) => name === table)?.[2]?.where;
+}
+
+describe("recycle bin ownership", () => {
+  beforeEach(() => {
+    vi.mocked(querySchemaTable).mockReset().mockResolvedValue([]);
+    vi.mocked(updateSchemaTable).mockReset();
+    vi.mocked(db.getOrganizationDealerIds).mockReset().mockResolvedValue([7, 8]);
+  });
+
+  it("lists equipment created by any of the organization's dealers", async () => {
+    await listRecycleBin(owner);
+
+    expect(db.getOrganizationDealerIds).toHaveBeenCalledWith(3);
+    expect(whereFor("equipment")).toEqual({ created_by_dealer_id: [7, 8] });
+    expect(whereFor("vehicle_listings")).toEqual({ dealer_id: 7 });
+    expect(whereFor("charging_infrastructure")).toEqual({ organization_id: 3 });
+  });
+
+  it("restores equipment only for its owning organization", async () => {
+    const deletedAt = new Date("2025-02-01T00:00:00Z");
+    vi.mocked(querySchemaTable).mockResolvedValue([{ id: 41, created_by_dealer_id: 8, deleted_at: deletedAt }]);
+    vi.mocked(updateSchemaTable).mockResolvedValue({ id: 41, created_by_dealer_id: 8, deleted_at: null });
+
+    const { before, after } = await restoreFromRecycleBin("body_equipment", 41, owner);
+
+    expect(whereFor("equipment")).toEqual({ id: 41, created_by_dealer_id: [7, 8] });
+    expect(before).toMatchObject({ deleted_at: deletedAt });
+    expect(after).toMatchObject({ deleted_at: null });
+  });
+
+  it("does not restore another organization's equipment", async () => {
+    vi.mocked(db.getOrganizationDealerIds).mockResolvedValue([]);
+
+    await expect(restoreFromRecycleBin("body_equipment", 41, owner)).rejects.toThrow("Item not found in the recycle bin");
+    expect(whereFor("equipment")).toEqual({ id: 41, created_by_dealer_id: [] });
+    expect(updateSchemaTable).not.toHaveBeenCalled();
+  });
+});
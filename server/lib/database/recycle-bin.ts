@@ -0,0 +1,309 @@
+/**
+ * Recycle Bin
+ * Deleted vehicle listings, bodies/equipment and charging infrastructure keep
+ * their rows (with deleted_at set) for RECYCLE_BIN_DAYS so they can be
+ * restored with their photos. A background job then purges the rows and
+ * their storage objects.
+ */
+
+import { RECYCLE_BIN_DAYS } from "@shared/listing-lifecycle";
+import * as db from "../../db";
+import { storageDelete } from "../../storage";
+import { deleteSchemaTable, querySchemaTable, updateSchemaTable } from "../supabase-db";
+import type { ChargingInfrastructureItem, Equipment, ListingImage, VehicleListing } from "../supabase-types";
+import { hydrateListings } from "./listing-loader";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+export type RecycleBinEntityType = "vehicle_listing" | "body_equipment" | "charging_infrastructure";
+
+export interface RecycleBinItem {
+  entityType: RecycleBinEntityType;
+  id: number;
+  title: string;
+  imageUrl: string | null;
+  deletedAt: Date;
+  deletedBy: string | null;
+  purgeAt: Date;
+}
+
+export interface RecycleBinOwner {
+  dealerId: number;
+  /** Infrastructure is keyed by organization ID, bodies/equipment by any of its dealers */
+  organizationId: number;
+}
+
+export interface RecycleBinPurgeRun {
+  listings: number;
+  bodies: number;
+  infrastructure: number;
+  images: number;
+}
+
+type RecycledRow = VehicleListing | Equipment | ChargingInfrastructureItem;
+
+// Where each entity lives and which owner ID its rows are keyed by
+const RECYCLE_BIN_TABLES: Record<
+  RecycleBinEntityType,
+  { schema: string; table: string; ownerColumn: string; owner: keyof RecycleBinOwner | "organizationDealerIds" }
+> = {
+  vehicle_listing: { schema: "02a. Dealership", table: "vehicle_listings", ownerColumn: "dealer_id", owner: "dealerId" },
+  body_equipment: {
+    schema: "04. Equipment Data",
+    table: "equipment",
+    ownerColumn: "created_by_dealer_id",
+    owner: "organizationDealerIds",
+  },
+  charging_infrastructure: {
+    schema: "04. Equipment Data",
+    table: "charging_infrastructure",
+    ownerColumn: "organization_id",
+    owner: "organizationId",
+  },
+};
+
+/**
+ * Where clause matching the owner's rows of an entity
+ */
+async function ownerWhere(entityType: RecycleBinEntityType, owner: RecycleBinOwner): Promise<Record<string, unknown>> {
+  const { ownerColumn, owner: ownerKey } = RECYCLE_BIN_TABLES[entityType];
+  const ownerId =
+    ownerKey === "organizationDealerIds" ? await db.getOrganizationDealerIds(owner.organizationId) : owner[ownerKey];
+  return { [ownerColumn]: ownerId };
+}
+
+function purgeDate(deletedAt: Date): Date {
+  return new Date(new Date(deletedAt).getTime() + RECYCLE_BIN_DAYS * DAY_MS);
+}
+
+/**
+ * Everything in a dealer's recycle bin, most recently deleted first
+ */
+export async function listRecycleBin(owner: RecycleBinOwner): Promise<RecycleBinItem[]> {
+  const [listings, equipment, infrastructure] = await Promise.all([
+    querySchemaTable<VehicleListing>("02a. Dealership", "vehicle_listings", {
+      where: await ownerWhere("vehicle_listing", owner),
+      whereNotNull: ["deleted_at"],
+    }),
+    querySchemaTable<Equipment>("04. Equipment Data", "equipment", {
+      where: await ownerWhere("body_equipment", owner),
+      whereNotNull: ["deleted_at"],
+    }),
+    querySchemaTable<ChargingInfrastructureItem>("04. Equipment Data", "charging_infrastructure", {
+      where: await ownerWhere("charging_infrastructure", owner),
+      whereNotNull: ["deleted_at"],
+    }),
+  ]);
+
+  const hydrated = await hydrateListings(listings);
+  const items: RecycleBinItem[] = [
+    ...hydrated.map(({ listing, vehicle, primaryImage }) => ({
+      entityType: "vehicle_listing" as const,
+      id: Number(listing.id),
+      title:
+        listing.listing_title ||
+        (vehicle ? `${vehicle.year} ${vehicle.make_name} ${vehicle.model_name}` : `Listing #${listing.id}`),
+      imageUrl: primaryImage?.image_url ?? null,
+      deletedAt: listing.deleted_at!,
+      deletedBy: listing.deleted_by ?? null,
+      purgeAt: purgeDate(listing.deleted_at!),
+    })),
+    ...equipment.map((item) => ({
+      entityType: "body_equipment" as const,
+      id: Number(item.id),
+      title: [item.manufacturer, item.product_line || item.equipment_type].filter(Boolean).join(" "),
+      imageUrl: item.featured_image ?? null,
+      deletedAt: item.deleted_at!,
+      deletedBy: item.deleted_by ?? null,
+      purgeAt: purgeDate(item.deleted_at!),
+    })),
+    ...infrastructure.map((item) => ({
+      entityType: "charging_infrastructure" as const,
+      id: Number(item.id),
+      title: item.name,
+      imageUrl: item.featured_image ?? null,
+      deletedAt: item.deleted_at!,
+      deletedBy: item.deleted_by ?? null,
+      purgeAt: purgeDate(item.deleted_at!),
+    })),
+  ];
+
+  return items.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+}
+
+/**
+ * Take an item out of the recycle bin. Restored listings stay archived
+ * until the dealer republishes them.
+ * @returns The item before and after restoring, for the revision log
+ */
+export async function restoreFromRecycleBin(
+  entityType: RecycleBinEntityType,
+  id: number,
+  owner: RecycleBinOwner
+): Promise<{ before: object; after: object }> {
+  const { schema, table } = RECYCLE_BIN_TABLES[entityType];
+
+  const rows = await querySchemaTable<RecycledRow>(schema, table, {
+    where: { id, ...(await ownerWhere(entityType, owner)) },
+    whereNotNull: ["deleted_at"],
+    limit: 1,
+  });
+  if (rows.length === 0) {
+    throw new Error("Item not found in the recycle bin");
+  }
+
+  const after = await updateSchemaTable<RecycledRow>(
+    schema,
+    table,
+    { deleted_at: null, deleted_by: null },
+    { id }
+  );
+
+  // Infrastructure revisions are recorded in the dealer form's shape
+  if (entityType === "charging_infrastructure") {
+    return {
+      before: db.toChargingInfrastructure(rows[0] as ChargingInfrastructureItem),
+      after: db.toChargingInfrastructure(after as ChargingInfrastructureItem),
+    };
+  }
+  return { before: rows[0], after };
+}
+
+function isExpired(row: { deleted_at?: Date | null }, now: Date): boolean {
+  return !!row.deleted_at && purgeDate(row.deleted_at).getTime() <= now.getTime();
+}
+
+/**
+ * Hard-delete listings whose images no other listing uses, then remove
+ * those images from storage
+ */
+async function purgeListings(listingIds: number[]): Promise<number> {
+  const images = await querySchemaTable<ListingImage>("02a. Dealership", "listing_images", {
+    select: "id, listing_id, image_url",
+    where: { listing_id: listingIds },
+  });
+
+  for (const listingId of listingIds) {
+    await deleteSchemaTable("02a. Dealership", "listing_images", { listing_id: listingId });
+    await deleteSchemaTable("02a. Dealership", "vehicle_listings", { id: listingId });
+  }
+
+  // The same upload can be attached to more than one listing (e.g. duplicated listings)
+  return await deleteUnusedImages(
+    images.map((image) => image.image_url),
+    "02a. Dealership",
+    "listing_images",
+    "image_url"
+  );
+}
+
+/**
+ * Remove purged images from storage unless a remaining row in the table
+ * still points at the same upload
+ */
+async function deleteUnusedImages(
+  imageUrls: Array<string | null | undefined>,
+  schema: string,
+  table: string,
+  column: string
+): Promise<number> {
+  const urls = Array.from(new Set(imageUrls.filter((url): url is string => !!url)));
+  if (urls.length === 0) return 0;
+
+  try {
+    const stillUsed = await querySchemaTable<Record<string, string>>(schema, table, {
+      select: column,
+      where: { [column]: urls },
+    });
+    const inUse = new Set(stillUsed.map((row) => row[column]));
+    return await storageDelete(urls.filter((url) => !inUse.has(url)));
+  } catch (error) {
+    // The rows are already gone; orphaned objects are cheaper than failing the run
+    console.warn(`[Recycle Bin] Could not remove purged ${table} images from storage:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Permanently remove everything that has been in the recycle bin longer than RECYCLE_BIN_DAYS
+ */
+export async function purgeRecycleBin(now: Date = new Date()): Promise<RecycleBinPurgeRun> {
+  const [listings, equipment, infrastructure] = await Promise.all([
+    querySchemaTable<VehicleListing>("02a. Dealership", "vehicle_listings", {
+      select: "id, deleted_at",
+      whereNotNull: ["deleted_at"],
+    }),
+    querySchemaTable<Equipment>("04. Equipment Data", "equipment", {
+      select: "id, deleted_at, featured_image",
+      whereNotNull: ["deleted_at"],
+    }),
+    querySchemaTable<ChargingInfrastructureItem>("04. Equipment Data", "charging_infrastructure", {
+      select: "id, deleted_at, featured_image",
+      whereNotNull: ["deleted_at"],
+    }),
+  ]);
+
+  const expiredListingIds = listings.filter((row) => isExpired(row, now)).map((row) => Number(row.id));
+  const expiredEquipment = equipment.filter((row) => isExpired(row, now));
+  const expiredInfrastructure = infrastructure.filter((row) => isExpired(row, now));
+
+  let images = expiredListingIds.length > 0 ? await purgeListings(expiredListingIds) : 0;
+
+  for (const item of expiredEquipment) {
+    await db.deleteBodyEquipment(Number(item.id));
+  }
+  images += await deleteUnusedImages(
+    expiredEquipment.map((item) => item.featured_image),
+    "04. Equipment Data",
+    "equipment",
+    "featured_image"
+  );
+
+  for (const item of expiredInfrastructure) {
+    await db.deleteInfrastructure(Number(item.id));
+  }
+  images += await deleteUnusedImages(
+    expiredInfrastructure.map((item) => item.featured_image),
+    "04. Equipment Data",
+    "charging_infrastructure",
+    "featured_image"
+  );
+
+  return {
+    listings: expiredListingIds.length,
+    bodies: expiredEquipment.length,
+    infrastructure: expiredInfrastructure.length,
+    images,
+  };
+}
+
+/**
+ * Run the purge job on an interval for the life of the server process.
+ * Runs never overlap; a slow run delays the next one instead.
+ */
+export function startRecycleBinPurgeJob(intervalMs: number = DEFAULT_JOB_INTERVAL_MS): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const run = await purgeRecycleBin();
+      if (run.listings > 0 || run.bodies > 0 || run.infrastructure > 0) {
+        console.log(
+          `[Recycle Bin] Purged ${run.listings} listings, ${run.bodies} bodies/equipment, ` +
+            `${run.infrastructure} charging infrastructure and ${run.images} images`
+        );
+      }
+    } catch (error) {
+      console.error("[Recycle Bin] Purge job failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -19,10 +19,15 @@ import type {
   EquipmentConfig,
   CompleteConfiguration,
   VehicleListing,
+  Dealer,
 } from "../supabase-types";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { ORG_ROLE_RANK, type OrgRole } from "@shared/permissions";
 import type { EnrichedVehicleData } from "../services/vehicle-data-enrichment";
 import { calculateCompatibility } from "../compatibility/calculator";
+import { findDuplicateListings, type DuplicateListingMatch } from "./duplicate-listings";
+import { recordPriceChange } from "./listing-price-history";
+import { recordRevision } from "./listing-revisions";
 
 /**
  * Get current authenticated user's dealer ID
@@ -69,7 +74,7 @@ async function getCurrentOrganizationId(supabase: SupabaseClient): Promise<numbe
 async function verifyUserPermission(
   supabase: SupabaseClient,
   organizationId: number,
-  requiredRole: 'owner' | 'admin' | 'member' | 'viewer' = 'member'
+  requiredRole: OrgRole = 'sales'
 ): Promise<boolean> {
   try {
     const { data: { user } } = await supabase.auth.getUser();
@@ -94,14 +99,7 @@ async function verifyUserPermission(
     }
 
     // Check role hierarchy
-    const roleHierarchy: Record<string, number> = { 
-      owner: 4, 
-      admin: 3, 
-      member: 2, 
-      viewer: 1 
-    };
-    
-    return roleHierarchy[data.role] >= roleHierarchy[requiredRole];
+    return ORG_ROLE_RANK[data.role as OrgRole] >= ORG_ROLE_RANK[requiredRole];
   } catch (err) {
     console.error('Error verifying user permission:', err);
     return false;
@@ -292,12 +290,23 @@ export interface ListingFormData {
   accidentHistory?: string;
 }
 
+export interface ListingCreationOptions {
+  /** Whether new and demo units may go live immediately (defaults to true) */
+  canPublish?: boolean;
+  /** Supabase user creating the listing, recorded in its price history */
+  createdBy?: string | null;
+  /** How the listing was created, for price history (defaults to "create") */
+  source?: "create" | "bulk";
+}
+
 export interface ListingCreationResult {
   success: boolean;
   listingId?: number;
   vehicleConfigId?: number;
   equipmentConfigId?: number | null;
   completeConfigurationId?: number;
+  /** Active listings this one appears to duplicate; the listing is still created */
+  duplicates?: DuplicateListingMatch[];
   errors?: string[];
   createdEntries?: {
     vehicle?: boolean;
@@ -552,6 +561,7 @@ export async function findOrCreateEquipment(
         upfitter_name: upfitterName,
         product_line: productLine || null,
       },
+      whereNull: ["deleted_at"],
       limit: 1,
     }
   );
@@ -897,18 +907,61 @@ export async function createCompleteConfiguration(
   return completeConfig.id;
 }
 
+/**
+ * Load the listing defaults a dealer configured on the Settings page
+ */
+async function getDealerListingDefaults(dealerId: number): Promise<{
+  priceType: "negotiable" | "fixed" | "call_for_price";
+  locationCity: string | null;
+  locationState: string | null;
+}> {
+  const dealers = await querySchemaTable<Dealer>(
+    "02a. Dealership",
+    "dealers",
+    {
+      where: { id: dealerId },
+      limit: 1,
+    }
+  );
+  const dealer = dealers[0];
+
+  let locationCity: string | null = null;
+  let locationState: string | null = null;
+  if (dealer?.default_listing_location_id) {
+    const locations = await querySchemaTable<{ city: string | null; state_province: string | null }>(
+      "02a. Dealership",
+      "dealer_locations",
+      {
+        where: { id: dealer.default_listing_location_id },
+        limit: 1,
+      }
+    );
+    locationCity = locations[0]?.city ?? null;
+    locationState = locations[0]?.state_province ?? null;
+  }
+
+  return {
+    priceType: dealer?.default_price_type || "negotiable",
+    locationCity,
+    locationState,
+  };
+}
+
 /**
  * Create dealer listing in Schema 02a
+ * Listings from members without the publish permission always start as drafts
  */
 export async function createDealerListing(
   supabase: SupabaseClient,
   dealerId: number,
   completeConfigId: number,
-  formData: ListingFormData
+  formData: ListingFormData,
+  options: ListingCreationOptions = {}
 ): Promise<number> {
   // Determine listing status based on condition
   let listingStatus: "draft" | "available" | "pending" | "sold" | "archived" = "draft";
-  if (formData.condition === "new" || formData.condition === "demo") {
+  const canPublish = options.canPublish ?? true;
+  if (canPublish && (formData.condition === "new" || formData.condition === "demo")) {
     listingStatus = "available";
   }
 
@@ -919,6 +972,10 @@ export async function createDealerListing(
         : (formData as any).keyHighlights)
     : null;
 
+  // Fall back to the dealer's default location and price type
+  const defaults = await getDealerListingDefaults(dealerId);
+  const useDefaultLocation = !formData.locationCity && !formData.locationState;
+
   const listing = await insertSchemaTable<VehicleListing>(
     "02a. Dealership",
     "vehicle_listings",
@@ -929,13 +986,15 @@ export async function createDealerListing(
       condition: formData.condition === "certified_pre_owned" ? "used" : formData.condition,
       mileage: formData.mileage || null,
       stock_number: formData.stockNumber || null,
-      location_city: formData.locationCity || null,
-      location_state: formData.locationState || null,
+      location_city: useDefaultLocation ? defaults.locationCity : formData.locationCity || null,
+      location_state: useDefaultLocation ? defaults.locationState : formData.locationState || null,
       description: formData.description || null,
-      status: listingStatus,
+      listing_status: listingStatus,
+      published_at: listingStatus === "available" ? new Date() : null,
+      last_refreshed_at: listingStatus === "available" ? new Date() : null,
       view_count: 0,
       // Additional listing fields
-      price_type: (formData as any).priceType || "negotiable",
+      price_type: (formData as any).priceType || defaults.priceType,
       paint_condition: (formData as any).paintCondition || null,
       interior_condition: (formData as any).interiorCondition || null,
       listing_title: (formData as any).listingTitle || null,
@@ -951,6 +1010,17 @@ export async function createDealerListing(
     }
   );
 
+  await recordPriceChange(listing.id, null, { askingPrice: listing.asking_price, specialPrice: null }, {
+    changedBy: options.createdBy ?? null,
+    source: options.source ?? "create",
+  });
+  await recordRevision("vehicle_listing", listing.id, {
+    action: "create",
+    before: null,
+    after: listing,
+    changedBy: options.createdBy ?? null,
+  });
+
   // Handle photos if provided
   if (formData.photos && formData.photos.length > 0) {
     // Insert listing images
@@ -980,7 +1050,8 @@ export async function createListingFromDealerInput(
   supabase: SupabaseClient,
   dealerId: number | null, // Can be null, will be fetched from auth if not provided
   formData: ListingFormData,
-  enrichedData?: EnrichedVehicleData
+  enrichedData?: EnrichedVehicleData,
+  options: ListingCreationOptions = {}
 ): Promise<ListingCreationResult> {
   const errors: string[] = [];
   const createdEntries = {
@@ -1101,12 +1172,31 @@ export async function createListingFromDealerInput(
       throw new Error('User organization not found');
     }
 
-    // Verify user has at least 'member' role in organization
-    const hasPermission = await verifyUserPermission(supabase, organizationId, 'member');
+    // Verify user has at least 'sales' role in organization
+    const hasPermission = await verifyUserPermission(supabase, organizationId, 'sales');
     if (!hasPermission) {
       throw new Error('Insufficient permissions to create listings');
     }
 
+    // Look for the same unit already listed, so the dealer can be warned
+    let duplicates: DuplicateListingMatch[] = [];
+    try {
+      duplicates = await findDuplicateListings(actualDealerId, {
+        vin: formData.vin,
+        year: formData.year,
+        make: formData.make,
+        model: formData.model,
+        stockNumber: formData.stockNumber,
+      });
+      if (duplicates.length > 0) {
+        console.warn(
+          `[Smart Routing] Listing for VIN ${formData.vin} duplicates listings ${duplicates.map((match) => match.listingId).join(", ")}`
+        );
+      }
+    } catch (error) {
+      console.warn("[Smart Routing] Duplicate check failed:", error);
+    }
+
     // Step 1: Find or create vehicle (pass enriched data if available)
     const vehicleConfigId = await findOrCreateVehicle(supabase, actualDealerId, formData, enrichedData);
     createdEntries.vehicleConfig = true;
@@ -1152,7 +1242,8 @@ export async function createListingFromDealerInput(
       supabase,
       actualDealerId,
       completeConfigId,
-      formData
+      formData,
+      options
     );
     createdEntries.listing = true;
 
@@ -1162,6 +1253,7 @@ export async function createListingFromDealerInput(
       vehicleConfigId,
       equipmentConfigId,
       completeConfigurationId: completeConfigId,
+      duplicates,
       createdEntries,
     };
   } catch (error) {
@@ -0,0 +1,476 @@
+/**
+ * Lead Pipeline
+ * Status transitions, assignment, notes and follow-up reminders for dealer
+ * leads. Every change is written to lead_activities for the lead timeline.
+ */
+
+import { hasPermission } from "@shared/permissions";
+import type { OrgMembership } from "../database/dealer-context";
+import {
+  callSchemaRPC,
+  insertSchemaTable,
+  querySchemaTable,
+  updateSchemaTable,
+} from "../supabase-db";
+import type { Lead, LeadActivity, LeadFollowUp, OrganizationUser } from "../supabase-types";
+
+export type LeadStatus = Lead["status"];
+export type MemberRole = OrganizationUser["role"];
+
+export const LEAD_STATUSES: LeadStatus[] = ["new", "contacted", "qualified", "converted", "closed"];
+
+/**
+ * Allowed moves between pipeline stages. Closed leads can be reopened.
+ */
+export const LEAD_STATUS_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  new: ["contacted", "qualified", "closed"],
+  contacted: ["qualified", "converted", "closed"],
+  qualified: ["contacted", "converted", "closed"],
+  converted: ["closed"],
+  closed: ["new"],
+};
+
+// Upper bound on open follow-ups returned for the due-today reminder
+const DUE_FOLLOW_UP_LIMIT = 200;
+
+/**
+ * The organization member working the inbox, as resolved by orgProcedure
+ */
+export type LeadActor = Pick<OrgMembership, "organizationId" | "userId" | "role">;
+
+export interface LeadMember {
+  userId: string;
+  role: MemberRole;
+  email: string | null;
+  name: string | null;
+}
+
+export interface LeadInboxFilters {
+  status?: LeadStatus;
+  /** A user ID, "me" or "unassigned" */
+  assignedTo?: string;
+  search?: string;
+  followUpDue?: boolean;
+  limit: number;
+  offset: number;
+}
+
+function assertCanWorkLeads(actor: LeadActor): void {
+  if (!hasPermission(actor.role, "leads.update")) {
+    throw new Error("Forbidden: Viewers cannot update leads");
+  }
+}
+
+async function getOrganizationLead(actor: LeadActor, leadId: number): Promise<Lead> {
+  const leads = await querySchemaTable<Lead>(
+    "02a. Dealership",
+    "leads",
+    {
+      where: { id: leadId, organization_id: actor.organizationId },
+      limit: 1,
+    }
+  );
+  if (leads.length === 0) {
+    throw new Error("Lead not found");
+  }
+  return leads[0];
+}
+
+async function recordActivity(
+  lead: Pick<Lead, "id" | "organization_id">,
+  actor: Pick<LeadActor, "userId">,
+  activity: Pick<LeadActivity, "activity_type"> & Partial<LeadActivity>
+): Promise<LeadActivity> {
+  const row = await insertSchemaTable<LeadActivity>(
+    "02a. Dealership",
+    "lead_activities",
+    {
+      lead_id: lead.id,
+      organization_id: lead.organization_id,
+      actor_user_id: actor.userId,
+      activity_type: activity.activity_type,
+      from_status: activity.from_status ?? null,
+      to_status: activity.to_status ?? null,
+      assigned_to: activity.assigned_to ?? null,
+      follow_up_id: activity.follow_up_id ?? null,
+      body: activity.body ?? null,
+    }
+  );
+
+  await updateSchemaTable(
+    "02a. Dealership",
+    "leads",
+    { last_activity_at: row.created_at, updated_at: new Date() },
+    { id: lead.id }
+  );
+
+  return row;
+}
+
+/**
+ * Record the initial timeline entry for a newly submitted lead
+ */
+export async function recordLeadCreated(lead: Pick<Lead, "id" | "organization_id">): Promise<void> {
+  await recordActivity(lead, { userId: null }, { activity_type: "created" });
+}
+
+/**
+ * Keep the lead's next_follow_up_at in sync with its earliest open reminder
+ */
+async function refreshNextFollowUp(leadId: number): Promise<Date | null> {
+  const followUps = await querySchemaTable<LeadFollowUp>(
+    "02a. Dealership",
+    "lead_follow_ups",
+    {
+      where: { lead_id: leadId },
+      orderBy: { column: "due_at", ascending: true },
+    }
+  );
+  const next = followUps.find((followUp) => !followUp.completed_at)?.due_at ?? null;
+
+  await updateSchemaTable(
+    "02a. Dealership",
+    "leads",
+    { next_follow_up_at: next },
+    { id: leadId }
+  );
+
+  return next;
+}
+
+/**
+ * Active organization members with names for assignment pickers
+ */
+export async function getOrganizationMembers(organizationId: number): Promise<LeadMember[]> {
+  const rows = (await callSchemaRPC("01. Organization", "get_organization_members", [organizationId])) as any[];
+  return rows.map((row) => ({
+    userId: row.user_id,
+    role: row.role,
+    email: row.email ?? null,
+    name: row.name ?? null,
+  }));
+}
+
+/**
+ * Leads for the inbox, newest first, with per-status counts
+ */
+export async function listLeads(actor: LeadActor, filters: LeadInboxFilters) {
+  const assignedTo = filters.assignedTo === "me" ? actor.userId : filters.assignedTo;
+  // "me" for an actor without a user ID matches nobody
+  if (filters.assignedTo === "me" && !assignedTo) {
+    return { leads: [] as Lead[], total: 0, counts: emptyStatusCounts() };
+  }
+
+  const unassigned = assignedTo === "unassigned";
+  const assignee = unassigned ? null : assignedTo ?? null;
+  const search = filters.search?.trim() || null;
+  const followUpDue = filters.followUpDue ?? false;
+
+  const [leads, countRows] = await Promise.all([
+    callSchemaRPC<Lead>("02a. Dealership", "list_organization_leads", [
+      actor.organizationId,
+      filters.status ?? null,
+      assignee,
+      unassigned,
+      search,
+      followUpDue,
+      filters.limit,
+      filters.offset,
+    ]) as Promise<Lead[]>,
+    // Counts ignore the status filter so the pipeline tabs always show totals
+    callSchemaRPC<{ status: LeadStatus; count: string | number }>("02a. Dealership", "count_organization_leads", [
+      actor.organizationId,
+      assignee,
+      unassigned,
+      search,
+      followUpDue,
+    ]) as Promise<Array<{ status: LeadStatus; count: string | number }>>,
+  ]);
+
+  const counts = emptyStatusCounts();
+  for (const row of countRows) {
+    counts[row.status] = Number(row.count);
+  }
+
+  return {
+    leads,
+    total: filters.status ? counts[filters.status] ?? 0 : Object.values(counts).reduce((sum, count) => sum + count, 0),
+    counts,
+  };
+}
+
+function emptyStatusCounts(): Record<LeadStatus, number> {
+  return Object.fromEntries(LEAD_STATUSES.map((status) => [status, 0])) as Record<LeadStatus, number>;
+}
+
+/**
+ * A lead with its timeline, follow-ups and allowed next statuses
+ */
+export async function getLeadDetail(actor: LeadActor, leadId: number) {
+  const lead = await getOrganizationLead(actor, leadId);
+
+  const [activities, followUps] = await Promise.all([
+    querySchemaTable<LeadActivity>(
+      "02a. Dealership",
+      "lead_activities",
+      {
+        where: { lead_id: lead.id },
+        orderBy: { column: "created_at", ascending: false },
+      }
+    ),
+    querySchemaTable<LeadFollowUp>(
+      "02a. Dealership",
+      "lead_follow_ups",
+      {
+        where: { lead_id: lead.id },
+        orderBy: { column: "due_at", ascending: true },
+      }
+    ),
+  ]);
+
+  return {
+    lead,
+    activities,
+    followUps,
+    allowedStatuses: LEAD_STATUS_TRANSITIONS[lead.status] ?? [],
+  };
+}
+
+/**
+ * Move a lead to another pipeline stage
+ */
+export async function changeLeadStatus(
+  actor: LeadActor,
+  leadId: number,
+  status: LeadStatus,
+  note?: string
+): Promise<Lead> {
+  assertCanWorkLeads(actor);
+  const lead = await getOrganizationLead(actor, leadId);
+
+  if (lead.status === status) {
+    return lead;
+  }
+  if (!LEAD_STATUS_TRANSITIONS[lead.status]?.includes(status)) {
+    throw new Error(`Cannot move a lead from ${lead.status} to ${status}`);
+  }
+
+  const now = new Date();
+  const updateData: Record<string, any> = {
+    status,
+    status_changed_at: now,
+    updated_at: now,
+  };
+  // Leaving "new" counts as the first response for analytics
+  if (lead.status === "new" && !lead.first_responded_at) {
+    updateData.first_responded_at = now;
+  }
+
+  const updated = await updateSchemaTable<Lead>("02a. Dealership", "leads", updateData, { id: lead.id });
+
+  await recordActivity(lead, actor, {
+    activity_type: "status_changed",
+    from_status: lead.status,
+    to_status: status,
+    body: note?.trim() || null,
+  });
+
+  return updated;
+}
+
+/**
+ * Check that a user can be given leads and follow-ups in the actor's organization
+ */
+async function assertAssignableMember(actor: LeadActor, userId: string): Promise<void> {
+  const members = await getOrganizationMembers(actor.organizationId);
+  const member = members.find((candidate) => candidate.userId === userId);
+  if (!member) {
+    throw new Error("Assignee is not a member of this organization");
+  }
+  // Viewers can read the inbox but cannot work or be assigned leads
+  if (!hasPermission(member.role, "leads.update")) {
+    throw new Error("Viewers cannot be assigned leads");
+  }
+}
+
+async function setLeadAssignee(actor: LeadActor, lead: Lead, assigneeId: string | null): Promise<Lead> {
+  const now = new Date();
+  const updated = await updateSchemaTable<Lead>(
+    "02a. Dealership",
+    "leads",
+    {
+      assigned_to: assigneeId,
+      assigned_at: assigneeId ? now : null,
+      updated_at: now,
+    },
+    { id: lead.id }
+  );
+
+  await recordActivity(lead, actor, {
+    activity_type: "assigned",
+    assigned_to: assigneeId,
+  });
+
+  return updated;
+}
+
+/**
+ * Assign a lead to an organization member, or clear the assignment with null
+ */
+export async function assignLead(actor: LeadActor, leadId: number, assigneeId: string | null): Promise<Lead> {
+  if (!hasPermission(actor.role, "leads.assign")) {
+    throw new Error("Forbidden: Only owners, admins and managers can reassign leads");
+  }
+  const lead = await getOrganizationLead(actor, leadId);
+
+  if (assigneeId) {
+    await assertAssignableMember(actor, assigneeId);
+  }
+
+  return await setLeadAssignee(actor, lead, assigneeId);
+}
+
+/**
+ * Take an unassigned lead, or release one assigned to the actor. Open to
+ * anyone who works leads; reassigning other members' leads needs assignLead.
+ */
+export async function claimLead(actor: LeadActor, leadId: number, claim: boolean): Promise<Lead> {
+  assertCanWorkLeads(actor);
+  if (!actor.userId) {
+    throw new Error("Forbidden: Only signed-in members can claim leads");
+  }
+  const lead = await getOrganizationLead(actor, leadId);
+
+  if (claim) {
+    if (lead.assigned_to === actor.userId) return lead;
+    if (lead.assigned_to) {
+      throw new Error("This lead is already assigned to another member");
+    }
+    return await setLeadAssignee(actor, lead, actor.userId);
+  }
+
+  if (!lead.assigned_to) return lead;
+  if (lead.assigned_to !== actor.userId) {
+    throw new Error("Forbidden: You can only release leads assigned to you");
+  }
+  return await setLeadAssignee(actor, lead, null);
+}
+
+/**
+ * Add a timestamped note to the lead timeline
+ */
+export async function addLeadNote(actor: LeadActor, leadId: number, body: string): Promise<LeadActivity> {
+  assertCanWorkLeads(actor);
+  const lead = await getOrganizationLead(actor, leadId);
+  return await recordActivity(lead, actor, { activity_type: "note", body: body.trim() });
+}
+
+/**
+ * Schedule a follow-up reminder, defaulting to the lead's assignee
+ */
+export async function scheduleFollowUp(
+  actor: LeadActor,
+  leadId: number,
+  input: { dueAt: Date; note?: string; assignedTo?: string | null }
+): Promise<LeadFollowUp> {
+  assertCanWorkLeads(actor);
+  const lead = await getOrganizationLead(actor, leadId);
+
+  const assignedTo = input.assignedTo ?? lead.assigned_to ?? actor.userId;
+  if (input.assignedTo && input.assignedTo !== actor.userId) {
+    // Same rule as lead assignment: only managers and up hand work to others
+    if (!hasPermission(actor.role, "leads.assign")) {
+      throw new Error("Forbidden: Only owners, admins and managers can assign follow-ups to other members");
+    }
+    await assertAssignableMember(actor, input.assignedTo);
+  }
+
+  const followUp = await insertSchemaTable<LeadFollowUp>(
+    "02a. Dealership",
+    "lead_follow_ups",
+    {
+      lead_id: lead.id,
+      organization_id: lead.organization_id,
+      assigned_to: assignedTo,
+      due_at: input.dueAt,
+      note: input.note?.trim() || null,
+      created_by: actor.userId,
+    }
+  );
+
+  await refreshNextFollowUp(lead.id);
+  await recordActivity(lead, actor, {
+    activity_type: "follow_up_scheduled",
+    follow_up_id: followUp.id,
+    assigned_to: followUp.assigned_to ?? null,
+    body: followUp.note ?? null,
+  });
+
+  return followUp;
+}
+
+/**
+ * Mark a follow-up reminder as done
+ */
+export async function completeFollowUp(actor: LeadActor, followUpId: number): Promise<LeadFollowUp> {
+  assertCanWorkLeads(actor);
+  const followUps = await querySchemaTable<LeadFollowUp>(
+    "02a. Dealership",
+    "lead_follow_ups",
+    {
+      where: { id: followUpId, organization_id: actor.organizationId },
+      limit: 1,
+    }
+  );
+  const followUp = followUps[0];
+  if (!followUp) {
+    throw new Error("Follow-up not found");
+  }
+  if (followUp.completed_at) {
+    return followUp;
+  }
+
+  const updated = await updateSchemaTable<LeadFollowUp>(
+    "02a. Dealership",
+    "lead_follow_ups",
+    { completed_at: new Date(), completed_by: actor.userId },
+    { id: followUp.id }
+  );
+
+  await refreshNextFollowUp(followUp.lead_id);
+  await recordActivity(
+    { id: followUp.lead_id, organization_id: followUp.organization_id },
+    actor,
+    { activity_type: "follow_up_completed", follow_up_id: followUp.id, body: followUp.note ?? null }
+  );
+
+  return updated;
+}
+
+/**
+ * Open follow-ups due by the end of today for the current user
+ */
+export async function getDueFollowUps(actor: LeadActor): Promise<LeadFollowUp[]> {
+  // Without a user ID nothing is assigned to the actor; an undefined filter
+  // would be dropped and match every follow-up in the organization
+  if (!actor.userId) {
+    return [];
+  }
+
+  const endOfDay = new Date();
+  endOfDay.setHours(23, 59, 59, 999);
+
+  const followUps = await querySchemaTable<LeadFollowUp>(
+    "02a. Dealership",
+    "lead_follow_ups",
+    {
+      where: { organization_id: actor.organizationId, assigned_to: actor.userId },
+      whereNull: ["completed_at"],
+      orderBy: { column: "due_at", ascending: true },
+      limit: DUE_FOLLOW_UP_LIMIT,
+    }
+  );
+
+  // Ordered by due date, so everything due today comes before the rest
+  return followUps.filter((followUp) => new Date(followUp.due_at).getTime() <= endOfDay.getTime());
+}
@@ -0,0 +1,76 @@
+/**
+ * User Notifications
+ * In-app notification inbox for signed-in users (saved-search alerts today).
+ * Rows are written by background jobs and read through the notifications router.
+ */
+
+import { insertSchemaTable, querySchemaTable, updateSchemaTable } from "../supabase-db";
+import type { UserNotification } from "../supabase-types";
+
+const INBOX_LIMIT = 50;
+
+export interface NewUserNotification {
+  type: string;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+  data?: Record<string, unknown>;
+}
+
+export async function createUserNotification(
+  userId: string,
+  notification: NewUserNotification
+): Promise<UserNotification> {
+  return insertSchemaTable<UserNotification>("public", "user_notifications", {
+    user_id: userId,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body ?? null,
+    link: notification.link ?? null,
+    data: notification.data ?? {},
+  });
+}
+
+/**
+ * Newest notifications first, with the unread total for the bell badge
+ */
+export async function listUserNotifications(userId: string, limit = INBOX_LIMIT) {
+  const [notifications, counts] = await Promise.all([
+    querySchemaTable<UserNotification>("public", "user_notifications", {
+      where: { user_id: userId },
+      orderBy: { column: "created_at", ascending: false },
+      limit,
+    }),
+    querySchemaTable<{ unread: number }>("public", "user_notifications", {
+      select: "count(*) FILTER (WHERE read_at IS NULL)::int AS unread",
+      where: { user_id: userId },
+    }),
+  ]);
+
+  return {
+    notifications: notifications.map((notification) => ({
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body ?? null,
+      link: notification.link ?? null,
+      data: notification.data ?? {},
+      readAt: notification.read_at ?? null,
+      createdAt: notification.created_at,
+    })),
+    unreadCount: counts[0]?.unread ?? 0,
+  };
+}
+
+/**
+ * Mark the given notifications read, or every notification when no IDs are passed
+ */
+export async function markNotificationsRead(userId: string, ids?: number[]): Promise<void> {
+  if (ids && ids.length === 0) return;
+  await updateSchemaTable(
+    "public",
+    "user_notifications",
+    { read_at: new Date() },
+    ids ? { user_id: userId, id: ids } : { user_id: userId }
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Geographic Search
+ * Resolves ZIP codes from the local zip_code_centroids table (or nearby
+ * dealer locations) and measures distances to dealer locations without
+ * calling a geocoding API
+ */
+
+import { callSchemaRPC } from "../supabase-db";
+
+export interface ZipCentroid {
+  zipCode: string;
+  latitude: number;
+  longitude: number;
+  city: string | null;
+  state: string | null;
+  // Estimated from nearby dealer locations or ZIPs rather than the ZIP itself
+  approximate: boolean;
+}
+
+// Used when a ZIP is given without a radius
+export const DEFAULT_RADIUS_MILES = 100;
+
+/**
+ * Look up a ZIP code centroid, falling back to an estimate from nearby
+ * dealer locations when the centroid table does not have it
+ * @returns null when nothing near the ZIP is known
+ */
+export async function resolveZipCode(zipCode: string): Promise<ZipCentroid | null> {
+  const rows = (await callSchemaRPC("public", "resolve_zip_centroid", [zipCode])) as Array<{
+    zip_code: string;
+    latitude: string | number;
+    longitude: string | number;
+    city: string | null;
+    state: string | null;
+    approximate: boolean;
+  }>;
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const row = rows[0];
+  return {
+    zipCode: row.zip_code,
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    city: row.city,
+    state: row.state,
+    approximate: row.approximate,
+  };
+}
+
+/**
+ * Distance in miles from a point to each dealer's nearest location,
+ * limited to dealers within the radius
+ */
+export async function getDealerDistances(
+  origin: { latitude: number; longitude: number },
+  radiusMiles: number
+): Promise<Map<number, number>> {
+  const rows = (await callSchemaRPC("02a. Dealership", "get_dealer_distances", [
+    origin.latitude,
+    origin.longitude,
+    radiusMiles,
+  ])) as Array<{ dealer_id: string | number; distance_miles: string | number }>;
+
+  return new Map(rows.map((row) => [Number(row.dealer_id), Number(row.distance_miles)]));
+}
+
+/**
+ * Round a distance for display, keeping one decimal under 10 miles
+ */
+export function roundMiles(miles: number | null): number | null {
+  if (miles === null || !Number.isFinite(miles)) return null;
+  return miles < 10 ? Math.round(miles * 10) / 10 : Math.round(miles);
+}
@@ -0,0 +1,415 @@
+/**
+ * Saved Search Alerts
+ * Background job that re-runs each saved search against listings published or
+ * updated since it last ran. A listing is a "new" match the first time it shows
+ * up after being published, and a "price_drop" when its price falls below the
+ * price the search last recorded for it. Matches become in-app notifications
+ * right away and are emailed as digests on the search's schedule.
+ */
+
+import { ENV } from "../../_core/env";
+import { isEmailConfigured, sendEmail } from "../../_core/email";
+import { createUserNotification } from "../notifications/user-notifications";
+import { insertSchemaTable, querySchemaTable, updateSchemaTable } from "../supabase-db";
+import type { SavedSearch, SavedSearchMatch } from "../supabase-types";
+import { parseStoredFilters, signUnsubscribeToken, toVehicleSearchFilters } from "./saved-searches";
+import { searchVehicleListings, type VehicleSearchHit, type VehicleSearchResponse } from "./vehicle-search";
+
+const DEFAULT_JOB_INTERVAL_MS = 15 * 60 * 1000;
+// Changed listings fetched per page; a search pages until it has seen them all
+const EVALUATION_PAGE_SIZE = 100;
+const PENDING_MATCH_PAGE_SIZE = 500;
+// Matches listed per search in a digest; the rest are behind "View all results"
+const DIGEST_MATCHES_PER_SEARCH = 25;
+const HOUR_MS = 60 * 60 * 1000;
+
+const DIGEST_INTERVAL_MS: Record<SavedSearch["alert_frequency"], number | null> = {
+  instant: 0,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+  none: null,
+};
+
+type AlertReason = "new" | "price_drop";
+
+interface SavedSearchAlert {
+  hit: VehicleSearchHit;
+  reason: AlertReason;
+  previousPrice: number | null;
+}
+
+interface ListingSummary {
+  id: number;
+  listing_title: string | null;
+}
+
+export interface SavedSearchAlertRun {
+  evaluated: number;
+  alerts: number;
+  emailsSent: number;
+}
+
+function formatPrice(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const amount = Number(value);
+  if (!Number.isFinite(amount)) return null;
+  return `$${amount.toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
+}
+
+function describeHit(hit: VehicleSearchHit): string {
+  return hit.title || [hit.year, hit.make, hit.model, hit.series].filter(Boolean).join(" ");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Price each listing had the last time this search saw it
+ */
+async function getLastSeenPrices(savedSearchId: number, listingIds: number[]): Promise<Map<number, number | null>> {
+  const rows = await querySchemaTable<SavedSearchMatch>("public", "saved_search_matches", {
+    select: "listing_id, price, matched_at",
+    where: { saved_search_id: savedSearchId, listing_id: listingIds },
+    orderBy: { column: "matched_at", ascending: true },
+  });
+  const prices = new Map<number, number | null>();
+  for (const row of rows) {
+    prices.set(Number(row.listing_id), row.price === null || row.price === undefined ? null : Number(row.price));
+  }
+  return prices;
+}
+
+/**
+ * Record one page of changed listings against a saved search
+ * @returns The new and price-drop alerts among them
+ */
+async function recordMatches(
+  search: SavedSearch,
+  hits: VehicleSearchHit[],
+  since: Date,
+  now: Date
+): Promise<SavedSearchAlert[]> {
+  if (hits.length === 0) return [];
+
+  const lastSeen = await getLastSeenPrices(search.id, hits.map((hit) => hit.id));
+  const alerts: SavedSearchAlert[] = [];
+
+  for (const hit of hits) {
+    const price = hit.salePrice;
+    let reason: SavedSearchMatch["reason"] | null = null;
+    let previousPrice: number | null = null;
+
+    if (!lastSeen.has(hit.id)) {
+      // Listings published before the search ran are recorded without an alert
+      const publishedAt = hit.publishedAt ? new Date(hit.publishedAt) : null;
+      reason = publishedAt && publishedAt > since ? "new" : "seen";
+    } else {
+      previousPrice = lastSeen.get(hit.id) ?? null;
+      if (price !== null && previousPrice !== null && price < previousPrice) {
+        reason = "price_drop";
+      } else if (price !== previousPrice) {
+        reason = "seen";
+      }
+    }
+
+    if (!reason) continue;
+
+    await insertSchemaTable("public", "saved_search_matches", {
+      saved_search_id: search.id,
+      listing_id: hit.id,
+      reason,
+      price,
+      previous_price: previousPrice,
+      matched_at: now,
+    });
+    if (reason !== "seen") {
+      alerts.push({ hit, reason, previousPrice });
+    }
+  }
+  return alerts;
+}
+
+/**
+ * Record matches for one saved search and raise its in-app notification
+ * @returns Number of new and price-drop alerts raised
+ */
+export async function evaluateSavedSearch(search: SavedSearch, now: Date = new Date()): Promise<number> {
+  const since = new Date(search.last_evaluated_at);
+  const filters = toVehicleSearchFilters(parseStoredFilters(search.filters));
+  const alerts: SavedSearchAlert[] = [];
+  let complete = true;
+
+  for (let offset = 0; ; offset += EVALUATION_PAGE_SIZE) {
+    let response: VehicleSearchResponse;
+    try {
+      response = await searchVehicleListings(filters, {
+        changedSince: since,
+        sort: "newest",
+        limit: EVALUATION_PAGE_SIZE,
+        offset,
+      });
+    } catch (error) {
+      console.warn(`[Saved Searches] Could not evaluate saved search ${search.id}:`, error);
+      complete = false;
+      break;
+    }
+    if (response.unknownZip) {
+      // Matches would not be limited by distance; try again once the ZIP can be located
+      complete = false;
+      break;
+    }
+
+    alerts.push(...(await recordMatches(search, response.results, since, now)));
+    if (response.results.length < EVALUATION_PAGE_SIZE || offset + EVALUATION_PAGE_SIZE >= response.total) {
+      break;
+    }
+  }
+
+  if (alerts.length > 0 && search.in_app_enabled) {
+    const drops = alerts.filter((alert) => alert.reason === "price_drop").length;
+    const newCount = alerts.length - drops;
+    const parts = [
+      newCount > 0 ? `${newCount} new ${newCount === 1 ? "match" : "matches"}` : null,
+      drops > 0 ? `${drops} price ${drops === 1 ? "drop" : "drops"}` : null,
+    ].filter(Boolean);
+
+    await createUserNotification(search.user_id, {
+      type: "saved_search_match",
+      title: `${parts.join(" and ")} for "${search.name}"`,
+      body: alerts
+        .slice(0, 3)
+        .map((alert) => describeHit(alert.hit))
+        .join(", "),
+      link: `/inventory?savedSearch=${search.id}`,
+      data: {
+        savedSearchId: search.id,
+        listingIds: alerts.map((alert) => alert.hit.id),
+      },
+    });
+  }
+
+  // An interrupted run starts over from the same point next time; matches it
+  // already recorded are not alerted twice
+  if (complete) {
+    await updateSchemaTable(
+      "public",
+      "saved_searches",
+      { last_evaluated_at: now },
+      { id: search.id }
+    );
+  }
+  return alerts.length;
+}
+
+function isDigestDue(search: SavedSearch, now: Date): boolean {
+  const interval = DIGEST_INTERVAL_MS[search.alert_frequency];
+  if (interval === null || !search.email_enabled || !search.email) return false;
+  const lastSent = new Date(search.last_emailed_at ?? search.created_at).getTime();
+  return now.getTime() - lastSent >= interval;
+}
+
+async function buildDigest(
+  searches: SavedSearch[],
+  matchesBySearch: Map<number, SavedSearchMatch[]>,
+  listings: Map<number, ListingSummary>
+) {
+  const sections: Array<{ html: string; text: string }> = [];
+
+  for (const search of searches) {
+    const matches = matchesBySearch.get(search.id) ?? [];
+    const token = await signUnsubscribeToken(search);
+    const unsubscribeUrl = `${ENV.appUrl}/saved-searches/unsubscribe?token=${encodeURIComponent(token)}`;
+    const searchUrl = `${ENV.appUrl}/inventory?savedSearch=${search.id}`;
+
+    const lines = matches.slice(0, DIGEST_MATCHES_PER_SEARCH).map((match) => {
+      const listing = listings.get(Number(match.listing_id));
+      const title = listing?.listing_title || `Listing #${match.listing_id}`;
+      const price = formatPrice(match.price);
+      const detail =
+        match.reason === "price_drop"
+          ? `Price drop: ${formatPrice(match.previous_price) ?? "?"} → ${price ?? "?"}`
+          : `New listing${price ? ` at ${price}` : ""}`;
+      return { title, detail, url: `${ENV.appUrl}/vehicle/${match.listing_id}` };
+    });
+
+    const more = matches.length - lines.length;
+
+    sections.push({
+      html: `
+        <h2 style="font-size:16px;margin:24px 0 8px">${escapeHtml(search.name)}</h2>
+        <ul style="padding-left:18px;margin:0">
+          ${lines
+            .map(
+              (line) =>
+                `<li style="margin-bottom:6px"><a href="${line.url}">${escapeHtml(line.title)}</a><br><span style="color:#555">${escapeHtml(line.detail)}</span></li>`
+            )
+            .join("")}
+        </ul>
+        ${more > 0 ? `<p style="margin:6px 0 0">…and ${more} more</p>` : ""}
+        <p style="font-size:12px;color:#777;margin:8px 0 0">
+          <a href="${searchUrl}">View all results</a> ·
+          <a href="${unsubscribeUrl}">Stop emails for this search</a>
+        </p>`,
+      text: [
+        search.name,
+        ...lines.map((line) => `- ${line.title} (${line.detail}) ${line.url}`),
+        ...(more > 0 ? [`...and ${more} more`] : []),
+        `View all results: ${searchUrl}`,
+        `Stop emails for this search: ${unsubscribeUrl}`,
+      ].join("\n"),
+    });
+  }
+
+  const total = Array.from(matchesBySearch.values()).reduce((sum, matches) => sum + matches.length, 0);
+  const subject =
+    searches.length === 1
+      ? `${total} ${total === 1 ? "update" : "updates"} for "${searches[0].name}"`
+      : `${total} updates for your saved searches`;
+
+  return {
+    subject,
+    html: `<div style="font-family:Arial,sans-serif;font-size:14px;color:#111">
+      <p>Here's what changed for your saved searches on CommercialX.</p>
+      ${sections.map((section) => section.html).join("")}
+      <p style="font-size:12px;color:#777;margin-top:24px">
+        Manage alerts at <a href="${ENV.appUrl}/saved-searches">${ENV.appUrl}/saved-searches</a>
+      </p>
+    </div>`,
+    text: [
+      "Here's what changed for your saved searches on CommercialX.",
+      ...sections.map((section) => section.text),
+      `Manage alerts: ${ENV.appUrl}/saved-searches`,
+    ].join("\n\n"),
+  };
+}
+
+/**
+ * Every new and price-drop match not yet emailed for the given searches,
+ * newest first. Nothing is marked emailed while paging, so offsets are stable.
+ */
+async function getPendingMatches(savedSearchIds: number[]): Promise<SavedSearchMatch[]> {
+  const pending: SavedSearchMatch[] = [];
+  for (let offset = 0; ; offset += PENDING_MATCH_PAGE_SIZE) {
+    const page = await querySchemaTable<SavedSearchMatch>("public", "saved_search_matches", {
+      where: { saved_search_id: savedSearchIds, reason: ["new", "price_drop"] },
+      whereNull: ["emailed_at"],
+      orderBy: { column: "id", ascending: false },
+      limit: PENDING_MATCH_PAGE_SIZE,
+      offset,
+    });
+    pending.push(...page);
+    if (page.length < PENDING_MATCH_PAGE_SIZE) return pending;
+  }
+}
+
+/**
+ * Email each user one digest covering every saved search that is due
+ * @returns Number of digests sent
+ */
+export async function sendDueDigests(searches: SavedSearch[], now: Date = new Date()): Promise<number> {
+  if (!isEmailConfigured() || !ENV.appUrl) return 0;
+
+  const due = searches.filter((search) => isDigestDue(search, now));
+  if (due.length === 0) return 0;
+
+  const pending = await getPendingMatches(due.map((search) => search.id));
+  if (pending.length === 0) return 0;
+
+  const matchesBySearch = new Map<number, SavedSearchMatch[]>();
+  for (const match of pending) {
+    const searchId = Number(match.saved_search_id);
+    matchesBySearch.set(searchId, [...(matchesBySearch.get(searchId) ?? []), match]);
+  }
+
+  const listingRows = await querySchemaTable<ListingSummary>("02a. Dealership", "vehicle_listings", {
+    select: "id, listing_title",
+    where: { id: Array.from(new Set(pending.map((match) => Number(match.listing_id)))) },
+  });
+  const listings = new Map(listingRows.map((row) => [Number(row.id), row]));
+
+  // One email per address, grouping that user's due searches
+  const byEmail = new Map<string, SavedSearch[]>();
+  for (const search of due) {
+    if (!matchesBySearch.has(search.id)) continue;
+    byEmail.set(search.email!, [...(byEmail.get(search.email!) ?? []), search]);
+  }
+
+  let sent = 0;
+  for (const [email, userSearches] of Array.from(byEmail.entries())) {
+    const userMatches = new Map(userSearches.map((search) => [search.id, matchesBySearch.get(search.id)!]));
+    const digest = await buildDigest(userSearches, userMatches, listings);
+    const headers =
+      userSearches.length === 1
+        ? {
+            "List-Unsubscribe": `<${ENV.appUrl}/saved-searches/unsubscribe?token=${encodeURIComponent(
+              await signUnsubscribeToken(userSearches[0])
+            )}>`,
+          }
+        : undefined;
+
+    const delivered = await sendEmail({ to: email, ...digest, headers });
+    if (!delivered) continue;
+
+    sent++;
+    const matchIds = Array.from(userMatches.values()).flat().map((match) => match.id);
+    await updateSchemaTable("public", "saved_search_matches", { emailed_at: now }, { id: matchIds });
+    await updateSchemaTable(
+      "public",
+      "saved_searches",
+      { last_emailed_at: now },
+      { id: userSearches.map((search) => search.id) }
+    );
+  }
+  return sent;
+}
+
+/**
+ * Evaluate every active saved search, then send whatever digests are due
+ */
+export async function runSavedSearchAlerts(now: Date = new Date()): Promise<SavedSearchAlertRun> {
+  const searches = (await querySchemaTable<SavedSearch>("public", "saved_searches", {
+    orderBy: { column: "id", ascending: true },
+  })).filter((search) => search.alert_frequency !== "none");
+
+  let alerts = 0;
+  for (const search of searches) {
+    alerts += await evaluateSavedSearch(search, now);
+  }
+
+  const emailsSent = await sendDueDigests(searches, now);
+  return { evaluated: searches.length, alerts, emailsSent };
+}
+
+/**
+ * Run the alert job on an interval for the life of the server process.
+ * Runs never overlap; a slow run delays the next one instead.
+ */
+export function startSavedSearchAlertJob(intervalMs: number = DEFAULT_JOB_INTERVAL_MS): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const run = await runSavedSearchAlerts();
+      if (run.alerts > 0 || run.emailsSent > 0) {
+        console.log(
+          `[Saved Searches] Evaluated ${run.evaluated} searches: ${run.alerts} alerts, ${run.emailsSent} digests sent`
+        );
+      }
+    } catch (error) {
+      console.error("[Saved Searches] Alert job failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,245 @@
+/**
+ * Saved Searches
+ * Buyers save an Inventory search (the client's SearchFilters object) and pick
+ * how they want to hear about new matches. Matching happens in
+ * saved-search-alerts.ts; email digests carry a signed unsubscribe link.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { SignJWT, jwtVerify } from "jose";
+import { ENV } from "../../_core/env";
+import {
+  deleteSchemaTable,
+  insertSchemaTable,
+  querySchemaTable,
+  updateSchemaTable,
+} from "../supabase-db";
+import type { SavedSearch } from "../supabase-types";
+import {
+  savedSearchFiltersSchema,
+  type SavedSearchFilters,
+  type SavedSearchInput,
+  type SavedSearchUpdate,
+} from "../validation/saved-search-schema";
+import type { VehicleSearchFilters } from "../validation/vehicle-search-schema";
+
+// Keeps one account from turning the alert job into a crawler
+const MAX_SAVED_SEARCHES_PER_USER = 25;
+const UNSUBSCRIBE_AUDIENCE = "saved-search-unsubscribe";
+
+interface UnsubscribeTokenPayload {
+  savedSearchId: number;
+  userId: string;
+}
+
+export interface SavedSearchOwner {
+  id: string;
+  email?: string | null;
+}
+
+export interface SavedSearchSummary {
+  id: number;
+  name: string;
+  filters: SavedSearchFilters;
+  alertFrequency: SavedSearch["alert_frequency"];
+  emailEnabled: boolean;
+  inAppEnabled: boolean;
+  lastEmailedAt: Date | null;
+  createdAt: Date;
+}
+
+function getUnsubscribeSecret() {
+  return new TextEncoder().encode(ENV.cookieSecret);
+}
+
+/**
+ * Stored filters predate any later schema changes; drop what no longer parses
+ */
+export function parseStoredFilters(filters: unknown): SavedSearchFilters {
+  const raw = typeof filters === "string" ? JSON.parse(filters) : filters;
+  const parsed = savedSearchFiltersSchema.safeParse(raw ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
+export function toSummary(search: SavedSearch): SavedSearchSummary {
+  return {
+    id: search.id,
+    name: search.name,
+    filters: parseStoredFilters(search.filters),
+    alertFrequency: search.alert_frequency,
+    emailEnabled: search.email_enabled,
+    inAppEnabled: search.in_app_enabled,
+    lastEmailedAt: search.last_emailed_at ?? null,
+    createdAt: search.created_at,
+  };
+}
+
+/**
+ * Translate the client's SearchFilters into the server-side search filters.
+ * Features and sort order only affect how results are shown, not what matches.
+ */
+export function toVehicleSearchFilters(filters: SavedSearchFilters): VehicleSearchFilters {
+  const location = filters.locations?.find((entry) => entry.zip);
+  return {
+    query: filters.query,
+    makes: filters.makes,
+    fuelTypes: filters.fuelTypes,
+    bodyStyles: filters.bodyStyles,
+    gvwrClasses: filters.gvwrClasses,
+    equipmentTypes: filters.equipmentTypes,
+    conditions: filters.conditions,
+    minYear: filters.years?.[0],
+    maxYear: filters.years?.[1],
+    minPrice: filters.priceRange?.[0],
+    maxPrice: filters.priceRange?.[1],
+    minMileage: filters.mileageRange?.[0],
+    maxMileage: filters.mileageRange?.[1],
+    nearZip: location?.zip,
+    radiusMiles: location?.radiusMiles,
+  };
+}
+
+async function getOwnedSearch(userId: string, savedSearchId: number): Promise<SavedSearch> {
+  const [search] = await querySchemaTable<SavedSearch>("public", "saved_searches", {
+    where: { id: savedSearchId, user_id: userId },
+    limit: 1,
+  });
+  if (!search) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Saved search not found" });
+  }
+  return search;
+}
+
+export async function listSavedSearches(userId: string): Promise<SavedSearchSummary[]> {
+  const searches = await querySchemaTable<SavedSearch>("public", "saved_searches", {
+    where: { user_id: userId },
+    orderBy: { column: "created_at", ascending: false },
+  });
+  return searches.map(toSummary);
+}
+
+export async function getSavedSearch(userId: string, savedSearchId: number): Promise<SavedSearchSummary> {
+  return toSummary(await getOwnedSearch(userId, savedSearchId));
+}
+
+/**
+ * Alerts only cover listings published or changed after the search is saved
+ */
+export async function createSavedSearch(
+  owner: SavedSearchOwner,
+  input: SavedSearchInput
+): Promise<SavedSearchSummary> {
+  const existing = await querySchemaTable<{ id: number }>("public", "saved_searches", {
+    select: "id",
+    where: { user_id: owner.id },
+  });
+  if (existing.length >= MAX_SAVED_SEARCHES_PER_USER) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `You can save up to ${MAX_SAVED_SEARCHES_PER_USER} searches`,
+    });
+  }
+
+  const search = await insertSchemaTable<SavedSearch>("public", "saved_searches", {
+    user_id: owner.id,
+    email: owner.email ?? null,
+    name: input.name,
+    filters: input.filters,
+    alert_frequency: input.alertFrequency,
+    email_enabled: input.emailEnabled,
+    in_app_enabled: input.inAppEnabled,
+    last_evaluated_at: new Date(),
+  });
+  return toSummary(search);
+}
+
+export async function updateSavedSearch(
+  owner: SavedSearchOwner,
+  savedSearchId: number,
+  input: SavedSearchUpdate
+): Promise<SavedSearchSummary> {
+  const current = await getOwnedSearch(owner.id, savedSearchId);
+  const data: Record<string, unknown> = { updated_at: new Date() };
+
+  if (input.name !== undefined) data.name = input.name;
+  if (input.emailEnabled !== undefined) data.email_enabled = input.emailEnabled;
+  if (input.inAppEnabled !== undefined) data.in_app_enabled = input.inAppEnabled;
+  if (input.alertFrequency !== undefined) data.alert_frequency = input.alertFrequency;
+  if (owner.email) data.email = owner.email;
+
+  // New filters, or alerts turned back on, start from now rather than
+  // replaying every listing that changed in the meantime
+  const resumed = current.alert_frequency === "none" && input.alertFrequency && input.alertFrequency !== "none";
+  if (input.filters !== undefined) data.filters = input.filters;
+  if (input.filters !== undefined || resumed) data.last_evaluated_at = new Date();
+
+  const search = await updateSchemaTable<SavedSearch>("public", "saved_searches", data, {
+    id: savedSearchId,
+    user_id: owner.id,
+  });
+  return toSummary(search);
+}
+
+export async function deleteSavedSearch(userId: string, savedSearchId: number): Promise<void> {
+  await getOwnedSearch(userId, savedSearchId);
+  await deleteSchemaTable("public", "saved_searches", { id: savedSearchId, user_id: userId });
+}
+
+/**
+ * Unsubscribe links do not expire; deleting the search is what disables them
+ */
+export async function signUnsubscribeToken(search: Pick<SavedSearch, "id" | "user_id">): Promise<string> {
+  return new SignJWT({ savedSearchId: search.id, userId: search.user_id })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setAudience(UNSUBSCRIBE_AUDIENCE)
+    .sign(getUnsubscribeSecret());
+}
+
+/**
+ * Returns null for tokens that are malformed or tampered with
+ */
+async function verifyUnsubscribeToken(token: string): Promise<UnsubscribeTokenPayload | null> {
+  try {
+    const { payload } = await jwtVerify(token, getUnsubscribeSecret(), {
+      algorithms: ["HS256"],
+      audience: UNSUBSCRIBE_AUDIENCE,
+    });
+    const { savedSearchId, userId } = payload as Record<string, unknown>;
+    if (typeof savedSearchId !== "number" || typeof userId !== "string") {
+      return null;
+    }
+    return { savedSearchId, userId };
+  } catch (error) {
+    console.warn("[Saved Searches] Unsubscribe token verification failed", String(error));
+    return null;
+  }
+}
+
+/**
+ * Turn off email for one saved search from a digest link (no sign-in required).
+ * In-app alerts keep working.
+ */
+export async function unsubscribeSavedSearch(token: string): Promise<{ name: string }> {
+  const payload = await verifyUnsubscribeToken(token);
+  if (!payload) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "This unsubscribe link is invalid" });
+  }
+
+  const [search] = await querySchemaTable<SavedSearch>("public", "saved_searches", {
+    where: { id: payload.savedSearchId, user_id: payload.userId },
+    limit: 1,
+  });
+  if (!search) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "This saved search no longer exists" });
+  }
+
+  if (search.email_enabled) {
+    await updateSchemaTable(
+      "public",
+      "saved_searches",
+      { email_enabled: false, updated_at: new Date() },
+      { id: search.id }
+    );
+  }
+  return { name: search.name };
+}
@@ -0,0 +1,251 @@
+/**
+ * Vehicle Search
+ * Faceted search over published listings for the public Inventory page.
+ * Filtering, paging and facet counts all happen in search_vehicle_listings
+ * so counts cover every match, not just the loaded page.
+ */
+
+import { callSchemaRPC } from "../supabase-db";
+import { DEFAULT_RADIUS_MILES, resolveZipCode, roundMiles } from "./geo";
+import type { VehicleSearchFilters, VehicleSearchSort } from "../validation/vehicle-search-schema";
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+// Multi-select facets are counted without their own selection, so the
+// other values of a dimension stay visible once one is picked
+export interface VehicleSearchFacets {
+  make: FacetBucket[];
+  year: FacetBucket[];
+  fuelType: FacetBucket[];
+  bodyStyle: FacetBucket[];
+  gvwrClass: FacetBucket[];
+  equipmentType: FacetBucket[];
+  condition: FacetBucket[];
+}
+
+export interface VehicleSearchHit {
+  id: number;
+  vin: string | null;
+  stockNumber: string | null;
+  title: string | null;
+  status: string;
+  condition: string;
+  mileage: number | null;
+  year: number;
+  make: string;
+  model: string;
+  series: string | null;
+  fuelType: string | null;
+  bodyType: string | null;
+  gvwrLbs: number | null;
+  gvwrClass: string | null;
+  equipmentType: string | null;
+  salePrice: number | null;
+  askingPrice: number | null;
+  specialPrice: number | null;
+  // Set when the price was lowered in the last 30 days
+  previousPrice: number | null;
+  priceDroppedAt: string | null;
+  locationCity: string | null;
+  locationState: string | null;
+  featuredImage: string | null;
+  isFeatured: boolean;
+  viewCount: number;
+  createdAt: string;
+  publishedAt: string | null;
+  updatedAt: string | null;
+  // Only set for searches near a ZIP code
+  distanceMiles: number | null;
+}
+
+export interface VehicleSearchResponse {
+  total: number;
+  results: VehicleSearchHit[];
+  facets: VehicleSearchFacets;
+  // The ZIP could not be located, so results are not limited by distance
+  unknownZip: boolean;
+}
+
+export interface VehicleSearchOptions {
+  sort?: VehicleSearchSort;
+  limit?: number;
+  offset?: number;
+  // Listing status to search; the public procedures never override this
+  status?: string;
+  // Only listings published or updated after this time (saved-search alerts)
+  changedSince?: Date;
+}
+
+// bigint and numeric columns arrive as strings inside the jsonb result
+type NumericValue = number | string;
+
+/**
+ * A listing row from search_vehicle_listings (the page CTE as jsonb)
+ */
+interface SearchListingRow {
+  id: NumericValue;
+  vin: string | null;
+  stock_number: string | null;
+  listing_title: string | null;
+  status: string;
+  condition: string;
+  mileage: NumericValue | null;
+  price: NumericValue | null;
+  asking_price: NumericValue | null;
+  special_price: NumericValue | null;
+  previous_price: NumericValue | null;
+  price_dropped_at: string | null;
+  location_city: string | null;
+  location_state: string | null;
+  primary_image_url: string | null;
+  is_featured: boolean | null;
+  view_count: NumericValue | null;
+  created_at: string;
+  published_at: string | null;
+  updated_at: string | null;
+  year: NumericValue;
+  make: string;
+  model: string;
+  series: string | null;
+  fuel_type: string | null;
+  body_style: string | null;
+  gvwr_lbs: NumericValue | null;
+  gvwr_class: string | null;
+  equipment_type: string | null;
+  distance_miles: NumericValue | null;
+}
+
+interface SearchFacetRow {
+  value: string | number;
+  count: NumericValue;
+}
+
+/**
+ * The jsonb object search_vehicle_listings returns
+ */
+interface SearchVehicleListingsResult {
+  total: NumericValue;
+  results: SearchListingRow[] | null;
+  facets: Partial<Record<keyof VehicleSearchFacets, SearchFacetRow[] | null>> | null;
+}
+
+const EMPTY_FACETS: VehicleSearchFacets = {
+  make: [],
+  year: [],
+  fuelType: [],
+  bodyStyle: [],
+  gvwrClass: [],
+  equipmentType: [],
+  condition: [],
+};
+
+/**
+ * postgres returns bigint and numeric values as strings inside jsonb aggregates too
+ */
+function toNullableNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function mapBuckets(buckets: SearchFacetRow[] | null | undefined): FacetBucket[] {
+  if (!Array.isArray(buckets)) return [];
+  return buckets.map((bucket) => ({
+    value: String(bucket.value),
+    count: toNullableNumber(bucket.count) ?? 0,
+  }));
+}
+
+function mapHit(row: SearchListingRow): VehicleSearchHit {
+  return {
+    id: Number(row.id),
+    vin: row.vin ?? null,
+    stockNumber: row.stock_number ?? null,
+    title: row.listing_title ?? null,
+    status: row.status,
+    condition: row.condition,
+    mileage: toNullableNumber(row.mileage),
+    year: Number(row.year),
+    make: row.make,
+    model: row.model,
+    series: row.series ?? null,
+    fuelType: row.fuel_type ?? null,
+    bodyType: row.body_style ?? null,
+    gvwrLbs: toNullableNumber(row.gvwr_lbs),
+    gvwrClass: row.gvwr_class ?? null,
+    equipmentType: row.equipment_type ?? null,
+    salePrice: toNullableNumber(row.price),
+    askingPrice: toNullableNumber(row.asking_price),
+    specialPrice: toNullableNumber(row.special_price),
+    previousPrice: toNullableNumber(row.previous_price),
+    priceDroppedAt: row.price_dropped_at ?? null,
+    locationCity: row.location_city ?? null,
+    locationState: row.location_state ?? null,
+    featuredImage: row.primary_image_url ?? null,
+    isFeatured: row.is_featured === true,
+    viewCount: toNullableNumber(row.view_count) ?? 0,
+    createdAt: row.created_at,
+    publishedAt: row.published_at ?? null,
+    updatedAt: row.updated_at ?? null,
+    distanceMiles: roundMiles(toNullableNumber(row.distance_miles)),
+  };
+}
+
+/**
+ * Search listings with every filter applied in the database. A nearZip
+ * that cannot be located is searched without a radius and reported with
+ * unknownZip instead of failing.
+ */
+export async function searchVehicleListings(
+  filters: VehicleSearchFilters,
+  options: VehicleSearchOptions = {}
+): Promise<VehicleSearchResponse> {
+  const { nearZip, radiusMiles, ...rest } = filters;
+  const origin = nearZip ? await resolveZipCode(nearZip) : null;
+
+  const payload = {
+    ...rest,
+    query: filters.query || undefined,
+    nearLatitude: origin?.latitude,
+    nearLongitude: origin?.longitude,
+    radiusMiles: origin ? radiusMiles ?? DEFAULT_RADIUS_MILES : undefined,
+    status: options.status,
+    changedSince: options.changedSince?.toISOString(),
+  };
+  const unknownZip = !!nearZip && !origin;
+  // Distance ordering needs an origin; fall back to the default order without one
+  const sort = options.sort === "distance" && !origin ? "newest" : options.sort ?? "newest";
+
+  const result = (await callSchemaRPC(
+    "02a. Dealership",
+    "search_vehicle_listings",
+    [JSON.stringify(payload), sort, options.limit ?? 24, options.offset ?? 0],
+    false
+  )) as SearchVehicleListingsResult | string | null;
+
+  if (!result) {
+    return { total: 0, results: [], facets: { ...EMPTY_FACETS }, unknownZip };
+  }
+
+  // Older postgres.js configurations hand jsonb back as text
+  const data: SearchVehicleListingsResult = typeof result === "string" ? JSON.parse(result) : result;
+  const facets = data.facets ?? {};
+
+  return {
+    total: toNullableNumber(data.total) ?? 0,
+    results: Array.isArray(data.results) ? data.results.map(mapHit) : [],
+    facets: {
+      make: mapBuckets(facets.make),
+      year: mapBuckets(facets.year),
+      fuelType: mapBuckets(facets.fuelType),
+      bodyStyle: mapBuckets(facets.bodyStyle),
+      gvwrClass: mapBuckets(facets.gvwrClass),
+      equipmentType: mapBuckets(facets.equipmentType),
+      condition: mapBuckets(facets.condition),
+    },
+    unknownZip,
+  };
+}
@@ -4,9 +4,9 @@
  * https://www.fueleconomy.gov/ws/rest/
  */
 
-import axios from 'axios';
-
-const EPA_BASE_URL = 'https://www.fueleconomy.gov/ws/rest';
+import { apiCache, CACHE_KEYS } from '../utils/api-cache';
+import { numbersMatch, stringsMatch } from '../fuzzy-matching/config';
+import { upstreamRequest } from './upstream-client';
 
 export interface EPAVehicleData {
   // Fuel Economy
@@ -48,43 +48,82 @@ interface EPAMenuOption {
 }
 
 /**
- * Search for EPA vehicle ID by year, make, model
- * Returns array of possible matches
+ * What the decoded VIN says about the powertrain, used to pick the EPA
+ * configuration for a year/make/model (normalized NHTSA values)
  */
-export async function findEPAVehicleId(
-  year: number,
-  make: string,
-  model: string
-): Promise<number | null> {
-  try {
-    // Step 1: Get menu options for this year/make/model
-    const optionsResponse = await axios.get<{ menuItem: EPAMenuOption[] }>(
-      `${EPA_BASE_URL}/vehicle/menu/options`,
-      {
-        params: { year, make, model },
-        timeout: 10000,
-      }
-    );
-    
-    if (!optionsResponse.data?.menuItem || optionsResponse.data.menuItem.length === 0) {
-      console.log('No EPA data found for', year, make, model);
-      return null;
-    }
-    
-    // Return the first match (most common configuration)
-    const firstOption = optionsResponse.data.menuItem[0];
-    const epaId = parseInt(firstOption.value);
-    
-    if (isNaN(epaId)) {
-      return null;
-    }
-    
-    return epaId;
-    
-  } catch (error: any) {
-    console.error('EPA vehicle ID lookup error:', error);
-    return null;
-  }
+export interface EPAMatchCriteria {
+  displacementL: number | null;
+  cylinders: number | null;
+  driveType: string | null;           // RWD, FWD, AWD, 4WD
+  transmissionStyle: string | null;   // Automatic, Manual, CVT
+  transmissionSpeeds: number | null;
+  fuelType: string | null;            // gasoline, diesel, ...
+}
+
+/**
+ * One EPA configuration for a year/make/model
+ */
+export interface EPAVehicleOption {
+  /** EPA's menu label, e.g. "Auto (S10), 6 cyl, 2.7 L, Turbo" */
+  description: string;
+  data: EPAVehicleData;
+}
+
+export type EPAMatchConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * An EPA configuration scored against the decoded VIN
+ */
+export interface EPAOptionMatch {
+  epaId: number;
+  description: string;
+  /** 0-100, share of the known powertrain specs this configuration matches */
+  score: number;
+  mpgCity: number | null;
+  mpgHighway: number | null;
+  mpgCombined: number | null;
+  mpge: number | null;
+  engineDescription: string | null;
+  transmissionDescription: string | null;
+  driveType: string | null;
+  displacementL: number | null;
+  cylinders: number | null;
+}
+
+export interface EPAVehicleMatch {
+  data: EPAVehicleData;
+  confidence: EPAMatchConfidence;
+  /** 'dealer' when the configuration was picked by hand rather than by score */
+  selectedBy: 'score' | 'dealer';
+  /** Every configuration EPA lists, best match first */
+  options: EPAOptionMatch[];
+}
+
+// Upper bound on configurations fetched per year/make/model
+const MAX_EPA_OPTIONS = 15;
+
+// Relative weight of each spec in a configuration's score
+const MATCH_WEIGHTS = {
+  displacement: 0.3,
+  cylinders: 0.2,
+  drive: 0.2,
+  transmission: 0.15,
+  fuel: 0.15,
+};
+
+// EPA rounds displacement to one decimal place, NHTSA sometimes doesn't
+const DISPLACEMENT_TOLERANCE_L = 0.1;
+
+/**
+ * EPA menu options (configurations) for a year/make/model
+ */
+async function getEPAMenuOptions(year: number, make: string, model: string): Promise<EPAMenuOption[]> {
+  const options = await upstreamRequest<{ menuItem: EPAMenuOption[] | EPAMenuOption } | null>('epa', {
+    path: '/vehicle/menu/options',
+    params: { year, make, model },
+  });
+  // A single option comes back as an object rather than a one-item array
+  return options?.menuItem ? ([] as EPAMenuOption[]).concat(options.menuItem) : [];
 }
 
 /**
@@ -92,12 +131,10 @@ export async function findEPAVehicleId(
  */
 export async function getEPAVehicleData(epaId: number): Promise<EPAVehicleData | null> {
   try {
-    const response = await axios.get(
-      `${EPA_BASE_URL}/vehicle/${epaId}`,
-      { timeout: 10000 }
-    );
-    
-    const data = response.data;
+    const data = await upstreamRequest<any>('epa', { path: `/vehicle/${epaId}` });
+    if (!data) {
+      return null;
+    }
     
     return {
       // Fuel Economy
@@ -140,28 +177,192 @@ export async function getEPAVehicleData(epaId: number): Promise<EPAVehicleData |
 }
 
 /**
- * Main function: Get EPA data for a vehicle
- * Combines ID lookup + data fetch
+ * Every EPA configuration for a year/make/model, with its vehicle data
  */
-export async function getEPADataForVehicle(
+export async function getEPAVehicleOptions(
   year: number,
   make: string,
   model: string
-): Promise<EPAVehicleData | null> {
+): Promise<EPAVehicleOption[]> {
+  const cacheKey = CACHE_KEYS.epa(year, make, model);
+  const cached = await apiCache.get<EPAVehicleOption[]>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
   try {
-    // Find EPA ID
-    const epaId = await findEPAVehicleId(year, make, model);
-    if (!epaId) {
-      return null;
+    const menuItems = await getEPAMenuOptions(year, make, model);
+    if (menuItems.length === 0) {
+      console.log('No EPA data found for', year, make, model);
+      return [];
     }
-    
-    // Fetch detailed data
-    return await getEPAVehicleData(epaId);
-    
+
+    const options: EPAVehicleOption[] = [];
+    const fetched = await Promise.all(
+      menuItems.slice(0, MAX_EPA_OPTIONS).map(async (item) => {
+        const epaId = parseInt(item.value);
+        return isNaN(epaId) ? null : { description: item.text, data: await getEPAVehicleData(epaId) };
+      })
+    );
+    for (const option of fetched) {
+      if (option?.data) {
+        options.push({ description: option.description, data: option.data });
+      }
+    }
+
+    if (options.length > 0) {
+      // Only found vehicles are cached; an empty list may be a transient upstream error
+      await apiCache.set(cacheKey, options, 30 * 24 * 60); // 30 days
+    }
+    return options;
+
   } catch (error: any) {
     console.error('EPA data retrieval error:', error);
+    return [];
+  }
+}
+
+/**
+ * Automatic, manual or CVT, from either an NHTSA transmission style or an
+ * EPA description such as "Automatic (S10)", "Manual 6-spd" or "Automatic (AV-S7)"
+ */
+function transmissionKind(text: string | null | undefined): 'automatic' | 'manual' | 'cvt' | null {
+  if (!text) return null;
+  if (/cvt|continuously|variable|\(AV/i.test(text)) return 'cvt';
+  if (/manual|standard/i.test(text) && !/automated/i.test(text)) return 'manual';
+  if (/auto|dual-clutch|dct/i.test(text)) return 'automatic';
+  return null;
+}
+
+function transmissionSpeeds(epaTransmission: string | null): number | null {
+  const speeds = epaTransmission?.match(/(\d+)(?:-spd|\))/i);
+  return speeds ? parseInt(speeds[1]) : null;
+}
+
+/**
+ * 1 for the same drive, 0.5 for AWD against 4WD (EPA and NHTSA don't always
+ * agree on which a truck is), 0 otherwise
+ */
+function driveTypeMatch(epaDrive: string | null, nhtsaDrive: string): number {
+  const drive = normalizeEPADriveType(epaDrive);
+  if (!drive) return 0;
+
+  const fourWheel = ['AWD', '4WD'];
+  if (drive === nhtsaDrive || (epaDrive === '4-Wheel or All-Wheel Drive' && fourWheel.includes(nhtsaDrive))) {
+    return 1;
+  }
+  return fourWheel.includes(drive) && fourWheel.includes(nhtsaDrive) ? 0.5 : 0;
+}
+
+/**
+ * Score an EPA configuration against the decoded VIN, 0-1. Only specs the
+ * VIN decode actually provided count, so a sparse decode isn't penalized.
+ */
+export function scoreEPAOption(option: EPAVehicleData, criteria: EPAMatchCriteria): number {
+  let matched = 0;
+  let possible = 0;
+
+  if (criteria.displacementL) {
+    possible += MATCH_WEIGHTS.displacement;
+    if (numbersMatch(option.displacementL, criteria.displacementL, DISPLACEMENT_TOLERANCE_L)) {
+      matched += MATCH_WEIGHTS.displacement;
+    }
+  }
+
+  if (criteria.cylinders) {
+    possible += MATCH_WEIGHTS.cylinders;
+    if (numbersMatch(option.cylinders, criteria.cylinders, 0)) {
+      matched += MATCH_WEIGHTS.cylinders;
+    }
+  }
+
+  if (criteria.driveType) {
+    possible += MATCH_WEIGHTS.drive;
+    matched += MATCH_WEIGHTS.drive * driveTypeMatch(option.driveType, criteria.driveType);
+  }
+
+  const nhtsaKind = transmissionKind(criteria.transmissionStyle);
+  if (nhtsaKind) {
+    possible += MATCH_WEIGHTS.transmission;
+    const kindMatches = transmissionKind(option.transmissionDescription) === nhtsaKind;
+    if (criteria.transmissionSpeeds) {
+      const speedsMatch = numbersMatch(transmissionSpeeds(option.transmissionDescription), criteria.transmissionSpeeds, 0);
+      matched += MATCH_WEIGHTS.transmission * ((kindMatches ? 0.5 : 0) + (speedsMatch ? 0.5 : 0));
+    } else if (kindMatches) {
+      matched += MATCH_WEIGHTS.transmission;
+    }
+  }
+
+  if (criteria.fuelType) {
+    possible += MATCH_WEIGHTS.fuel;
+    // fuelType1 is the primary fuel; fuelType reads e.g. "Gasoline or E85" for flex-fuel
+    if (stringsMatch(normalizeEPAFuelType(option.fuelType1 || option.fuelType), criteria.fuelType)) {
+      matched += MATCH_WEIGHTS.fuel;
+    }
+  }
+
+  return possible > 0 ? matched / possible : 0;
+}
+
+function matchConfidence(scores: number[], hasCriteria: boolean): EPAMatchConfidence {
+  // EPA lists a single configuration: nothing to confuse it with
+  if (scores.length === 1) return 'high';
+  if (!hasCriteria) return 'low';
+
+  const [best, runnerUp = 0] = scores;
+  if (best >= 0.85 && best - runnerUp >= 0.1) return 'high';
+  if (best >= 0.6) return 'medium';
+  return 'low';
+}
+
+/**
+ * Main function: Get EPA data for a vehicle
+ * Scores every EPA configuration for the year/make/model against the decoded
+ * powertrain and returns the best one with the alternatives. Pass `epaId` to
+ * use a configuration the dealer picked instead.
+ */
+export async function matchEPAVehicle(
+  year: number,
+  make: string,
+  model: string,
+  criteria: EPAMatchCriteria,
+  epaId?: number
+): Promise<EPAVehicleMatch | null> {
+  const options = await getEPAVehicleOptions(year, make, model);
+  if (options.length === 0) {
     return null;
   }
+
+  // Stable sort: ties keep EPA's order, which lists the most common configuration first
+  const scored = options
+    .map((option) => ({ option, score: scoreEPAOption(option.data, criteria) }))
+    .sort((a, b) => b.score - a.score);
+
+  const hasCriteria = Object.values(criteria).some((value) => value !== null && value !== undefined);
+  const chosen = epaId !== undefined ? scored.find(({ option }) => option.data.epaId === epaId) : undefined;
+  if (epaId !== undefined && !chosen) {
+    throw new Error(`EPA configuration ${epaId} is not listed for ${year} ${make} ${model}`);
+  }
+
+  return {
+    data: (chosen ?? scored[0]).option.data,
+    confidence: chosen ? 'high' : matchConfidence(scored.map(({ score }) => score), hasCriteria),
+    selectedBy: chosen ? 'dealer' : 'score',
+    options: scored.map(({ option: { description, data }, score }) => ({
+      epaId: data.epaId!,
+      description,
+      score: Math.round(score * 100),
+      mpgCity: data.mpgCity,
+      mpgHighway: data.mpgHighway,
+      mpgCombined: data.mpgCombined,
+      mpge: data.mpge,
+      engineDescription: data.engineDescription,
+      transmissionDescription: data.transmissionDescription,
+      driveType: normalizeEPADriveType(data.driveType) ?? null,
+      displacementL: data.displacementL,
+      cylinders: data.cylinders,
+    })),
+  };
 }
 
 /**
@@ -183,3 +384,21 @@ export function normalizeEPAFuelType(epaFuelType: string | null): string {
   return fuelMap[epaFuelType] || epaFuelType.toLowerCase();
 }
 
+/**
+ * Normalize EPA drive type to our schema
+ */
+export function normalizeEPADriveType(epaDrive: string | null | undefined): string | undefined {
+  if (!epaDrive) return undefined;
+  
+  const driveMap: Record<string, string> = {
+    'Rear-Wheel Drive': 'RWD',
+    'Front-Wheel Drive': 'FWD',
+    'All-Wheel Drive': 'AWD',
+    'Four-Wheel Drive': '4WD',
+    '4-Wheel Drive': '4WD',
+    '4-Wheel or All-Wheel Drive': 'AWD',
+    'Part-time 4-Wheel Drive': '4WD',
+  };
+  
+  return driveMap[epaDrive] || epaDrive;
+}
@@ -4,7 +4,16 @@
  * https://vpic.nhtsa.dot.gov/api/vehicles/GetMakesForVehicleType/car?format=json
  */
 
-const NHTSA_BASE_URL = 'https://vpic.nhtsa.dot.gov/api/vehicles';
+import { upstreamRequest } from './upstream-client';
+
+/**
+ * Common commercial vehicle makes, for when NHTSA cannot be reached
+ */
+export const FALLBACK_COMMERCIAL_MAKES = [
+  'Chevrolet', 'Dodge', 'Ford', 'Freightliner', 'GMC', 'Hino', 'International',
+  'Isuzu', 'Kenworth', 'Mack', 'Mercedes-Benz', 'Nissan', 'Peterbilt', 'Ram',
+  'Toyota', 'Volvo',
+];
 
 export interface NHTSAMake {
   Make_ID: number;
@@ -21,47 +30,26 @@ export interface NHTSAMakesResponse {
 /**
  * Get all makes from NHTSA
  * Optionally filter by vehicle type (car, truck, motorcycle, etc.)
+ * Throws UpstreamError when NHTSA cannot be reached; callers decide on a fallback.
  */
 export async function getNHTSAMakes(vehicleType?: string): Promise<string[]> {
-  try {
-    let url = `${NHTSA_BASE_URL}/GetAllMakes?format=json`;
-    
-    // If vehicle type specified, get makes for that type
-    if (vehicleType) {
-      url = `${NHTSA_BASE_URL}/GetMakesForVehicleType/${encodeURIComponent(vehicleType)}?format=json`;
-    }
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`NHTSA API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: NHTSAMakesResponse = await response.json();
-
-    if (data.Results && data.Results.length > 0) {
-      // Return sorted list of make names
-      return data.Results
-        .map(make => make.Make_Name)
-        .filter((name): name is string => !!name)
-        .sort((a, b) => a.localeCompare(b));
-    }
-
-    return [];
-  } catch (error: any) {
-    console.error('NHTSA makes fetch error:', error);
-    // Return common commercial vehicle makes as fallback
-    return [
-      'Ford', 'Freightliner', 'Isuzu', 'Hino', 'Mack', 'Peterbilt', 
-      'Kenworth', 'Volvo', 'International', 'Mercedes-Benz', 'Ram', 
-      'Chevrolet', 'GMC', 'Nissan', 'Toyota', 'Dodge', 'Mercedes-Benz'
-    ];
+  // If vehicle type specified, get makes for that type
+  const data = await upstreamRequest<NHTSAMakesResponse | null>('nhtsa', {
+    path: vehicleType
+      ? `/GetMakesForVehicleType/${encodeURIComponent(vehicleType)}`
+      : '/GetAllMakes',
+    params: { format: 'json' },
+  });
+
+  if (data?.Results && data.Results.length > 0) {
+    // Return sorted, de-duplicated list of make names
+    const names = data.Results
+      .map(make => make.Make_Name?.trim())
+      .filter((name): name is string => !!name);
+    return Array.from(new Set(names)).sort((a, b) => a.localeCompare(b));
   }
+
+  return [];
 }
 
 /**
@@ -81,17 +69,20 @@ export async function getCommercialVehicleMakes(): Promise<string[]> {
 
 /**
  * Get makes with caching
- * In production, you'd want to cache this for 24 hours since makes don't change often
+ * Cached for 24 hours per vehicle type since makes don't change often.
+ * Failed lookups throw and are not cached.
  */
-let makesCache: { makes: string[]; timestamp: number } | null = null;
+const makesCache = new Map<string, { makes: string[]; timestamp: number }>();
 const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
 
 export async function getNHTSAMakesCached(vehicleType?: string): Promise<string[]> {
   const now = Date.now();
+  const cacheKey = vehicleType ?? 'all';
   
   // Check cache
-  if (makesCache && (now - makesCache.timestamp) < CACHE_DURATION) {
-    return makesCache.makes;
+  const cached = makesCache.get(cacheKey);
+  if (cached && (now - cached.timestamp) < CACHE_DURATION) {
+    return cached.makes;
   }
 
   // Fetch fresh data
@@ -100,10 +91,10 @@ export async function getNHTSAMakesCached(vehicleType?: string): Promise<string[
     : await getNHTSAMakes(vehicleType);
 
   // Update cache
-  makesCache = {
+  makesCache.set(cacheKey, {
     makes,
     timestamp: now,
-  };
+  });
 
   return makes;
 }
@@ -0,0 +1,228 @@
+import axios from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('axios', () => ({
+  default: { request: vi.fn() },
+}));
+
+const request = vi.mocked(axios.request);
+
+// Decoded with UPSTREAM_FIXTURES=replay from __fixtures__/upstream
+const FIXTURE_VIN = 'ZFBHRFABXL6R48213';
+
+/**
+ * Fresh copies of the upstream modules, so each test starts with closed
+ * circuits and empty rate-limit slots and reads UPSTREAM_FIXTURES again
+ */
+async function loadModules(fixtures: '' | 'replay') {
+  process.env.UPSTREAM_FIXTURES = fixtures;
+  vi.resetModules();
+  const client = await import('./upstream-client');
+  const enrichment = await import('./vehicle-data-enrichment');
+  return { ...client, ...enrichment };
+}
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, statusText: '', headers },
+  });
+}
+
+describe('upstream fixtures', () => {
+  beforeEach(() => {
+    request.mockReset();
+  });
+
+  afterEach(() => {
+    delete process.env.UPSTREAM_FIXTURES;
+  });
+
+  it('decodes a VIN from recorded NHTSA and EPA responses', async () => {
+    const { enrichVehicleData } = await loadModules('replay');
+
+    const enriched = await enrichVehicleData(FIXTURE_VIN);
+
+    expect(enriched).toMatchObject({
+      dataSources: ['nhtsa', 'epa'],
+      epaAvailable: true,
+      year: 2020,
+      make: 'RAM',
+      model: 'ProMaster City',
+      trim: 'Tradesman',
+      mpgCity: 21,
+      mpgHighway: 28,
+      mpgCombined: 24,
+      epaMatchConfidence: 'high',
+      epaSelectedBy: 'score',
+    });
+    expect(enriched.epaOptions).toEqual([expect.objectContaining({ epaId: 41519, description: 'Auto (S9), 4 cyl, 2.4 L' })]);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('fails without a recording instead of calling the live API', async () => {
+    const { upstreamRequest } = await loadModules('replay');
+
+    await expect(
+      upstreamRequest('nhtsa', { path: '/DecodeVinValues/1FTBW3XM5NKA12345', params: { format: 'json' } })
+    ).rejects.toMatchObject({ name: 'UpstreamError', kind: 'fixture_missing' });
+    expect(request).not.toHaveBeenCalled();
+  });
+});
+
+describe('upstreamRequest', () => {
+  beforeEach(() => {
+    request.mockReset();
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries server errors with backoff', async () => {
+    const { upstreamRequest } = await loadModules('');
+    request.mockRejectedValueOnce(httpError(503)).mockResolvedValueOnce({ data: { Results: [] } });
+
+    const response = upstreamRequest('nhtsa', { path: '/DecodeVinValues/X' });
+    await vi.runAllTimersAsync();
+
+    await expect(response).resolves.toEqual({ Results: [] });
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the retry budget', async () => {
+    const { upstreamRequest } = await loadModules('');
+    request.mockRejectedValue(httpError(502));
+
+    const response = expect(upstreamRequest('epa', { path: '/vehicle/1' })).rejects.toMatchObject({
+      kind: 'http',
+      status: 502,
+    });
+    await vi.runAllTimersAsync();
+
+    await response;
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const { upstreamRequest } = await loadModules('');
+    request.mockRejectedValue(httpError(404));
+
+    await expect(upstreamRequest('nhtsa', { path: '/DecodeVinValues/X' })).rejects.toMatchObject({
+      kind: 'http',
+      status: 404,
+      retryable: false,
+    });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for Retry-After when rate limited', async () => {
+    const { upstreamRequest } = await loadModules('');
+    request.mockRejectedValueOnce(httpError(429, { 'retry-after': '2' })).mockResolvedValueOnce({ data: { ok: true } });
+
+    const response = upstreamRequest('epa', { path: '/vehicle/1' });
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(response).resolves.toEqual({ ok: true });
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('spaces requests to the same host by its rate limit', async () => {
+    const { upstreamRequest } = await loadModules('');
+    request.mockResolvedValue({ data: {} });
+
+    const responses = Promise.all([1, 2, 3].map((id) => upstreamRequest('epa', { path: `/vehicle/${id}` })));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(request).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await responses;
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('treats an HTML error page as an invalid response', async () => {
+    const { upstreamRequest } = await loadModules('');
+    request.mockResolvedValue({ data: '<html>Service Unavailable</html>' });
+
+    await expect(upstreamRequest('epa', { path: '/vehicle/1' })).rejects.toMatchObject({ kind: 'invalid_response' });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  describe('circuit breaker', () => {
+    async function openCircuit() {
+      const modules = await loadModules('');
+      request.mockRejectedValue(httpError(503));
+      for (let i = 0; i < 5; i++) {
+        const failed = expect(modules.upstreamRequest('nhtsa', { path: `/DecodeVinValues/${i}` })).rejects.toMatchObject({
+          kind: 'http',
+        });
+        await vi.runAllTimersAsync();
+        await failed;
+      }
+      request.mockReset();
+      return modules;
+    }
+
+    it('opens after consecutive failures and fails fast', async () => {
+      const { upstreamRequest } = await openCircuit();
+
+      await expect(upstreamRequest('nhtsa', { path: '/DecodeVinValues/X' })).rejects.toMatchObject({
+        kind: 'circuit_open',
+        message: expect.stringContaining('try again in 30s'),
+      });
+      expect(request).not.toHaveBeenCalled();
+
+      // Each host has its own circuit
+      request.mockResolvedValue({ data: { ok: true } });
+      await expect(upstreamRequest('epa', { path: '/vehicle/1' })).resolves.toEqual({ ok: true });
+    });
+
+    it('closes again when the probe after the cooldown succeeds', async () => {
+      const { upstreamRequest } = await openCircuit();
+      await vi.advanceTimersByTimeAsync(30 * 1000);
+
+      let succeed!: (value: { data: unknown }) => void;
+      request.mockReturnValueOnce(new Promise((resolve) => (succeed = resolve)));
+      const probe = upstreamRequest('nhtsa', { path: '/DecodeVinValues/probe' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Only the probe goes through while it is in flight
+      await expect(upstreamRequest('nhtsa', { path: '/DecodeVinValues/X' })).rejects.toMatchObject({
+        kind: 'circuit_open',
+      });
+
+      succeed({ data: { Results: [] } });
+      await expect(probe).resolves.toEqual({ Results: [] });
+
+      request.mockResolvedValue({ data: { ok: true } });
+      const next = upstreamRequest('nhtsa', { path: '/DecodeVinValues/X' });
+      await vi.runAllTimersAsync();
+      await expect(next).resolves.toEqual({ ok: true });
+    });
+
+    it('reopens when the probe fails', async () => {
+      const { upstreamRequest } = await openCircuit();
+      await vi.advanceTimersByTimeAsync(30 * 1000);
+
+      request.mockRejectedValue(httpError(503));
+      const probe = expect(upstreamRequest('nhtsa', { path: '/DecodeVinValues/probe' })).rejects.toMatchObject({
+        kind: 'http',
+      });
+      await vi.runAllTimersAsync();
+      await probe;
+      request.mockClear();
+
+      await expect(upstreamRequest('nhtsa', { path: '/DecodeVinValues/X' })).rejects.toMatchObject({
+        kind: 'circuit_open',
+      });
+      expect(request).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Upstream Client
+ * Shared HTTP client for the NHTSA VPIC and EPA fuel economy APIs.
+ * Every request goes through per-host rate limiting and a per-host circuit
+ * breaker, retries transient failures with jittered backoff, and fails with
+ * a typed UpstreamError. With UPSTREAM_FIXTURES=record responses are saved to
+ * disk, and with UPSTREAM_FIXTURES=replay they are served from disk instead of
+ * the network, so the decode pipeline can run offline.
+ */
+
+import axios from 'axios';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ENV } from '../../_core/env';
+import { apiCache } from '../utils/api-cache';
+
+export type UpstreamService = 'nhtsa' | 'epa';
+
+interface ServiceConfig {
+  label: string;
+  baseUrl: string;
+  timeoutMs: number;
+  /** Retries after the first attempt, for retryable failures only */
+  maxRetries: number;
+  /** Requests started per second against the host */
+  requestsPerSecond: number;
+}
+
+const SERVICES: Record<UpstreamService, ServiceConfig> = {
+  nhtsa: {
+    label: 'NHTSA service',
+    baseUrl: 'https://vpic.nhtsa.dot.gov/api/vehicles',
+    timeoutMs: 10000,
+    maxRetries: 2,
+    requestsPerSecond: 5,
+  },
+  epa: {
+    label: 'EPA service',
+    baseUrl: 'https://www.fueleconomy.gov/ws/rest',
+    timeoutMs: 10000,
+    maxRetries: 2,
+    requestsPerSecond: 5,
+  },
+};
+
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+// Consecutive failed requests (after retries) that open a host's circuit
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 30 * 1000;
+
+const DEFAULT_FIXTURES_DIR = 'server/lib/services/__fixtures__/upstream';
+
+export type UpstreamErrorKind =
+  | 'timeout'
+  | 'network'
+  | 'rate_limited'
+  | 'http'
+  | 'invalid_response'
+  | 'circuit_open'
+  | 'fixture_missing';
+
+export class UpstreamError extends Error {
+  constructor(
+    public service: UpstreamService,
+    public kind: UpstreamErrorKind,
+    message: string,
+    /** HTTP status, when the upstream responded */
+    public status: number | null = null,
+    /** Server-requested wait before retrying (Retry-After), in ms */
+    public retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+
+  /** Whether trying the same request again could succeed */
+  get retryable(): boolean {
+    return (
+      this.kind === 'timeout' ||
+      this.kind === 'network' ||
+      this.kind === 'rate_limited' ||
+      (this.kind === 'http' && this.status !== null && this.status >= 500)
+    );
+  }
+}
+
+export interface UpstreamRequest {
+  method?: 'GET' | 'POST';
+  /** Path below the service's base URL, e.g. "/DecodeVinValues/1FT..." */
+  path: string;
+  params?: Record<string, string | number>;
+  /** Request body; strings are sent as form data */
+  data?: string;
+  timeoutMs?: number;
+}
+
+interface HostState {
+  nextSlotAt: number;
+  consecutiveFailures: number;
+  openUntil: number | null;
+  /** A half-open trial request is in flight */
+  probing: boolean;
+}
+
+const hosts = new Map<string, HostState>();
+
+function hostState(baseUrl: string): HostState {
+  const host = new URL(baseUrl).host;
+  let state = hosts.get(host);
+  if (!state) {
+    state = { nextSlotAt: 0, consecutiveFailures: 0, openUntil: null, probing: false };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wait for the host's next request slot, spacing requests 1/rps apart
+ */
+async function acquireSlot(state: HostState, requestsPerSecond: number): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, state.nextSlotAt);
+  state.nextSlotAt = slot + 1000 / requestsPerSecond;
+  if (slot > now) {
+    await sleep(slot - now);
+  }
+}
+
+/**
+ * Throw if the host's circuit is open. Once the cooldown has passed, one
+ * request is let through to probe whether the host has recovered.
+ */
+function checkCircuit(service: UpstreamService, state: HostState): void {
+  if (state.openUntil === null) return;
+
+  const remainingMs = state.openUntil - Date.now();
+  if (remainingMs > 0 || state.probing) {
+    const seconds = Math.max(1, Math.ceil(remainingMs / 1000));
+    throw new UpstreamError(
+      service,
+      'circuit_open',
+      `${SERVICES[service].label} is temporarily unavailable after repeated failures. Please try again in ${seconds}s.`
+    );
+  }
+  state.probing = true;
+}
+
+function recordOutcome(service: UpstreamService, state: HostState, succeeded: boolean): void {
+  const wasProbing = state.probing;
+  state.probing = false;
+
+  if (succeeded) {
+    state.consecutiveFailures = 0;
+    state.openUntil = null;
+    return;
+  }
+
+  state.consecutiveFailures++;
+  if (wasProbing || state.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    state.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+    console.warn(`[Upstream] ${service} circuit opened for ${CIRCUIT_COOLDOWN_MS / 1000}s`);
+  }
+}
+
+/**
+ * Full-jitter exponential backoff, or the server's Retry-After when given
+ */
+function retryDelay(attempt: number, error: UpstreamError): number {
+  if (error.retryAfterMs !== null) {
+    return Math.min(error.retryAfterMs, RETRY_MAX_DELAY_MS);
+  }
+  return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+}
+
+function toUpstreamError(service: UpstreamService, error: any): UpstreamError {
+  if (error instanceof UpstreamError) return error;
+
+  const { label } = SERVICES[service];
+  const status: number | undefined = error?.response?.status;
+
+  if (status === 429) {
+    const retryAfter = Number(error.response.headers?.['retry-after']);
+    return new UpstreamError(
+      service,
+      'rate_limited',
+      `Too many requests to ${label}. Please try again in a moment.`,
+      status,
+      Number.isFinite(retryAfter) ? retryAfter * 1000 : null
+    );
+  }
+  if (status !== undefined) {
+    const message =
+      status >= 500
+        ? `${label} error (${status}). Please try again later.`
+        : `${label} error: ${status} ${error.response.statusText ?? ''}`.trim();
+    return new UpstreamError(service, 'http', message, status);
+  }
+  if (error?.code === 'ETIMEDOUT' || error?.code === 'ECONNABORTED') {
+    return new UpstreamError(service, 'timeout', `Request to ${label} timed out. Please try again.`);
+  }
+  return new UpstreamError(
+    service,
+    'network',
+    `Unable to connect to ${label}. Please check your internet connection.`
+  );
+}
+
+function fixtureMode(): 'record' | 'replay' | null {
+  const mode = ENV.upstreamFixtures;
+  return mode === 'record' || mode === 'replay' ? mode : null;
+}
+
+/**
+ * Stable file for a request: readable path slug plus a hash of the full request
+ */
+function fixturePath(service: UpstreamService, request: UpstreamRequest): string {
+  const params = Object.entries(request.params ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  const signature = `${request.method ?? 'GET'} ${request.path}?${params}\n${request.data ?? ''}`;
+  const hash = createHash('sha1').update(signature).digest('hex').slice(0, 12);
+  const slug = request.path.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  return path.resolve(ENV.upstreamFixturesDir || DEFAULT_FIXTURES_DIR, service, `${slug}-${hash}.json`);
+}
+
+async function readFixture<T>(service: UpstreamService, request: UpstreamRequest): Promise<T> {
+  const file = fixturePath(service, request);
+  try {
+    const fixture = JSON.parse(await readFile(file, 'utf8'));
+    return fixture.response as T;
+  } catch {
+    throw new UpstreamError(
+      service,
+      'fixture_missing',
+      `No recorded ${SERVICES[service].label} response for ${request.method ?? 'GET'} ${request.path} (${file})`
+    );
+  }
+}
+
+async function writeFixture(service: UpstreamService, request: UpstreamRequest, response: unknown): Promise<void> {
+  const file = fixturePath(service, request);
+  try {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify({ request, recordedAt: new Date().toISOString(), response }, null, 2));
+  } catch (error) {
+    console.warn(`[Upstream] Could not record fixture ${file}:`, error);
+  }
+}
+
+/**
+ * One attempt against the live API
+ */
+async function send<T>(service: UpstreamService, request: UpstreamRequest): Promise<T> {
+  const config = SERVICES[service];
+  const response = await apiCache.trackUpstream(service, () =>
+    axios.request<T>({
+      method: request.method ?? 'GET',
+      url: `${config.baseUrl}${request.path}`,
+      params: request.params,
+      data: request.data,
+      timeout: request.timeoutMs ?? config.timeoutMs,
+      headers: {
+        'Accept': 'application/json',
+        ...(request.data !== undefined ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+      },
+    })
+  );
+
+  // An empty body is a valid "nothing found" (EPA does this); text is usually an HTML error page
+  const data: unknown = response.data;
+  if (typeof data === 'string' && data.trim() !== '') {
+    throw new UpstreamError(service, 'invalid_response', `${config.label} returned an unexpected response.`);
+  }
+  return (data === '' || data === undefined ? null : data) as T;
+}
+
+/**
+ * Make a JSON request to an upstream API. Throws UpstreamError on failure.
+ */
+export async function upstreamRequest<T>(service: UpstreamService, request: UpstreamRequest): Promise<T> {
+  const mode = fixtureMode();
+  if (mode === 'replay') {
+    return readFixture<T>(service, request);
+  }
+
+  const config = SERVICES[service];
+  const state = hostState(config.baseUrl);
+  checkCircuit(service, state);
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot(state, config.requestsPerSecond);
+    try {
+      const data = await send<T>(service, request);
+      recordOutcome(service, state, true);
+      if (mode === 'record') {
+        await writeFixture(service, request, data);
+      }
+      return data;
+    } catch (rawError) {
+      const error = toUpstreamError(service, rawError);
+      if (!error.retryable || attempt >= config.maxRetries) {
+        // Client errors (bad input) say nothing about the host's health
+        recordOutcome(service, state, !error.retryable && error.kind !== 'invalid_response');
+        throw error;
+      }
+      const delay = retryDelay(attempt, error);
+      console.warn(
+        `[Upstream] ${service} ${request.path} failed (${error.kind}), retry ${attempt + 1} in ${Math.round(delay)}ms`
+      );
+      await sleep(delay);
+    }
+  }
+}
@@ -4,7 +4,19 @@
  */
 
 import { decodeVINFromNHTSA, enrichNHTSAData, NHTSAVehicleData } from './vin-decoder';
-import { getEPADataForVehicle, EPAVehicleData, normalizeEPAFuelType } from './epa-fuel-economy';
+import {
+  matchEPAVehicle,
+  normalizeEPADriveType,
+  normalizeEPAFuelType,
+  type EPAMatchConfidence,
+  type EPAOptionMatch,
+  type EPAVehicleData,
+  type EPAVehicleMatch,
+} from './epa-fuel-economy';
+import { apiCache, CACHE_KEYS } from '../utils/api-cache';
+
+// Same lifetime as the shared VIN decode cache
+const EPA_SELECTION_TTL_MINUTES = 60 * 24 * 60;
 
 export interface EnrichedVehicleData {
   // Source tracking
@@ -120,14 +132,19 @@ export interface EnrichedVehicleData {
   
   // EPA specific
   epaId?: number;
+  epaMatchConfidence?: EPAMatchConfidence;
+  epaSelectedBy?: EPAVehicleMatch['selectedBy'];
+  epaOptions?: EPAOptionMatch[];          // All EPA configurations, best match first
 }
 
 /**
  * Main enrichment function
- * Combines NHTSA + EPA data with conflict resolution
+ * Combines NHTSA + EPA data with conflict resolution.
+ * Pass `epaId` to use a dealer-picked EPA configuration instead of the best match.
  */
 export async function enrichVehicleData(
-  vin: string
+  vin: string,
+  epaId?: number
 ): Promise<EnrichedVehicleData> {
   const dataSources: string[] = [];
   
@@ -149,6 +166,45 @@ export async function enrichVehicleData(
     throw new Error(`NHTSA VIN decode failed: ${error.message || 'Unknown error'}`);
   }
   
+  return mergeWithEPAData(nhtsaData, dataSources, epaId);
+}
+
+/**
+ * Remember the EPA configuration an organization picked for a VIN.
+ * Kept per organization so one dealer's pick never changes the shared decode.
+ */
+export async function saveEpaSelection(
+  organizationId: number,
+  vin: string,
+  data: EnrichedVehicleData
+): Promise<void> {
+  await apiCache.set(CACHE_KEYS.epaSelection(organizationId, vin), data, EPA_SELECTION_TTL_MINUTES);
+}
+
+/**
+ * Cached decode for a VIN as an organization last saw it: its own EPA
+ * configuration pick if it made one, otherwise the shared decode
+ */
+export async function getCachedEnrichment(
+  vin: string,
+  organizationId: number | null
+): Promise<EnrichedVehicleData | null> {
+  if (organizationId) {
+    const selected = await apiCache.get<EnrichedVehicleData>(CACHE_KEYS.epaSelection(organizationId, vin));
+    if (selected) return selected;
+  }
+  return apiCache.get<EnrichedVehicleData>(CACHE_KEYS.nhtsa(vin));
+}
+
+/**
+ * Add EPA data to an already-decoded and normalized NHTSA record.
+ * Used directly by the batch decoder, which gets NHTSA data in bulk.
+ */
+export async function mergeWithEPAData(
+  nhtsaData: NHTSAVehicleData,
+  dataSources: string[] = ['nhtsa'],
+  epaId?: number
+): Promise<EnrichedVehicleData> {
   // Validate required fields
   if (!nhtsaData.year || !nhtsaData.make || !nhtsaData.model) {
     console.error(`[Enrichment] Missing required fields:`, {
@@ -159,20 +215,32 @@ export async function enrichVehicleData(
     throw new Error('NHTSA data missing required fields (year, make, model)');
   }
   
-  // Step 2: Get EPA data (optional)
-  let epaData: EPAVehicleData | null = null;
+  // Step 2: Get EPA data (optional), matching the configuration to the decoded powertrain
+  let epaMatch: EPAVehicleMatch | null = null;
   try {
-    epaData = await getEPADataForVehicle(
+    epaMatch = await matchEPAVehicle(
       nhtsaData.year!,
       nhtsaData.make!,
-      nhtsaData.model!
+      nhtsaData.model!,
+      {
+        displacementL: nhtsaData.displacementL,
+        cylinders: nhtsaData.engineCylinders,
+        driveType: nhtsaData.driveType,
+        transmissionStyle: nhtsaData.transmissionStyle,
+        transmissionSpeeds: nhtsaData.transmissionSpeeds,
+        fuelType: nhtsaData.fuelTypePrimary,
+      },
+      epaId
     );
-    if (epaData) {
+    if (epaMatch) {
       dataSources.push('epa');
     }
   } catch (error: any) {
+    // A dealer-picked configuration that doesn't exist is the caller's mistake
+    if (epaId !== undefined) throw error;
     console.warn('EPA data fetch failed (non-critical):', error);
   }
+  const epaData: EPAVehicleData | null = epaMatch?.data ?? null;
   
   // Step 3: Merge data with intelligent conflict resolution
   const enriched: EnrichedVehicleData = {
@@ -295,6 +363,9 @@ export async function enrichVehicleData(
     
     // EPA ID for reference
     epaId: epaData?.epaId || undefined,
+    epaMatchConfidence: epaMatch?.confidence,
+    epaSelectedBy: epaMatch?.selectedBy,
+    epaOptions: epaMatch?.options,
   };
   
   return enriched;
@@ -321,23 +392,3 @@ function determineNHTSAConfidence(data: NHTSAVehicleData): 'high' | 'medium' | '
   if (percentage >= 0.5) return 'medium';
   return 'low';
 }
-
-/**
- * Normalize EPA drive type to our schema
- */
-function normalizeEPADriveType(epaDrive: string | null | undefined): string | undefined {
-  if (!epaDrive) return undefined;
-  
-  const driveMap: Record<string, string> = {
-    'Rear-Wheel Drive': 'RWD',
-    'Front-Wheel Drive': 'FWD',
-    'All-Wheel Drive': 'AWD',
-    'Four-Wheel Drive': '4WD',
-    '4-Wheel Drive': '4WD',
-    '4-Wheel or All-Wheel Drive': 'AWD',
-    'Part-time 4-Wheel Drive': '4WD',
-  };
-  
-  return driveMap[epaDrive] || epaDrive;
-}
-
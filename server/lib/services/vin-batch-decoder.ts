@@ -0,0 +1,205 @@
+/**
+ * Batch VIN Decoder
+ * Decodes many VINs at once: invalid VINs are rejected offline, cached VINs
+ * are served from the API cache, and the rest go to NHTSA's batch endpoint in
+ * chunks before EPA enrichment. Upstream calls run with bounded concurrency.
+ */
+
+import { validateVin, type OfflineVinDecode } from '@shared/vin';
+import { apiCache, CACHE_KEYS } from '../utils/api-cache';
+import { mergeWithEPAData, type EnrichedVehicleData } from './vehicle-data-enrichment';
+import {
+  decodeVINBatchFromNHTSA,
+  enrichNHTSAData,
+  NHTSA_BATCH_LIMIT,
+  type NHTSABatchDecodeResult,
+} from './vin-decoder';
+
+// NHTSA batch requests in flight at once, and EPA lookups per NHTSA chunk
+const NHTSA_CONCURRENCY = 2;
+const EPA_CONCURRENCY = 4;
+
+// Same TTL as single decodes - VIN data doesn't change
+const VIN_CACHE_TTL_MINUTES = 60 * 24 * 60;
+
+export interface VinBatchResult {
+  vin: string;
+  status: 'decoded' | 'invalid' | 'failed';
+  fromCache: boolean;
+  confidence: EnrichedVehicleData['nhtsaConfidence'] | null;
+  data: EnrichedVehicleData | null;
+  error: string | null;
+  /** What the VIN itself encodes, when it could not be decoded upstream */
+  fallback: OfflineVinDecode | null;
+}
+
+export interface VinBatchSummary {
+  total: number;
+  decoded: number;
+  cached: number;
+  invalid: number;
+  failed: number;
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight
+ */
+async function forEachWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Trimmed, upper-cased VINs with repeats removed, in first-seen order
+ */
+export function uniqueVins(vins: string[]): string[] {
+  return Array.from(new Set(vins.map((vin) => vin.trim().toUpperCase()).filter(Boolean)));
+}
+
+function decodedResult(vin: string, data: EnrichedVehicleData, fromCache: boolean): VinBatchResult {
+  return { vin, status: 'decoded', fromCache, confidence: data.nhtsaConfidence, data, error: null, fallback: null };
+}
+
+/**
+ * Decode every VIN, calling `onResult` as each one finishes (in completion
+ * order). Per-VIN problems are reported in the result, never thrown.
+ */
+async function runVinBatch(vins: string[], onResult: (result: VinBatchResult) => void): Promise<void> {
+  const valid: string[] = [];
+
+  for (const vin of uniqueVins(vins)) {
+    const validation = validateVin(vin);
+    if (!validation.valid) {
+      onResult({
+        vin,
+        status: 'invalid',
+        fromCache: false,
+        confidence: null,
+        data: null,
+        error: validation.errors.map((error) => error.message).join('; '),
+        fallback: validation.decoded,
+      });
+      continue;
+    }
+    valid.push(vin);
+  }
+
+  const cached = await apiCache.getMany<EnrichedVehicleData>(valid.map((vin) => CACHE_KEYS.nhtsa(vin)));
+  const pending: string[] = [];
+  for (const vin of valid) {
+    const data = cached.get(CACHE_KEYS.nhtsa(vin));
+    if (data) {
+      onResult(decodedResult(vin, data, true));
+    } else {
+      pending.push(vin);
+    }
+  }
+
+  const failed = (vin: string, error: string): VinBatchResult => ({
+    vin,
+    status: 'failed',
+    fromCache: false,
+    confidence: null,
+    data: null,
+    error,
+    fallback: validateVin(vin).decoded,
+  });
+
+  await forEachWithConcurrency(chunk(pending, NHTSA_BATCH_LIMIT), NHTSA_CONCURRENCY, async (vinChunk) => {
+    let decoded: NHTSABatchDecodeResult[];
+    try {
+      decoded = await decodeVINBatchFromNHTSA(vinChunk);
+    } catch (error: any) {
+      vinChunk.forEach((vin) => onResult(failed(vin, error.message || 'Failed to decode VIN')));
+      return;
+    }
+
+    await forEachWithConcurrency(decoded, EPA_CONCURRENCY, async ({ vin, data, error }) => {
+      if (!data) {
+        onResult(failed(vin, error || 'Failed to decode VIN'));
+        return;
+      }
+      try {
+        const enriched = await mergeWithEPAData(enrichNHTSAData(data));
+        await apiCache.set(CACHE_KEYS.nhtsa(vin), enriched, VIN_CACHE_TTL_MINUTES);
+        onResult(decodedResult(vin, enriched, false));
+      } catch (mergeError: any) {
+        onResult(failed(vin, mergeError.message || 'Failed to decode VIN'));
+      }
+    });
+  });
+}
+
+export function summarizeVinBatch(results: VinBatchResult[]): VinBatchSummary {
+  return {
+    total: results.length,
+    decoded: results.filter((result) => result.status === 'decoded').length,
+    cached: results.filter((result) => result.fromCache).length,
+    invalid: results.filter((result) => result.status === 'invalid').length,
+    failed: results.filter((result) => result.status === 'failed').length,
+  };
+}
+
+/**
+ * Decode a batch of VINs. Results are de-duplicated and returned in the
+ * order the VINs were given.
+ */
+export async function decodeVinBatch(vins: string[]): Promise<{ results: VinBatchResult[]; summary: VinBatchSummary }> {
+  const byVin = new Map<string, VinBatchResult>();
+  await runVinBatch(vins, (result) => byVin.set(result.vin, result));
+
+  const results = uniqueVins(vins).map((vin) => byVin.get(vin)!);
+  return { results, summary: summarizeVinBatch(results) };
+}
+
+/**
+ * Decode a batch of VINs, yielding each result as soon as it is ready
+ */
+export async function* streamVinBatch(vins: string[]): AsyncGenerator<VinBatchResult> {
+  const ready: VinBatchResult[] = [];
+  let wake: (() => void) | null = null;
+  let finished = false;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  const run = runVinBatch(vins, (result) => {
+    ready.push(result);
+    notify();
+  }).finally(() => {
+    finished = true;
+    notify();
+  });
+
+  while (true) {
+    if (ready.length > 0) {
+      yield ready.shift()!;
+      continue;
+    }
+    if (finished) break;
+    await new Promise<void>((resolve) => {
+      wake = resolve;
+    });
+  }
+
+  await run;
+}
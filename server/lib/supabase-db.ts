@@ -5,6 +5,7 @@
  * doesn't directly support quoted schema names in .from()
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
 import postgres from "postgres";
 import { ENV } from "../_core/env";
 import { getSupabaseClient } from "../_core/supabase";
@@ -27,6 +28,37 @@ function getPostgresClient() {
   return _postgresClient;
 }
 
+// Transaction opened by withSchemaTransaction for the current async call chain
+const transactionScope = new AsyncLocalStorage<postgres.TransactionSql>();
+
+/**
+ * The open transaction when called inside withSchemaTransaction, otherwise
+ * the shared client. The pool has a single connection, so queries made
+ * during a transaction must go through it or they would wait forever.
+ */
+function getQueryClient(): postgres.Sql | null {
+  return transactionScope.getStore() ?? getPostgresClient();
+}
+
+/**
+ * Run the callback in a database transaction. Every schema helper called
+ * from inside it joins the transaction, which rolls back if the callback throws.
+ * Nested calls reuse the outer transaction.
+ */
+export async function withSchemaTransaction<T>(callback: () => Promise<T>): Promise<T> {
+  if (transactionScope.getStore()) {
+    return callback();
+  }
+
+  const client = getPostgresClient();
+  if (!client) {
+    throw new Error("Database connection not available");
+  }
+
+  const result = await client.begin((sql) => transactionScope.run(sql, callback));
+  return result as T;
+}
+
 /**
  * Query a table in a numbered Supabase schema using raw SQL
  * Handles quoted schema names like "03. Vehicle Data"
@@ -37,32 +69,42 @@ export async function querySchemaTable<T = any>(
   options: {
     select?: string;
     where?: Record<string, any>;
+    // null values in `where` are ignored, so NULL checks are listed separately
+    whereNull?: string[];
+    whereNotNull?: string[];
     orderBy?: { column: string; ascending?: boolean };
     limit?: number;
     offset?: number;
   } = {}
 ): Promise<T[]> {
-  const client = getPostgresClient();
+  const client = getQueryClient();
   if (!client) {
     console.warn(`[Supabase DB] Database connection not available for ${schema}.${table}`);
     return [];
   }
 
-  const { select = "*", where = {}, orderBy, limit, offset } = options;
+  const { select = "*", where = {}, whereNull = [], whereNotNull = [], orderBy, limit, offset } = options;
 
   let query = `SELECT ${select} FROM "${schema}".${table}`;
   const params: any[] = [];
   let paramIndex = 1;
 
   // Build WHERE clause
+  // Array values match any element, which lets loaders batch lookups by ID
   const whereConditions: string[] = [];
   for (const [key, value] of Object.entries(where)) {
-    if (value !== undefined && value !== null) {
+    if (Array.isArray(value)) {
+      whereConditions.push(`${key} = ANY($${paramIndex})`);
+      params.push(value);
+      paramIndex++;
+    } else if (value !== undefined && value !== null) {
       whereConditions.push(`${key} = $${paramIndex}`);
       params.push(value);
       paramIndex++;
     }
   }
+  whereConditions.push(...whereNull.map((column) => `${column} IS NULL`));
+  whereConditions.push(...whereNotNull.map((column) => `${column} IS NOT NULL`));
 
   if (whereConditions.length > 0) {
     query += ` WHERE ${whereConditions.join(" AND ")}`;
@@ -108,7 +150,7 @@ export async function insertSchemaTable<T = any>(
   table: string,
   data: Record<string, any>
 ): Promise<T> {
-  const client = getPostgresClient();
+  const client = getQueryClient();
   if (!client) {
     throw new Error("Database connection not available");
   }
@@ -178,7 +220,7 @@ export async function updateSchemaTable<T = any>(
   data: Record<string, any>,
   where: Record<string, any>
 ): Promise<T> {
-  const client = getPostgresClient();
+  const client = getQueryClient();
   if (!client) {
     throw new Error("Database connection not available");
   }
@@ -235,9 +277,10 @@ export async function updateSchemaTable<T = any>(
     paramIndex++;
   }
 
+  // Array values match any element, like querySchemaTable
   const whereConditions: string[] = [];
   for (const [key, value] of Object.entries(where)) {
-    whereConditions.push(`${key} = $${paramIndex}`);
+    whereConditions.push(Array.isArray(value) ? `${key} = ANY($${paramIndex})` : `${key} = $${paramIndex}`);
     params.push(value);
     paramIndex++;
   }
@@ -266,7 +309,7 @@ export async function deleteSchemaTable(
   table: string,
   where: Record<string, any>
 ): Promise<void> {
-  const client = getPostgresClient();
+  const client = getQueryClient();
   if (!client) {
     throw new Error("Database connection not available");
   }
@@ -402,7 +445,7 @@ export async function callSchemaRPC<T = any>(
   params: any[] = [],
   returnsTable: boolean = true
 ): Promise<T[] | T> {
-  const client = getPostgresClient();
+  const client = getQueryClient();
   if (!client) {
     throw new Error("Database connection not available");
   }
@@ -18,10 +18,24 @@ export interface OrganizationUser {
   organization_id: number;
   user_id: string; // Supabase auth user ID
   role: "owner" | "admin" | "manager" | "sales" | "viewer";
+  status?: "pending" | "active" | "suspended" | "removed";
   created_at: Date;
   updated_at: Date;
 }
 
+export interface OrganizationInvitation {
+  id: number;
+  organization_id: number;
+  email: string;
+  role: Exclude<OrganizationUser["role"], "owner">;
+  invited_by?: string | null;
+  expires_at: Date;
+  accepted_at?: Date | null;
+  accepted_by?: string | null;
+  revoked_at?: Date | null;
+  created_at: Date;
+}
+
 export interface OrganizationType {
   id: number;
   name: string;
@@ -35,6 +49,10 @@ export interface Dealer {
   organization_id: number;
   dealer_name: string;
   is_verified: boolean;
+  lead_routing_email?: string | null;
+  default_listing_location_id?: number | null;
+  default_price_type?: "negotiable" | "fixed" | "call_for_price";
+  listing_auto_archive_days?: number | null; // null disables auto-archiving
   created_at: Date;
   updated_at: Date;
 }
@@ -44,13 +62,14 @@ export interface VehicleListing {
   dealer_id: number;
   complete_configuration_id: number;
   asking_price: number;
+  special_price?: number | null;
   condition: "new" | "used";
   mileage?: number;
   stock_number?: string;
   location_city?: string;
   location_state?: string;
   description?: string;
-  status: "draft" | "available" | "pending" | "sold" | "archived";
+  listing_status: "draft" | "available" | "pending" | "sold" | "archived";
   view_count: number;
   // Additional listing fields
   price_type?: "negotiable" | "fixed" | "call_for_price";
@@ -66,6 +85,17 @@ export interface VehicleListing {
   warranty_expires_at?: Date;
   previous_owners?: number;
   accident_history?: string;
+  // Lifecycle
+  published_at?: Date | null;
+  pending_at?: Date | null;
+  sold_at?: Date | null;
+  archived_at?: Date | null;
+  scheduled_publish_at?: Date | null;
+  last_refreshed_at?: Date | null;
+  sale_price?: number | null;
+  buyer_type?: "retail" | "fleet" | "government" | "dealer" | "other" | null;
+  deleted_at?: Date | null; // In the recycle bin when set
+  deleted_by?: string | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -79,6 +109,96 @@ export interface ListingImage {
   created_at: Date;
 }
 
+export interface ListingPriceHistory {
+  id: number;
+  listing_id: number;
+  asking_price?: number | null;
+  special_price?: number | null;
+  price?: number | null;
+  previous_price?: number | null;
+  changed_by?: string | null; // Supabase auth user ID
+  source: "initial" | "create" | "update" | "bulk";
+  changed_at: Date;
+}
+
+export interface ListingRevision {
+  id: number;
+  entity_type: "vehicle_listing" | "body_equipment" | "charging_infrastructure";
+  entity_id: number;
+  revision: number;
+  action: "create" | "update" | "delete" | "revert";
+  changes: Record<string, { from: unknown; to: unknown }>;
+  snapshot?: Record<string, unknown> | null;
+  changed_by?: string | null; // Supabase auth user ID
+  reverted_from_revision?: number | null;
+  created_at: Date;
+}
+
+export interface ListingView {
+  id: number;
+  listing_id: number;
+  dealer_id: number;
+  user_id?: string;
+  referrer?: string;
+  user_agent?: string;
+  viewed_at: Date;
+}
+
+export interface Lead {
+  id: number;
+  dealer_id?: number;
+  organization_id: number;
+  listing_id?: number;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone?: string;
+  company?: string;
+  message?: string;
+  lead_type: "inquiry" | "quote" | "test_drive" | "financing" | "trade_in";
+  lead_source: "marketplace" | "dealer_site" | "private_catalog" | "referral" | "other";
+  status: "new" | "contacted" | "qualified" | "converted" | "closed";
+  quality_score: number;
+  ip_address?: string;
+  user_agent?: string;
+  referrer?: string;
+  first_responded_at?: Date;
+  assigned_to?: string | null; // Supabase auth user ID
+  assigned_at?: Date | null;
+  status_changed_at?: Date | null;
+  next_follow_up_at?: Date | null;
+  last_activity_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LeadActivity {
+  id: number;
+  lead_id: number;
+  organization_id: number;
+  actor_user_id?: string | null;
+  activity_type: "created" | "status_changed" | "assigned" | "note" | "follow_up_scheduled" | "follow_up_completed";
+  from_status?: string | null;
+  to_status?: string | null;
+  assigned_to?: string | null;
+  follow_up_id?: number | null;
+  body?: string | null;
+  created_at: Date;
+}
+
+export interface LeadFollowUp {
+  id: number;
+  lead_id: number;
+  organization_id: number;
+  assigned_to?: string | null;
+  due_at: Date;
+  note?: string | null;
+  created_by?: string | null;
+  completed_at?: Date | null;
+  completed_by?: string | null;
+  created_at: Date;
+}
+
 // ============ Schema 03: Vehicle Data ============
 
 export interface Vehicle {
@@ -128,6 +248,12 @@ export interface VehicleConfig {
   gawr_front_lbs?: number;
   gawr_rear_lbs?: number;
   
+  // Upfit dimensions (CA = back of cab to rear axle centerline, CT = back of cab to end of frame)
+  cab_to_axle_inches?: number;
+  cab_to_tail_inches?: number;
+  front_curb_weight_lbs?: number;
+  rear_curb_weight_lbs?: number;
+  
   // Towing
   towing_capacity_lbs?: number;
   
@@ -190,6 +316,9 @@ export interface Equipment {
   created_by_dealer_id?: number;
   needs_verification?: boolean;
   confidence_score?: number;
+  featured_image?: string | null;
+  deleted_at?: Date | null; // In the recycle bin when set
+  deleted_by?: string | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -197,10 +326,21 @@ export interface Equipment {
 export interface EquipmentConfig {
   id: number;
   equipment_id: number;
+  config_name?: string;
   length_inches?: number;
   height_inches?: number;
   width_inches?: number;
   weight_lbs?: number;
+  equipment_weight_lbs?: number;
+  minimum_cab_to_axle_inches?: number | null;
+  maximum_cab_to_axle_inches?: number | null;
+  recommended_cab_to_axle_inches?: number | null;
+  minimum_wheelbase_inches?: number | null;
+  maximum_wheelbase_inches?: number | null;
+  mounting_type?: string | null;
+  front_axle_weight_distribution_lbs?: number | null;
+  rear_axle_weight_distribution_lbs?: number | null;
+  center_of_gravity_from_rear_axle_inches?: number | null;
   material?: string;
   door_configuration?: string;
   compartment_count?: number;
@@ -214,6 +354,57 @@ export interface EquipmentConfig {
   updated_at: Date;
 }
 
+export interface ChargingInfrastructureItem {
+  id: number;
+  organization_id: number;
+  name: string;
+  category: "level_1" | "level_2" | "dc_fast" | "depot_charger" | "portable" | "accessories";
+  manufacturer?: string | null;
+  model?: string | null;
+  description?: string | null;
+  msrp?: number | null;
+  sale_price?: number | null;
+  installation_cost?: number | null;
+  input_voltage?: string | null;
+  output_power?: number | null; // kW
+  output_current?: number | null; // amps
+  efficiency?: number | null; // percent
+  connector_types?: string | null; // JSON array
+  number_of_ports: number;
+  simultaneous_charging: boolean;
+  cable_length?: number | null; // feet
+  cable_type?: string | null;
+  installation_type?: "wall_mount" | "pedestal" | "overhead" | "portable" | null;
+  installation_requirements?: string | null;
+  electrical_requirements?: string | null;
+  dimensions?: string | null; // JSON: length, width, height, weight
+  network_connected: boolean;
+  payment_capable: boolean;
+  load_management: boolean;
+  weather_rating?: string | null;
+  certifications?: string | null; // JSON array
+  warranty_years?: number | null;
+  warranty_details?: string | null;
+  lead_time_days?: number | null;
+  stock_status: "in_stock" | "backorder" | "made_to_order" | "discontinued";
+  location_address?: string | null;
+  location_city?: string | null;
+  location_state?: string | null;
+  location_zip_code?: string | null;
+  latitude?: string | null;
+  longitude?: string | null;
+  is_public_access: boolean;
+  featured_image?: string | null;
+  status: "live" | "draft" | "archived";
+  is_published: boolean;
+  view_count: number;
+  inquiry_count: number;
+  deleted_at?: Date | null; // In the recycle bin when set
+  deleted_by?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface StandardFeature {
   id: number;
   name: string;
@@ -276,3 +467,51 @@ export interface ChassisEquipmentCompatibility {
   created_at: Date;
 }
 
+
+// ============ Public: Buyer Alerts ============
+
+export interface UserFavorite {
+  id: number;
+  user_id: string; // Supabase auth user ID
+  listing_id: number;
+  notes?: string | null;
+  created_at: Date;
+}
+
+export interface SavedSearch {
+  id: number;
+  user_id: string; // Supabase auth user ID
+  name: string;
+  email?: string | null;
+  filters: Record<string, unknown>;
+  alert_frequency: "instant" | "daily" | "weekly" | "none";
+  email_enabled: boolean;
+  in_app_enabled: boolean;
+  last_evaluated_at: Date;
+  last_emailed_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SavedSearchMatch {
+  id: number;
+  saved_search_id: number;
+  listing_id: number;
+  reason: "new" | "price_drop" | "seen";
+  price?: number | null;
+  previous_price?: number | null;
+  matched_at: Date;
+  emailed_at?: Date | null;
+}
+
+export interface UserNotification {
+  id: number;
+  user_id: string; // Supabase auth user ID
+  type: string;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+  data: Record<string, unknown>;
+  read_at?: Date | null;
+  created_at: Date;
+}
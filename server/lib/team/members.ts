@@ -0,0 +1,479 @@
+/**
+ * Team Management
+ * Email invitations, role changes, member removal and ownership transfer
+ * for organization members. Invite links carry a signed token that points
+ * at an organization_invitations row, so revoking the row disables the link.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { TRPCError } from "@trpc/server";
+import { SignJWT, jwtVerify } from "jose";
+import { ORG_ROLE_RANK, type OrgRole } from "@shared/permissions";
+import { ENV } from "../../_core/env";
+import type { OrgMembership } from "../database/dealer-context";
+import { getOrganizationMembers, type LeadMember } from "../leads/pipeline";
+import {
+  callSchemaRPC,
+  insertSchemaTable,
+  querySchemaTable,
+  updateSchemaTable,
+} from "../supabase-db";
+import type { OrganizationInvitation, OrganizationUser } from "../supabase-types";
+
+export type InvitableRole = OrganizationInvitation["role"];
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const INVITATION_AUDIENCE = "organization-invitation";
+
+interface InvitationTokenPayload {
+  invitationId: number;
+  organizationId: number;
+  email: string;
+}
+
+export interface PendingInvitation {
+  id: number;
+  email: string;
+  role: InvitableRole;
+  invitedBy: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+function getInvitationSecret() {
+  return new TextEncoder().encode(ENV.cookieSecret);
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function isPending(invitation: OrganizationInvitation): boolean {
+  return (
+    !invitation.accepted_at &&
+    !invitation.revoked_at &&
+    new Date(invitation.expires_at).getTime() > Date.now()
+  );
+}
+
+async function signInvitationToken(
+  payload: InvitationTokenPayload,
+  expiresAt: Date
+): Promise<string> {
+  return new SignJWT({ ...payload })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setAudience(INVITATION_AUDIENCE)
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(getInvitationSecret());
+}
+
+/**
+ * Returns null for tokens that are malformed, tampered with or expired
+ */
+async function verifyInvitationToken(token: string): Promise<InvitationTokenPayload | null> {
+  try {
+    const { payload } = await jwtVerify(token, getInvitationSecret(), {
+      algorithms: ["HS256"],
+      audience: INVITATION_AUDIENCE,
+    });
+    const { invitationId, organizationId, email } = payload as Record<string, unknown>;
+    if (typeof invitationId !== "number" || typeof organizationId !== "number" || typeof email !== "string") {
+      return null;
+    }
+    return { invitationId, organizationId, email };
+  } catch (error) {
+    console.warn("[Team] Invitation token verification failed", String(error));
+    return null;
+  }
+}
+
+/**
+ * Owners manage everyone; other roles only manage members ranked below them
+ */
+function canManageRole(actorRole: OrgRole, targetRole: OrgRole): boolean {
+  return actorRole === "owner" || ORG_ROLE_RANK[actorRole] > ORG_ROLE_RANK[targetRole];
+}
+
+function assertCanAssignRole(actor: OrgMembership, role: OrgRole): void {
+  if (role === "owner") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Use ownership transfer to make someone the owner",
+    });
+  }
+  if (!canManageRole(actor.role, role)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Your role (${actor.role}) cannot grant the ${role} role`,
+    });
+  }
+}
+
+async function getActiveMember(organizationId: number, userId: string): Promise<OrganizationUser> {
+  const rows = await querySchemaTable<OrganizationUser>(
+    "01. Organization",
+    "organization_users",
+    {
+      where: { organization_id: organizationId, user_id: userId, status: "active" },
+      limit: 1,
+    }
+  );
+  if (rows.length === 0) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+  }
+  return rows[0];
+}
+
+async function getManageableMember(actor: OrgMembership, userId: string): Promise<OrganizationUser> {
+  if (actor.userId === userId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "You cannot change your own membership",
+    });
+  }
+  const member = await getActiveMember(actor.organizationId, userId);
+  if (!canManageRole(actor.role, member.role)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Your role (${actor.role}) cannot manage ${member.role}s`,
+    });
+  }
+  return member;
+}
+
+/**
+ * Active members and invitations that have not been accepted, revoked or expired
+ */
+export async function listTeam(
+  actor: OrgMembership
+): Promise<{ members: LeadMember[]; invitations: PendingInvitation[] }> {
+  const [members, invitations] = await Promise.all([
+    getOrganizationMembers(actor.organizationId),
+    querySchemaTable<OrganizationInvitation>(
+      "01. Organization",
+      "organization_invitations",
+      {
+        where: { organization_id: actor.organizationId },
+        orderBy: { column: "created_at", ascending: false },
+      }
+    ),
+  ]);
+
+  return {
+    members,
+    invitations: invitations.filter(isPending).map((invitation) => ({
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      invitedBy: invitation.invited_by ?? null,
+      expiresAt: invitation.expires_at,
+      createdAt: invitation.created_at,
+    })),
+  };
+}
+
+/**
+ * Ask Supabase to email the invite link. Addresses that already have an
+ * account are rejected by Supabase; the caller shares the link instead.
+ */
+async function sendInvitationEmail(email: string, inviteUrl: string): Promise<boolean> {
+  if (!ENV.supabaseUrl || !ENV.supabaseServiceRoleKey) {
+    return false;
+  }
+  const adminSupabase = createClient(ENV.supabaseUrl, ENV.supabaseServiceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+  const { error } = await adminSupabase.auth.admin.inviteUserByEmail(email, {
+    redirectTo: inviteUrl,
+    data: { accountType: "dealer" },
+  });
+  if (error) {
+    console.warn("[Team] Invitation email not sent:", error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Invite someone by email. Any earlier pending invitation for the same
+ * address is revoked so only the newest link works.
+ * @param appUrl - Origin the invite link should point at
+ */
+export async function inviteMember(
+  actor: OrgMembership,
+  input: { email: string; role: InvitableRole },
+  appUrl: string
+): Promise<{ invitation: PendingInvitation; inviteUrl: string; emailSent: boolean }> {
+  assertCanAssignRole(actor, input.role);
+  const email = normalizeEmail(input.email);
+
+  const members = await getOrganizationMembers(actor.organizationId);
+  if (members.some((member) => member.email && normalizeEmail(member.email) === email)) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `${email} is already a member of this organization`,
+    });
+  }
+
+  const existing = await querySchemaTable<OrganizationInvitation>(
+    "01. Organization",
+    "organization_invitations",
+    {
+      where: { organization_id: actor.organizationId, email },
+    }
+  );
+  for (const invitation of existing.filter(isPending)) {
+    await updateSchemaTable(
+      "01. Organization",
+      "organization_invitations",
+      { revoked_at: new Date() },
+      { id: invitation.id }
+    );
+  }
+
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+  const invitation = await insertSchemaTable<OrganizationInvitation>(
+    "01. Organization",
+    "organization_invitations",
+    {
+      organization_id: actor.organizationId,
+      email,
+      role: input.role,
+      invited_by: actor.userId,
+      expires_at: expiresAt,
+    }
+  );
+
+  const token = await signInvitationToken(
+    { invitationId: invitation.id, organizationId: actor.organizationId, email },
+    expiresAt
+  );
+  const inviteUrl = `${appUrl}/invite?token=${encodeURIComponent(token)}`;
+  const emailSent = await sendInvitationEmail(email, inviteUrl);
+
+  return {
+    invitation: {
+      id: invitation.id,
+      email,
+      role: invitation.role,
+      invitedBy: invitation.invited_by ?? null,
+      expiresAt: invitation.expires_at,
+      createdAt: invitation.created_at,
+    },
+    inviteUrl,
+    emailSent,
+  };
+}
+
+export async function revokeInvitation(actor: OrgMembership, invitationId: number): Promise<void> {
+  const invitations = await querySchemaTable<OrganizationInvitation>(
+    "01. Organization",
+    "organization_invitations",
+    {
+      where: { id: invitationId, organization_id: actor.organizationId },
+      limit: 1,
+    }
+  );
+  const invitation = invitations[0];
+  if (!invitation || !isPending(invitation)) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Invitation not found" });
+  }
+  assertCanAssignRole(actor, invitation.role);
+
+  await updateSchemaTable(
+    "01. Organization",
+    "organization_invitations",
+    { revoked_at: new Date() },
+    { id: invitationId }
+  );
+}
+
+async function getInvitationForToken(token: string): Promise<OrganizationInvitation> {
+  const payload = await verifyInvitationToken(token);
+  if (!payload) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "This invitation link is invalid or has expired",
+    });
+  }
+
+  const invitations = await querySchemaTable<OrganizationInvitation>(
+    "01. Organization",
+    "organization_invitations",
+    {
+      where: { id: payload.invitationId, organization_id: payload.organizationId },
+      limit: 1,
+    }
+  );
+  const invitation = invitations[0];
+  if (!invitation || !isPending(invitation)) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "This invitation has already been used, revoked or has expired",
+    });
+  }
+  return invitation;
+}
+
+/**
+ * Invitation summary for the accept page; readable without signing in
+ */
+export async function getInvitationDetails(token: string) {
+  const invitation = await getInvitationForToken(token);
+  const organizations = await querySchemaTable<{
+    organization_name: string;
+    display_name?: string | null;
+  }>(
+    "01. Organization",
+    "organizations",
+    {
+      select: "organization_name, display_name",
+      where: { id: invitation.organization_id },
+      limit: 1,
+    }
+  );
+  const organization = organizations[0];
+
+  return {
+    organizationName: organization?.display_name || organization?.organization_name || "Organization",
+    email: invitation.email,
+    role: invitation.role,
+    expiresAt: invitation.expires_at,
+  };
+}
+
+/**
+ * Link the signed-in Supabase user into the inviting organization
+ */
+export async function acceptInvitation(
+  user: { id: string; email?: string },
+  token: string
+): Promise<{ organizationId: number; role: InvitableRole }> {
+  const invitation = await getInvitationForToken(token);
+
+  if (!user.email || normalizeEmail(user.email) !== normalizeEmail(invitation.email)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`,
+    });
+  }
+
+  const memberships = await querySchemaTable<OrganizationUser>(
+    "01. Organization",
+    "organization_users",
+    {
+      where: { user_id: user.id },
+    }
+  );
+  const active = memberships.find((row) => !row.status || row.status === "active");
+  if (active && active.organization_id !== invitation.organization_id) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "Your account already belongs to another organization",
+    });
+  }
+
+  const now = new Date();
+  const existing = memberships.find((row) => row.organization_id === invitation.organization_id);
+  if (existing) {
+    await updateSchemaTable(
+      "01. Organization",
+      "organization_users",
+      { role: invitation.role, status: "active", updated_at: now },
+      { id: existing.id }
+    );
+  } else {
+    await insertSchemaTable(
+      "01. Organization",
+      "organization_users",
+      {
+        organization_id: invitation.organization_id,
+        user_id: user.id,
+        role: invitation.role,
+        status: "active",
+        email_notifications: true,
+        sms_notifications: false,
+        joined_at: now,
+        created_at: now,
+        updated_at: now,
+      }
+    );
+  }
+
+  await updateSchemaTable(
+    "01. Organization",
+    "organization_invitations",
+    { accepted_at: now, accepted_by: user.id },
+    { id: invitation.id }
+  );
+
+  return { organizationId: invitation.organization_id, role: invitation.role };
+}
+
+export async function changeMemberRole(
+  actor: OrgMembership,
+  userId: string,
+  role: InvitableRole
+): Promise<void> {
+  assertCanAssignRole(actor, role);
+  const member = await getManageableMember(actor, userId);
+
+  await updateSchemaTable(
+    "01. Organization",
+    "organization_users",
+    { role, updated_at: new Date() },
+    { id: member.id }
+  );
+}
+
+/**
+ * Deactivate a member. Their assigned leads go back to the unassigned queue.
+ */
+export async function removeMember(actor: OrgMembership, userId: string): Promise<void> {
+  const member = await getManageableMember(actor, userId);
+  if (member.role === "owner") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Transfer ownership before removing the owner",
+    });
+  }
+
+  await updateSchemaTable(
+    "01. Organization",
+    "organization_users",
+    { status: "removed", updated_at: new Date() },
+    { id: member.id }
+  );
+  await updateSchemaTable(
+    "02a. Dealership",
+    "leads",
+    { assigned_to: null, assigned_at: null },
+    { organization_id: actor.organizationId, assigned_to: userId }
+  );
+}
+
+/**
+ * Make another active member the owner; the current owner becomes an admin
+ */
+export async function transferOwnership(actor: OrgMembership, userId: string): Promise<void> {
+  if (!actor.userId) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Ownership can only be transferred by a signed-in owner",
+    });
+  }
+  if (actor.userId === userId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "You already own this organization" });
+  }
+  await getActiveMember(actor.organizationId, userId);
+
+  await callSchemaRPC(
+    "01. Organization",
+    "transfer_organization_ownership",
+    [actor.organizationId, actor.userId, userId],
+    false
+  );
+}
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { callSchemaRPC, querySchemaTable } from '../supabase-db';
+import { apiCache } from './api-cache';
+
+vi.hoisted(() => {
+  process.env.API_CACHE_BACKEND = 'postgres';
+});
+
+vi.mock('../supabase-db', () => ({
+  callSchemaRPC: vi.fn(),
+  querySchemaTable: vi.fn(),
+}));
+
+const since = new Date('2025-02-01T00:00:00Z');
+
+// api_cache_stats as another instance left it (bigint columns as strings)
+const storedRow = {
+  source: 'nhtsa',
+  hits: '30',
+  misses: '10',
+  writes: '10',
+  evictions: '0',
+  upstream_calls: '10',
+  upstream_errors: '1',
+  total_upstream_ms: '5000',
+  last_upstream_error: 'Request to NHTSA service timed out. Please try again.',
+  last_upstream_error_at: new Date('2025-02-02T00:00:00Z'),
+  created_at: since,
+};
+
+describe('apiCache stats', () => {
+  beforeEach(() => {
+    vi.mocked(callSchemaRPC).mockReset().mockResolvedValue([]);
+    vi.mocked(querySchemaTable).mockReset().mockImplementation(async (_schema, table) =>
+      table === 'api_cache_stats' ? [storedRow] : [{ count: 12 }]
+    );
+  });
+
+  it('adds the counts since the last flush to the stored totals', async () => {
+    await apiCache.get('nhtsa:1FTBW3XM5NKA12345');
+    await apiCache.trackUpstream('nhtsa', async () => ({}));
+
+    const stats = await apiCache.getStats();
+
+    expect(callSchemaRPC).toHaveBeenCalledWith(
+      '03. Vehicle Data',
+      'api_cache_add_stats',
+      ['nhtsa', 0, 1, 0, 0, 1, 0, expect.any(Number), null, null],
+      false
+    );
+    expect(stats).toMatchObject({ backend: 'postgres', entries: 12, since });
+    expect(stats.sources).toEqual([
+      expect.objectContaining({ source: 'nhtsa', hits: 30, misses: 10, hitRate: 75, upstreamErrors: 1, avgUpstreamMs: 500 }),
+    ]);
+  });
+
+  it('keeps counts that could not be saved for the next flush', async () => {
+    vi.mocked(callSchemaRPC).mockRejectedValue(new Error('connection refused'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await apiCache.get('epa:options:2020:RAM:ProMaster City');
+
+    await apiCache.flushStats();
+    const stats = await apiCache.getStats();
+
+    // Retried by the flush in getStats, and still reported while unsaved
+    const statsWrites = vi.mocked(callSchemaRPC).mock.calls.filter(([, fn]) => fn === 'api_cache_add_stats');
+    expect(statsWrites.map(([, , params]) => params?.slice(0, 3))).toEqual([
+      ['epa', 0, 1],
+      ['epa', 0, 1],
+    ]);
+    expect(stats.sources.find((source) => source.source === 'epa')).toMatchObject({ misses: 1, hitRate: 0 });
+  });
+});
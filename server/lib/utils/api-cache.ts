@@ -1,85 +1,486 @@
 /**
  * API Response Caching
- * Reduce redundant API calls and improve performance
+ * Reduce redundant API calls and improve performance.
+ * Values live in a pluggable backend (in-process LRU or a shared Postgres
+ * table); hits, misses, evictions and upstream latency/errors are counted per
+ * source (the key prefix, e.g. "nhtsa") for the Data Quality dashboard. The
+ * counts are added to the backend's totals periodically, so with Postgres
+ * they cover every instance and survive restarts.
  */
 
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  ttl: number;
+import { ENV } from '../../_core/env';
+import { callSchemaRPC, querySchemaTable } from '../supabase-db';
+
+const DEFAULT_MAX_ENTRIES = 50000;
+const DEFAULT_CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+const DEFAULT_STATS_FLUSH_INTERVAL_MS = 60 * 1000;
+
+export interface CacheBackend {
+  readonly name: 'memory' | 'postgres';
+  /** Unexpired values for the keys that are cached */
+  get(keys: string[]): Promise<Map<string, unknown>>;
+  set(key: string, value: unknown, expiresAt: Date): Promise<void>;
+  /** Remove expired entries and enforce the size limit */
+  prune(): Promise<void>;
+  size(): Promise<number>;
+  /** Add counts to a source's totals */
+  addCounters(source: string, counts: SourceCounters): Promise<void>;
+  /** Per-source totals, and when counting started */
+  loadCounters(): Promise<CounterTotals>;
+}
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * In-process cache. Map insertion order doubles as recency order: reads move
+ * an entry to the end, and the first entries are evicted past maxEntries.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory' as const;
+  private entries = new Map<string, MemoryEntry>();
+  private totals = new Map<string, SourceCounters>();
+  private since = new Date();
+
+  constructor(
+    private maxEntries: number,
+    private onEvict: (key: string) => void = () => {}
+  ) {}
+
+  async get(keys: string[]): Promise<Map<string, unknown>> {
+    const found = new Map<string, unknown>();
+    const now = Date.now();
+    for (const key of keys) {
+      const entry = this.entries.get(key);
+      if (!entry) continue;
+      this.entries.delete(key);
+      if (entry.expiresAt <= now) continue;
+      this.entries.set(key, entry);
+      found.set(key, entry.value);
+    }
+    return found;
+  }
+
+  async set(key: string, value: unknown, expiresAt: Date): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: expiresAt.getTime() });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.onEvict(oldest);
+    }
+  }
+
+  async prune(): Promise<void> {
+    const now = Date.now();
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+
+  async addCounters(source: string, counts: SourceCounters): Promise<void> {
+    this.totals.set(source, addCounters(this.totals.get(source) ?? emptyCounters(), counts));
+  }
+
+  async loadCounters(): Promise<CounterTotals> {
+    return { since: this.since, sources: new Map(this.totals) };
+  }
+}
+
+/**
+ * Cache shared between instances in "03. Vehicle Data".api_cache_entries.
+ * The size limit is enforced by prune(), so the table can briefly exceed it.
+ */
+export class PostgresCacheBackend implements CacheBackend {
+  readonly name = 'postgres' as const;
+
+  constructor(
+    private maxEntries: number,
+    private onEvict: (key: string) => void = () => {}
+  ) {}
+
+  async get(keys: string[]): Promise<Map<string, unknown>> {
+    if (keys.length === 0) return new Map();
+    const rows = (await callSchemaRPC<{ cache_key: string; value: unknown }>(
+      '03. Vehicle Data',
+      'api_cache_get',
+      [keys]
+    )) as Array<{ cache_key: string; value: unknown }>;
+    return new Map(rows.map((row) => [row.cache_key, row.value]));
+  }
+
+  async set(key: string, value: unknown, expiresAt: Date): Promise<void> {
+    await callSchemaRPC(
+      '03. Vehicle Data',
+      'api_cache_set',
+      [key, cacheSource(key), JSON.stringify(value), expiresAt],
+      false
+    );
+  }
+
+  async prune(): Promise<void> {
+    const evicted = (await callSchemaRPC<{ cache_key: string }>(
+      '03. Vehicle Data',
+      'api_cache_prune',
+      [this.maxEntries]
+    )) as Array<{ cache_key: string }>;
+    evicted.forEach((row) => this.onEvict(row.cache_key));
+  }
+
+  async size(): Promise<number> {
+    const [row] = await querySchemaTable<{ count: number }>('03. Vehicle Data', 'api_cache_entries', {
+      select: 'count(*)::int AS count',
+    });
+    return row?.count ?? 0;
+  }
+
+  async addCounters(source: string, counts: SourceCounters): Promise<void> {
+    await callSchemaRPC(
+      '03. Vehicle Data',
+      'api_cache_add_stats',
+      [
+        source,
+        counts.hits,
+        counts.misses,
+        counts.writes,
+        counts.evictions,
+        counts.upstreamCalls,
+        counts.upstreamErrors,
+        counts.totalUpstreamMs,
+        counts.lastUpstreamError,
+        counts.lastUpstreamErrorAt,
+      ],
+      false
+    );
+  }
+
+  async loadCounters(): Promise<CounterTotals> {
+    const rows = await querySchemaTable<CacheStatsRow>('03. Vehicle Data', 'api_cache_stats', {});
+    const sources = new Map<string, SourceCounters>();
+    let since: Date | null = null;
+    for (const row of rows) {
+      // bigint columns come back as strings
+      sources.set(row.source, {
+        hits: Number(row.hits),
+        misses: Number(row.misses),
+        writes: Number(row.writes),
+        evictions: Number(row.evictions),
+        upstreamCalls: Number(row.upstream_calls),
+        upstreamErrors: Number(row.upstream_errors),
+        totalUpstreamMs: Number(row.total_upstream_ms),
+        lastUpstreamError: row.last_upstream_error,
+        lastUpstreamErrorAt: row.last_upstream_error_at,
+      });
+      if (!since || row.created_at < since) {
+        since = row.created_at;
+      }
+    }
+    return { since: since ?? new Date(), sources };
+  }
+}
+
+interface CacheStatsRow {
+  source: string;
+  hits: string;
+  misses: string;
+  writes: string;
+  evictions: string;
+  upstream_calls: string;
+  upstream_errors: string;
+  total_upstream_ms: string;
+  last_upstream_error: string | null;
+  last_upstream_error_at: Date | null;
+  created_at: Date;
+}
+
+export interface CacheSourceStats {
+  source: string;
+  hits: number;
+  misses: number;
+  /** Percentage of lookups served from the cache */
+  hitRate: number;
+  writes: number;
+  evictions: number;
+  upstreamCalls: number;
+  upstreamErrors: number;
+  avgUpstreamMs: number;
+  lastUpstreamError: string | null;
+  lastUpstreamErrorAt: Date | null;
+}
+
+export interface APICacheStats {
+  backend: CacheBackend['name'];
+  /** null when the backend could not be reached */
+  entries: number | null;
+  maxEntries: number;
+  /** Cache reads and writes that failed and fell through to upstream (this process) */
+  backendErrors: number;
+  /** When the source counters started counting */
+  since: Date;
+  sources: CacheSourceStats[];
+}
+
+export type SourceCounters = Omit<CacheSourceStats, 'source' | 'hitRate' | 'avgUpstreamMs'> & {
+  totalUpstreamMs: number;
+};
+
+export interface CounterTotals {
+  since: Date;
+  sources: Map<string, SourceCounters>;
+}
+
+function emptyCounters(): SourceCounters {
+  return {
+    hits: 0,
+    misses: 0,
+    writes: 0,
+    evictions: 0,
+    upstreamCalls: 0,
+    upstreamErrors: 0,
+    totalUpstreamMs: 0,
+    lastUpstreamError: null,
+    lastUpstreamErrorAt: null,
+  };
+}
+
+function addCounters(total: SourceCounters, added: SourceCounters): SourceCounters {
+  const newerError =
+    added.lastUpstreamErrorAt !== null &&
+    (total.lastUpstreamErrorAt === null || added.lastUpstreamErrorAt > total.lastUpstreamErrorAt);
+  return {
+    hits: total.hits + added.hits,
+    misses: total.misses + added.misses,
+    writes: total.writes + added.writes,
+    evictions: total.evictions + added.evictions,
+    upstreamCalls: total.upstreamCalls + added.upstreamCalls,
+    upstreamErrors: total.upstreamErrors + added.upstreamErrors,
+    totalUpstreamMs: total.totalUpstreamMs + added.totalUpstreamMs,
+    lastUpstreamError: newerError ? added.lastUpstreamError : total.lastUpstreamError,
+    lastUpstreamErrorAt: newerError ? added.lastUpstreamErrorAt : total.lastUpstreamErrorAt,
+  };
+}
+
+function cacheSource(key: string): string {
+  return key.split(':')[0];
 }
 
 class APICache {
-  private cache: Map<string, CacheEntry<any>> = new Map();
-  
+  /** Counts not yet added to the backend's totals */
+  private counters = new Map<string, SourceCounters>();
+  private backendErrors = 0;
+
+  constructor(
+    private backend: CacheBackend,
+    readonly maxEntries: number
+  ) {}
+
+  /** Counters for a source, created on first use */
+  private counter(source: string): SourceCounters {
+    let counters = this.counters.get(source);
+    if (!counters) {
+      counters = emptyCounters();
+      this.counters.set(source, counters);
+    }
+    return counters;
+  }
+
   /**
    * Get cached value if valid
    */
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-    
-    // Check if expired
-    const now = Date.now();
-    if (now - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
-      return null;
+  async get<T>(key: string): Promise<T | null> {
+    const found = await this.getMany<T>([key]);
+    return found.get(key) ?? null;
+  }
+
+  /**
+   * Cached values for whichever of the keys are cached, in one backend call
+   */
+  async getMany<T>(keys: string[]): Promise<Map<string, T>> {
+    let found: Map<string, unknown>;
+    try {
+      found = await this.backend.get(keys);
+    } catch (error) {
+      // A broken cache must not break decoding; treat it as a miss
+      console.error(`[API Cache] ${this.backend.name} read failed:`, error);
+      this.backendErrors++;
+      found = new Map();
     }
-    
-    return entry.data as T;
+
+    for (const key of keys) {
+      const counters = this.counter(cacheSource(key));
+      if (found.has(key)) {
+        counters.hits++;
+      } else {
+        counters.misses++;
+      }
+    }
+    return found as Map<string, T>;
   }
-  
+
   /**
    * Set cache value with TTL
    */
-  set<T>(key: string, data: T, ttlMinutes: number = 60): void {
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl: ttlMinutes * 60 * 1000, // Convert to milliseconds
-    });
+  async set<T>(key: string, data: T, ttlMinutes: number = 60): Promise<void> {
+    try {
+      await this.backend.set(key, data, new Date(Date.now() + ttlMinutes * 60 * 1000));
+      this.counter(cacheSource(key)).writes++;
+    } catch (error) {
+      console.error(`[API Cache] ${this.backend.name} write failed:`, error);
+      this.backendErrors++;
+    }
   }
-  
+
   /**
-   * Clear cache
+   * Run an upstream API call, recording its latency and whether it failed
    */
-  clear(): void {
-    this.cache.clear();
+  async trackUpstream<T>(source: string, call: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    this.counter(source).upstreamCalls++;
+    // Counters are looked up again afterwards: a flush may have replaced them meanwhile
+    try {
+      return await call();
+    } catch (error: any) {
+      const counters = this.counter(source);
+      counters.upstreamErrors++;
+      counters.lastUpstreamError = error?.message || String(error);
+      counters.lastUpstreamErrorAt = new Date();
+      throw error;
+    } finally {
+      this.counter(source).totalUpstreamMs += Date.now() - startedAt;
+    }
+  }
+
+  recordEviction(key: string): void {
+    this.counter(cacheSource(key)).evictions++;
   }
-  
+
   /**
-   * Get cache size
+   * Remove expired entries and least recently used ones over the size limit
    */
-  size(): number {
-    return this.cache.size;
+  async cleanup(): Promise<void> {
+    await this.backend.prune();
   }
-  
+
   /**
-   * Remove expired entries
+   * Add the counts since the last flush to the backend's totals
    */
-  cleanup(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > entry.ttl) {
-        this.cache.delete(key);
+  async flushStats(): Promise<void> {
+    if (this.counters.size === 0) return;
+    const counts = this.counters;
+    this.counters = new Map();
+    for (const [source, added] of Array.from(counts.entries())) {
+      try {
+        await this.backend.addCounters(source, added);
+      } catch (error) {
+        console.error(`[API Cache] ${this.backend.name} stats write failed:`, error);
+        // Keep the counts for the next flush
+        this.counters.set(source, addCounters(added, this.counters.get(source) ?? emptyCounters()));
       }
     }
   }
+
+  async getStats(): Promise<APICacheStats> {
+    let entries: number | null = null;
+    try {
+      entries = await this.backend.size();
+    } catch (error) {
+      console.error(`[API Cache] ${this.backend.name} size check failed:`, error);
+    }
+
+    await this.flushStats();
+    let totals: CounterTotals = { since: new Date(), sources: new Map() };
+    try {
+      totals = await this.backend.loadCounters();
+    } catch (error) {
+      console.error(`[API Cache] ${this.backend.name} stats read failed:`, error);
+    }
+    // Counts that could not be flushed still belong in the totals
+    this.counters.forEach((pending, source) => {
+      totals.sources.set(source, addCounters(totals.sources.get(source) ?? emptyCounters(), pending));
+    });
+
+    const sources = Array.from(totals.sources.entries()).map(([source, { totalUpstreamMs, ...counters }]) => {
+      const lookups = counters.hits + counters.misses;
+      return {
+        source,
+        ...counters,
+        hitRate: lookups > 0 ? Math.round((counters.hits / lookups) * 100) : 0,
+        avgUpstreamMs: counters.upstreamCalls > 0 ? Math.round(totalUpstreamMs / counters.upstreamCalls) : 0,
+      };
+    });
+
+    return {
+      backend: this.backend.name,
+      entries,
+      maxEntries: this.maxEntries,
+      backendErrors: this.backendErrors,
+      since: totals.since,
+      sources,
+    };
+  }
+}
+
+function createAPICache(): APICache {
+  const maxEntries = Number(ENV.apiCacheMaxEntries) || DEFAULT_MAX_ENTRIES;
+  const backendName = ENV.apiCacheBackend || (ENV.databaseUrl ? 'postgres' : 'memory');
+  const onEvict = (key: string) => cache.recordEviction(key);
+  const backend =
+    backendName === 'postgres'
+      ? new PostgresCacheBackend(maxEntries, onEvict)
+      : new MemoryCacheBackend(maxEntries, onEvict);
+  const cache = new APICache(backend, maxEntries);
+  return cache;
 }
 
 // Export singleton instance
-export const apiCache = new APICache();
+export const apiCache = createAPICache();
 
 // Cache keys
 export const CACHE_KEYS = {
   nhtsa: (vin: string) => `nhtsa:${vin}`,
-  epa: (year: number, make: string, model: string) => `epa:${year}:${make}:${model}`,
+  epa: (year: number, make: string, model: string) => `epa:options:${year}:${make}:${model}`,
+  epaSelection: (organizationId: number, vin: string) => `epa:selection:${organizationId}:${vin}`,
 };
 
-// Run cleanup every 10 minutes
-if (typeof setInterval !== 'undefined') {
-  setInterval(() => {
-    apiCache.cleanup();
-  }, 10 * 60 * 1000);
+/**
+ * Periodically prune the cache; returns a function that stops the job
+ */
+export function startApiCacheCleanupJob(intervalMs: number = DEFAULT_CLEANUP_INTERVAL_MS): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await apiCache.cleanup();
+    } catch (error) {
+      console.error('[API Cache] Cleanup job failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
 }
 
+/**
+ * Periodically add the cache counters to the backend's totals; returns a
+ * function that stops the job
+ */
+export function startApiCacheStatsJob(intervalMs: number = DEFAULT_STATS_FLUSH_INTERVAL_MS): () => void {
+  const timer = setInterval(() => {
+    apiCache.flushStats().catch((error) => console.error('[API Cache] Stats job failed:', error));
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,55 @@
+/**
+ * Zod validation schema for dealer bodies & equipment
+ */
+
+import { z } from "zod";
+
+export const bodyEquipmentCategories = [
+  "box_body",
+  "flatbed",
+  "dump_body",
+  "refrigerated",
+  "service_body",
+  "stake_body",
+  "van_body",
+  "crane",
+  "liftgate",
+  "toolbox",
+  "ladder_rack",
+  "shelving",
+  "partition",
+  "other",
+] as const;
+
+export const bodyEquipmentSchema = z.object({
+  name: z.string(),
+  category: z.enum(bodyEquipmentCategories),
+  manufacturer: z.string().optional(),
+  model: z.string().optional(),
+  description: z.string().optional(),
+  msrp: z.number().optional(),
+  salePrice: z.number().optional(),
+  installationCost: z.number().optional(),
+  dimensions: z.string().optional(),
+  weight: z.number().optional(),
+  capacity: z.number().optional(),
+  material: z.string().optional(),
+  color: z.string().optional(),
+  compatibleChassisTypes: z.string().optional(),
+  compatibleMakes: z.string().optional(),
+  wheelbaseMin: z.number().optional(),
+  wheelbaseMax: z.number().optional(),
+  gvwrMin: z.number().optional(),
+  gvwrMax: z.number().optional(),
+  leadTimeDays: z.number().optional(),
+  stockStatus: z.enum(["in_stock", "backorder", "made_to_order", "discontinued"]).default("in_stock"),
+  installationTime: z.string().optional(),
+  installationRequirements: z.string().optional(),
+  warrantyYears: z.number().optional(),
+  warrantyDetails: z.string().optional(),
+  configurationOptions: z.string().optional(),
+  featuredImage: z.string().optional(),
+  status: z.enum(["live", "draft", "archived"]).default("draft"),
+});
+
+export type BodyEquipmentFormData = z.infer<typeof bodyEquipmentSchema>;
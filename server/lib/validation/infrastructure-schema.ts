@@ -0,0 +1,58 @@
+/**
+ * Zod validation schema for dealer charging infrastructure
+ */
+
+import { z } from "zod";
+
+export const chargingCategories = [
+  "level_1",
+  "level_2",
+  "dc_fast",
+  "depot_charger",
+  "portable",
+  "accessories",
+] as const;
+
+export const chargingInfrastructureSchema = z.object({
+  name: z.string(),
+  category: z.enum(chargingCategories),
+  manufacturer: z.string().optional(),
+  model: z.string().optional(),
+  description: z.string().optional(),
+  msrp: z.number().optional(),
+  salePrice: z.number().optional(),
+  installationCost: z.number().optional(),
+  inputVoltage: z.string().optional(),
+  outputPower: z.number().optional(),
+  outputCurrent: z.number().optional(),
+  efficiency: z.number().optional(),
+  connectorTypes: z.string().optional(),
+  numberOfPorts: z.number().default(1),
+  simultaneousCharging: z.boolean().default(false),
+  cableLength: z.number().optional(),
+  cableType: z.string().optional(),
+  installationType: z.enum(["wall_mount", "pedestal", "overhead", "portable"]).optional(),
+  installationRequirements: z.string().optional(),
+  electricalRequirements: z.string().optional(),
+  dimensions: z.string().optional(),
+  networkConnected: z.boolean().default(false),
+  paymentCapable: z.boolean().default(false),
+  loadManagement: z.boolean().default(false),
+  weatherRating: z.string().optional(),
+  certifications: z.string().optional(),
+  warrantyYears: z.number().optional(),
+  warrantyDetails: z.string().optional(),
+  leadTimeDays: z.number().optional(),
+  stockStatus: z.enum(["in_stock", "backorder", "made_to_order", "discontinued"]).default("in_stock"),
+  locationAddress: z.string().optional(),
+  locationCity: z.string().optional(),
+  locationState: z.string().optional(),
+  locationZipCode: z.string().optional(),
+  latitude: z.string().optional(),
+  longitude: z.string().optional(),
+  isPublicAccess: z.boolean().default(false),
+  featuredImage: z.string().optional(),
+  status: z.enum(["live", "draft", "archived"]).default("draft"),
+});
+
+export type ChargingInfrastructureFormData = z.infer<typeof chargingInfrastructureSchema>;
@@ -0,0 +1,47 @@
+/**
+ * Zod validation schema for bulk edits on a dealer's vehicle listings.
+ * One action is applied to every selected listing.
+ */
+
+import { z } from "zod";
+import { LISTING_STATUSES } from "@shared/listing-lifecycle";
+
+export const MAX_BULK_LISTINGS = 500;
+
+export const bulkListingActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("status"),
+    status: z.enum(LISTING_STATUSES),
+  }),
+  z.object({
+    type: z.literal("price"),
+    mode: z.enum(["amount", "percent"]),
+    // Negative values lower the price
+    value: z.number().refine((value) => value !== 0, "Enter a price adjustment"),
+  }),
+  z
+    .object({
+      type: z.literal("flags"),
+      isFeatured: z.boolean().optional(),
+      isHotDeal: z.boolean().optional(),
+      isClearance: z.boolean().optional(),
+    })
+    .refine(
+      (flags) => flags.isFeatured !== undefined || flags.isHotDeal !== undefined || flags.isClearance !== undefined,
+      "Choose at least one flag to change"
+    ),
+  z.object({
+    type: z.literal("location"),
+    locationId: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal("archive"),
+  }),
+]);
+
+export const bulkListingUpdateSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(MAX_BULK_LISTINGS),
+  action: bulkListingActionSchema,
+});
+
+export type BulkListingAction = z.infer<typeof bulkListingActionSchema>;
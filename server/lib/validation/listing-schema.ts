@@ -3,6 +3,16 @@
  */
 
 import { z } from "zod";
+import { validateVin } from "@shared/vin";
+
+/**
+ * 17-character VIN with a valid position-9 check digit
+ */
+export const vinSchema = z.string().superRefine((vin, ctx) => {
+  for (const error of validateVin(vin).errors) {
+    ctx.addIssue({ code: "custom", message: error.message });
+  }
+});
 
 export const listingSchema = z
   .object({
@@ -10,9 +20,7 @@ export const listingSchema = z
     listingType: z.enum(["stock_unit", "build_to_order"]),
 
     // Vehicle Data
-    vin: z.string().length(17).regex(/^[A-HJ-NPR-Z0-9]{17}$/, {
-      message: "VIN must be 17 characters and cannot contain I, O, or Q",
-    }),
+    vin: vinSchema,
     year: z
       .number()
       .int()
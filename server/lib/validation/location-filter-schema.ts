@@ -0,0 +1,18 @@
+/**
+ * Zod validation schema for "within N miles of ZIP" filtering
+ */
+
+import { z } from "zod";
+
+export const radiusMilesOptions = [25, 50, 100, 250, 500] as const;
+
+export const locationFilterSchema = z.object({
+  nearZip: z
+    .string()
+    .trim()
+    .regex(/^\d{5}$/, "Enter a 5-digit ZIP code")
+    .optional(),
+  radiusMiles: z.number().positive().max(3000).optional(),
+});
+
+export type LocationFilter = z.infer<typeof locationFilterSchema>;
@@ -0,0 +1,63 @@
+/**
+ * Zod validation schemas for buyer saved searches.
+ * Filters mirror the client's SearchFilters shape from useAdvancedListingSearch.
+ */
+
+import { z } from "zod";
+
+export const alertFrequencies = ["instant", "daily", "weekly", "none"] as const;
+
+const rangeSchema = z.tuple([z.number().nonnegative(), z.number().nonnegative()]);
+
+export const savedSearchFiltersSchema = z.object({
+  query: z.string().trim().max(200).optional(),
+  makes: z.array(z.string()).max(50).optional(),
+  years: z.tuple([z.number().int(), z.number().int()]).optional(),
+  priceRange: rangeSchema.optional(),
+  mileageRange: rangeSchema.optional(),
+  fuelTypes: z.array(z.string()).max(50).optional(),
+  bodyStyles: z.array(z.string()).max(50).optional(),
+  gvwrClasses: z.array(z.string()).max(8).optional(),
+  equipmentTypes: z.array(z.string()).max(50).optional(),
+  // Only the first location with a ZIP is used for radius matching
+  locations: z
+    .array(
+      z.object({
+        city: z.string().optional(),
+        state: z.string().optional(),
+        zip: z
+          .string()
+          .trim()
+          .regex(/^\d{5}$/, "Enter a 5-digit ZIP code")
+          .optional(),
+        radiusMiles: z.number().positive().max(3000),
+      })
+    )
+    .max(5)
+    .optional(),
+  conditions: z.array(z.string()).max(10).optional(),
+  features: z.array(z.string()).max(50).optional(),
+  sortBy: z.enum(["price_asc", "price_desc", "year_desc", "mileage_asc", "created_desc"]).optional(),
+});
+
+const savedSearchFieldsSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(120),
+  filters: savedSearchFiltersSchema,
+  alertFrequency: z.enum(alertFrequencies),
+  emailEnabled: z.boolean(),
+  inAppEnabled: z.boolean(),
+});
+
+export const savedSearchSchema = savedSearchFieldsSchema.extend({
+  alertFrequency: z.enum(alertFrequencies).default("daily"),
+  emailEnabled: z.boolean().default(true),
+  inAppEnabled: z.boolean().default(true),
+});
+
+// No defaults here, so omitted fields are left unchanged
+export const savedSearchUpdateSchema = savedSearchFieldsSchema.partial();
+
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
+export type SavedSearchInput = z.infer<typeof savedSearchSchema>;
+export type SavedSearchUpdate = z.infer<typeof savedSearchUpdateSchema>;
+export type AlertFrequency = (typeof alertFrequencies)[number];
@@ -0,0 +1,42 @@
+/**
+ * Zod validation schema for the public vehicle inventory search
+ */
+
+import { z } from "zod";
+import { locationFilterSchema } from "./location-filter-schema";
+
+export const vehicleSearchSorts = [
+  "newest",
+  "price_asc",
+  "price_desc",
+  "year_desc",
+  "year_asc",
+  "distance",
+] as const;
+
+export const vehicleSearchFiltersSchema = z.object({
+  query: z.string().trim().max(200).optional(),
+  makes: z.array(z.string()).max(50).optional(),
+  fuelTypes: z.array(z.string()).max(50).optional(),
+  bodyStyles: z.array(z.string()).max(50).optional(),
+  gvwrClasses: z.array(z.string()).max(8).optional(),
+  equipmentTypes: z.array(z.string()).max(50).optional(),
+  conditions: z.array(z.string()).max(10).optional(),
+  minYear: z.number().int().optional(),
+  maxYear: z.number().int().optional(),
+  minPrice: z.number().nonnegative().optional(),
+  maxPrice: z.number().nonnegative().optional(),
+  minMileage: z.number().int().nonnegative().optional(),
+  maxMileage: z.number().int().nonnegative().optional(),
+  ...locationFilterSchema.shape,
+});
+
+export const vehicleSearchSchema = vehicleSearchFiltersSchema.extend({
+  sort: z.enum(vehicleSearchSorts).default("newest"),
+  limit: z.number().int().min(1).max(100).default(24),
+  offset: z.number().int().min(0).default(0),
+});
+
+export type VehicleSearchFilters = z.infer<typeof vehicleSearchFiltersSchema>;
+export type VehicleSearchInput = z.infer<typeof vehicleSearchSchema>;
+export type VehicleSearchSort = (typeof vehicleSearchSorts)[number];
@@ -1,12 +1,24 @@
 import { z } from "zod";
 import { COOKIE_NAME } from "@shared/const";
+import { hasPermission } from "@shared/permissions";
+import { BUYER_TYPES, LISTING_STATUSES } from "@shared/listing-lifecycle";
+import { decodeVinOffline, validateVin, VIN_BATCH_MAX } from "@shared/vin";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { adminProcedure, dealerProcedure, orgProcedure, platformAdminProcedure, publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { userRouter } from "./routers/user";
 import { profileRouter } from "./routers/profile";
+import { teamRouter } from "./routers/team";
+import { savedSearchesRouter } from "./routers/saved-searches";
+import { notificationsRouter } from "./routers/notifications";
 import * as db from "./db";
 import { ENV } from "./_core/env";
+import { bodyEquipmentSchema } from "./lib/validation/body-equipment-schema";
+import { chargingInfrastructureSchema } from "./lib/validation/infrastructure-schema";
+import { vehicleSearchSchema } from "./lib/validation/vehicle-search-schema";
+import { locationFilterSchema } from "./lib/validation/location-filter-schema";
+import { bulkListingUpdateSchema } from "./lib/validation/listing-bulk-schema";
+import { vinSchema } from "./lib/validation/listing-schema";
 import type {
   VehicleListing,
   ListingImage,
@@ -15,11 +27,15 @@ import type {
   EquipmentConfig,
   CompleteConfiguration,
 } from "./lib/supabase-types";
+import type { EnrichedVehicleData } from "./lib/services/vehicle-data-enrichment";
 
 export const appRouter = router({
   system: systemRouter,
   user: userRouter,
   profile: profileRouter,
+  team: teamRouter,
+  savedSearches: savedSearchesRouter,
+  notifications: notificationsRouter,
   
   admin: router({
     vehicleDataStats: protectedProcedure
@@ -94,11 +110,12 @@ export const appRouter = router({
             decodedAt: c.enrichment_metadata?.decodedAt || c.created_at?.toISOString() || '',
           })) || [];
 
-        // Calculate cache hit rate (placeholder - would need to track this separately)
-        const cacheHitRate = 0; // TODO: Implement cache hit tracking
-        
-        // Calculate average decode time (placeholder)
-        const avgDecodeTime = 0; // TODO: Implement decode time tracking
+        // Cache and upstream counters, totalled across server instances with the Postgres backend
+        const { apiCache } = await import("./lib/utils/api-cache");
+        const cache = await apiCache.getStats();
+        const nhtsaStats = cache.sources.find((source) => source.source === "nhtsa");
+        const cacheHitRate = nhtsaStats?.hitRate ?? 0;
+        const avgDecodeTime = nhtsaStats?.avgUpstreamMs ?? 0;
 
         return {
           nhtsaCount,
@@ -110,9 +127,19 @@ export const appRouter = router({
           lowConfidence,
           cacheHitRate,
           avgDecodeTime,
+          cache,
           recentDecodes,
         };
       }),
+
+    /**
+     * VINs with active listings at more than one dealer
+     */
+    duplicateListings: platformAdminProcedure
+      .query(async () => {
+        const { findCrossDealerDuplicates } = await import("./lib/database/duplicate-listings");
+        return findCrossDealerDuplicates();
+      }),
   }),
   
   nhtsa: router({
@@ -123,24 +150,18 @@ export const appRouter = router({
         }).optional()
       )
       .query(async ({ input }) => {
-        const { getCommercialVehicleMakes, getNHTSAMakesCached } = await import('./lib/services/nhtsa-makes');
+        const { FALLBACK_COMMERCIAL_MAKES, getNHTSAMakesCached } = await import('./lib/services/nhtsa-makes');
         
         try {
           // For commercial vehicles, prefer truck makes
-          const makes = input?.vehicleType === 'truck' || !input?.vehicleType
-            ? await getCommercialVehicleMakes()
-            : await getNHTSAMakesCached(input.vehicleType);
+          const makes = await getNHTSAMakesCached(input?.vehicleType ?? 'truck');
           
           return { makes, source: 'nhtsa' };
         } catch (error: any) {
           console.error('Failed to fetch NHTSA makes:', error);
           // Return fallback makes
           return {
-            makes: [
-              'Ford', 'Freightliner', 'Isuzu', 'Hino', 'Mack', 'Peterbilt',
-              'Kenworth', 'Volvo', 'International', 'Mercedes-Benz', 'Ram',
-              'Chevrolet', 'GMC', 'Nissan', 'Toyota', 'Dodge'
-            ],
+            makes: FALLBACK_COMMERCIAL_MAKES,
             source: 'fallback',
           };
         }
@@ -394,15 +415,13 @@ export const appRouter = router({
         return await db.getFeaturedVehicles(input.limit);
       }),
 
+    // Faceted inventory search; filters, paging and facet counts are applied in the database
     search: publicProcedure
-      .input(
-        z.object({
-          query: z.string(),
-          limit: z.number().default(20),
-        })
-      )
+      .input(vehicleSearchSchema)
       .query(async ({ input }) => {
-        return await db.searchVehicles(input.query, input.limit);
+        const { searchVehicleListings } = await import("./lib/search/vehicle-search");
+        const { sort, limit, offset, ...filters } = input;
+        return await searchVehicleListings(filters, { sort, limit, offset });
       }),
 
     stats: publicProcedure.query(async () => {
@@ -442,16 +461,146 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    listByCompany: protectedProcedure
+    listByCompany: orgProcedure
+      .meta({ permission: "leads.view" })
       .input(
         z.object({
           companyId: z.number(),
           limit: z.number().optional(),
         })
       )
-      .query(async ({ input }) => {
+      .query(async ({ ctx, input }) => {
+        const { assertOrganizationAccess } = await import("./lib/database/dealer-context");
+        assertOrganizationAccess(ctx.org, input.companyId);
         return await db.getLeadsByCompany(input.companyId, input.limit);
       }),
+
+    /**
+     * Lead inbox for the current user's organization
+     */
+    inbox: orgProcedure
+      .meta({ permission: "leads.view" })
+      .input(
+        z.object({
+          status: z.enum(["new", "contacted", "qualified", "converted", "closed"]).optional(),
+          assignedTo: z.union([z.literal("me"), z.literal("unassigned"), z.string().uuid()]).optional(),
+          search: z.string().max(100).optional(),
+          followUpDue: z.boolean().optional(),
+          limit: z.number().int().min(1).max(100).default(25),
+          offset: z.number().int().min(0).default(0),
+        })
+      )
+      .query(async ({ ctx, input }) => {
+        const { listLeads } = await import("./lib/leads/pipeline");
+        return {
+          ...(await listLeads(ctx.org, input)),
+          currentUserId: ctx.org.userId,
+          role: ctx.org.role,
+        };
+      }),
+
+    get: orgProcedure
+      .meta({ permission: "leads.view" })
+      .input(z.object({ leadId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const { getLeadDetail } = await import("./lib/leads/pipeline");
+        return await getLeadDetail(ctx.org, input.leadId);
+      }),
+
+    /**
+     * Organization members who can be shown on or assigned leads
+     */
+    members: orgProcedure.meta({ permission: "leads.view" }).query(async ({ ctx }) => {
+      const { getOrganizationMembers } = await import("./lib/leads/pipeline");
+      return await getOrganizationMembers(ctx.org.organizationId);
+    }),
+
+    updateStatus: orgProcedure
+      .meta({ permission: "leads.update" })
+      .input(
+        z.object({
+          leadId: z.number(),
+          status: z.enum(["new", "contacted", "qualified", "converted", "closed"]),
+          note: z.string().max(2000).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { changeLeadStatus } = await import("./lib/leads/pipeline");
+        return await changeLeadStatus(ctx.org, input.leadId, input.status, input.note);
+      }),
+
+    assign: orgProcedure
+      .meta({ permission: "leads.assign" })
+      .input(
+        z.object({
+          leadId: z.number(),
+          userId: z.string().uuid().nullable(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { assignLead } = await import("./lib/leads/pipeline");
+        return await assignLead(ctx.org, input.leadId, input.userId);
+      }),
+
+    /**
+     * Take an unassigned lead (claim: true) or release your own (claim: false)
+     */
+    claim: orgProcedure
+      .meta({ permission: "leads.update" })
+      .input(
+        z.object({
+          leadId: z.number(),
+          claim: z.boolean(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { claimLead } = await import("./lib/leads/pipeline");
+        return await claimLead(ctx.org, input.leadId, input.claim);
+      }),
+
+    addNote: orgProcedure
+      .meta({ permission: "leads.update" })
+      .input(
+        z.object({
+          leadId: z.number(),
+          body: z.string().trim().min(1).max(5000),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { addLeadNote } = await import("./lib/leads/pipeline");
+        return await addLeadNote(ctx.org, input.leadId, input.body);
+      }),
+
+    scheduleFollowUp: orgProcedure
+      .meta({ permission: "leads.update" })
+      .input(
+        z.object({
+          leadId: z.number(),
+          dueAt: z.date(),
+          note: z.string().max(2000).optional(),
+          assignedTo: z.string().uuid().nullable().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { scheduleFollowUp } = await import("./lib/leads/pipeline");
+        return await scheduleFollowUp(ctx.org, input.leadId, input);
+      }),
+
+    completeFollowUp: orgProcedure
+      .meta({ permission: "leads.update" })
+      .input(z.object({ followUpId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { completeFollowUp } = await import("./lib/leads/pipeline");
+        return await completeFollowUp(ctx.org, input.followUpId);
+      }),
+
+    /**
+     * Open follow-ups due today or earlier for the current user
+     */
+    dueFollowUps: orgProcedure.meta({ permission: "leads.view" }).query(async ({ ctx }) => {
+      const { getDueFollowUps } = await import("./lib/leads/pipeline");
+      return await getDueFollowUps(ctx.org);
+    }),
   }),
 
   // Blog and content
@@ -506,19 +655,28 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input, ctx }) => {
-        await db.saveVehicle(ctx.user.id, input.vehicleId, input.notes);
+        if (!ctx.supabaseUser) {
+          throw new Error("Sign in to save vehicles");
+        }
+        await db.saveVehicle(ctx.supabaseUser.id, input.vehicleId, input.notes);
         return { success: true };
       }),
 
     unsave: protectedProcedure
       .input(z.object({ vehicleId: z.number() }))
       .mutation(async ({ input, ctx }) => {
-        await db.unsaveVehicle(ctx.user.id, input.vehicleId);
+        if (!ctx.supabaseUser) {
+          throw new Error("Sign in to save vehicles");
+        }
+        await db.unsaveVehicle(ctx.supabaseUser.id, input.vehicleId);
         return { success: true };
       }),
 
     list: protectedProcedure.query(async ({ ctx }) => {
-      return await db.getSavedVehicles(ctx.user.id);
+      if (!ctx.supabaseUser) {
+        return [];
+      }
+      return await db.getSavedVehicles(ctx.supabaseUser.id);
     }),
   }),
 
@@ -532,6 +690,7 @@ export const appRouter = router({
           minPrice: z.number().optional(),
           maxPrice: z.number().optional(),
           stockStatus: z.string().optional(),
+          ...locationFilterSchema.shape,
           limit: z.number().default(20),
           offset: z.number().default(0),
         })
@@ -567,6 +726,7 @@ export const appRouter = router({
           city: z.string().optional(),
           state: z.string().optional(),
           stockStatus: z.string().optional(),
+          ...locationFilterSchema.shape,
           limit: z.number().default(20),
           offset: z.number().default(0),
         })
@@ -623,7 +783,7 @@ export const appRouter = router({
   dealer: router({
     // Bodies & Equipment management
     bodies: router({
-      list: protectedProcedure
+      list: orgProcedure
         .input(
           z.object({
             category: z.string().optional(),
@@ -635,105 +795,49 @@ export const appRouter = router({
           })
         )
         .query(async ({ ctx, input }) => {
-          // Check if user is dealer or admin
-          if (ctx.user.role !== "dealer" && ctx.user.role !== "admin") {
-            throw new Error("Unauthorized");
-          }
-          
-          // Get user's company ID
-          const profile = await db.getUserById(ctx.user.id);
-          if (!profile?.companyId) {
-            throw new Error("No company associated with user");
-          }
-          
-          return await db.getDealerBodiesEquipment(profile.companyId, input);
+          return await db.getDealerBodiesEquipment(ctx.org.organizationId, input);
         }),
 
-      getById: protectedProcedure
+      getById: orgProcedure
         .input(z.object({ id: z.number() }))
         .query(async ({ ctx, input }) => {
-          if (ctx.user.role !== "dealer" && ctx.user.role !== "admin") {
-            throw new Error("Unauthorized");
-          }
-          
           const bodyEquipment = await db.getBodyEquipmentById(input.id);
-          const profile = await db.getUserById(ctx.user.id);
           
-          if (!bodyEquipment || !profile?.companyId || bodyEquipment.companyId !== profile.companyId) {
+          if (!bodyEquipment || bodyEquipment.companyId !== ctx.org.organizationId) {
             throw new Error("Unauthorized or body/equipment not found");
           }
           
           return bodyEquipment;
         }),
 
-      create: protectedProcedure
-        .input(
-          z.object({
-            name: z.string(),
-            category: z.enum([
-              "box_body",
-              "flatbed",
-              "dump_body",
-              "refrigerated",
-              "service_body",
-              "stake_body",
-              "van_body",
-              "crane",
-              "liftgate",
-              "toolbox",
-              "ladder_rack",
-              "shelving",
-              "partition",
-              "other"
-            ]),
-            manufacturer: z.string().optional(),
-            model: z.string().optional(),
-            description: z.string().optional(),
-            msrp: z.number().optional(),
-            salePrice: z.number().optional(),
-            installationCost: z.number().optional(),
-            dimensions: z.string().optional(),
-            weight: z.number().optional(),
-            capacity: z.number().optional(),
-            material: z.string().optional(),
-            color: z.string().optional(),
-            compatibleChassisTypes: z.string().optional(),
-            compatibleMakes: z.string().optional(),
-            wheelbaseMin: z.number().optional(),
-            wheelbaseMax: z.number().optional(),
-            gvwrMin: z.number().optional(),
-            gvwrMax: z.number().optional(),
-            leadTimeDays: z.number().optional(),
-            stockStatus: z.enum(["in_stock", "backorder", "made_to_order", "discontinued"]).default("in_stock"),
-            installationTime: z.string().optional(),
-            installationRequirements: z.string().optional(),
-            warrantyYears: z.number().optional(),
-            warrantyDetails: z.string().optional(),
-            configurationOptions: z.string().optional(),
-            featuredImage: z.string().optional(),
-            status: z.enum(["live", "draft", "archived"]).default("draft"),
-          })
-        )
+      create: orgProcedure
+        .meta({ permission: "listings.create" })
+        .input(bodyEquipmentSchema)
         .mutation(async ({ ctx, input }) => {
-          if (ctx.user.role !== "dealer" && ctx.user.role !== "admin") {
-            throw new Error("Unauthorized");
-          }
-          
-          const profile = await db.getUserById(ctx.user.id);
-          if (!profile?.companyId) {
-            throw new Error("No company associated with user");
+          if (input.status === "live") {
+            const { assertPermission } = await import("./lib/database/dealer-context");
+            assertPermission(ctx.org, "listings.publish");
           }
-          
+
           const bodyEquipmentId = await db.createBodyEquipment({
             ...input,
-            companyId: profile.companyId,
+            companyId: ctx.org.organizationId,
             isPublished: input.status === "live",
           });
+
+          const { recordRevision } = await import("./lib/database/listing-revisions");
+          await recordRevision("body_equipment", bodyEquipmentId, {
+            action: "create",
+            before: null,
+            after: await db.getBodyEquipmentById(bodyEquipmentId),
+            changedBy: ctx.org.userId,
+          });
           
           return { id: bodyEquipmentId, success: true };
         }),
 
-      update: protectedProcedure
+      update: orgProcedure
+        .meta({ permission: "listings.edit" })
         .input(
           z.object({
             id: z.number(),
@@ -783,51 +887,71 @@ export const appRouter = router({
           })
         )
         .mutation(async ({ ctx, input }) => {
-          if (ctx.user.role !== "dealer" && ctx.user.role !== "admin") {
-            throw new Error("Unauthorized");
-          }
-          
           const { id, ...updateData } = input;
           
           // Verify body/equipment belongs to dealer's company
           const bodyEquipment = await db.getBodyEquipmentById(id);
-          const profile = await db.getUserById(ctx.user.id);
           
-          if (!bodyEquipment || !profile?.companyId || bodyEquipment.companyId !== profile.companyId) {
+          if (!bodyEquipment || bodyEquipment.companyId !== ctx.org.organizationId) {
             throw new Error("Unauthorized or body/equipment not found");
           }
           
+          const { assertListingUpdateAllowed, hasPriceChange } = await import("./lib/database/listing-permissions");
+          assertListingUpdateAllowed(ctx.org, {
+            priceChanged: hasPriceChange([
+              [updateData.msrp, bodyEquipment.msrp],
+              [updateData.salePrice, bodyEquipment.salePrice],
+              [updateData.installationCost, bodyEquipment.installationCost],
+            ]),
+            fromStatus: bodyEquipment.status,
+            toStatus: updateData.status,
+            publishedStatus: "live",
+          });
+
           await db.updateBodyEquipment(id, {
             ...updateData,
             isPublished: updateData.status === "live" ? true : bodyEquipment.isPublished,
           });
+
+          const { recordRevision } = await import("./lib/database/listing-revisions");
+          await recordRevision("body_equipment", id, {
+            action: "update",
+            before: bodyEquipment,
+            after: await db.getBodyEquipmentById(id),
+            changedBy: ctx.org.userId,
+          });
           
           return { success: true };
         }),
 
-      delete: protectedProcedure
+      delete: orgProcedure
+        .meta({ permission: "listings.delete" })
         .input(z.object({ id: z.number() }))
         .mutation(async ({ ctx, input }) => {
-          if (ctx.user.role !== "dealer" && ctx.user.role !== "admin") {
-            throw new Error("Unauthorized");
-          }
-          
           // Verify body/equipment belongs to dealer's company
           const bodyEquipment = await db.getBodyEquipmentById(input.id);
-          const profile = await db.getUserById(ctx.user.id);
           
-          if (!bodyEquipment || !profile?.companyId || bodyEquipment.companyId !== profile.companyId) {
+          if (!bodyEquipment || bodyEquipment.companyId !== ctx.org.organizationId) {
             throw new Error("Unauthorized or body/equipment not found");
           }
           
-          await db.deleteBodyEquipment(input.id);
+          // Moves to the recycle bin; purged after RECYCLE_BIN_DAYS unless restored
+          await db.softDeleteBodyEquipment(input.id, ctx.org.userId);
+
+          const { recordRevision } = await import("./lib/database/listing-revisions");
+          await recordRevision("body_equipment", input.id, {
+            action: "delete",
+            before: bodyEquipment,
+            after: { ...bodyEquipment, deletedAt: new Date() },
+            changedBy: ctx.org.userId,
+          });
           return { success: true };
         }),
     }),
 
     // Charging Infrastructure management
     infrastructure: router({
-      list: protectedProcedure
+      list: orgProcedure
         .input(
           z.object({
             category: z.string().optional(),
@@ -839,101 +963,49 @@ export const appRouter = router({
           })
         )
         .query(async ({ ctx, input }) => {
-          // Check if user is dealer or admin
-          if (ctx.user.role !== "dealer" && ctx.user.role !== "admin") {
-            throw new Error("Unauthorized");
-          }
-          
-          // Get user's company ID
-          const profile = await db.getUserById(ctx.user.id);
-          if (!profile?.companyId) {
-            throw new Error("No company associated with user");
-          }
-          
-          return await db.getDealerInfrastructure(profile.companyId, input);
+          return await db.getDealerInfrastructure(ctx.org.organizationId, input);
         }),
 
-      getById: protectedProcedure
+      getById: orgProcedure
         .input(z.object({ id: z.number() }))
         .query(async ({ ctx, input }) => {
-          if (ctx.user.role !== "dealer" && ctx.user.role !== "admin") {
-            throw new Error("Unauthorized");
-          }
-          
           const infrastructure = await db.getChargingInfrastructureById(input.id);
-          const profile = await db.getUserById(ctx.user.id);
           
-          if (!infrastructure || !profile?.companyId || infrastructure.companyId !== profile.companyId) {
+          if (!infrastructure || infrastructure.companyId !== ctx.org.organizationId) {
             throw new Error("Unauthorized or infrastructure not found");
           }
           
           return infrastructure;
         }),
 
-      create: protectedProcedure
-        .input(
-          z.object({
-            name: z.string(),
-            category: z.enum(["level_1", "level_2", "dc_fast", "depot_charger", "portable", "accessories"]),
-            manufacturer: z.string().optional(),
-            model: z.string().optional(),
-            description: z.string().optional(),
-            msrp: z.number().optional(),
-            salePrice: z.number().optional(),
-            installationCost: z.number().optional(),
-            inputVoltage: z.string().optional(),
-            outputPower: z.number().optional(),
-            outputCurrent: z.number().optional(),
-            efficiency: z.number().optional(),
-            connectorTypes: z.string().optional(),
-            numberOfPorts: z.number().default(1),
-            simultaneousCharging: z.boolean().default(false),
-            cableLength: z.number().optional(),
-            cableType: z.string().optional(),
-            installationType: z.enum(["wall_mount", "pedestal", "overhead", "portable"]).optional(),
-            installationRequirements: z.string().optional(),
-            electricalRequirements: z.string().optional(),
-            dimensions: z.string().optional(),
-            networkConnected: z.boolean().default(false),
-            paymentCapable: z.boolean().default(false),
-            loadManagement: z.boolean().default(false),
-            weatherRating: z.string().optional(),
-            certifications: z.string().optional(),
-            warrantyYears: z.number().optional(),
-            warrantyDetails: z.string().optional(),
-            leadTimeDays: z.number().optional(),
-            stockStatus: z.enum(["in_stock", "backorder", "made_to_order", "discontinued"]).default("in_stock"),
-            locationAddress: z.string().optional(),
-            locationCity: z.string().optional(),
-            locationState: z.string().optional(),
-            locationZipCode: z.string().optional(),
-            latitude: z.string().optional(),
-            longitude: z.string().optional(),
-            isPublicAccess: z.boolean().default(false),
-            featuredImage: z.string().optional(),
-            status: z.enum(["live", "draft", "archived"]).default("draft"),
-          })
-        )
+      create: orgProcedure
+        .meta({ permission: "listings.create" })
+        .input(chargingInfrastructureSchema)
         .mutation(async ({ ctx, input }) => {
-          if (ctx.user.role !== "dealer" && ctx.user.role !== "admin") {
-            throw new Error("Unauthorized");
+          if (input.status === "live") {
+            const { assertPermission } = await import("./lib/database/dealer-context");
+            assertPermission(ctx.org, "listings.publish");
           }
-          
-          const profile = await db.getUserById(ctx.user.id);
-          if (!profile?.companyId) {
-            throw new Error("No company associated with user");
-          }
-          
+
           const infrastructureId = await db.createInfrastructure({
             ...input,
-            companyId: profile.companyId,
+            companyId: ctx.org.organizationId,
             isPublished: input.status === "live",
           });
+
+          const { recordRevision } = await import("./lib/database/listing-revisions");
+          await recordRevision("charging_infrastructure", infrastructureId, {
+            action: "create",
+            before: null,
+            after: await db.getChargingInfrastructureById(infrastructureId),
+            changedBy: ctx.org.userId,
+          });
           
           return { id: infrastructureId, success: true };
         }),
 
-      update: protectedProcedure
+      update: orgProcedure
+        .meta({ permission: "listings.edit" })
         .input(
           z.object({
             id: z.number(),
@@ -979,227 +1051,295 @@ export const appRouter = router({
           })
         )
         .mutation(async ({ ctx, input }) => {
-          if (ctx.user.role !== "dealer" && ctx.user.role !== "admin") {
-            throw new Error("Unauthorized");
-          }
-          
           const { id, ...updateData } = input;
           
           // Verify infrastructure belongs to dealer's company
           const infrastructure = await db.getChargingInfrastructureById(id);
-          const profile = await db.getUserById(ctx.user.id);
           
-          if (!infrastructure || !profile?.companyId || infrastructure.companyId !== profile.companyId) {
+          if (!infrastructure || infrastructure.companyId !== ctx.org.organizationId) {
             throw new Error("Unauthorized or infrastructure not found");
           }
           
+          const { assertListingUpdateAllowed, hasPriceChange } = await import("./lib/database/listing-permissions");
+          assertListingUpdateAllowed(ctx.org, {
+            priceChanged: hasPriceChange([
+              [updateData.msrp, infrastructure.msrp],
+              [updateData.salePrice, infrastructure.salePrice],
+              [updateData.installationCost, infrastructure.installationCost],
+            ]),
+            fromStatus: infrastructure.status,
+            toStatus: updateData.status,
+            publishedStatus: "live",
+          });
+
           await db.updateInfrastructure(id, {
             ...updateData,
             isPublished: updateData.status === "live" ? true : infrastructure.isPublished,
           });
+
+          const { recordRevision } = await import("./lib/database/listing-revisions");
+          await recordRevision("charging_infrastructure", id, {
+            action: "update",
+            before: infrastructure,
+            after: await db.getChargingInfrastructureById(id),
+            changedBy: ctx.org.userId,
+          });
           
           return { success: true };
         }),
 
-      delete: protectedProcedure
+      delete: orgProcedure
+        .meta({ permission: "listings.delete" })
         .input(z.object({ id: z.number() }))
         .mutation(async ({ ctx, input }) => {
-          if (ctx.user.role !== "dealer" && ctx.user.role !== "admin") {
-            throw new Error("Unauthorized");
-          }
-          
           // Verify infrastructure belongs to dealer's company
           const infrastructure = await db.getChargingInfrastructureById(input.id);
-          const profile = await db.getUserById(ctx.user.id);
           
-          if (!infrastructure || !profile?.companyId || infrastructure.companyId !== profile.companyId) {
+          if (!infrastructure || infrastructure.companyId !== ctx.org.organizationId) {
             throw new Error("Unauthorized or infrastructure not found");
           }
           
-          await db.deleteInfrastructure(input.id);
+          // Moves to the recycle bin; purged after RECYCLE_BIN_DAYS unless restored
+          await db.softDeleteInfrastructure(input.id, ctx.org.userId);
+
+          const { recordRevision } = await import("./lib/database/listing-revisions");
+          await recordRevision("charging_infrastructure", input.id, {
+            action: "delete",
+            before: infrastructure,
+            after: { ...infrastructure, deletedAt: new Date() },
+            changedBy: ctx.org.userId,
+          });
           return { success: true };
         }),
     }),
 
-    // Vehicle listings
-    listings: router({
+    // Deleted listings, bodies/equipment and charging infrastructure, kept for RECYCLE_BIN_DAYS
+    recycleBin: router({
+      list: dealerProcedure.query(async ({ ctx }) => {
+        const { listRecycleBin } = await import("./lib/database/recycle-bin");
+        return listRecycleBin({ dealerId: ctx.dealer.dealerId, organizationId: ctx.org.organizationId });
+      }),
+
+      restore: dealerProcedure
+        .meta({ permission: "listings.delete" })
+        .input(
+          z.object({
+            entityType: z.enum(["vehicle_listing", "body_equipment", "charging_infrastructure"]),
+            id: z.number(),
+          })
+        )
+        .mutation(async ({ ctx, input }) => {
+          const { restoreFromRecycleBin } = await import("./lib/database/recycle-bin");
+          const { before, after } = await restoreFromRecycleBin(input.entityType, input.id, {
+            dealerId: ctx.dealer.dealerId,
+            organizationId: ctx.org.organizationId,
+          });
+
+          const { recordRevision } = await import("./lib/database/listing-revisions");
+          await recordRevision(input.entityType, input.id, {
+            action: "update",
+            before,
+            after,
+            changedBy: ctx.org.userId,
+          });
+
+          return { success: true };
+        }),
+    }),
+
+    // Bulk inventory import/export
+    bulk: router({
       /**
-       * Get dealer's own listings
+       * Import a chunk of a CSV/XLSX inventory file.
+       * The client calls this repeatedly with nextOffset until it is null.
        */
-      list: protectedProcedure
+      import: dealerProcedure
+        .meta({ permission: "listings.create" })
         .input(
           z.object({
-            status: z.enum(["draft", "available", "pending", "sold", "archived"]).optional(),
-            limit: z.number().default(50),
-            offset: z.number().default(0),
-          }).optional()
+            entityType: z.enum(["vehicles", "bodies", "infrastructure"]),
+            fileName: z.string().min(1),
+            data: z.string().min(1), // Base64-encoded file contents
+            dryRun: z.boolean().default(false),
+            offset: z.number().int().min(0).default(0),
+            limit: z.number().int().min(1).max(100).default(25),
+          })
         )
-        .query(async ({ ctx, input }) => {
-          const { getSupabaseClient } = await import("./_core/supabase");
-          const { querySchemaTable } = await import("./lib/supabase-db");
-          const supabase = getSupabaseClient();
+        .mutation(async ({ ctx, input }) => {
+          const { importInventoryFile } = await import("./lib/bulk/import");
 
-          // Get dealer ID from context
-          let dealerId: number | null = null;
-          
-          if (ctx.supabaseUser) {
-            // Get dealer ID from Supabase user
-            const { data, error } = await supabase.rpc('get_user_dealer_id');
-            if (!error && data) {
-              dealerId = data;
-            }
-          } else if (ctx.user) {
-            // Get dealer ID from OAuth user
-            const profile = await db.getUserById(ctx.user.id);
-            if (profile?.companyId) {
-              const dealers = await querySchemaTable<{ id: number }>(
-                "02a. Dealership",
-                "dealers",
-                {
-                  where: { organization_id: profile.companyId },
-                  limit: 1,
-                }
-              );
-              if (dealers.length > 0) {
-                dealerId = dealers[0].id;
-              }
-            }
-          }
+          const file = Buffer.from(input.data, "base64");
 
-          if (!dealerId) {
-            throw new Error("Dealer record not found");
-          }
+          return await importInventoryFile(input.entityType, input.fileName, file, ctx.dealer, {
+            dryRun: input.dryRun,
+            offset: input.offset,
+            limit: input.limit,
+            canPublish: hasPermission(ctx.org.role, "listings.publish"),
+            userId: ctx.org.userId,
+          });
+        }),
 
-          // Query listings for this dealer
-          const whereClause: Record<string, any> = { dealer_id: dealerId };
-          if (input?.status) {
-            whereClause.status = input.status;
-          }
+      /**
+       * Blank CSV template with the headers the importer recognises
+       */
+      template: orgProcedure
+        .input(z.object({ entityType: z.enum(["vehicles", "bodies", "infrastructure"]) }))
+        .query(async ({ input }) => {
+          const { getImportTemplateHeaders } = await import("./lib/bulk/import");
+          const { writeSpreadsheet } = await import("./lib/bulk/spreadsheet");
 
-          const listings = await querySchemaTable<VehicleListing>(
-            "02a. Dealership",
-            "vehicle_listings",
-            {
-              where: whereClause,
-              orderBy: { column: "created_at", ascending: false },
-              limit: input?.limit || 50,
-              offset: input?.offset || 0,
-            }
-          );
+          const csv = writeSpreadsheet(getImportTemplateHeaders(input.entityType), [], "csv");
+          return {
+            fileName: `${input.entityType}-import-template.csv`,
+            content: csv.toString("utf8"),
+          };
+        }),
 
-          // Enrich with vehicle and configuration data
-          const enrichedListings = await Promise.all(
-            listings.map(async (listing) => {
-              // Get complete configuration
-              const configs = await querySchemaTable<CompleteConfiguration>(
-                "05. Completed Unit Configuration",
-                "complete_configurations",
-                {
-                  where: { id: listing.complete_configuration_id },
-                  limit: 1,
-                }
-              );
+      /**
+       * Export the dealer's inventory in a format the importer accepts
+       */
+      export: dealerProcedure
+        .input(
+          z.object({
+            entityType: z.enum(["vehicles", "bodies", "infrastructure"]),
+            format: z.enum(["csv", "xlsx", "json"]).default("csv"),
+          })
+        )
+        .query(async ({ ctx, input }) => {
+          const { exportInventory } = await import("./lib/bulk/export");
 
-              if (configs.length === 0) {
-                return { ...listing, vehicle: null, config: null };
-              }
+          return await exportInventory(input.entityType, input.format, ctx.dealer);
+        }),
+    }),
 
-              const config = configs[0];
+    // Inventory and lead analytics
+    analytics: router({
+      /**
+       * Headline metrics, lead sources, locations, aging and top listings
+       */
+      overview: dealerProcedure
+        .input(z.object({ days: z.number().int().min(1).max(365).default(30) }))
+        .query(async ({ ctx, input }) => {
+          const analytics = await import("./lib/analytics/dealer-analytics");
 
-              // Get vehicle config
-              const vehicleConfigs = await querySchemaTable<VehicleConfig>(
-                "03. Vehicle Data",
-                "vehicle_config",
-                {
-                  where: { id: config.vehicle_config_id },
-                  limit: 1,
-                }
-              );
+          const { dealerId } = ctx.dealer;
 
-              if (vehicleConfigs.length === 0) {
-                return { ...listing, vehicle: null, config };
-              }
+          const range = analytics.getRangeForDays(input.days);
+          const [listings, leadSources] = await Promise.all([
+            analytics.getListingPerformance(dealerId, range),
+            analytics.getLeadSources(dealerId, range),
+          ]);
 
-              const vehicleConfig = vehicleConfigs[0];
+          return {
+            range,
+            overview: analytics.buildOverview(listings, leadSources.total),
+            leadSources: leadSources.sources,
+            locations: analytics.groupByLocation(listings),
+            inventoryAging: analytics.getInventoryAging(listings),
+            topListings: [...listings]
+              .sort((a, b) => b.periodLeads - a.periodLeads || b.periodViews - a.periodViews)
+              .slice(0, 10),
+          };
+        }),
 
-              // Get vehicle
-              const vehicles = await querySchemaTable<Vehicle>(
-                "03. Vehicle Data",
-                "vehicle",
-                {
-                  where: { id: vehicleConfig.vehicle_id },
-                  limit: 1,
-                }
-              );
+      /**
+       * Daily views and leads for charting
+       */
+      timeSeries: dealerProcedure
+        .input(z.object({ days: z.number().int().min(1).max(365).default(30) }))
+        .query(async ({ ctx, input }) => {
+          const { getDailyActivity, getRangeForDays } = await import("./lib/analytics/dealer-analytics");
 
-              const vehicle = vehicles.length > 0 ? vehicles[0] : null;
+          const { dealerId } = ctx.dealer;
 
-              // Get images
-              const images = await querySchemaTable<ListingImage>(
-                "02a. Dealership",
-                "listing_images",
-                {
-                  where: { listing_id: listing.id },
-                  orderBy: { column: "sort_order", ascending: true },
-                }
-              );
+          return await getDailyActivity(dealerId, getRangeForDays(input.days));
+        }),
 
-              return {
-                ...listing,
-                vehicle,
-                vehicleConfig,
-                config,
-                images: images.map(img => ({
-                  id: img.id,
-                  url: img.image_url,
-                  sortOrder: img.sort_order,
-                  isPrimary: img.is_primary,
-                })),
-              };
-            })
-          );
+      /**
+       * Per-listing performance for the full inventory
+       */
+      listings: dealerProcedure
+        .input(
+          z.object({
+            days: z.number().int().min(1).max(365).default(30),
+            sortBy: z.enum(["periodViews", "periodLeads", "conversionRate", "daysOnMarket", "favoriteCount"]).default("periodViews"),
+          })
+        )
+        .query(async ({ ctx, input }) => {
+          const { getListingPerformance, getRangeForDays } = await import("./lib/analytics/dealer-analytics");
 
-          return enrichedListings;
+          const { dealerId } = ctx.dealer;
+
+          const listings = await getListingPerformance(dealerId, getRangeForDays(input.days));
+          return listings.sort((a, b) => b[input.sortBy] - a[input.sortBy]);
         }),
+    }),
 
+    // Vehicle listings
+    listings: router({
       /**
-       * Get single listing by ID (dealer must own it)
+       * Get dealer's own listings
        */
-      getById: protectedProcedure
-        .input(z.object({ id: z.number() }))
+      list: dealerProcedure
+        .input(
+          z.object({
+            status: z.enum(LISTING_STATUSES).optional(),
+            limit: z.number().default(50),
+            offset: z.number().default(0),
+          }).optional()
+        )
         .query(async ({ ctx, input }) => {
-          const { getSupabaseClient } = await import("./_core/supabase");
           const { querySchemaTable } = await import("./lib/supabase-db");
-          const supabase = getSupabaseClient();
+          const { dealerId } = ctx.dealer;
 
-          // Get dealer ID from context
-          let dealerId: number | null = null;
-          
-          if (ctx.supabaseUser) {
-            const { data, error } = await supabase.rpc('get_user_dealer_id');
-            if (!error && data) {
-              dealerId = data;
-            }
-          } else if (ctx.user) {
-            const profile = await db.getUserById(ctx.user.id);
-            if (profile?.companyId) {
-              const dealers = await querySchemaTable<{ id: number }>(
-                "02a. Dealership",
-                "dealers",
-                {
-                  where: { organization_id: profile.companyId },
-                  limit: 1,
-                }
-              );
-              if (dealers.length > 0) {
-                dealerId = dealers[0].id;
-              }
+          // Query listings for this dealer
+          const whereClause: Record<string, any> = { dealer_id: dealerId };
+          if (input?.status) {
+            whereClause.status = input.status;
+          }
+
+          const listings = await querySchemaTable<VehicleListing>(
+            "02a. Dealership",
+            "vehicle_listings",
+            {
+              where: whereClause,
+              whereNull: ["deleted_at"],
+              orderBy: { column: "created_at", ascending: false },
+              limit: input?.limit || 50,
+              offset: input?.offset || 0,
             }
-          }
+          );
 
-          if (!dealerId) {
-            throw new Error("Dealer record not found");
-          }
+          // Enrich with vehicle and configuration data in a fixed number of queries
+          const { hydrateListings } = await import("./lib/database/listing-loader");
+          const hydrated = await hydrateListings(listings);
+
+          const enrichedListings = hydrated.map((item) => ({
+            ...item.listing,
+            vehicle: item.vehicle,
+            vehicleConfig: item.vehicleConfig,
+            config: item.config,
+            equipment: item.equipment,
+            equipmentConfig: item.equipmentConfig,
+            images: item.images.map(img => ({
+              id: img.id,
+              url: img.image_url,
+              sortOrder: img.sort_order,
+              isPrimary: img.is_primary,
+            })),
+          }));
+
+          return enrichedListings;
+        }),
+
+      /**
+       * Get single listing by ID (dealer must own it)
+       */
+      getById: dealerProcedure
+        .input(z.object({ id: z.number() }))
+        .query(async ({ ctx, input }) => {
+          const { querySchemaTable } = await import("./lib/supabase-db");
+          const { dealerId } = ctx.dealer;
 
           // Get listing
           const listings = await querySchemaTable<VehicleListing>(
@@ -1207,6 +1347,7 @@ export const appRouter = router({
             "vehicle_listings",
             {
               where: { id: input.id, dealer_id: dealerId },
+              whereNull: ["deleted_at"],
               limit: 1,
             }
           );
@@ -1304,14 +1445,171 @@ export const appRouter = router({
           };
         }),
 
-      create: protectedProcedure
+      /**
+       * Every price the listing has had, with the member who set it
+       */
+      priceHistory: dealerProcedure
+        .input(z.object({ id: z.number() }))
+        .query(async ({ ctx, input }) => {
+          const { querySchemaTable } = await import("./lib/supabase-db");
+          const { getPriceHistory } = await import("./lib/database/listing-price-history");
+          const { getOrganizationMembers } = await import("./lib/leads/pipeline");
+
+          const listings = await querySchemaTable<VehicleListing>(
+            "02a. Dealership",
+            "vehicle_listings",
+            {
+              select: "id",
+              where: { id: input.id, dealer_id: ctx.dealer.dealerId },
+              whereNull: ["deleted_at"],
+              limit: 1,
+            }
+          );
+
+          if (listings.length === 0) {
+            throw new Error("Listing not found or unauthorized");
+          }
+
+          const [history, members] = await Promise.all([
+            getPriceHistory(input.id),
+            getOrganizationMembers(ctx.org.organizationId),
+          ]);
+          const names = new Map(members.map((member) => [member.userId, member.name || member.email]));
+
+          return history.map((point) => ({
+            ...point,
+            changedByName: point.changedBy ? names.get(point.changedBy) ?? null : null,
+          }));
+        }),
+
+      /**
+       * Audit log of every change to the listing, newest first
+       */
+      revisions: dealerProcedure
+        .input(z.object({ id: z.number() }))
+        .query(async ({ ctx, input }) => {
+          const { querySchemaTable } = await import("./lib/supabase-db");
+          const { listRevisions } = await import("./lib/database/listing-revisions");
+          const { getOrganizationMembers } = await import("./lib/leads/pipeline");
+
+          const listings = await querySchemaTable<VehicleListing>(
+            "02a. Dealership",
+            "vehicle_listings",
+            {
+              select: "id",
+              where: { id: input.id, dealer_id: ctx.dealer.dealerId },
+              whereNull: ["deleted_at"],
+              limit: 1,
+            }
+          );
+
+          if (listings.length === 0) {
+            throw new Error("Listing not found or unauthorized");
+          }
+
+          const [revisions, members] = await Promise.all([
+            listRevisions("vehicle_listing", input.id),
+            getOrganizationMembers(ctx.org.organizationId),
+          ]);
+          const names = new Map(members.map((member) => [member.userId, member.name || member.email]));
+
+          return revisions.map((revision) => ({
+            id: revision.id,
+            revision: revision.revision,
+            action: revision.action,
+            changes: revision.changes,
+            revertedFromRevision: revision.reverted_from_revision ?? null,
+            changedBy: revision.changed_by ?? null,
+            changedByName: revision.changed_by ? names.get(revision.changed_by) ?? null : null,
+            createdAt: revision.created_at,
+          }));
+        }),
+
+      /**
+       * Restore a listing's details and prices to how they were at a revision.
+       * Status is not reverted; use the lifecycle actions for that.
+       */
+      revert: dealerProcedure
+        .meta({ permission: "listings.edit" })
+        .input(z.object({ id: z.number(), revision: z.number().int().positive() }))
+        .mutation(async ({ ctx, input }) => {
+          const { querySchemaTable, updateSchemaTable } = await import("./lib/supabase-db");
+          const { getRevision, listingRevertColumns, recordRevision } = await import("./lib/database/listing-revisions");
+
+          const listings = await querySchemaTable<VehicleListing>(
+            "02a. Dealership",
+            "vehicle_listings",
+            {
+              where: { id: input.id, dealer_id: ctx.dealer.dealerId },
+              whereNull: ["deleted_at"],
+              limit: 1,
+            }
+          );
+
+          if (listings.length === 0) {
+            throw new Error("Listing not found or unauthorized");
+          }
+
+          const existingListing = listings[0];
+          const target = await getRevision("vehicle_listing", input.id, input.revision);
+          if (!target) {
+            throw new Error("Revision not found");
+          }
+
+          const revertData = listingRevertColumns(existingListing, target);
+          if (Object.keys(revertData).length === 0) {
+            throw new Error("The listing already matches this revision");
+          }
+
+          const { assertListingUpdateAllowed, hasPriceChange } = await import("./lib/database/listing-permissions");
+          assertListingUpdateAllowed(ctx.org, {
+            priceChanged: hasPriceChange([
+              [revertData.asking_price as number | undefined, existingListing.asking_price],
+              [revertData.special_price as number | null | undefined, existingListing.special_price],
+            ]),
+            publishedStatus: "available",
+          });
+
+          const revertedListing = await updateSchemaTable<VehicleListing>(
+            "02a. Dealership",
+            "vehicle_listings",
+            revertData,
+            { id: input.id }
+          );
+
+          await recordRevision("vehicle_listing", input.id, {
+            action: "revert",
+            before: existingListing,
+            after: revertedListing,
+            changedBy: ctx.org.userId,
+            revertedFromRevision: input.revision,
+          });
+
+          if ("asking_price" in revertData || "special_price" in revertData) {
+            const { recordPriceChange } = await import("./lib/database/listing-price-history");
+            await recordPriceChange(
+              input.id,
+              { askingPrice: existingListing.asking_price, specialPrice: existingListing.special_price },
+              { askingPrice: revertedListing.asking_price, specialPrice: revertedListing.special_price },
+              { changedBy: ctx.org.userId, source: "update", listingTitle: existingListing.listing_title }
+            );
+          }
+
+          return { success: true };
+        }),
+
+      create: orgProcedure
+        .meta({ permission: "listings.create" })
         .input(
           z.object({
             listingType: z.enum(["stock_unit", "build_to_order"]).optional(),
-            vin: z.string().optional().refine(
-              (val) => !val || val.length === 0 || (val.length === 17 && /^[A-HJ-NPR-Z0-9]{17}$/.test(val)),
-              { message: "VIN must be 17 characters and cannot contain I, O, or Q" }
-            ),
+            // Optional for build-to-order units; checked like listingSchema when present
+            vin: z.string().optional().superRefine((val, ctx) => {
+              if (!val) return;
+              for (const error of validateVin(val).errors) {
+                ctx.addIssue({ code: "custom", message: error.message });
+              }
+            }),
             year: z.number().int().min(2000).max(new Date().getFullYear() + 1).optional().nullable(),
             make: z.string().optional(),
             model: z.string().optional(),
@@ -1681,17 +1979,20 @@ export const appRouter = router({
             console.warn('[createListing] Profile incomplete but proceeding:', missingItems);
           }
 
-          // Check if VIN was decoded (get enriched data from cache)
+          // Check if VIN was decoded (get enriched data from cache, including
+          // any EPA configuration this organization picked)
           let enrichedData: any = null;
           if (input.vin) {
-            const { apiCache, CACHE_KEYS } = await import("./lib/utils/api-cache");
-            const cacheKey = CACHE_KEYS.nhtsa(input.vin);
-            enrichedData = apiCache.get(cacheKey);
+            const { getCachedEnrichment } = await import("./lib/services/vehicle-data-enrichment");
+            enrichedData = await getCachedEnrichment(input.vin, ctx.org.organizationId);
           }
 
           // Pass enriched data through the entire creation flow
           try {
-            const result = await createListingFromDealerInput(supabase, dealerId, input, enrichedData);
+            const result = await createListingFromDealerInput(supabase, dealerId, input, enrichedData, {
+              canPublish: hasPermission(ctx.org.role, "listings.publish"),
+              createdBy: ctx.org.userId,
+            });
 
             if (!result.success) {
               // Provide more user-friendly error messages
@@ -1788,7 +2089,8 @@ export const appRouter = router({
       /**
        * Update existing listing
        */
-      update: protectedProcedure
+      update: dealerProcedure
+        .meta({ permission: "listings.edit" })
         .input(
           z.object({
             id: z.number(),
@@ -1802,7 +2104,9 @@ export const appRouter = router({
             description: z.string().optional(),
             locationCity: z.string().optional(),
             locationState: z.string().optional(),
-            status: z.enum(["draft", "available", "pending", "sold", "archived"]).optional(),
+            status: z.enum(LISTING_STATUSES).optional(),
+            // Drafts only; null clears the schedule
+            scheduledPublishAt: z.date().nullable().optional(),
             photos: z.array(z.string().url()).optional(),
           })
           .refine(
@@ -1822,38 +2126,8 @@ export const appRouter = router({
           // since we need to check the existing listing's condition
         )
         .mutation(async ({ ctx, input }) => {
-          const { getSupabaseClient } = await import("./_core/supabase");
           const { querySchemaTable, updateSchemaTable, deleteSchemaTable } = await import("./lib/supabase-db");
-          const supabase = getSupabaseClient();
-
-          // Get dealer ID from context
-          let dealerId: number | null = null;
-          
-          if (ctx.supabaseUser) {
-            const { data, error } = await supabase.rpc('get_user_dealer_id');
-            if (!error && data) {
-              dealerId = data;
-            }
-          } else if (ctx.user) {
-            const profile = await db.getUserById(ctx.user.id);
-            if (profile?.companyId) {
-              const dealers = await querySchemaTable<{ id: number }>(
-                "02a. Dealership",
-                "dealers",
-                {
-                  where: { organization_id: profile.companyId },
-                  limit: 1,
-                }
-              );
-              if (dealers.length > 0) {
-                dealerId = dealers[0].id;
-              }
-            }
-          }
-
-          if (!dealerId) {
-            throw new Error("Dealer record not found");
-          }
+          const { dealerId } = ctx.dealer;
 
           // Verify listing belongs to dealer
           const listings = await querySchemaTable<VehicleListing>(
@@ -1861,6 +2135,7 @@ export const appRouter = router({
             "vehicle_listings",
             {
               where: { id: input.id, dealer_id: dealerId },
+              whereNull: ["deleted_at"],
               limit: 1,
             }
           );
@@ -1879,6 +2154,37 @@ export const appRouter = router({
             throw new Error("Mileage is required when setting condition to used or certified pre-owned");
           }
 
+          const { assertListingUpdateAllowed, hasPriceChange } = await import("./lib/database/listing-permissions");
+          assertListingUpdateAllowed(ctx.org, {
+            priceChanged: hasPriceChange([
+              [input.askingPrice, existingListing.asking_price],
+              [input.specialPrice, existingListing.special_price],
+            ]),
+            fromStatus: existingListing.listing_status,
+            toStatus: input.status,
+            publishedStatus: "available",
+          });
+
+          const { assertListingTransition, transitionColumns } = await import("./lib/database/listing-lifecycle");
+          const fromStatus = existingListing.listing_status;
+          const toStatus = input.status ?? fromStatus;
+          assertListingTransition(fromStatus, toStatus);
+          if (toStatus === "sold" && fromStatus !== "sold") {
+            throw new Error("Use Mark as Sold to record the sale price and buyer type");
+          }
+
+          // Scheduling a go-live date is publishing in advance
+          if (input.scheduledPublishAt) {
+            const { assertPermission } = await import("./lib/database/dealer-context");
+            assertPermission(ctx.org, "listings.publish");
+            if (toStatus !== "draft") {
+              throw new Error("Only draft listings can be scheduled to publish");
+            }
+            if (input.scheduledPublishAt.getTime() <= Date.now()) {
+              throw new Error("Scheduled publish date must be in the future");
+            }
+          }
+
           // Validate special price is less than asking price
           const askingPrice = input.askingPrice ?? existingListing.asking_price;
           if (input.specialPrice && askingPrice && input.specialPrice >= askingPrice) {
@@ -1899,16 +2205,44 @@ export const appRouter = router({
           if (input.description !== undefined) updateData.description = input.description;
           if (input.locationCity !== undefined) updateData.location_city = input.locationCity;
           if (input.locationState !== undefined) updateData.location_state = input.locationState;
-          if (input.status !== undefined) updateData.status = input.status;
+          if (input.scheduledPublishAt !== undefined) updateData.scheduled_publish_at = input.scheduledPublishAt;
+          Object.assign(updateData, transitionColumns(fromStatus, toStatus));
+
+          // Any edit to a live listing counts as the dealer confirming it is still for sale
+          if (toStatus === "available" || toStatus === "pending") {
+            updateData.last_refreshed_at = new Date();
+          }
 
           // Update listing
-          await updateSchemaTable(
+          const updatedListing = await updateSchemaTable<VehicleListing>(
             "02a. Dealership",
             "vehicle_listings",
             updateData,
             { id: input.id }
           );
 
+          const { recordRevision } = await import("./lib/database/listing-revisions");
+          await recordRevision("vehicle_listing", input.id, {
+            action: "update",
+            before: existingListing,
+            after: updatedListing,
+            changedBy: ctx.org.userId,
+          });
+
+          // Keep a record of every price the unit has been listed at
+          if (input.askingPrice !== undefined || input.specialPrice !== undefined) {
+            const { recordPriceChange } = await import("./lib/database/listing-price-history");
+            await recordPriceChange(
+              input.id,
+              { askingPrice: existingListing.asking_price, specialPrice: existingListing.special_price },
+              {
+                askingPrice: input.askingPrice ?? existingListing.asking_price,
+                specialPrice: input.specialPrice ?? existingListing.special_price,
+              },
+              { changedBy: ctx.org.userId, source: "update", listingTitle: existingListing.listing_title }
+            );
+          }
+
           // Update images if provided
           if (input.photos !== undefined) {
             const { insertSchemaTable } = await import("./lib/supabase-db");
@@ -1939,50 +2273,143 @@ export const appRouter = router({
         }),
 
       /**
-       * Delete (soft delete) listing
+       * Move a listing to the recycle bin. It is archived and purged after
+       * RECYCLE_BIN_DAYS unless restored.
        */
-      delete: protectedProcedure
+      delete: dealerProcedure
+        .meta({ permission: "listings.delete" })
         .input(z.object({ id: z.number() }))
         .mutation(async ({ ctx, input }) => {
-          const { getSupabaseClient } = await import("./_core/supabase");
           const { querySchemaTable, updateSchemaTable } = await import("./lib/supabase-db");
-          const supabase = getSupabaseClient();
+          const { dealerId } = ctx.dealer;
 
-          // Get dealer ID from context
-          let dealerId: number | null = null;
-          
-          if (ctx.supabaseUser) {
-            const { data, error } = await supabase.rpc('get_user_dealer_id');
-            if (!error && data) {
-              dealerId = data;
+          // Verify listing belongs to dealer
+          const listings = await querySchemaTable<VehicleListing>(
+            "02a. Dealership",
+            "vehicle_listings",
+            {
+              where: { id: input.id, dealer_id: dealerId },
+              whereNull: ["deleted_at"],
+              limit: 1,
             }
-          } else if (ctx.user) {
-            const profile = await db.getUserById(ctx.user.id);
-            if (profile?.companyId) {
-              const dealers = await querySchemaTable<{ id: number }>(
-                "02a. Dealership",
-                "dealers",
-                {
-                  where: { organization_id: profile.companyId },
-                  limit: 1,
-                }
-              );
-              if (dealers.length > 0) {
-                dealerId = dealers[0].id;
-              }
+          );
+
+          if (listings.length === 0) {
+            throw new Error("Listing not found or unauthorized");
+          }
+
+          // Archive as well, so a restored listing has to be republished
+          const now = new Date();
+          const { transitionColumns } = await import("./lib/database/listing-lifecycle");
+          const deletedListing = await updateSchemaTable<VehicleListing>(
+            "02a. Dealership",
+            "vehicle_listings",
+            {
+              ...transitionColumns(listings[0].listing_status, "archived", now),
+              deleted_at: now,
+              deleted_by: ctx.org.userId,
+            },
+            { id: input.id }
+          );
+
+          const { recordRevision } = await import("./lib/database/listing-revisions");
+          await recordRevision("vehicle_listing", input.id, {
+            action: "delete",
+            before: listings[0],
+            after: deletedListing,
+            changedBy: ctx.org.userId,
+          });
+
+          return { success: true };
+        }),
+
+      /**
+       * Apply one action to many listings at once. Listings that fail their
+       * checks are reported and skipped; the rest are saved in one transaction.
+       */
+      bulkUpdate: dealerProcedure
+        .meta({ permission: "listings.edit" })
+        .input(bulkListingUpdateSchema)
+        .mutation(async ({ ctx, input }) => {
+          const { bulkUpdateListings } = await import("./lib/database/listing-bulk-update");
+          const results = await bulkUpdateListings(ctx.org, ctx.dealer.dealerId, input.ids, input.action);
+
+          return {
+            results,
+            updated: results.filter((result) => result.success && result.changed).length,
+            failed: results.filter((result) => !result.success).length,
+          };
+        }),
+
+      /**
+       * Mark a live listing as sold, recording the sale price and buyer type
+       */
+      markSold: dealerProcedure
+        .meta({ permission: "listings.edit" })
+        .input(
+          z.object({
+            id: z.number(),
+            salePrice: z.number().positive(),
+            buyerType: z.enum(BUYER_TYPES),
+            soldAt: z.date().optional(),
+          })
+        )
+        .mutation(async ({ ctx, input }) => {
+          const { querySchemaTable, updateSchemaTable } = await import("./lib/supabase-db");
+          const { saleColumns } = await import("./lib/database/listing-lifecycle");
+
+          const listings = await querySchemaTable<VehicleListing>(
+            "02a. Dealership",
+            "vehicle_listings",
+            {
+              where: { id: input.id, dealer_id: ctx.dealer.dealerId },
+              whereNull: ["deleted_at"],
+              limit: 1,
             }
+          );
+
+          if (listings.length === 0) {
+            throw new Error("Listing not found or unauthorized");
           }
 
-          if (!dealerId) {
-            throw new Error("Dealer record not found");
+          if (input.soldAt && input.soldAt.getTime() > Date.now()) {
+            throw new Error("Sale date cannot be in the future");
           }
 
-          // Verify listing belongs to dealer
+          const soldListing = await updateSchemaTable<VehicleListing>(
+            "02a. Dealership",
+            "vehicle_listings",
+            saleColumns(listings[0].listing_status, input),
+            { id: input.id }
+          );
+
+          const { recordRevision } = await import("./lib/database/listing-revisions");
+          await recordRevision("vehicle_listing", input.id, {
+            action: "update",
+            before: listings[0],
+            after: soldListing,
+            changedBy: ctx.org.userId,
+          });
+
+          return { success: true };
+        }),
+
+      /**
+       * Confirm a live listing is still for sale, restarting its auto-archive window
+       */
+      refresh: dealerProcedure
+        .meta({ permission: "listings.edit" })
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ ctx, input }) => {
+          const { querySchemaTable, updateSchemaTable } = await import("./lib/supabase-db");
+
           const listings = await querySchemaTable<VehicleListing>(
             "02a. Dealership",
             "vehicle_listings",
             {
-              where: { id: input.id, dealer_id: dealerId },
+              select: "id, status",
+              where: { id: input.id, dealer_id: ctx.dealer.dealerId },
+              whereNull: ["deleted_at"],
               limit: 1,
             }
           );
@@ -1991,23 +2418,45 @@ export const appRouter = router({
             throw new Error("Listing not found or unauthorized");
           }
 
-          // Soft delete by setting status to archived
+          if (listings[0].listing_status !== "available" && listings[0].listing_status !== "pending") {
+            throw new Error("Only live listings can be refreshed");
+          }
+
+          const refreshedAt = new Date();
           await updateSchemaTable(
             "02a. Dealership",
             "vehicle_listings",
-            { status: "archived" },
+            { last_refreshed_at: refreshedAt },
             { id: input.id }
           );
 
-          return { success: true };
+          return { success: true, refreshedAt };
         }),
     }),
   }),
 
   // VIN decoding
+  compatibility: router({
+    // GVWR/GAWR compliance and physical fit for a chassis with stacked equipment
+    evaluate: publicProcedure
+      .input(z.object({
+        vehicleConfigId: z.number(),
+        equipment: z.array(z.object({
+          equipmentConfigId: z.number(),
+          // Distance from the front axle to the item's center of gravity
+          mountingPositionInches: z.number().min(-120).max(600).optional(),
+          label: z.string().max(100).optional(),
+        })).max(20).default([]),
+      }))
+      .query(async ({ input }) => {
+        const { evaluateCompatibilityByIds } = await import("./lib/compatibility/calculator");
+        return evaluateCompatibilityByIds(input.vehicleConfigId, input.equipment);
+      }),
+  }),
+
   vin: router({
     decode: publicProcedure
-      .input(z.object({ vin: z.string().length(17).regex(/^[A-HJ-NPR-Z0-9]{17}$/) }))
+      .input(z.object({ vin: vinSchema }))
       .mutation(async ({ input }) => {
         const { enrichVehicleData } = await import("./lib/services/vehicle-data-enrichment");
         const { apiCache, CACHE_KEYS } = await import("./lib/utils/api-cache");
@@ -2018,7 +2467,7 @@ export const appRouter = router({
         
         // Check cache first
         const cacheKey = CACHE_KEYS.nhtsa(vin);
-        const cached = apiCache.get(cacheKey);
+        const cached = await apiCache.get<EnrichedVehicleData>(cacheKey);
         if (cached) {
           console.log('✓ Using cached VIN data');
           return {
@@ -2041,7 +2490,7 @@ export const appRouter = router({
           console.log(`[VIN Decode] Successfully decoded VIN: ${vin} - ${enrichedData.year} ${enrichedData.make} ${enrichedData.model}`);
           
           // Cache the result (60 day TTL - VIN data doesn't change)
-          apiCache.set(cacheKey, enrichedData, 60 * 24 * 60); // 60 days
+          await apiCache.set(cacheKey, enrichedData, 60 * 24 * 60); // 60 days
           
           return {
             success: true,
@@ -2068,13 +2517,53 @@ export const appRouter = router({
             errorMessage = 'Unable to connect to VIN decoder service. Please check your internet connection.';
           }
           
+          // What the VIN itself encodes, so the form can still be prefilled
           return {
             success: false,
             error: errorMessage,
             data: null,
+            fallback: decodeVinOffline(vin),
           };
         }
       }),
+
+    // Dealer picked a different EPA configuration (trim/powertrain) than the
+    // one matched automatically; re-merge with it and remember the pick for
+    // this organization's listing create
+    selectEpaOption: orgProcedure
+      .meta({ permission: "listings.create" })
+      .input(z.object({ vin: vinSchema, epaId: z.number().int().positive() }))
+      .mutation(async ({ ctx, input }) => {
+        const { enrichVehicleData, saveEpaSelection } = await import("./lib/services/vehicle-data-enrichment");
+
+        const enrichedData = await enrichVehicleData(input.vin, input.epaId);
+        await saveEpaSelection(ctx.org.organizationId, input.vin, enrichedData);
+
+        return {
+          success: true,
+          data: enrichedData,
+        };
+      }),
+
+    decodeBatch: protectedProcedure
+      .input(z.object({ vins: z.array(z.string()).min(1).max(VIN_BATCH_MAX) }))
+      .mutation(async ({ input }) => {
+        const { decodeVinBatch } = await import("./lib/services/vin-batch-decoder");
+        return decodeVinBatch(input.vins);
+      }),
+
+    // Streams each VIN's result as it finishes so the UI can show progress
+    decodeBatchStream: protectedProcedure
+      .input(z.object({ vins: z.array(z.string()).min(1).max(VIN_BATCH_MAX) }))
+      .subscription(async function* ({ input }) {
+        const { streamVinBatch, uniqueVins } = await import("./lib/services/vin-batch-decoder");
+        const total = uniqueVins(input.vins).length;
+        let completed = 0;
+        for await (const result of streamVinBatch(input.vins)) {
+          completed += 1;
+          yield { completed, total, result };
+        }
+      }),
   }),
 });
 
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { router, protectedProcedure } from '../_core/trpc';
+import { TRPCError } from '@trpc/server';
+import { listUserNotifications, markNotificationsRead } from '../lib/notifications/user-notifications';
+
+/**
+ * Notifications Router
+ * In-app notification inbox for the signed-in user
+ */
+export const notificationsRouter = router({
+  list: protectedProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(100).optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      // OAuth-only sessions have no Supabase account and so no inbox
+      if (!ctx.supabaseUser) {
+        return { notifications: [], unreadCount: 0 };
+      }
+      return listUserNotifications(ctx.supabaseUser.id, input?.limit);
+    }),
+
+  markRead: protectedProcedure
+    .input(z.object({ ids: z.array(z.number()).max(100).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.supabaseUser) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Sign in to manage notifications' });
+      }
+      await markNotificationsRead(ctx.supabaseUser.id, input.ids);
+      return { success: true };
+    }),
+});
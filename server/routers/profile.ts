@@ -1,8 +1,9 @@
 import { z } from 'zod';
-import { router, publicProcedure } from '../_core/trpc';
+import { router, publicProcedure, orgProcedure } from '../_core/trpc';
 import { TRPCError } from '@trpc/server';
 import { querySchemaTable, updateSchemaTable, insertSchemaTable } from '../lib/supabase-db';
 import { ENV } from '../_core/env';
+import { assertDealerAccess, assertOrganizationAccess, assertPermission } from '../lib/database/dealer-context';
 
 /**
  * Profile Router
@@ -231,6 +232,10 @@ const updateDealerSchema = z.object({
     close: z.string(),
     closed: z.boolean(),
   })).optional(),
+  lead_routing_email: z.union([z.string().email().max(255), z.literal('')]).optional(),
+  default_listing_location_id: z.number().int().positive().nullish(),
+  default_price_type: z.enum(['negotiable', 'fixed', 'call_for_price']).optional(),
+  listing_auto_archive_days: z.number().int().min(7).max(365).nullish(),
 });
 
 const dealerCodeSchema = z.object({
@@ -693,7 +698,8 @@ export const profileRouter = router({
       }
     }),
 
-  updateOrganization: publicProcedure
+  updateOrganization: orgProcedure
+    .meta({ permission: 'settings.manage' })
     .input(updateOrganizationSchema)
     .mutation(async ({ ctx, input }) => {
       try {
@@ -716,76 +722,9 @@ export const profileRouter = router({
           },
         });
 
-        const { data: { user }, error: authError } = await userSupabase.auth.getUser();
-        
-        if (authError || !user) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Not authenticated',
-          });
-        }
-
-        // Verify user has permission (from organization schema)
-        const { data: profileData, error: profileRpcError } = await userSupabase.rpc('get_current_user_profile');
-        
-        if (profileRpcError) {
-          console.error('[updateOrganization] RPC error:', profileRpcError);
-          throw new TRPCError({
-            code: 'INTERNAL_SERVER_ERROR',
-            message: `Failed to verify user permissions: ${profileRpcError.message}`,
-          });
-        }
-        
-        const profile = Array.isArray(profileData) ? profileData[0] : profileData;
-        
-        if (!profile || profile.error) {
-          // Check if organization exists directly in the database
-          const { querySchemaTable } = await import('../lib/supabase-db');
-          try {
-            const orgs = await querySchemaTable<{ id: number }>(
-              '01. Organization',
-              'organizations',
-              {
-                where: { id: input.organizationId },
-                limit: 1,
-              }
-            );
-            
-            if (orgs.length === 0) {
-              throw new TRPCError({
-                code: 'NOT_FOUND',
-                message: 'Organization not found in database',
-              });
-            }
-            
-            // Organization exists but user doesn't have organization_users record
-            throw new TRPCError({
-              code: 'FORBIDDEN',
-              message: 'You do not have permission to update this organization. Your account is not linked to an organization. Please contact support.',
-            });
-          } catch (err) {
-            if (err instanceof TRPCError) {
-              throw err;
-            }
-            throw new TRPCError({
-              code: 'FORBIDDEN',
-              message: 'You do not have permission to update this organization',
-            });
-          }
-        }
-        
-        if (profile.organization_id !== input.organizationId) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You do not have permission to update this organization',
-          });
-        }
-
-        if (profile.role !== 'owner' && profile.role !== 'admin') {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'Only owners and admins can update organization',
-          });
+        assertOrganizationAccess(ctx.org, input.organizationId);
+        if (input.subscription_tier !== undefined) {
+          assertPermission(ctx.org, 'billing.manage');
         }
 
         // Build update data
@@ -926,7 +865,8 @@ Please check:
       }
     }),
 
-  updateDealer: publicProcedure
+  updateDealer: orgProcedure
+    .meta({ permission: 'settings.manage' })
     .input(updateDealerSchema)
     .mutation(async ({ ctx, input }) => {
       try {
@@ -949,32 +889,7 @@ Please check:
           },
         });
 
-        const { data: { user }, error: authError } = await userSupabase.auth.getUser();
-        
-        if (authError || !user) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Not authenticated',
-          });
-        }
-
-        // Verify user has permission (from organization schema)
-        const { data: profileData } = await userSupabase.rpc('get_current_user_profile');
-        const profile = Array.isArray(profileData) ? profileData[0] : profileData;
-        
-        if (!profile || profile.error || profile.organization_id !== input.organizationId) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You do not have permission to update this organization',
-          });
-        }
-
-        if (profile.role !== 'owner' && profile.role !== 'admin') {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'Only owners and admins can manage dealer records',
-          });
-        }
+        assertOrganizationAccess(ctx.org, input.organizationId);
 
         // Check if DATABASE_URL is available
         const hasDatabaseUrl = !!ENV.databaseUrl;
@@ -1050,6 +965,38 @@ Please check:
           }
         });
 
+        // An empty routing email clears the override so leads go to the organization email
+        if (dealerData.lead_routing_email === '') {
+          dealerData.lead_routing_email = null;
+        }
+
+        // The default listing location must be one of this dealer's locations
+        if (input.default_listing_location_id) {
+          if (!existingDealer) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'Add a dealer location before choosing a default listing location',
+            });
+          }
+          if (hasDatabaseUrl) {
+            const { querySchemaTable } = await import('../lib/supabase-db');
+            const locations = await querySchemaTable<{ id: number }>(
+              '02a. Dealership',
+              'dealer_locations',
+              {
+                where: { id: input.default_listing_location_id, dealer_id: existingDealer.id },
+                limit: 1,
+              }
+            );
+            if (locations.length === 0) {
+              throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: 'Default listing location does not belong to this dealer',
+              });
+            }
+          }
+        }
+
         let dealerId: number | undefined;
 
         if (existingDealer) {
@@ -1240,37 +1187,11 @@ Please check:
       }
     }),
 
-  getDealerCodes: publicProcedure
+  getDealerCodes: orgProcedure
     .input(z.object({ dealerId: z.number() }))
     .query(async ({ ctx, input }) => {
       try {
-        const authHeader = ctx.req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'No authorization token provided',
-          });
-        }
-
-        const token = authHeader.substring(7);
-        const { createClient } = await import('@supabase/supabase-js');
-        
-        const userSupabase = createClient(ENV.supabaseUrl, ENV.supabaseAnonKey, {
-          global: {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        });
-
-        const { data: { user }, error: authError } = await userSupabase.auth.getUser();
-        
-        if (authError || !user) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Not authenticated',
-          });
-        }
+        assertDealerAccess(ctx.org, input.dealerId);
 
         const { querySchemaTable } = await import('../lib/supabase-db');
         const dealerCodes = await querySchemaTable<any>(
@@ -1294,55 +1215,13 @@ Please check:
       }
     }),
 
-  upsertDealerCode: publicProcedure
+  upsertDealerCode: orgProcedure
+    .meta({ permission: 'settings.manage' })
     .input(dealerCodeSchema)
     .mutation(async ({ ctx, input }) => {
       try {
-        const authHeader = ctx.req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'No authorization token provided',
-          });
-        }
-
-        const token = authHeader.substring(7);
-        const { createClient } = await import('@supabase/supabase-js');
-        
-        const userSupabase = createClient(ENV.supabaseUrl, ENV.supabaseAnonKey, {
-          global: {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        });
-
-        const { data: { user }, error: authError } = await userSupabase.auth.getUser();
-        
-        if (authError || !user) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Not authenticated',
-          });
-        }
-
-        // Verify user has permission
-        const { data: profileData } = await userSupabase.rpc('get_current_user_profile');
-        const profile = Array.isArray(profileData) ? profileData[0] : profileData;
-        
-        if (!profile || profile.error || profile.organization_id !== input.organization_id) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You do not have permission to manage this dealer',
-          });
-        }
-
-        if (profile.role !== 'owner' && profile.role !== 'admin') {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'Only owners and admins can manage dealer codes',
-          });
-        }
+        assertOrganizationAccess(ctx.org, input.organization_id);
+        assertDealerAccess(ctx.org, input.dealer_id);
 
         const hasDatabaseUrl = !!ENV.databaseUrl;
         const dealerCodeData: Record<string, any> = {
@@ -1379,7 +1258,7 @@ Please check:
               '02a. Dealership',
               'dealer_codes',
               dealerCodeData,
-              { id: input.id }
+              { id: input.id, organization_id: input.organization_id }
             );
             return { success: true, id: input.id };
           } else {
@@ -1417,55 +1296,12 @@ Please check:
       }
     }),
 
-  deleteDealerCode: publicProcedure
+  deleteDealerCode: orgProcedure
+    .meta({ permission: 'settings.manage' })
     .input(z.object({ id: z.number(), organizationId: z.number() }))
     .mutation(async ({ ctx, input }) => {
       try {
-        const authHeader = ctx.req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'No authorization token provided',
-          });
-        }
-
-        const token = authHeader.substring(7);
-        const { createClient } = await import('@supabase/supabase-js');
-        
-        const userSupabase = createClient(ENV.supabaseUrl, ENV.supabaseAnonKey, {
-          global: {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        });
-
-        const { data: { user }, error: authError } = await userSupabase.auth.getUser();
-        
-        if (authError || !user) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Not authenticated',
-          });
-        }
-
-        // Verify user has permission
-        const { data: profileData } = await userSupabase.rpc('get_current_user_profile');
-        const profile = Array.isArray(profileData) ? profileData[0] : profileData;
-        
-        if (!profile || profile.error || profile.organization_id !== input.organizationId) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You do not have permission to delete this dealer code',
-          });
-        }
-
-        if (profile.role !== 'owner' && profile.role !== 'admin') {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'Only owners and admins can delete dealer codes',
-          });
-        }
+        assertOrganizationAccess(ctx.org, input.organizationId);
 
         const hasDatabaseUrl = !!ENV.databaseUrl;
         if (!hasDatabaseUrl) {
@@ -1479,7 +1315,7 @@ Please check:
         await deleteSchemaTable(
           '02a. Dealership',
           'dealer_codes',
-          { id: input.id }
+          { id: input.id, organization_id: input.organizationId }
         );
 
         return { success: true };
@@ -1848,7 +1684,8 @@ Please check:
     }),
 
   // Dealer Locations CRUD operations
-  upsertDealerLocation: publicProcedure
+  upsertDealerLocation: orgProcedure
+    .meta({ permission: 'settings.manage' })
     .input(z.object({
       id: z.number().optional(),
       dealer_id: z.number(),
@@ -1881,42 +1718,8 @@ Please check:
     }))
     .mutation(async ({ ctx, input }) => {
       try {
-        const authHeader = ctx.req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'No authorization token provided',
-          });
-        }
-
-        const token = authHeader.substring(7);
-        const { createClient } = await import('@supabase/supabase-js');
-        
-        const userSupabase = createClient(ENV.supabaseUrl, ENV.supabaseAnonKey, {
-          global: {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        });
-
-        const { data: { user }, error: authError } = await userSupabase.auth.getUser();
-        
-        if (authError || !user) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Not authenticated',
-          });
-        }
-
-        // Verify user has access to this organization
-        const { data: profile } = await userSupabase.rpc('get_current_user_profile');
-        if (!profile || profile.organization_id !== input.organization_id) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You do not have access to this organization',
-          });
-        }
+        assertOrganizationAccess(ctx.org, input.organization_id);
+        assertDealerAccess(ctx.org, input.dealer_id);
 
         // Prepare location data
         const locationData: any = {
@@ -1967,7 +1770,7 @@ Please check:
               '02a. Dealership',
               'dealer_locations',
               locationData,
-              { id: input.id }
+              { id: input.id, organization_id: input.organization_id }
             );
           } else {
             // Create new location
@@ -2032,52 +1835,18 @@ Please check:
       }
     }),
 
-  deleteDealerLocation: publicProcedure
+  deleteDealerLocation: orgProcedure
+    .meta({ permission: 'settings.manage' })
     .input(z.object({ id: z.number(), organizationId: z.number() }))
     .mutation(async ({ ctx, input }) => {
       try {
-        const authHeader = ctx.req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'No authorization token provided',
-          });
-        }
-
-        const token = authHeader.substring(7);
-        const { createClient } = await import('@supabase/supabase-js');
-        
-        const userSupabase = createClient(ENV.supabaseUrl, ENV.supabaseAnonKey, {
-          global: {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        });
-
-        const { data: { user }, error: authError } = await userSupabase.auth.getUser();
-        
-        if (authError || !user) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Not authenticated',
-          });
-        }
-
-        // Verify user has access to this organization
-        const { data: profile } = await userSupabase.rpc('get_current_user_profile');
-        if (!profile || profile.organization_id !== input.organizationId) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You do not have access to this organization',
-          });
-        }
+        assertOrganizationAccess(ctx.org, input.organizationId);
 
         const { deleteSchemaTable } = await import('../lib/supabase-db');
         await deleteSchemaTable(
           '02a. Dealership',
           'dealer_locations',
-          { id: input.id }
+          { id: input.id, organization_id: input.organizationId }
         );
 
         return { success: true };
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { router, publicProcedure, protectedProcedure } from '../_core/trpc';
+import { TRPCError } from '@trpc/server';
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearch,
+  listSavedSearches,
+  unsubscribeSavedSearch,
+  updateSavedSearch,
+} from '../lib/search/saved-searches';
+import { savedSearchSchema, savedSearchUpdateSchema } from '../lib/validation/saved-search-schema';
+
+/**
+ * Saved-search alerts belong to the Supabase account, not an organization
+ */
+const buyerProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (!ctx.supabaseUser) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Sign in to save searches',
+    });
+  }
+  return next({ ctx: { ...ctx, supabaseUser: ctx.supabaseUser } });
+});
+
+/**
+ * Saved Searches Router
+ * Buyer saved searches and their alert preferences
+ */
+export const savedSearchesRouter = router({
+  list: buyerProcedure
+    .query(async ({ ctx }) => {
+      return listSavedSearches(ctx.supabaseUser.id);
+    }),
+
+  get: buyerProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      return getSavedSearch(ctx.supabaseUser.id, input.id);
+    }),
+
+  create: buyerProcedure
+    .input(savedSearchSchema)
+    .mutation(async ({ ctx, input }) => {
+      return createSavedSearch(ctx.supabaseUser, input);
+    }),
+
+  update: buyerProcedure
+    .input(savedSearchUpdateSchema.extend({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...changes } = input;
+      return updateSavedSearch(ctx.supabaseUser, id, changes);
+    }),
+
+  delete: buyerProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await deleteSavedSearch(ctx.supabaseUser.id, input.id);
+      return { success: true };
+    }),
+
+  // Email unsubscribe link (no sign-in required)
+  unsubscribe: publicProcedure
+    .input(z.object({ token: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      return unsubscribeSavedSearch(input.token);
+    }),
+});
@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { router, publicProcedure, protectedProcedure, orgProcedure } from '../_core/trpc';
+import { TRPCError } from '@trpc/server';
+import {
+  acceptInvitation,
+  changeMemberRole,
+  getInvitationDetails,
+  inviteMember,
+  listTeam,
+  removeMember,
+  revokeInvitation,
+  transferOwnership,
+} from '../lib/team/members';
+
+const invitableRoleSchema = z.enum(['admin', 'manager', 'sales', 'viewer']);
+
+/**
+ * Team Router
+ * Invitations and member management for the caller's organization
+ */
+export const teamRouter = router({
+  // Active members and pending invitations
+  list: orgProcedure
+    .query(async ({ ctx }) => {
+      const team = await listTeam(ctx.org);
+      return {
+        ...team,
+        currentUserId: ctx.org.userId,
+      };
+    }),
+
+  invite: orgProcedure
+    .meta({ permission: 'members.manage' })
+    .input(z.object({
+      email: z.string().email(),
+      role: invitableRoleSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const appUrl = `${ctx.req.protocol}://${ctx.req.get('host')}`;
+      return inviteMember(ctx.org, input, appUrl);
+    }),
+
+  revokeInvitation: orgProcedure
+    .meta({ permission: 'members.manage' })
+    .input(z.object({ invitationId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await revokeInvitation(ctx.org, input.invitationId);
+      return { success: true };
+    }),
+
+  changeRole: orgProcedure
+    .meta({ permission: 'members.manage' })
+    .input(z.object({
+      userId: z.string().uuid(),
+      role: invitableRoleSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await changeMemberRole(ctx.org, input.userId, input.role);
+      return { success: true };
+    }),
+
+  removeMember: orgProcedure
+    .meta({ permission: 'members.manage' })
+    .input(z.object({ userId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await removeMember(ctx.org, input.userId);
+      return { success: true };
+    }),
+
+  transferOwnership: orgProcedure
+    .meta({ permission: 'ownership.transfer' })
+    .input(z.object({ userId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await transferOwnership(ctx.org, input.userId);
+      return { success: true };
+    }),
+
+  // Invitation summary for the accept page (no sign-in required)
+  getInvitation: publicProcedure
+    .input(z.object({ token: z.string().min(1) }))
+    .query(async ({ input }) => {
+      return getInvitationDetails(input.token);
+    }),
+
+  acceptInvitation: protectedProcedure
+    .input(z.object({ token: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.supabaseUser) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Sign in with the invited email address to accept this invitation',
+        });
+      }
+      return acceptInvitation(ctx.supabaseUser, input.token);
+    }),
+});
@@ -1,7 +1,9 @@
 import { z } from 'zod';
-import { router, protectedProcedure, publicProcedure } from '../_core/trpc';
+import { router, protectedProcedure, publicProcedure, orgProcedure } from '../_core/trpc';
 import { TRPCError } from '@trpc/server';
 import { ENV } from '../_core/env';
+import { getRolePermissions } from '@shared/permissions';
+import { assertOrganizationAccess, assertPermission, resolveOrgMembership } from '../lib/database/dealer-context';
 
 /**
  * User Router for Supabase Auth
@@ -326,39 +328,11 @@ export const userRouter = router({
     }),
 
   // Get current user's organization details
-  getOrganization: publicProcedure
+  getOrganization: protectedProcedure
     .query(async ({ ctx }) => {
       try {
-        const authHeader = ctx.req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'No authorization token provided',
-          });
-        }
-
-        const token = authHeader.substring(7);
-        const { createClient } = await import('@supabase/supabase-js');
-        
-        const userSupabase = createClient(ENV.supabaseUrl, ENV.supabaseAnonKey, {
-          global: {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        });
-
-        // Get user profile to get organization_id (from organization schema)
-        const { data: profileData, error: profileError } = await userSupabase.rpc('get_current_user_profile');
-        
-        if (profileError) {
-          return null;
-        }
-
-        // Handle both array (old) and object (new JSONB) formats
-        const profile = Array.isArray(profileData) ? profileData[0] : profileData;
-        
-        if (!profile || profile.error || !profile.organization_id) {
+        const membership = await resolveOrgMembership(ctx);
+        if (!membership) {
           return null; // User doesn't have an organization
         }
 
@@ -368,7 +342,7 @@ export const userRouter = router({
           '01. Organization',
           'organizations',
           {
-            where: { id: profile.organization_id },
+            where: { id: membership.organizationId },
             limit: 1,
           }
         );
@@ -385,73 +359,12 @@ export const userRouter = router({
     }),
 
   // Get current user's dealer details
-  getDealer: publicProcedure
+  getDealer: protectedProcedure
     .query(async ({ ctx }) => {
       try {
-        const authHeader = ctx.req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'No authorization token provided',
-          });
-        }
-
-        const token = authHeader.substring(7);
-        const { createClient } = await import('@supabase/supabase-js');
-        
-        const userSupabase = createClient(ENV.supabaseUrl, ENV.supabaseAnonKey, {
-          global: {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        });
-
-        // Get user profile to get organization_id
-        const { data: profileData, error: profileError } = await userSupabase.rpc('get_current_user_profile');
-        
-        if (profileError) {
-          console.error('[getDealer] Profile RPC error:', profileError);
-          return null;
-        }
-
-        // Handle both array (old) and object (new JSONB) formats
-        const profile = Array.isArray(profileData) ? profileData[0] : profileData;
-        
-        if (!profile || profile.error || !profile.organization_id) {
-          return null; // User doesn't have an organization
-        }
-
-        // Try to get dealer ID from profile first
-        let dealerId: number | null = null;
-        if (profile.dealer?.id) {
-          dealerId = profile.dealer.id;
-        } else {
-          // Fallback: Try RPC function
-          const { data: dealerIdData, error: dealerIdError } = await userSupabase.rpc('get_user_dealer_id');
-          
-          if (!dealerIdError && dealerIdData) {
-            dealerId = dealerIdData;
-          } else {
-            // Last resort: Query directly by organization_id
-            const { querySchemaTable } = await import('../lib/supabase-db');
-            const dealers = await querySchemaTable<{ id: number }>(
-              '02a. Dealership',
-              'dealers',
-              {
-                where: { organization_id: profile.organization_id },
-                limit: 1,
-              }
-            );
-            
-            if (dealers.length > 0) {
-              dealerId = dealers[0].id;
-            }
-          }
-        }
-        
-        if (!dealerId) {
-          return null; // No dealer record found
+        const membership = await resolveOrgMembership(ctx);
+        if (!membership?.dealerId) {
+          return null; // No organization or dealer record found
         }
 
         // Get full dealer details
@@ -460,7 +373,7 @@ export const userRouter = router({
           '02a. Dealership',
           'dealers',
           {
-            where: { id: dealerId },
+            where: { id: membership.dealerId },
             limit: 1,
           }
         );
@@ -476,6 +389,15 @@ export const userRouter = router({
       }
     }),
 
+  // Current user's organization role and the permissions it grants
+  getPermissions: orgProcedure
+    .query(({ ctx }) => {
+      return {
+        role: ctx.org.role,
+        permissions: getRolePermissions(ctx.org.role),
+      };
+    }),
+
   // Diagnostic endpoint to check auth status
   checkAuthStatus: publicProcedure
     .query(async ({ ctx }) => {
@@ -644,7 +566,8 @@ export const userRouter = router({
     }),
 
   // Update organization
-  updateOrganization: publicProcedure
+  updateOrganization: orgProcedure
+    .meta({ permission: 'settings.manage' })
     .input(z.object({
       organizationId: z.number(),
       organization_type_id: z.number().optional(),
@@ -670,50 +593,9 @@ export const userRouter = router({
     }))
     .mutation(async ({ ctx, input }) => {
       try {
-        const authHeader = ctx.req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'No authorization token provided',
-          });
-        }
-
-        const token = authHeader.substring(7);
-        const { createClient } = await import('@supabase/supabase-js');
-        
-        const userSupabase = createClient(ENV.supabaseUrl, ENV.supabaseAnonKey, {
-          global: {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        });
-
-        const { data: { user }, error: authError } = await userSupabase.auth.getUser();
-        
-        if (authError || !user) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Not authenticated',
-          });
-        }
-
-        // Verify user has permission to update organization (from organization schema)
-        const { data: profileData } = await userSupabase.rpc('get_current_user_profile');
-        const profile = Array.isArray(profileData) ? profileData[0] : profileData;
-        
-        if (!profile || profile.error || profile.organization_id !== input.organizationId) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You do not have permission to update this organization',
-          });
-        }
-
-        if (profile.role !== 'owner' && profile.role !== 'admin') {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'Only owners and admins can update organization',
-          });
+        assertOrganizationAccess(ctx.org, input.organizationId);
+        if (input.subscription_tier !== undefined) {
+          assertPermission(ctx.org, 'billing.manage');
         }
 
         const { updateSchemaTable } = await import('../lib/supabase-db');
@@ -763,7 +645,8 @@ export const userRouter = router({
     }),
 
   // Create or update dealer record
-  upsertDealer: publicProcedure
+  upsertDealer: orgProcedure
+    .meta({ permission: 'settings.manage' })
     .input(z.object({
       organizationId: z.number(),
       business_type: z.enum(['franchise_dealer', 'independent_dealer', 'fleet_remarketer', 'broker', 'leasing_company', 'rental_company', 'other']).optional(),
@@ -801,51 +684,7 @@ export const userRouter = router({
     }))
     .mutation(async ({ ctx, input }) => {
       try {
-        const authHeader = ctx.req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'No authorization token provided',
-          });
-        }
-
-        const token = authHeader.substring(7);
-        const { createClient } = await import('@supabase/supabase-js');
-        
-        const userSupabase = createClient(ENV.supabaseUrl, ENV.supabaseAnonKey, {
-          global: {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          },
-        });
-
-        const { data: { user }, error: authError } = await userSupabase.auth.getUser();
-        
-        if (authError || !user) {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Not authenticated',
-          });
-        }
-
-        // Verify user has permission (from organization schema)
-        const { data: profileData } = await userSupabase.rpc('get_current_user_profile');
-        const profile = Array.isArray(profileData) ? profileData[0] : profileData;
-        
-        if (!profile || profile.error || profile.organization_id !== input.organizationId) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You do not have permission to update this organization',
-          });
-        }
-
-        if (profile.role !== 'owner' && profile.role !== 'admin') {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'Only owners and admins can manage dealer records',
-          });
-        }
+        assertOrganizationAccess(ctx.org, input.organizationId);
 
         const { querySchemaTable, insertSchemaTable, updateSchemaTable } = await import('../lib/supabase-db');
         
@@ -238,6 +238,45 @@ export async function storageGet(relKey: string): Promise<{ key: string; url: st
   };
 }
 
+/**
+ * Key of a listing-images object from its Supabase public URL, or null for
+ * URLs stored elsewhere (external links, Forge API storage)
+ */
+export function storageKeyFromUrl(url: string): string | null {
+  const marker = '/storage/v1/object/public/listing-images/';
+  const index = url.indexOf(marker);
+  if (index === -1) {
+    return null;
+  }
+  return decodeURIComponent(url.slice(index + marker.length).split('?')[0]);
+}
+
+/**
+ * Remove listing images from Supabase Storage. URLs that are not objects in
+ * the listing-images bucket are skipped; the Forge API has no delete endpoint.
+ * @returns Number of objects removed
+ */
+export async function storageDelete(urls: string[]): Promise<number> {
+  const keys = Array.from(new Set(urls.map(storageKeyFromUrl).filter((key): key is string => !!key)));
+  if (keys.length === 0) {
+    return 0;
+  }
+
+  const serviceRoleKey = ENV.supabaseServiceRoleKey;
+  if (!serviceRoleKey || !ENV.supabaseUrl) {
+    console.warn(`[Storage] Cannot delete ${keys.length} objects: Service role key or Supabase URL not configured`);
+    return 0;
+  }
+
+  const { createClient } = await import('@supabase/supabase-js');
+  const serviceClient = createClient(ENV.supabaseUrl, serviceRoleKey);
+  const { data, error } = await serviceClient.storage.from('listing-images').remove(keys);
+  if (error) {
+    throw new Error(`Supabase storage delete failed: ${error.message}`);
+  }
+  return data?.length ?? 0;
+}
+
 /**
  * Ensure the listing-images bucket exists in Supabase Storage
  * This can be called during app initialization to ensure the bucket is ready
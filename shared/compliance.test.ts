@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { evaluateCompliance, type ComplianceChassis, type ComplianceEquipment } from "./compliance";
+
+// 165" wheelbase cab-chassis with measured per-axle curb weights
+const chassis: ComplianceChassis = {
+  wheelbase_inches: 165,
+  gvwr_lbs: 14500,
+  base_curb_weight_lbs: 7000,
+  front_curb_weight_lbs: 4200,
+  rear_curb_weight_lbs: 2800,
+  gawr_front_lbs: 6000,
+  gawr_rear_lbs: 10000,
+  cab_to_axle_inches: 84,
+  cab_to_tail_inches: 150,
+};
+
+const boxBody: ComplianceEquipment = {
+  id: 1,
+  config_name: "12ft box body",
+  length_inches: 144,
+  equipment_weight_lbs: 3000,
+};
+
+describe("evaluateCompliance", () => {
+  it("stacks an unplaced body from the back of the cab", () => {
+    const result = evaluateCompliance(chassis, [{ equipmentConfig: boxBody }]);
+
+    // Back of cab is 165 - 84 = 81" from the front axle; body center 81 + 72
+    expect(result.equipmentContributions[0]).toMatchObject({
+      positionInches: 153,
+      positionSource: "stacked",
+      frontAxleLoad: 218,
+      rearAxleLoad: 2782,
+    });
+    expect(result).toMatchObject({
+      chassisBaseWeight: 7000,
+      equipmentWeight: 3000,
+      totalCombinedWeight: 10000,
+      frontAxleWeight: 4418,
+      rearAxleWeight: 5582,
+      payloadRemaining: 4500,
+      cabToAxleInches: 84,
+      cabToAxleSource: "measured",
+      compatibilityStatus: "compatible",
+      compatibilityConfidence: "estimated",
+    });
+  });
+
+  it("splits a placed item between the axles by its position", () => {
+    const result = evaluateCompliance(chassis, [{ equipmentConfig: boxBody, mountingPositionInches: 100 }]);
+
+    expect(result.equipmentContributions[0]).toMatchObject({
+      positionSource: "specified",
+      frontAxleLoad: 1182,
+      rearAxleLoad: 1818,
+    });
+    expect(result.compatibilityConfidence).toBe("calculated");
+  });
+
+  it("uses the spec's axle weights scaled to the item weight", () => {
+    const result = evaluateCompliance(chassis, [
+      {
+        equipmentConfig: {
+          ...boxBody,
+          front_axle_weight_distribution_lbs: 500,
+          rear_axle_weight_distribution_lbs: 1000,
+        },
+      },
+    ]);
+
+    expect(result.equipmentContributions[0]).toMatchObject({
+      positionInches: null,
+      positionSource: "axle_weights",
+      frontAxleLoad: 1000,
+      rearAxleLoad: 2000,
+    });
+  });
+
+  it("rejects a build over GVWR", () => {
+    const result = evaluateCompliance(chassis, { ...boxBody, equipment_weight_lbs: 8000 });
+
+    expect(result.gvwrCompliant).toBe(false);
+    expect(result.payloadRemaining).toBe(0);
+    expect(result.compatibilityStatus).toBe("not_compatible");
+    expect(result.warnings).toContain("Total weight (15000 lbs) exceeds GVWR (14500 lbs) by 500 lbs");
+  });
+
+  it("flags an overloaded rear axle when equipment hangs past it", () => {
+    const result = evaluateCompliance(
+      { ...chassis, gawr_rear_lbs: 6000 },
+      [{ equipmentConfig: boxBody, mountingPositionInches: 200, label: "Liftgate body" }]
+    );
+
+    expect(result.rearAxleWeight).toBe(6436);
+    expect(result.frontAxleWeight).toBe(3564);
+    expect(result.gawrRearCompliant).toBe(false);
+    expect(result.compatibilityStatus).toBe("requires_modification");
+    expect(result.warnings).toContain('Liftgate body: mounted 35" behind the rear axle - reduces front axle load');
+  });
+
+  it("requires modification when the chassis cab-to-axle is too short", () => {
+    const result = evaluateCompliance(chassis, { ...boxBody, minimum_cab_to_axle_inches: 96 });
+
+    expect(result.cabToAxleCompatible).toBe(false);
+    expect(result.compatibilityStatus).toBe("requires_modification");
+    expect(result.warnings).toContain('12ft box body: needs at least 96" cab-to-axle (chassis 84")');
+  });
+
+  it("treats numeric strings from postgres and the mapped gvwr the same as stored rows", () => {
+    const stored = evaluateCompliance(chassis, [{ equipmentConfig: boxBody }]);
+    const fromPostgres = evaluateCompliance(
+      {
+        ...Object.fromEntries(Object.entries(chassis).map(([key, value]) => [key, String(value)])),
+        gvwr_lbs: null,
+        gvwr: "14500",
+      },
+      [{ equipmentConfig: { ...boxBody, length_inches: "144", equipment_weight_lbs: "3000" } }]
+    );
+
+    expect(fromPostgres).toEqual(stored);
+  });
+
+  it("estimates cab-to-axle from wheelbase when it has not been measured", () => {
+    const result = evaluateCompliance({ ...chassis, cab_to_axle_inches: null }, null);
+
+    expect(result.cabToAxleInches).toBe(99);
+    expect(result.cabToAxleSource).toBe("estimated");
+    expect(result.equipmentWeight).toBe(0);
+    expect(result.compatibilityStatus).toBe("compatible");
+  });
+});
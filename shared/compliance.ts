@@ -0,0 +1,561 @@
+/**
+ * Upfit Compliance
+ * GVWR/GAWR compliance, axle loads and physical fit for a chassis with one or
+ * more pieces of equipment. Shared by the server compatibility calculator and
+ * the calculate-compliance edge function, so this file must stay free of
+ * imports (Deno loads it directly).
+ */
+
+/**
+ * Chassis fields used by the calculation. Accepts vehicle_config rows as
+ * stored (gvwr_lbs) or as mapped by the server (gvwr).
+ */
+export interface ComplianceChassis {
+  wheelbase_inches?: number | string | null;
+  gvwr?: number | string | null;
+  gvwr_lbs?: number | string | null;
+  base_curb_weight_lbs?: number | string | null;
+  gawr_front_lbs?: number | string | null;
+  gawr_rear_lbs?: number | string | null;
+  cab_to_axle_inches?: number | string | null;
+  cab_to_tail_inches?: number | string | null;
+  front_curb_weight_lbs?: number | string | null;
+  rear_curb_weight_lbs?: number | string | null;
+}
+
+/**
+ * Equipment fields used by the calculation (equipment_config columns)
+ */
+export interface ComplianceEquipment {
+  id: number;
+  config_name?: string | null;
+  length_inches?: number | string | null;
+  weight_lbs?: number | string | null;
+  equipment_weight_lbs?: number | string | null;
+  minimum_cab_to_axle_inches?: number | string | null;
+  maximum_cab_to_axle_inches?: number | string | null;
+  recommended_cab_to_axle_inches?: number | string | null;
+  minimum_wheelbase_inches?: number | string | null;
+  maximum_wheelbase_inches?: number | string | null;
+  front_axle_weight_distribution_lbs?: number | string | null;
+  rear_axle_weight_distribution_lbs?: number | string | null;
+  center_of_gravity_from_rear_axle_inches?: number | string | null;
+}
+
+/**
+ * One piece of equipment on the chassis
+ */
+export interface EquipmentPlacement {
+  equipmentConfig: ComplianceEquipment;
+  /**
+   * Distance from the front axle centerline to the item's center of gravity,
+   * in inches. Items without one are placed from their spec or stacked
+   * rearward from the back of cab in list order.
+   */
+  mountingPositionInches?: number | null;
+  label?: string;
+}
+
+export type PositionSource =
+  | 'specified'        // mountingPositionInches was given
+  | 'axle_weights'     // equipment spec lists per-axle weights
+  | 'center_of_gravity' // equipment spec lists CG from rear axle
+  | 'stacked'          // placed behind the previous item using its length
+  | 'rear_axle';       // no position data; assumed over the rear axle
+
+export interface EquipmentContribution {
+  label: string;
+  equipmentConfigId: number;
+  weight: number;
+  positionInches: number | null;
+  positionSource: PositionSource;
+  frontAxleLoad: number;
+  rearAxleLoad: number;
+  warnings: string[];
+}
+
+export interface CompatibilityCalculation {
+  // Weight distribution
+  chassisBaseWeight: number;
+  equipmentWeight: number;
+  totalCombinedWeight: number;
+  frontAxleWeight: number;
+  rearAxleWeight: number;
+
+  // Compliance checks
+  gvwrCompliant: boolean;
+  gawrFrontCompliant: boolean;
+  gawrRearCompliant: boolean;
+  payloadRemaining: number;
+
+  // Physical fit
+  cabToAxleInches: number | null;
+  cabToAxleSource: 'measured' | 'estimated' | null;
+  cabToAxleCompatible: boolean;
+  cabToTailCompatible: boolean;
+  wheelbaseCompatible: boolean;
+
+  // Per-item breakdown, in the order the equipment was given
+  equipmentContributions: EquipmentContribution[];
+
+  // Status
+  compatibilityStatus: 'compatible' | 'requires_modification' | 'not_compatible';
+  compatibilityConfidence: 'verified' | 'calculated' | 'estimated';
+  warnings: string[];
+  recommendations: string[];
+}
+
+// Chassis curb weight split when per-axle curb weights are unknown
+const DEFAULT_CHASSIS_FRONT_SHARE = 0.4;
+
+// Rough cab-to-axle when CA has not been measured (varies by vehicle)
+const ESTIMATED_CAB_TO_AXLE_RATIO = 0.6;
+
+// Remaining payload below this gets a recommendation
+const LOW_PAYLOAD_THRESHOLD_LBS = 500;
+
+/**
+ * Numeric columns can arrive as strings from postgres
+ */
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+interface ChassisRatings {
+  gvwr: number | null;
+  gawrFront: number | null;
+  gawrRear: number | null;
+  curbWeight: number | null;
+}
+
+function readChassisRatings(chassis: ComplianceChassis): ChassisRatings {
+  return {
+    gvwr: toNumber(chassis.gvwr) ?? toNumber(chassis.gvwr_lbs),
+    gawrFront: toNumber(chassis.gawr_front_lbs),
+    gawrRear: toNumber(chassis.gawr_rear_lbs),
+    curbWeight: toNumber(chassis.base_curb_weight_lbs),
+  };
+}
+
+function getEquipmentWeight(equipmentConfig: ComplianceEquipment): number {
+  return toNumber(equipmentConfig.equipment_weight_lbs) ?? toNumber(equipmentConfig.weight_lbs) ?? 0;
+}
+
+function getEquipmentLabel(placement: EquipmentPlacement, index: number): string {
+  return placement.label || placement.equipmentConfig.config_name || `Equipment ${index + 1}`;
+}
+
+/**
+ * Accept the legacy single-config call as well as a list of placements
+ */
+function normalizeEquipment(
+  equipment: EquipmentPlacement[] | ComplianceEquipment | null
+): EquipmentPlacement[] {
+  if (!equipment) {
+    return [];
+  }
+  if (Array.isArray(equipment)) {
+    return equipment;
+  }
+  return [{ equipmentConfig: equipment }];
+}
+
+/**
+ * Measured CA when available, otherwise estimated from wheelbase
+ */
+function resolveCabToAxle(
+  chassis: ComplianceChassis
+): { inches: number | null; source: 'measured' | 'estimated' | null } {
+  const measured = toNumber(chassis.cab_to_axle_inches);
+  if (measured) {
+    return { inches: measured, source: 'measured' };
+  }
+  const wheelbase = toNumber(chassis.wheelbase_inches);
+  if (wheelbase) {
+    return { inches: wheelbase * ESTIMATED_CAB_TO_AXLE_RATIO, source: 'estimated' };
+  }
+  return { inches: null, source: null };
+}
+
+/**
+ * Split the chassis curb weight between the axles
+ */
+function calculateChassisAxleLoads(chassis: ComplianceChassis): { front: number; rear: number; measured: boolean } {
+  const front = toNumber(chassis.front_curb_weight_lbs);
+  const rear = toNumber(chassis.rear_curb_weight_lbs);
+  if (front !== null && rear !== null) {
+    return { front, rear, measured: true };
+  }
+
+  const curbWeight = toNumber(chassis.base_curb_weight_lbs) ?? 0;
+  return {
+    front: curbWeight * DEFAULT_CHASSIS_FRONT_SHARE,
+    rear: curbWeight * (1 - DEFAULT_CHASSIS_FRONT_SHARE),
+    measured: false,
+  };
+}
+
+/**
+ * Place each item and split its weight between the axles by moments about
+ * the front axle: rear = weight * position / wheelbase. Items behind the
+ * rear axle lift load off the front axle.
+ */
+function calculateContributions(
+  placements: EquipmentPlacement[],
+  wheelbase: number | null,
+  cabToAxle: number | null
+): EquipmentContribution[] {
+  // Back of cab measured from the front axle; unplaced items stack from here
+  let stackCursor = wheelbase !== null && cabToAxle !== null ? wheelbase - cabToAxle : null;
+
+  return placements.map((placement, index) => {
+    const config = placement.equipmentConfig;
+    const weight = getEquipmentWeight(config);
+    const length = toNumber(config.length_inches);
+    const warnings: string[] = [];
+    const label = getEquipmentLabel(placement, index);
+
+    const specifiedPosition = toNumber(placement.mountingPositionInches);
+    const centerOfGravity = toNumber(config.center_of_gravity_from_rear_axle_inches);
+    const specFront = toNumber(config.front_axle_weight_distribution_lbs);
+    const specRear = toNumber(config.rear_axle_weight_distribution_lbs);
+
+    let positionInches: number | null = null;
+    let positionSource: PositionSource;
+
+    if (specifiedPosition !== null) {
+      positionInches = specifiedPosition;
+      positionSource = 'specified';
+    } else if (specFront !== null && specRear !== null) {
+      positionSource = 'axle_weights';
+    } else if (centerOfGravity !== null && wheelbase !== null) {
+      // CG is measured forward of the rear axle
+      positionInches = wheelbase - centerOfGravity;
+      positionSource = 'center_of_gravity';
+    } else if (stackCursor !== null && length) {
+      positionInches = stackCursor + length / 2;
+      positionSource = 'stacked';
+    } else {
+      positionInches = wheelbase;
+      positionSource = 'rear_axle';
+      if (weight > 0) {
+        warnings.push(`${label}: no mounting position - load assumed over the rear axle`);
+      }
+    }
+
+    // Later unplaced items stack behind this one
+    if (positionInches !== null && length && stackCursor !== null) {
+      stackCursor = Math.max(stackCursor, positionInches + length / 2);
+    }
+
+    let frontAxleLoad: number;
+    let rearAxleLoad: number;
+    if (positionSource === 'axle_weights') {
+      // Scale the spec split to the item weight in case they disagree
+      const specTotal = (specFront ?? 0) + (specRear ?? 0);
+      const scale = specTotal > 0 && weight > 0 ? weight / specTotal : 1;
+      frontAxleLoad = (specFront ?? 0) * scale;
+      rearAxleLoad = (specRear ?? 0) * scale;
+    } else if (positionInches !== null && wheelbase) {
+      rearAxleLoad = (weight * positionInches) / wheelbase;
+      frontAxleLoad = weight - rearAxleLoad;
+      if (positionInches > wheelbase) {
+        warnings.push(
+          `${label}: mounted ${Math.round(positionInches - wheelbase)}" behind the rear axle - reduces front axle load`
+        );
+      }
+    } else {
+      frontAxleLoad = 0;
+      rearAxleLoad = weight;
+    }
+
+    return {
+      label,
+      equipmentConfigId: config.id,
+      weight,
+      positionInches,
+      positionSource,
+      frontAxleLoad: Math.round(frontAxleLoad),
+      rearAxleLoad: Math.round(rearAxleLoad),
+      warnings,
+    };
+  });
+}
+
+/**
+ * Check each item's cab-to-axle requirement against the chassis CA
+ */
+function checkCabToAxleFit(
+  placements: EquipmentPlacement[],
+  cabToAxle: number | null,
+  warnings: string[]
+): boolean {
+  if (cabToAxle === null) {
+    return true; // Can't verify without CA or wheelbase
+  }
+
+  let compatible = true;
+  placements.forEach((placement, index) => {
+    const config = placement.equipmentConfig;
+    const label = getEquipmentLabel(placement, index);
+    const minCabToAxle = toNumber(config.minimum_cab_to_axle_inches);
+    const maxCabToAxle = toNumber(config.maximum_cab_to_axle_inches);
+    const recommended = toNumber(config.recommended_cab_to_axle_inches);
+
+    if (minCabToAxle && cabToAxle < minCabToAxle) {
+      compatible = false;
+      warnings.push(`${label}: needs at least ${minCabToAxle}" cab-to-axle (chassis ${Math.round(cabToAxle)}")`);
+    } else if (maxCabToAxle && cabToAxle > maxCabToAxle) {
+      compatible = false;
+      warnings.push(`${label}: needs at most ${maxCabToAxle}" cab-to-axle (chassis ${Math.round(cabToAxle)}")`);
+    } else if (recommended && Math.abs(cabToAxle - recommended) > 6) {
+      warnings.push(`${label}: recommended cab-to-axle is ${recommended}" (chassis ${Math.round(cabToAxle)}")`);
+    }
+  });
+
+  return compatible;
+}
+
+/**
+ * Check that equipment does not extend past the end of the frame (CT)
+ */
+function checkCabToTailFit(
+  contributions: EquipmentContribution[],
+  placements: EquipmentPlacement[],
+  chassis: ComplianceChassis,
+  cabToAxle: number | null,
+  warnings: string[]
+): boolean {
+  const cabToTail = toNumber(chassis.cab_to_tail_inches);
+  const wheelbase = toNumber(chassis.wheelbase_inches);
+  if (!cabToTail || !wheelbase || cabToAxle === null) {
+    return true; // Can't verify without CT and CA
+  }
+
+  const backOfCab = wheelbase - cabToAxle;
+  let compatible = true;
+  contributions.forEach((contribution, index) => {
+    const length = toNumber(placements[index].equipmentConfig.length_inches);
+    if (contribution.positionInches === null || !length) {
+      return;
+    }
+    const rearEnd = contribution.positionInches + length / 2 - backOfCab;
+    if (rearEnd > cabToTail) {
+      compatible = false;
+      warnings.push(
+        `${contribution.label}: extends ${Math.round(rearEnd - cabToTail)}" past the end of frame - frame extension required`
+      );
+    }
+  });
+
+  return compatible;
+}
+
+/**
+ * Check wheelbase compatibility
+ * Some equipment requires specific wheelbase ranges
+ */
+function checkWheelbaseFit(
+  placements: EquipmentPlacement[],
+  wheelbase: number | null,
+  warnings: string[]
+): boolean {
+  if (!wheelbase) {
+    return true; // Can't verify
+  }
+
+  let compatible = true;
+  placements.forEach((placement, index) => {
+    const minWheelbase = toNumber(placement.equipmentConfig.minimum_wheelbase_inches);
+    const maxWheelbase = toNumber(placement.equipmentConfig.maximum_wheelbase_inches);
+    if ((minWheelbase && wheelbase < minWheelbase) || (maxWheelbase && wheelbase > maxWheelbase)) {
+      compatible = false;
+      warnings.push(`${getEquipmentLabel(placement, index)}: wheelbase outside equipment compatibility range`);
+    }
+  });
+
+  return compatible;
+}
+
+/**
+ * Determine confidence level of compatibility calculation
+ */
+function determineConfidence(
+  ratings: ChassisRatings,
+  contributions: EquipmentContribution[],
+  chassisLoadsMeasured: boolean,
+  cabToAxleSource: 'measured' | 'estimated' | null
+): 'verified' | 'calculated' | 'estimated' {
+  const hasGawr = !!ratings.gawrFront && !!ratings.gawrRear;
+  const allPlaced = contributions.every(
+    (contribution) => contribution.positionSource !== 'rear_axle' && contribution.positionSource !== 'stacked'
+  );
+
+  // Axle loads from real positions and chassis weights
+  if (hasGawr && chassisLoadsMeasured && allPlaced && cabToAxleSource !== 'estimated') {
+    return 'calculated';
+  }
+
+  // GVWR check alone is still reliable when weights are known
+  if (!hasGawr && ratings.gvwr && ratings.curbWeight && contributions.length > 0) {
+    return 'calculated';
+  }
+
+  // Otherwise it's estimated
+  return 'estimated';
+}
+
+/**
+ * Evaluate a chassis and its equipment
+ * @param equipment - Equipment placements in mounting order, or a single config
+ */
+export function evaluateCompliance(
+  chassis: ComplianceChassis,
+  equipment: EquipmentPlacement[] | ComplianceEquipment | null
+): CompatibilityCalculation {
+  const warnings: string[] = [];
+  const recommendations: string[] = [];
+  const placements = normalizeEquipment(equipment);
+  const ratings = readChassisRatings(chassis);
+  const wheelbase = toNumber(chassis.wheelbase_inches);
+  const cabToAxle = resolveCabToAxle(chassis);
+
+  // 1. Calculate per-item and total weight
+  const chassisLoads = calculateChassisAxleLoads(chassis);
+  const chassisBaseWeight = ratings.curbWeight ?? Math.round(chassisLoads.front + chassisLoads.rear);
+  const equipmentContributions = calculateContributions(placements, wheelbase, cabToAxle.inches);
+  const equipmentWeight = equipmentContributions.reduce((sum, item) => sum + item.weight, 0);
+  const totalCombinedWeight = chassisBaseWeight + equipmentWeight;
+
+  // 2. Calculate axle distribution
+  const frontAxleWeight = Math.round(
+    chassisLoads.front + equipmentContributions.reduce((sum, item) => sum + item.frontAxleLoad, 0)
+  );
+  const rearAxleWeight = Math.round(
+    chassisLoads.rear + equipmentContributions.reduce((sum, item) => sum + item.rearAxleLoad, 0)
+  );
+  equipmentContributions.forEach((item) => warnings.push(...item.warnings));
+  if (!wheelbase && equipmentWeight > 0) {
+    warnings.push('Wheelbase not available - equipment load assumed on the rear axle');
+  }
+
+  // 3. Check GVWR compliance
+  const { gvwr, gawrFront, gawrRear } = ratings;
+  let gvwrCompliant = true;
+  if (gvwr && gvwr > 0) {
+    gvwrCompliant = totalCombinedWeight <= gvwr;
+    if (!gvwrCompliant) {
+      warnings.push(
+        `Total weight (${totalCombinedWeight} lbs) exceeds GVWR (${gvwr} lbs) by ${totalCombinedWeight - gvwr} lbs`
+      );
+      recommendations.push('Consider reducing payload or selecting a vehicle with higher GVWR');
+    }
+  } else {
+    warnings.push('GVWR not available - cannot verify compliance');
+  }
+
+  // 4. Check GAWR compliance (if data available)
+  let gawrFrontCompliant = true;
+  let gawrRearCompliant = true;
+
+  if (gawrFront && gawrRear) {
+    gawrFrontCompliant = frontAxleWeight <= gawrFront;
+    gawrRearCompliant = rearAxleWeight <= gawrRear;
+
+    if (!gawrFrontCompliant) {
+      warnings.push(
+        `Front axle weight (${frontAxleWeight} lbs) exceeds GAWR front (${gawrFront} lbs) by ${frontAxleWeight - gawrFront} lbs`
+      );
+    }
+
+    if (!gawrRearCompliant) {
+      warnings.push(
+        `Rear axle weight (${rearAxleWeight} lbs) exceeds GAWR rear (${gawrRear} lbs) by ${rearAxleWeight - gawrRear} lbs`
+      );
+    }
+
+    if (!gawrFrontCompliant || !gawrRearCompliant) {
+      recommendations.push('Move equipment toward the lighter axle or select a chassis with higher axle ratings');
+    }
+  } else {
+    if (equipmentWeight > 0) {
+      warnings.push('GAWR data not available - cannot verify axle weight compliance');
+    }
+  }
+
+  // 5. Calculate remaining payload
+  const payloadRemaining = gvwr && gvwr > 0
+    ? Math.max(0, gvwr - totalCombinedWeight)
+    : 0;
+  if (gvwr && gvwrCompliant && payloadRemaining < LOW_PAYLOAD_THRESHOLD_LBS) {
+    recommendations.push('Low payload capacity remaining');
+  }
+
+  // 6. Check physical compatibility
+  const cabToAxleCompatible = checkCabToAxleFit(placements, cabToAxle.inches, warnings);
+  const cabToTailCompatible = checkCabToTailFit(
+    equipmentContributions,
+    placements,
+    chassis,
+    cabToAxle.inches,
+    warnings
+  );
+  const wheelbaseCompatible = checkWheelbaseFit(placements, wheelbase, warnings);
+
+  if (!cabToAxleCompatible && cabToAxle.source === 'estimated') {
+    warnings.push('Cab-to-axle is estimated from wheelbase - measure CA before ordering');
+  }
+  if (!cabToAxleCompatible || !cabToTailCompatible) {
+    recommendations.push('Consider a chassis with a different cab-to-axle or a frame extension');
+  }
+
+  // 7. Determine overall status
+  let compatibilityStatus: 'compatible' | 'requires_modification' | 'not_compatible';
+
+  if (!gvwrCompliant) {
+    compatibilityStatus = 'not_compatible';
+  } else if (
+    !gawrFrontCompliant ||
+    !gawrRearCompliant ||
+    !cabToAxleCompatible ||
+    !cabToTailCompatible ||
+    !wheelbaseCompatible
+  ) {
+    compatibilityStatus = 'requires_modification';
+  } else {
+    compatibilityStatus = 'compatible';
+  }
+
+  const compatibilityConfidence = determineConfidence(
+    ratings,
+    equipmentContributions,
+    chassisLoads.measured,
+    cabToAxle.source
+  );
+
+  return {
+    chassisBaseWeight,
+    equipmentWeight,
+    totalCombinedWeight,
+    frontAxleWeight,
+    rearAxleWeight,
+    gvwrCompliant,
+    gawrFrontCompliant,
+    gawrRearCompliant,
+    payloadRemaining,
+    cabToAxleInches: cabToAxle.inches !== null ? Math.round(cabToAxle.inches) : null,
+    cabToAxleSource: cabToAxle.source,
+    cabToAxleCompatible,
+    cabToTailCompatible,
+    wheelbaseCompatible,
+    equipmentContributions,
+    compatibilityStatus,
+    compatibilityConfidence,
+    warnings,
+    recommendations,
+  };
+}
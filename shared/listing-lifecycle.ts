@@ -0,0 +1,56 @@
+/**
+ * Vehicle listing lifecycle shared by the tRPC layer and the dealer UI.
+ * Statuses may only move along LISTING_TRANSITIONS; each move stamps the
+ * matching timestamp column on the listing.
+ */
+
+export const LISTING_STATUSES = ["draft", "available", "pending", "sold", "archived"] as const;
+
+export type ListingStatus = (typeof LISTING_STATUSES)[number];
+
+export const LISTING_STATUS_LABELS: Record<ListingStatus, string> = {
+  draft: "Draft",
+  available: "Available",
+  pending: "Sale Pending",
+  sold: "Sold",
+  archived: "Archived",
+};
+
+/**
+ * Statuses each status may move to. Sold units can be reopened when a deal
+ * falls through; archived units go back to draft before being republished.
+ */
+export const LISTING_TRANSITIONS: Record<ListingStatus, readonly ListingStatus[]> = {
+  draft: ["available", "archived"],
+  available: ["draft", "pending", "sold", "archived"],
+  pending: ["available", "sold", "archived"],
+  sold: ["available", "archived"],
+  archived: ["draft"],
+};
+
+export const BUYER_TYPES = ["retail", "fleet", "government", "dealer", "other"] as const;
+
+export type BuyerType = (typeof BUYER_TYPES)[number];
+
+export const BUYER_TYPE_LABELS: Record<BuyerType, string> = {
+  retail: "Retail customer",
+  fleet: "Fleet",
+  government: "Government",
+  dealer: "Dealer / wholesale",
+  other: "Other",
+};
+
+/**
+ * Days without a refresh before a live listing is archived, offered in dealer
+ * settings. null turns auto-archiving off.
+ */
+export const AUTO_ARCHIVE_DAY_OPTIONS = [30, 45, 60, 90, 120] as const;
+
+export const DEFAULT_AUTO_ARCHIVE_DAYS = 60;
+
+/** Days deleted inventory stays in the recycle bin before it is purged */
+export const RECYCLE_BIN_DAYS = 30;
+
+export function canTransitionListing(from: ListingStatus, to: ListingStatus): boolean {
+  return from === to || LISTING_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,64 @@
+/**
+ * Organization roles and the permission matrix shared by the tRPC layer and
+ * the dealer UI
+ */
+
+export const ORG_ROLES = ["owner", "admin", "manager", "sales", "viewer"] as const;
+
+export type OrgRole = (typeof ORG_ROLES)[number];
+
+/**
+ * Higher ranks include everything a lower rank can do
+ */
+export const ORG_ROLE_RANK: Record<OrgRole, number> = {
+  owner: 5,
+  admin: 4,
+  manager: 3,
+  sales: 2,
+  viewer: 1,
+};
+
+export const ORG_ROLE_LABELS: Record<OrgRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  manager: "Manager",
+  sales: "Sales",
+  viewer: "Viewer",
+};
+
+/**
+ * Roles granted each permission. Listings covers all dealer inventory
+ * (vehicles, bodies & equipment and charging infrastructure).
+ */
+export const ORG_PERMISSIONS = {
+  "listings.create": ["owner", "admin", "manager", "sales"],
+  "listings.edit": ["owner", "admin", "manager", "sales"],
+  "listings.delete": ["owner", "admin", "manager"],
+  "listings.publish": ["owner", "admin", "manager"],
+  "pricing.manage": ["owner", "admin", "manager"],
+  "leads.view": ["owner", "admin", "manager", "sales", "viewer"],
+  "leads.update": ["owner", "admin", "manager", "sales"],
+  "leads.assign": ["owner", "admin", "manager"],
+  "members.manage": ["owner", "admin"],
+  "settings.manage": ["owner", "admin"],
+  "billing.manage": ["owner"],
+  "ownership.transfer": ["owner"],
+} as const satisfies Record<string, readonly OrgRole[]>;
+
+export type OrgPermission = keyof typeof ORG_PERMISSIONS;
+
+export function hasPermission(
+  role: OrgRole | null | undefined,
+  permission: OrgPermission
+): boolean {
+  if (!role) {
+    return false;
+  }
+  return (ORG_PERMISSIONS[permission] as readonly OrgRole[]).includes(role);
+}
+
+export function getRolePermissions(role: OrgRole): OrgPermission[] {
+  return (Object.keys(ORG_PERMISSIONS) as OrgPermission[]).filter(permission =>
+    hasPermission(role, permission)
+  );
+}
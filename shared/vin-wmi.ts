@@ -0,0 +1,119 @@
+/**
+ * Bundled VIN lookup tables for offline decoding.
+ * WMI (positions 1-3) covers the chassis, van and truck makers common in
+ * commercial inventory; plant codes (position 11) are manufacturer-specific
+ * and only listed for the high-volume commercial assembly plants.
+ */
+
+export interface WmiEntry {
+  manufacturer: string;
+  make: string;
+  /** Country of the assembling plant's manufacturer code */
+  country: string;
+}
+
+export const WMI_TABLE: Record<string, WmiEntry> = {
+  // Ford
+  "1FA": { manufacturer: "Ford", make: "Ford", country: "United States" },
+  "1FB": { manufacturer: "Ford", make: "Ford", country: "United States" },
+  "1FC": { manufacturer: "Ford", make: "Ford", country: "United States" },
+  "1FD": { manufacturer: "Ford", make: "Ford", country: "United States" },
+  "1FM": { manufacturer: "Ford", make: "Ford", country: "United States" },
+  "1FT": { manufacturer: "Ford", make: "Ford", country: "United States" },
+  "2FT": { manufacturer: "Ford", make: "Ford", country: "Canada" },
+  "3FT": { manufacturer: "Ford", make: "Ford", country: "Mexico" },
+  "NM0": { manufacturer: "Ford", make: "Ford", country: "Turkey" },
+  // General Motors
+  "1GB": { manufacturer: "General Motors", make: "Chevrolet", country: "United States" },
+  "1GC": { manufacturer: "General Motors", make: "Chevrolet", country: "United States" },
+  "1GN": { manufacturer: "General Motors", make: "Chevrolet", country: "United States" },
+  "2GC": { manufacturer: "General Motors", make: "Chevrolet", country: "Canada" },
+  "3GC": { manufacturer: "General Motors", make: "Chevrolet", country: "Mexico" },
+  "1GD": { manufacturer: "General Motors", make: "GMC", country: "United States" },
+  "1GK": { manufacturer: "General Motors", make: "GMC", country: "United States" },
+  "1GT": { manufacturer: "General Motors", make: "GMC", country: "United States" },
+  "3GT": { manufacturer: "General Motors", make: "GMC", country: "Mexico" },
+  // Stellantis
+  "1C6": { manufacturer: "Stellantis", make: "Ram", country: "United States" },
+  "3C6": { manufacturer: "Stellantis", make: "Ram", country: "Mexico" },
+  "3C7": { manufacturer: "Stellantis", make: "Ram", country: "Mexico" },
+  // Mercedes-Benz vans
+  "WD3": { manufacturer: "Mercedes-Benz", make: "Mercedes-Benz", country: "Germany" },
+  "WD4": { manufacturer: "Mercedes-Benz", make: "Mercedes-Benz", country: "Germany" },
+  "W1W": { manufacturer: "Mercedes-Benz", make: "Mercedes-Benz", country: "Germany" },
+  "W1Y": { manufacturer: "Mercedes-Benz", make: "Mercedes-Benz", country: "Germany" },
+  // Nissan and Toyota
+  "1N6": { manufacturer: "Nissan", make: "Nissan", country: "United States" },
+  "3N6": { manufacturer: "Nissan", make: "Nissan", country: "Mexico" },
+  "JN8": { manufacturer: "Nissan", make: "Nissan", country: "Japan" },
+  "5TF": { manufacturer: "Toyota", make: "Toyota", country: "United States" },
+  "3TM": { manufacturer: "Toyota", make: "Toyota", country: "Mexico" },
+  // Medium and heavy duty
+  "JAL": { manufacturer: "Isuzu", make: "Isuzu", country: "Japan" },
+  "54D": { manufacturer: "Isuzu", make: "Isuzu", country: "United States" },
+  "5PV": { manufacturer: "Hino", make: "Hino", country: "United States" },
+  "2AY": { manufacturer: "Hino", make: "Hino", country: "Canada" },
+  "1FU": { manufacturer: "Daimler Truck", make: "Freightliner", country: "United States" },
+  "1FV": { manufacturer: "Daimler Truck", make: "Freightliner", country: "United States" },
+  "3AK": { manufacturer: "Daimler Truck", make: "Freightliner", country: "Mexico" },
+  "4UZ": { manufacturer: "Daimler Truck", make: "Freightliner Custom Chassis", country: "United States" },
+  "5KJ": { manufacturer: "Daimler Truck", make: "Western Star", country: "United States" },
+  "1HT": { manufacturer: "Navistar", make: "International", country: "United States" },
+  "3HA": { manufacturer: "Navistar", make: "International", country: "Mexico" },
+  "1M1": { manufacturer: "Volvo Group", make: "Mack", country: "United States" },
+  "1M2": { manufacturer: "Volvo Group", make: "Mack", country: "United States" },
+  "4V4": { manufacturer: "Volvo Group", make: "Volvo", country: "United States" },
+  "1XK": { manufacturer: "PACCAR", make: "Kenworth", country: "United States" },
+  "1NK": { manufacturer: "PACCAR", make: "Kenworth", country: "United States" },
+  "2XK": { manufacturer: "PACCAR", make: "Kenworth", country: "Canada" },
+  "1XP": { manufacturer: "PACCAR", make: "Peterbilt", country: "United States" },
+  "1NP": { manufacturer: "PACCAR", make: "Peterbilt", country: "United States" },
+  "2XP": { manufacturer: "PACCAR", make: "Peterbilt", country: "Canada" },
+  "5B4": { manufacturer: "Workhorse", make: "Workhorse", country: "United States" },
+  "1BA": { manufacturer: "Blue Bird", make: "Blue Bird", country: "United States" },
+  "7FC": { manufacturer: "Rivian", make: "Rivian", country: "United States" },
+};
+
+/**
+ * Country by the first VIN character, for WMIs missing from WMI_TABLE
+ */
+export const VIN_COUNTRY_BY_FIRST_CHAR: Record<string, string> = {
+  "1": "United States",
+  "4": "United States",
+  "5": "United States",
+  "2": "Canada",
+  "3": "Mexico",
+  "6": "Australia",
+  "9": "Brazil",
+  J: "Japan",
+  K: "South Korea",
+  L: "China",
+  S: "United Kingdom",
+  W: "Germany",
+  Z: "Italy",
+};
+
+/** Plant codes (position 11) by WmiEntry.manufacturer */
+export const PLANT_CODES: Record<string, Record<string, string>> = {
+  Ford: {
+    B: "Oakville Assembly, Oakville, ON",
+    D: "Ohio Assembly, Avon Lake, OH",
+    E: "Kentucky Truck, Louisville, KY",
+    F: "Dearborn Truck, Dearborn, MI",
+    K: "Kansas City Assembly, Claycomo, MO",
+    L: "Michigan Assembly, Wayne, MI",
+    R: "Hermosillo Assembly, Hermosillo, Mexico",
+    U: "Louisville Assembly, Louisville, KY",
+  },
+  "General Motors": {
+    "1": "Wentzville Assembly, Wentzville, MO",
+    F: "Flint Assembly, Flint, MI",
+    G: "Silao Assembly, Silao, Mexico",
+    Z: "Fort Wayne Assembly, Roanoke, IN",
+  },
+  Stellantis: {
+    E: "Saltillo Van, Saltillo, Mexico",
+    G: "Saltillo Truck, Saltillo, Mexico",
+    N: "Sterling Heights Assembly, Sterling Heights, MI",
+  },
+};
@@ -0,0 +1,152 @@
+/**
+ * Offline VIN validation and decoding shared by the tRPC layer and the
+ * dealer UI. Checks the structure and position-9 check digit without a
+ * network call and decodes what the VIN itself encodes: manufacturer and
+ * country (WMI), model year and assembly plant.
+ */
+
+import { PLANT_CODES, VIN_COUNTRY_BY_FIRST_CHAR, WMI_TABLE } from "./vin-wmi";
+
+export const VIN_LENGTH = 17;
+
+/** Most VINs accepted by one batch decode */
+export const VIN_BATCH_MAX = 500;
+
+export interface VinValidationError {
+  code: "length" | "character" | "check_digit";
+  /** 1-based VIN position the error refers to; null for the whole VIN */
+  position: number | null;
+  message: string;
+}
+
+export interface OfflineVinDecode {
+  vin: string;
+  wmi: string;
+  manufacturer: string | null;
+  make: string | null;
+  country: string | null;
+  /** null when position 10 is not a valid model-year code */
+  modelYear: number | null;
+  plantCode: string;
+  plantName: string | null;
+  serialNumber: string;
+}
+
+export interface VinValidationResult {
+  valid: boolean;
+  errors: VinValidationError[];
+  /** Present once the VIN is 17 valid characters, even with a bad check digit */
+  decoded: OfflineVinDecode | null;
+}
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 codes in order from 1980 (and 2010); the cycle repeats every 30 years
+const MODEL_YEAR_CODES = "ABCDEFGHJKLMNPRSTVWXY123456789";
+
+const VIN_CHARACTER = /^[A-HJ-NPR-Z0-9]$/;
+
+function characterValue(char: string): number {
+  return /\d/.test(char) ? Number(char) : TRANSLITERATION[char];
+}
+
+/**
+ * The check digit (position 9) a 17-character VIN should have
+ */
+export function computeVinCheckDigit(vin: string): string {
+  const sum = vin
+    .toUpperCase()
+    .split("")
+    .reduce((total, char, index) => total + characterValue(char) * POSITION_WEIGHTS[index], 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? "X" : String(remainder);
+}
+
+/**
+ * Model year from position 10. Each code maps to two years 30 years apart;
+ * the latest one that is not more than a year in the future is used.
+ */
+export function decodeVinModelYear(code: string, now: Date = new Date()): number | null {
+  const index = MODEL_YEAR_CODES.indexOf(code.toUpperCase());
+  if (index === -1) return null;
+
+  const latestAllowed = now.getFullYear() + 1;
+  let year = 1980 + index;
+  while (year + 30 <= latestAllowed) {
+    year += 30;
+  }
+  return year;
+}
+
+/**
+ * What can be read from the VIN itself, without NHTSA
+ */
+export function decodeVinOffline(vin: string): OfflineVinDecode {
+  const normalized = vin.toUpperCase();
+  const wmi = normalized.slice(0, 3);
+  const entry = WMI_TABLE[wmi];
+  const plantCode = normalized.charAt(10);
+
+  return {
+    vin: normalized,
+    wmi,
+    manufacturer: entry?.manufacturer ?? null,
+    make: entry?.make ?? null,
+    country: entry?.country ?? VIN_COUNTRY_BY_FIRST_CHAR[normalized.charAt(0)] ?? null,
+    modelYear: decodeVinModelYear(normalized.charAt(9)),
+    plantCode,
+    plantName: entry ? PLANT_CODES[entry.manufacturer]?.[plantCode] ?? null : null,
+    serialNumber: normalized.slice(11),
+  };
+}
+
+/**
+ * Validate a VIN's structure and check digit.
+ * With `partial`, a VIN shorter than 17 characters is not an error yet, so
+ * the input can report bad characters while the dealer is still typing.
+ */
+export function validateVin(vin: string, options: { partial?: boolean } = {}): VinValidationResult {
+  const normalized = vin.trim().toUpperCase();
+  const errors: VinValidationError[] = [];
+
+  normalized.split("").forEach((char, index) => {
+    if (!VIN_CHARACTER.test(char)) {
+      errors.push({
+        code: "character",
+        position: index + 1,
+        message: /[IOQ]/.test(char)
+          ? `Position ${index + 1} cannot be ${char}; I, O and Q are never used in VINs`
+          : `Position ${index + 1} has an invalid character "${char}"`,
+      });
+    }
+  });
+
+  if (normalized.length > VIN_LENGTH || (normalized.length < VIN_LENGTH && !options.partial)) {
+    errors.push({
+      code: "length",
+      position: null,
+      message: `VIN must be ${VIN_LENGTH} characters (got ${normalized.length})`,
+    });
+  }
+
+  if (errors.length > 0 || normalized.length !== VIN_LENGTH) {
+    return { valid: false, errors, decoded: null };
+  }
+
+  const expected = computeVinCheckDigit(normalized);
+  if (normalized.charAt(8) !== expected) {
+    errors.push({
+      code: "check_digit",
+      position: 9,
+      message: `Position 9 should be ${expected} for this VIN; check for a mistyped character`,
+    });
+  }
+
+  return { valid: errors.length === 0, errors, decoded: decodeVinOffline(normalized) };
+}
@@ -0,0 +1,66 @@
+import {
+  evaluateCompliance,
+  type CompatibilityCalculation,
+  type ComplianceChassis,
+  type ComplianceEquipment,
+  type EquipmentPlacement,
+} from '../../../shared/compliance.ts';
+
+export interface ComplianceRequest {
+  vehicleConfigId: number;
+  equipmentConfigId?: number;
+  /** Multiple pieces of equipment in mounting order; takes precedence over equipmentConfigId */
+  equipment?: Array<{
+    equipmentConfigId: number;
+    mountingPositionInches?: number;
+    label?: string;
+  }>;
+  selectedVehicleOptions?: number[];
+  selectedEquipmentOptions?: number[];
+}
+
+/**
+ * Where the function reads configs from. index.ts backs this with Supabase;
+ * tests use fixtures. Free of Deno imports so both can load this file.
+ */
+export interface ComplianceConfigSource {
+  getVehicleConfig(id: number): Promise<ComplianceChassis | null>;
+  getEquipmentConfig(id: number): Promise<ComplianceEquipment | null>;
+}
+
+export type ComplianceResponse =
+  | { status: 200; body: CompatibilityCalculation }
+  | { status: 404; body: { error: string } };
+
+/**
+ * Load the configs for a request and evaluate them. Missing configs are
+ * reported the same way as the server's compatibility.evaluate procedure.
+ */
+export async function handleComplianceRequest(
+  request: ComplianceRequest,
+  source: ComplianceConfigSource
+): Promise<ComplianceResponse> {
+  const vehicleConfig = await source.getVehicleConfig(request.vehicleConfigId);
+  if (!vehicleConfig) {
+    return { status: 404, body: { error: `Vehicle config ${request.vehicleConfigId} not found` } };
+  }
+
+  // Fetch equipment configs in mounting order
+  const requested = request.equipment
+    ?? (request.equipmentConfigId ? [{ equipmentConfigId: request.equipmentConfigId }] : []);
+  const placements: EquipmentPlacement[] = [];
+  for (const item of requested) {
+    const equipmentConfig = await source.getEquipmentConfig(item.equipmentConfigId);
+    if (!equipmentConfig) {
+      return { status: 404, body: { error: `Equipment config ${item.equipmentConfigId} not found` } };
+    }
+    placements.push({
+      equipmentConfig,
+      mountingPositionInches: item.mountingPositionInches,
+      label: item.label,
+    });
+  }
+
+  // Same calculation as the server's compatibility.evaluate procedure
+  return { status: 200, body: evaluateCompliance(vehicleConfig, placements) };
+}
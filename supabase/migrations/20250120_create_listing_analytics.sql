@@ -0,0 +1,211 @@
+-- Migration: Listing analytics
+-- Creates listing view events and leads tables, a public function for
+-- recording views, and aggregate functions used by the dealer analytics page
+
+-- View events (one row per tracked detail page view)
+CREATE TABLE IF NOT EXISTS "02a. Dealership".listing_views (
+  id bigserial PRIMARY KEY,
+  listing_id bigint NOT NULL REFERENCES "02a. Dealership".vehicle_listings(id) ON DELETE CASCADE,
+  dealer_id bigint NOT NULL REFERENCES "02a. Dealership".dealers(id) ON DELETE CASCADE,
+  user_id uuid,
+  referrer character varying,
+  user_agent text,
+  viewed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS listing_views_listing_idx ON "02a. Dealership".listing_views (listing_id, viewed_at);
+CREATE INDEX IF NOT EXISTS listing_views_dealer_idx ON "02a. Dealership".listing_views (dealer_id, viewed_at);
+
+-- Leads submitted from listings and dealer pages
+CREATE TABLE IF NOT EXISTS "02a. Dealership".leads (
+  id bigserial PRIMARY KEY,
+  dealer_id bigint REFERENCES "02a. Dealership".dealers(id) ON DELETE CASCADE,
+  organization_id bigint NOT NULL REFERENCES "01. Organization".organizations(id) ON DELETE CASCADE,
+  listing_id bigint REFERENCES "02a. Dealership".vehicle_listings(id) ON DELETE SET NULL,
+  first_name character varying NOT NULL,
+  last_name character varying NOT NULL,
+  email character varying NOT NULL,
+  phone character varying,
+  company character varying,
+  message text,
+  lead_type character varying NOT NULL DEFAULT 'inquiry'
+    CHECK (lead_type IN ('inquiry', 'quote', 'test_drive', 'financing', 'trade_in')),
+  lead_source character varying NOT NULL DEFAULT 'marketplace'
+    CHECK (lead_source IN ('marketplace', 'dealer_site', 'private_catalog', 'referral', 'other')),
+  status character varying NOT NULL DEFAULT 'new'
+    CHECK (status IN ('new', 'contacted', 'qualified', 'converted', 'closed')),
+  quality_score integer NOT NULL DEFAULT 0,
+  ip_address character varying,
+  user_agent text,
+  referrer character varying,
+  first_responded_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS leads_dealer_idx ON "02a. Dealership".leads (dealer_id, created_at);
+CREATE INDEX IF NOT EXISTS leads_organization_idx ON "02a. Dealership".leads (organization_id, created_at);
+CREATE INDEX IF NOT EXISTS leads_listing_idx ON "02a. Dealership".leads (listing_id);
+CREATE INDEX IF NOT EXISTS leads_status_idx ON "02a. Dealership".leads (status);
+
+-- Record a listing view and bump the denormalized counter
+-- Callable by anonymous visitors; auth.uid() is stored when available
+CREATE OR REPLACE FUNCTION public.record_listing_view(
+  p_listing_id bigint,
+  p_referrer text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dealer_id bigint;
+BEGIN
+  UPDATE "02a. Dealership".vehicle_listings
+  SET view_count = view_count + 1,
+      last_viewed_at = now()
+  WHERE id = p_listing_id
+  RETURNING dealer_id INTO v_dealer_id;
+
+  IF v_dealer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO "02a. Dealership".listing_views (listing_id, dealer_id, user_id, referrer, user_agent)
+  VALUES (p_listing_id, v_dealer_id, auth.uid(), p_referrer, p_user_agent);
+END;
+$$;
+
+-- Daily views and leads for a dealer, including days with no activity
+CREATE OR REPLACE FUNCTION "02a. Dealership".get_dealer_daily_activity(
+  p_dealer_id bigint,
+  p_start timestamp with time zone,
+  p_end timestamp with time zone
+)
+RETURNS TABLE (
+  day date,
+  views bigint,
+  unique_viewers bigint,
+  leads bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.day::date,
+    COALESCE(v.views, 0),
+    COALESCE(v.unique_viewers, 0),
+    COALESCE(l.leads, 0)
+  FROM generate_series(p_start::date, p_end::date, interval '1 day') AS d(day)
+  LEFT JOIN (
+    SELECT viewed_at::date AS day, count(*) AS views, count(DISTINCT user_id) AS unique_viewers
+    FROM "02a. Dealership".listing_views
+    WHERE dealer_id = p_dealer_id AND viewed_at >= p_start AND viewed_at < p_end
+    GROUP BY 1
+  ) v ON v.day = d.day::date
+  LEFT JOIN (
+    SELECT created_at::date AS day, count(*) AS leads
+    FROM "02a. Dealership".leads
+    WHERE dealer_id = p_dealer_id AND created_at >= p_start AND created_at < p_end
+    GROUP BY 1
+  ) l ON l.day = d.day::date
+  ORDER BY 1;
+$$;
+
+-- Per-listing counters, period activity and days on market
+CREATE OR REPLACE FUNCTION "02a. Dealership".get_dealer_listing_performance(
+  p_dealer_id bigint,
+  p_start timestamp with time zone,
+  p_end timestamp with time zone
+)
+RETURNS TABLE (
+  listing_id bigint,
+  listing_title text,
+  vin text,
+  stock_number text,
+  status text,
+  asking_price numeric,
+  location_city text,
+  location_state text,
+  view_count integer,
+  lead_count bigint,
+  favorite_count integer,
+  period_views bigint,
+  period_leads bigint,
+  listed_at timestamp with time zone,
+  sold_at timestamp with time zone,
+  days_on_market integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    vl.id,
+    vl.listing_title::text,
+    vl.vin::text,
+    vl.stock_number::text,
+    vl.listing_status::text,
+    vl.asking_price,
+    vl.location_city::text,
+    vl.location_state::text,
+    vl.view_count,
+    (SELECT count(*) FROM "02a. Dealership".leads l WHERE l.listing_id = vl.id),
+    vl.favorite_count,
+    (SELECT count(*) FROM "02a. Dealership".listing_views v
+      WHERE v.listing_id = vl.id AND v.viewed_at >= p_start AND v.viewed_at < p_end),
+    (SELECT count(*) FROM "02a. Dealership".leads l
+      WHERE l.listing_id = vl.id AND l.created_at >= p_start AND l.created_at < p_end),
+    COALESCE(vl.published_at, vl.created_at),
+    vl.sold_at,
+    GREATEST(0, EXTRACT(DAY FROM COALESCE(vl.sold_at, now()) - COALESCE(vl.published_at, vl.created_at)))::integer
+  FROM "02a. Dealership".vehicle_listings vl
+  WHERE vl.dealer_id = p_dealer_id;
+$$;
+
+-- Lead counts and median first-response time by source
+-- The row with a NULL lead_source holds the totals across all sources
+CREATE OR REPLACE FUNCTION "02a. Dealership".get_dealer_lead_sources(
+  p_dealer_id bigint,
+  p_start timestamp with time zone,
+  p_end timestamp with time zone
+)
+RETURNS TABLE (
+  lead_source text,
+  lead_count bigint,
+  responded_count bigint,
+  converted_count bigint,
+  median_response_minutes numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    l.lead_source::text,
+    count(*),
+    count(l.first_responded_at),
+    count(*) FILTER (WHERE l.status = 'converted'),
+    (percentile_cont(0.5) WITHIN GROUP (
+      ORDER BY EXTRACT(EPOCH FROM l.first_responded_at - l.created_at) / 60
+    ) FILTER (WHERE l.first_responded_at IS NOT NULL))::numeric
+  FROM "02a. Dealership".leads l
+  WHERE l.dealer_id = p_dealer_id AND l.created_at >= p_start AND l.created_at < p_end
+  GROUP BY GROUPING SETS ((l.lead_source), ())
+  ORDER BY 2 DESC;
+$$;
+
+GRANT SELECT, INSERT ON "02a. Dealership".listing_views TO service_role;
+GRANT SELECT, INSERT, UPDATE ON "02a. Dealership".leads TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_listing_view(bigint, text, text) TO anon, authenticated;
+
+-- Aggregates take an arbitrary dealer ID, so they are only called server-side
+REVOKE EXECUTE ON FUNCTION "02a. Dealership".get_dealer_daily_activity(bigint, timestamp with time zone, timestamp with time zone) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION "02a. Dealership".get_dealer_listing_performance(bigint, timestamp with time zone, timestamp with time zone) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION "02a. Dealership".get_dealer_lead_sources(bigint, timestamp with time zone, timestamp with time zone) FROM PUBLIC;
@@ -0,0 +1,17 @@
+-- Migration: Dealer settings
+-- Adds lead routing and listing default columns edited on the dealer Settings page
+
+ALTER TABLE "02a. Dealership".dealers
+  ADD COLUMN IF NOT EXISTS lead_routing_email character varying
+    CHECK (lead_routing_email IS NULL OR lead_routing_email ~~ '%@%.%'),
+  ADD COLUMN IF NOT EXISTS default_listing_location_id bigint
+    REFERENCES "02a. Dealership".dealer_locations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS default_price_type character varying NOT NULL DEFAULT 'negotiable'
+    CHECK (default_price_type IN ('negotiable', 'fixed', 'call_for_price'));
+
+COMMENT ON COLUMN "02a. Dealership".dealers.lead_routing_email IS
+  'Inbox that receives new lead notifications; falls back to the organization primary email when NULL';
+COMMENT ON COLUMN "02a. Dealership".dealers.default_listing_location_id IS
+  'Location used for new listings that do not specify a city and state';
+COMMENT ON COLUMN "02a. Dealership".dealers.default_price_type IS
+  'Price type applied to new listings that do not specify one';
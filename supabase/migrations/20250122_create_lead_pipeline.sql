@@ -0,0 +1,164 @@
+-- Migration: Lead pipeline
+-- Adds assignment and follow-up tracking to leads, an activity log for the
+-- lead timeline, and a member lookup used when assigning leads
+
+ALTER TABLE "02a. Dealership".leads
+  ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS next_follow_up_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS last_activity_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS leads_assigned_idx ON "02a. Dealership".leads (organization_id, assigned_to);
+CREATE INDEX IF NOT EXISTS leads_follow_up_idx ON "02a. Dealership".leads (organization_id, next_follow_up_at)
+  WHERE next_follow_up_at IS NOT NULL;
+
+-- One row per event on a lead; notes are stored as 'note' activities
+CREATE TABLE IF NOT EXISTS "02a. Dealership".lead_activities (
+  id bigserial PRIMARY KEY,
+  lead_id bigint NOT NULL REFERENCES "02a. Dealership".leads(id) ON DELETE CASCADE,
+  organization_id bigint NOT NULL REFERENCES "01. Organization".organizations(id) ON DELETE CASCADE,
+  actor_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  activity_type character varying NOT NULL
+    CHECK (activity_type IN ('created', 'status_changed', 'assigned', 'note', 'follow_up_scheduled', 'follow_up_completed')),
+  from_status character varying,
+  to_status character varying,
+  assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  follow_up_id bigint,
+  body text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS lead_activities_lead_idx ON "02a. Dealership".lead_activities (lead_id, created_at);
+
+-- Scheduled follow-up reminders
+CREATE TABLE IF NOT EXISTS "02a. Dealership".lead_follow_ups (
+  id bigserial PRIMARY KEY,
+  lead_id bigint NOT NULL REFERENCES "02a. Dealership".leads(id) ON DELETE CASCADE,
+  organization_id bigint NOT NULL REFERENCES "01. Organization".organizations(id) ON DELETE CASCADE,
+  assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  due_at timestamp with time zone NOT NULL,
+  note text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  completed_at timestamp with time zone,
+  completed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS lead_follow_ups_lead_idx ON "02a. Dealership".lead_follow_ups (lead_id, due_at);
+CREATE INDEX IF NOT EXISTS lead_follow_ups_open_idx ON "02a. Dealership".lead_follow_ups (organization_id, due_at)
+  WHERE completed_at IS NULL;
+
+-- Active organization members with their auth email and display name
+CREATE OR REPLACE FUNCTION "01. Organization".get_organization_members(
+  p_organization_id bigint
+)
+RETURNS TABLE (
+  user_id uuid,
+  role text,
+  email text,
+  name text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ou.user_id,
+    ou.role::text,
+    u.email::text,
+    COALESCE(u.raw_user_meta_data->>'name', split_part(u.email, '@', 1))
+  FROM "01. Organization".organization_users ou
+  JOIN auth.users u ON u.id = ou.user_id
+  WHERE ou.organization_id = p_organization_id
+    AND ou.status = 'active'
+  ORDER BY 4;
+$$;
+
+-- Leads matching the inbox filters other than status. p_assigned_to limits to
+-- one member's leads and p_unassigned to leads without an assignee. The search
+-- term is matched literally: LIKE wildcards in it are escaped.
+CREATE OR REPLACE FUNCTION "02a. Dealership".filter_organization_leads(
+  p_organization_id bigint,
+  p_assigned_to uuid DEFAULT NULL,
+  p_unassigned boolean DEFAULT false,
+  p_search text DEFAULT NULL,
+  p_follow_up_due boolean DEFAULT false
+)
+RETURNS SETOF "02a. Dealership".leads
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.*
+  FROM "02a. Dealership".leads l
+  WHERE l.organization_id = p_organization_id
+    AND (p_assigned_to IS NULL OR l.assigned_to = p_assigned_to)
+    AND (NOT p_unassigned OR l.assigned_to IS NULL)
+    AND (NOT p_follow_up_due OR l.next_follow_up_at <= now())
+    AND (NULLIF(trim(p_search), '') IS NULL
+      OR concat_ws(' ', l.first_name, l.last_name, l.email, l.phone, l.company)
+        ILIKE '%' || replace(replace(replace(trim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%');
+$$;
+
+-- One page of the lead inbox, newest first
+CREATE OR REPLACE FUNCTION "02a. Dealership".list_organization_leads(
+  p_organization_id bigint,
+  p_status text DEFAULT NULL,
+  p_assigned_to uuid DEFAULT NULL,
+  p_unassigned boolean DEFAULT false,
+  p_search text DEFAULT NULL,
+  p_follow_up_due boolean DEFAULT false,
+  p_limit integer DEFAULT 25,
+  p_offset integer DEFAULT 0
+)
+RETURNS SETOF "02a. Dealership".leads
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.*
+  FROM "02a. Dealership".filter_organization_leads(
+    p_organization_id, p_assigned_to, p_unassigned, p_search, p_follow_up_due
+  ) l
+  WHERE p_status IS NULL OR l.status::text = p_status
+  ORDER BY l.created_at DESC, l.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+-- Inbox counts per pipeline stage for the same filters
+CREATE OR REPLACE FUNCTION "02a. Dealership".count_organization_leads(
+  p_organization_id bigint,
+  p_assigned_to uuid DEFAULT NULL,
+  p_unassigned boolean DEFAULT false,
+  p_search text DEFAULT NULL,
+  p_follow_up_due boolean DEFAULT false
+)
+RETURNS TABLE (
+  status text,
+  count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.status::text, count(*)
+  FROM "02a. Dealership".filter_organization_leads(
+    p_organization_id, p_assigned_to, p_unassigned, p_search, p_follow_up_due
+  ) l
+  GROUP BY 1;
+$$;
+
+GRANT SELECT, INSERT, UPDATE ON "02a. Dealership".lead_activities TO service_role;
+GRANT SELECT, INSERT, UPDATE ON "02a. Dealership".lead_follow_ups TO service_role;
+
+-- These take an arbitrary organization ID, so they are only called server-side
+REVOKE EXECUTE ON FUNCTION "01. Organization".get_organization_members(bigint) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION "02a. Dealership".filter_organization_leads(bigint, uuid, boolean, text, boolean) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION "02a. Dealership".list_organization_leads(bigint, text, uuid, boolean, text, boolean, integer, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION "02a. Dealership".count_organization_leads(bigint, uuid, boolean, text, boolean) FROM PUBLIC;
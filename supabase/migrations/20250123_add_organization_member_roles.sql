@@ -0,0 +1,19 @@
+-- Migration: Organization member roles
+-- Replaces the generic 'member' role with 'manager' and 'sales' so listing
+-- deletes and price changes can be limited to managers (see shared/permissions.ts)
+
+ALTER TABLE "01. Organization".organization_users
+  DROP CONSTRAINT IF EXISTS organization_users_role_check;
+
+-- Existing members keep the access they had
+UPDATE "01. Organization".organization_users
+SET role = 'manager'
+WHERE role = 'member';
+
+ALTER TABLE "01. Organization".organization_users
+  ALTER COLUMN role SET DEFAULT 'sales',
+  ADD CONSTRAINT organization_users_role_check
+    CHECK (role IN ('owner', 'admin', 'manager', 'sales', 'viewer'));
+
+COMMENT ON COLUMN "01. Organization".organization_users.role IS
+  'owner and admin manage the organization; manager can also delete listings and change prices; sales creates and edits listings and works leads; viewer is read-only';
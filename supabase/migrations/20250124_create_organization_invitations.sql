@@ -0,0 +1,182 @@
+-- Migration: Organization invitations
+-- Email invitations for adding members to an organization. The invite link
+-- carries a signed token that references the invitation row; the row is
+-- marked accepted or revoked so a link only works once.
+
+CREATE TABLE IF NOT EXISTS "01. Organization".organization_invitations (
+  id bigserial PRIMARY KEY,
+  organization_id bigint NOT NULL REFERENCES "01. Organization".organizations(id) ON DELETE CASCADE,
+  email character varying NOT NULL,
+  role character varying NOT NULL DEFAULT 'sales'
+    CHECK (role IN ('admin', 'manager', 'sales', 'viewer')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at timestamp with time zone NOT NULL,
+  accepted_at timestamp with time zone,
+  accepted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS organization_invitations_org_idx
+  ON "01. Organization".organization_invitations (organization_id, created_at);
+CREATE INDEX IF NOT EXISTS organization_invitations_email_idx
+  ON "01. Organization".organization_invitations (lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+-- Hands the owner role to another active member; the previous owner becomes an admin
+CREATE OR REPLACE FUNCTION "01. Organization".transfer_organization_ownership(
+  p_organization_id bigint,
+  p_from_user_id uuid,
+  p_to_user_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE "01. Organization".organization_users
+  SET role = 'owner', updated_at = now()
+  WHERE organization_id = p_organization_id
+    AND user_id = p_to_user_id
+    AND status = 'active';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'New owner must be an active member of the organization';
+  END IF;
+
+  UPDATE "01. Organization".organization_users
+  SET role = 'admin', updated_at = now()
+  WHERE organization_id = p_organization_id
+    AND user_id = p_from_user_id;
+END;
+$$;
+
+-- Skip the automatic personal organization for users signing up from an invitation
+CREATE OR REPLACE FUNCTION handle_user_signup()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id bigint;
+  v_org_user_id bigint;
+  v_org_type_id bigint;
+  v_slug text;
+  v_user_name text;
+  v_org_name text;
+BEGIN
+  -- Only process if email is confirmed (this trigger fires on UPDATE)
+  IF NEW.email_confirmed_at IS NULL OR OLD.email_confirmed_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Check if user already has an organization
+  IF EXISTS (
+    SELECT 1 FROM "01. Organization".organization_users
+    WHERE user_id = NEW.id AND status = 'active'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Invited users join the inviting organization instead
+  IF EXISTS (
+    SELECT 1 FROM "01. Organization".organization_invitations
+    WHERE lower(email) = lower(NEW.email)
+      AND accepted_at IS NULL
+      AND revoked_at IS NULL
+      AND expires_at > now()
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Get user name for organization name
+  v_user_name := COALESCE(
+    NEW.raw_user_meta_data->>'name',
+    NEW.raw_user_meta_data->>'firstName' || ' ' || NEW.raw_user_meta_data->>'lastName',
+    split_part(NEW.email, '@', 1)
+  );
+
+  -- Create a default organization name (user will update during onboarding)
+  v_org_name := v_user_name || '''s Organization';
+
+  -- Get a default/generic organization type ID (not dealer-specific)
+  -- Try to find a generic type, or use the first active type as fallback
+  SELECT id INTO v_org_type_id
+  FROM "01. Organization".organization_types
+  WHERE is_active = true
+  ORDER BY 
+    CASE WHEN type_code IN ('business', 'company', 'organization', 'default') THEN 1 ELSE 2 END,
+    display_order,
+    id
+  LIMIT 1;
+
+  IF v_org_type_id IS NULL THEN
+    -- If no organization type exists, log warning and return
+    RAISE WARNING 'No active organization type found. Organization will not be auto-created for user %', NEW.id;
+    RETURN NEW;
+  END IF;
+
+  -- Generate slug from organization name
+  v_slug := lower(regexp_replace(v_org_name, '[^a-zA-Z0-9]+', '-', 'g'));
+  v_slug := regexp_replace(v_slug, '^-|-$', '', 'g');
+
+  -- Ensure slug is unique
+  WHILE EXISTS (SELECT 1 FROM "01. Organization".organizations WHERE slug = v_slug) LOOP
+    v_slug := v_slug || '-' || floor(random() * 1000)::text;
+  END LOOP;
+
+  -- Create organization (without dealer record - that's created when user selects dealer type)
+  INSERT INTO "01. Organization".organizations (
+    organization_type_id,
+    organization_name,
+    primary_email,
+    slug,
+    status,
+    created_by,
+    created_at,
+    updated_at
+  ) VALUES (
+    v_org_type_id,
+    v_org_name,
+    NEW.email,
+    v_slug,
+    'active',
+    NEW.id,
+    now(),
+    now()
+  )
+  RETURNING id INTO v_org_id;
+
+  -- Create organization_users link
+  INSERT INTO "01. Organization".organization_users (
+    organization_id,
+    user_id,
+    role,
+    status,
+    email_notifications,
+    sms_notifications,
+    joined_at,
+    created_at,
+    updated_at
+  ) VALUES (
+    v_org_id,
+    NEW.id,
+    'owner',
+    'active',
+    true,
+    false,
+    now(),
+    now(),
+    now()
+  )
+  RETURNING id INTO v_org_user_id;
+
+  RAISE NOTICE 'Auto-created organization % for user %. Dealer record will be created when user selects dealer organization type.', v_org_id, NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+GRANT SELECT, INSERT, UPDATE ON "01. Organization".organization_invitations TO service_role;
@@ -0,0 +1,14 @@
+-- Migration: Chassis upfit dimensions
+-- Measured cab-to-axle (CA), cab-to-tail (CT) and per-axle curb weights used by
+-- the compatibility calculator. When missing the calculator falls back to estimates.
+
+ALTER TABLE "03. Vehicle Data".vehicle_config
+  ADD COLUMN IF NOT EXISTS cab_to_axle_inches numeric,
+  ADD COLUMN IF NOT EXISTS cab_to_tail_inches numeric,
+  ADD COLUMN IF NOT EXISTS front_curb_weight_lbs integer,
+  ADD COLUMN IF NOT EXISTS rear_curb_weight_lbs integer;
+
+COMMENT ON COLUMN "03. Vehicle Data".vehicle_config.cab_to_axle_inches IS
+  'Back of cab to rear axle centerline (CA), in inches';
+COMMENT ON COLUMN "03. Vehicle Data".vehicle_config.cab_to_tail_inches IS
+  'Back of cab to end of frame (CT), in inches';
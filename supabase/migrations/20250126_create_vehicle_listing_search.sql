@@ -0,0 +1,149 @@
+-- Migration: Vehicle listing search
+-- Applies the public Inventory filters in the database and returns the requested
+-- page, the total match count and facet counts for the full result set
+
+-- Weight class from GVWR using the FHWA class boundaries
+CREATE OR REPLACE FUNCTION "03. Vehicle Data".gvwr_class_for_lbs(p_gvwr_lbs integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_gvwr_lbs IS NULL THEN NULL
+    WHEN p_gvwr_lbs <= 6000 THEN 'Class 1'
+    WHEN p_gvwr_lbs <= 10000 THEN 'Class 2'
+    WHEN p_gvwr_lbs <= 14000 THEN 'Class 3'
+    WHEN p_gvwr_lbs <= 16000 THEN 'Class 4'
+    WHEN p_gvwr_lbs <= 19500 THEN 'Class 5'
+    WHEN p_gvwr_lbs <= 26000 THEN 'Class 6'
+    WHEN p_gvwr_lbs <= 33000 THEN 'Class 7'
+    ELSE 'Class 8'
+  END;
+$$;
+
+-- Filters are passed as a jsonb object so new filters do not change the signature:
+--   query, makes[], fuelTypes[], bodyStyles[], gvwrClasses[], equipmentTypes[],
+--   conditions[], minYear, maxYear, minPrice, maxPrice, status
+-- Sort is one of newest, price_asc, price_desc, year_desc, year_asc
+CREATE OR REPLACE FUNCTION "02a. Dealership".search_vehicle_listings(
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_query text := NULLIF(trim(p_filters->>'query'), '');
+  v_makes text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'makes', '[]'::jsonb)));
+  v_fuel_types text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'fuelTypes', '[]'::jsonb)));
+  v_body_styles text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'bodyStyles', '[]'::jsonb)));
+  v_gvwr_classes text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'gvwrClasses', '[]'::jsonb)));
+  v_equipment_types text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'equipmentTypes', '[]'::jsonb)));
+  v_conditions text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'conditions', '[]'::jsonb)));
+  v_min_year integer := (p_filters->>'minYear')::integer;
+  v_max_year integer := (p_filters->>'maxYear')::integer;
+  v_min_price numeric := (p_filters->>'minPrice')::numeric;
+  v_max_price numeric := (p_filters->>'maxPrice')::numeric;
+  v_status text := COALESCE(p_filters->>'status', 'available');
+  v_result jsonb;
+BEGIN
+  WITH listings AS (
+    SELECT
+      vl.id,
+      vl.vin::text AS vin,
+      vl.stock_number::text AS stock_number,
+      vl.listing_title::text AS listing_title,
+      vl.listing_status::text AS status,
+      vl.condition::text AS condition,
+      vl.mileage,
+      COALESCE(vl.special_price, vl.asking_price) AS price,
+      vl.asking_price,
+      vl.special_price,
+      vl.location_city::text AS location_city,
+      vl.location_state::text AS location_state,
+      vl.primary_image_url::text AS primary_image_url,
+      vl.is_featured,
+      vl.view_count,
+      vl.created_at,
+      v.year,
+      v.make_name::text AS make,
+      v.model_name::text AS model,
+      v.series_name::text AS series,
+      vc.fuel_type::text AS fuel_type,
+      vc.body_style::text AS body_style,
+      vc.gvwr_lbs,
+      COALESCE("03. Vehicle Data".gvwr_class_for_lbs(vc.gvwr_lbs), v.gvwr_class::text) AS gvwr_class,
+      e.equipment_type::text AS equipment_type
+    FROM "02a. Dealership".vehicle_listings vl
+    JOIN "05. Completed Unit Configuration".complete_configurations cc ON cc.id = vl.complete_configuration_id
+    JOIN "03. Vehicle Data".vehicle_config vc ON vc.id = cc.vehicle_config_id
+    JOIN "03. Vehicle Data".vehicle v ON v.id = vc.vehicle_id
+    LEFT JOIN "04. Equipment Data".equipment_config ec ON ec.id = cc.equipment_config_id
+    LEFT JOIN "04. Equipment Data".equipment e ON e.id = ec.equipment_id
+    WHERE vl.listing_status = v_status
+  ),
+  matches AS (
+    SELECT *
+    FROM listings l
+    WHERE (v_query IS NULL OR concat_ws(' ', l.year, l.make, l.model, l.series, l.listing_title,
+             l.fuel_type, l.body_style, l.equipment_type, l.vin, l.stock_number) ILIKE '%' || v_query || '%')
+      AND (cardinality(v_makes) = 0 OR l.make = ANY (v_makes))
+      AND (cardinality(v_fuel_types) = 0 OR l.fuel_type = ANY (v_fuel_types))
+      AND (cardinality(v_body_styles) = 0 OR l.body_style = ANY (v_body_styles))
+      AND (cardinality(v_gvwr_classes) = 0 OR l.gvwr_class = ANY (v_gvwr_classes))
+      AND (cardinality(v_equipment_types) = 0 OR l.equipment_type = ANY (v_equipment_types))
+      AND (cardinality(v_conditions) = 0 OR l.condition = ANY (v_conditions))
+      AND (v_min_year IS NULL OR l.year >= v_min_year)
+      AND (v_max_year IS NULL OR l.year <= v_max_year)
+      AND (v_min_price IS NULL OR l.price >= v_min_price)
+      AND (v_max_price IS NULL OR l.price <= v_max_price)
+  ),
+  page AS (
+    SELECT *
+    FROM matches m
+    ORDER BY
+      CASE WHEN p_sort = 'price_asc' THEN m.price END ASC NULLS LAST,
+      CASE WHEN p_sort = 'price_desc' THEN m.price END DESC NULLS LAST,
+      CASE WHEN p_sort = 'year_desc' THEN m.year END DESC,
+      CASE WHEN p_sort = 'year_asc' THEN m.year END ASC,
+      m.is_featured DESC,
+      m.created_at DESC,
+      m.id DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matches),
+    'results', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM page p), '[]'::jsonb),
+    'facets', jsonb_build_object(
+      'make', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT make AS value, count(*) AS count FROM matches WHERE make IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'year', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.value DESC)
+        FROM (SELECT year::text AS value, count(*) AS count FROM matches WHERE year IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'fuelType', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT fuel_type AS value, count(*) AS count FROM matches WHERE fuel_type IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'bodyStyle', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT body_style AS value, count(*) AS count FROM matches WHERE body_style IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'gvwrClass', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.value)
+        FROM (SELECT gvwr_class AS value, count(*) AS count FROM matches WHERE gvwr_class IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'equipmentType', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT equipment_type AS value, count(*) AS count FROM matches WHERE equipment_type IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'condition', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT condition AS value, count(*) AS count FROM matches GROUP BY 1) f), '[]'::jsonb)
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS vehicle_listings_status_created_idx
+  ON "02a. Dealership".vehicle_listings (listing_status, created_at DESC);
+
+GRANT EXECUTE ON FUNCTION "02a. Dealership".search_vehicle_listings(jsonb, text, integer, integer) TO service_role;
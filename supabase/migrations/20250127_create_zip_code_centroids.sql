@@ -0,0 +1,270 @@
+-- Migration: Radius search
+-- Local ZIP code centroids so "within N miles of ZIP" works without a geocoding
+-- API, a great-circle distance helper, and a radius-aware listing search.
+-- Load centroids with scripts/load-zip-centroids.mjs (Census ZCTA gazetteer file).
+-- Until they are loaded, ZIPs resolve approximately from dealer locations.
+
+CREATE TABLE IF NOT EXISTS public.zip_code_centroids (
+  zip_code character(5) PRIMARY KEY,
+  latitude numeric(9, 6) NOT NULL,
+  longitude numeric(9, 6) NOT NULL,
+  city character varying,
+  state character(2)
+);
+
+-- Great-circle distance in statute miles (haversine); avoids a PostGIS dependency
+CREATE OR REPLACE FUNCTION public.distance_miles(
+  p_lat1 numeric,
+  p_lng1 numeric,
+  p_lat2 numeric,
+  p_lng2 numeric
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_lat1 IS NULL OR p_lng1 IS NULL OR p_lat2 IS NULL OR p_lng2 IS NULL THEN NULL
+    ELSE 7917.6 * asin(sqrt(
+      power(sin(radians(p_lat2 - p_lat1) / 2), 2) +
+      cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+    ))
+  END;
+$$;
+
+-- Centroid for a ZIP code. ZIPs missing from zip_code_centroids (including
+-- every ZIP on a fresh deploy) fall back to the average position of dealer
+-- locations in the same ZIP, then to the same 3-digit ZIP prefix. Returns no
+-- row when nothing nearby is known.
+CREATE OR REPLACE FUNCTION public.resolve_zip_centroid(p_zip_code text)
+RETURNS TABLE (
+  zip_code text,
+  latitude numeric,
+  longitude numeric,
+  city text,
+  state text,
+  approximate boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH zip AS (
+    SELECT left(trim(p_zip_code), 5) AS code
+  ),
+  candidates AS (
+    SELECT 1 AS priority, zc.latitude, zc.longitude, zc.city::text, zc.state::text
+    FROM public.zip_code_centroids zc, zip
+    WHERE zc.zip_code = zip.code
+
+    UNION ALL
+    SELECT 2, avg(dl.latitude), avg(dl.longitude), min(dl.city)::text, min(dl.state_province)::text
+    FROM "02a. Dealership".dealer_locations dl, zip
+    WHERE left(dl.postal_code, 5) = zip.code
+      AND dl.latitude IS NOT NULL
+      AND dl.longitude IS NOT NULL
+    HAVING count(*) > 0
+
+    UNION ALL
+    SELECT 3, avg(zc.latitude), avg(zc.longitude), NULL, min(zc.state)::text
+    FROM public.zip_code_centroids zc, zip
+    WHERE left(zc.zip_code, 3) = left(zip.code, 3)
+    HAVING count(*) > 0
+
+    UNION ALL
+    SELECT 4, avg(dl.latitude), avg(dl.longitude), NULL, min(dl.state_province)::text
+    FROM "02a. Dealership".dealer_locations dl, zip
+    WHERE left(dl.postal_code, 3) = left(zip.code, 3)
+      AND dl.latitude IS NOT NULL
+      AND dl.longitude IS NOT NULL
+    HAVING count(*) > 0
+  )
+  SELECT zip.code, c.latitude, c.longitude, c.city, c.state, c.priority > 1
+  FROM candidates c, zip
+  WHERE zip.code ~ '^[0-9]{5}$'
+  ORDER BY c.priority
+  LIMIT 1;
+$$;
+
+-- Distance from a point to each dealer's nearest active location.
+-- Locations without coordinates fall back to their postal code centroid.
+CREATE OR REPLACE FUNCTION "02a. Dealership".get_dealer_distances(
+  p_latitude numeric,
+  p_longitude numeric,
+  p_radius_miles numeric DEFAULT NULL
+)
+RETURNS TABLE (
+  dealer_id bigint,
+  distance_miles double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.dealer_id, d.distance_miles
+  FROM (
+    SELECT
+      dl.dealer_id,
+      min(public.distance_miles(
+        p_latitude,
+        p_longitude,
+        COALESCE(dl.latitude, zc.latitude),
+        COALESCE(dl.longitude, zc.longitude)
+      )) AS distance_miles
+    FROM "02a. Dealership".dealer_locations dl
+    LEFT JOIN public.zip_code_centroids zc ON zc.zip_code = left(dl.postal_code, 5)
+    WHERE COALESCE(dl.is_active, true)
+    GROUP BY dl.dealer_id
+  ) d
+  WHERE d.distance_miles IS NOT NULL
+    AND (p_radius_miles IS NULL OR d.distance_miles <= p_radius_miles)
+  ORDER BY d.distance_miles;
+$$;
+
+-- Listing search with radius filtering and distance sorting.
+-- Adds nearLatitude, nearLongitude and radiusMiles filters and the distance sort.
+-- A listing's position is its own coordinates, then its ZIP centroid, then the
+-- dealer's nearest location.
+CREATE OR REPLACE FUNCTION "02a. Dealership".search_vehicle_listings(
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_query text := NULLIF(trim(p_filters->>'query'), '');
+  v_makes text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'makes', '[]'::jsonb)));
+  v_fuel_types text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'fuelTypes', '[]'::jsonb)));
+  v_body_styles text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'bodyStyles', '[]'::jsonb)));
+  v_gvwr_classes text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'gvwrClasses', '[]'::jsonb)));
+  v_equipment_types text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'equipmentTypes', '[]'::jsonb)));
+  v_conditions text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'conditions', '[]'::jsonb)));
+  v_min_year integer := (p_filters->>'minYear')::integer;
+  v_max_year integer := (p_filters->>'maxYear')::integer;
+  v_min_price numeric := (p_filters->>'minPrice')::numeric;
+  v_max_price numeric := (p_filters->>'maxPrice')::numeric;
+  v_near_latitude numeric := (p_filters->>'nearLatitude')::numeric;
+  v_near_longitude numeric := (p_filters->>'nearLongitude')::numeric;
+  v_radius_miles numeric := (p_filters->>'radiusMiles')::numeric;
+  v_status text := COALESCE(p_filters->>'status', 'available');
+  v_result jsonb;
+BEGIN
+  WITH dealer_distances AS (
+    SELECT dd.dealer_id, dd.distance_miles
+    FROM "02a. Dealership".get_dealer_distances(v_near_latitude, v_near_longitude) dd
+    WHERE v_near_latitude IS NOT NULL AND v_near_longitude IS NOT NULL
+  ),
+  listings AS (
+    SELECT
+      vl.id,
+      vl.vin::text AS vin,
+      vl.stock_number::text AS stock_number,
+      vl.listing_title::text AS listing_title,
+      vl.listing_status::text AS status,
+      vl.condition::text AS condition,
+      vl.mileage,
+      COALESCE(vl.special_price, vl.asking_price) AS price,
+      vl.asking_price,
+      vl.special_price,
+      vl.location_city::text AS location_city,
+      vl.location_state::text AS location_state,
+      vl.primary_image_url::text AS primary_image_url,
+      vl.is_featured,
+      vl.view_count,
+      vl.created_at,
+      v.year,
+      v.make_name::text AS make,
+      v.model_name::text AS model,
+      v.series_name::text AS series,
+      vc.fuel_type::text AS fuel_type,
+      vc.body_style::text AS body_style,
+      vc.gvwr_lbs,
+      COALESCE("03. Vehicle Data".gvwr_class_for_lbs(vc.gvwr_lbs), v.gvwr_class::text) AS gvwr_class,
+      e.equipment_type::text AS equipment_type,
+      COALESCE(
+        public.distance_miles(
+          v_near_latitude,
+          v_near_longitude,
+          COALESCE(vl.location_latitude, zc.latitude),
+          COALESCE(vl.location_longitude, zc.longitude)
+        ),
+        dd.distance_miles
+      ) AS distance_miles
+    FROM "02a. Dealership".vehicle_listings vl
+    JOIN "05. Completed Unit Configuration".complete_configurations cc ON cc.id = vl.complete_configuration_id
+    JOIN "03. Vehicle Data".vehicle_config vc ON vc.id = cc.vehicle_config_id
+    JOIN "03. Vehicle Data".vehicle v ON v.id = vc.vehicle_id
+    LEFT JOIN "04. Equipment Data".equipment_config ec ON ec.id = cc.equipment_config_id
+    LEFT JOIN "04. Equipment Data".equipment e ON e.id = ec.equipment_id
+    LEFT JOIN public.zip_code_centroids zc ON zc.zip_code = left(vl.location_zip, 5)
+    LEFT JOIN dealer_distances dd ON dd.dealer_id = vl.dealer_id
+    WHERE vl.listing_status = v_status
+  ),
+  matches AS (
+    SELECT *
+    FROM listings l
+    WHERE (v_query IS NULL OR concat_ws(' ', l.year, l.make, l.model, l.series, l.listing_title,
+             l.fuel_type, l.body_style, l.equipment_type, l.vin, l.stock_number) ILIKE '%' || v_query || '%')
+      AND (cardinality(v_makes) = 0 OR l.make = ANY (v_makes))
+      AND (cardinality(v_fuel_types) = 0 OR l.fuel_type = ANY (v_fuel_types))
+      AND (cardinality(v_body_styles) = 0 OR l.body_style = ANY (v_body_styles))
+      AND (cardinality(v_gvwr_classes) = 0 OR l.gvwr_class = ANY (v_gvwr_classes))
+      AND (cardinality(v_equipment_types) = 0 OR l.equipment_type = ANY (v_equipment_types))
+      AND (cardinality(v_conditions) = 0 OR l.condition = ANY (v_conditions))
+      AND (v_min_year IS NULL OR l.year >= v_min_year)
+      AND (v_max_year IS NULL OR l.year <= v_max_year)
+      AND (v_min_price IS NULL OR l.price >= v_min_price)
+      AND (v_max_price IS NULL OR l.price <= v_max_price)
+      AND (v_radius_miles IS NULL OR v_near_latitude IS NULL OR l.distance_miles <= v_radius_miles)
+  ),
+  page AS (
+    SELECT *
+    FROM matches m
+    ORDER BY
+      CASE WHEN p_sort = 'distance' THEN m.distance_miles END ASC NULLS LAST,
+      CASE WHEN p_sort = 'price_asc' THEN m.price END ASC NULLS LAST,
+      CASE WHEN p_sort = 'price_desc' THEN m.price END DESC NULLS LAST,
+      CASE WHEN p_sort = 'year_desc' THEN m.year END DESC,
+      CASE WHEN p_sort = 'year_asc' THEN m.year END ASC,
+      m.is_featured DESC,
+      m.created_at DESC,
+      m.id DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matches),
+    'results', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM page p), '[]'::jsonb),
+    'facets', jsonb_build_object(
+      'make', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT make AS value, count(*) AS count FROM matches WHERE make IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'year', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.value DESC)
+        FROM (SELECT year::text AS value, count(*) AS count FROM matches WHERE year IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'fuelType', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT fuel_type AS value, count(*) AS count FROM matches WHERE fuel_type IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'bodyStyle', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT body_style AS value, count(*) AS count FROM matches WHERE body_style IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'gvwrClass', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.value)
+        FROM (SELECT gvwr_class AS value, count(*) AS count FROM matches WHERE gvwr_class IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'equipmentType', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT equipment_type AS value, count(*) AS count FROM matches WHERE equipment_type IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'condition', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT condition AS value, count(*) AS count FROM matches GROUP BY 1) f), '[]'::jsonb)
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT SELECT ON public.zip_code_centroids TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION "02a. Dealership".get_dealer_distances(numeric, numeric, numeric) TO service_role;
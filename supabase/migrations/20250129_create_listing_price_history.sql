@@ -0,0 +1,213 @@
+-- Migration: Listing price history
+-- One row per asking/special price a listing has had, with who set it, so
+-- dealers can show how long a unit sat at each price and buyers see drops.
+-- Also backs saved vehicles (user_favorites), whose owners are told about drops.
+
+CREATE TABLE IF NOT EXISTS "02a. Dealership".listing_price_history (
+  id bigserial PRIMARY KEY,
+  listing_id bigint NOT NULL REFERENCES "02a. Dealership".vehicle_listings(id) ON DELETE CASCADE,
+  asking_price numeric,
+  special_price numeric,
+  -- Price buyers see: the special price when set, otherwise the asking price
+  price numeric,
+  previous_price numeric,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  source character varying NOT NULL DEFAULT 'update'
+    CHECK (source IN ('initial', 'create', 'update', 'bulk')),
+  changed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS listing_price_history_listing_idx
+  ON "02a. Dealership".listing_price_history (listing_id, changed_at DESC);
+
+-- Starting point for listings that predate price tracking
+INSERT INTO "02a. Dealership".listing_price_history (
+  listing_id, asking_price, special_price, price, source, changed_at
+)
+SELECT
+  vl.id,
+  vl.asking_price,
+  vl.special_price,
+  COALESCE(vl.special_price, vl.asking_price),
+  'initial',
+  COALESCE(vl.published_at, vl.created_at)
+FROM "02a. Dealership".vehicle_listings vl
+WHERE NOT EXISTS (
+  SELECT 1 FROM "02a. Dealership".listing_price_history h WHERE h.listing_id = vl.id
+);
+
+-- Saved vehicles (saved.save), keyed by Supabase user
+CREATE TABLE IF NOT EXISTS public.user_favorites (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  listing_id bigint NOT NULL REFERENCES "02a. Dealership".vehicle_listings(id) ON DELETE CASCADE,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, listing_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_favorites_listing_idx
+  ON public.user_favorites (listing_id);
+
+-- Listing search with price-drop flags.
+-- previous_price and price_dropped_at are set when the latest price change
+-- within the last 30 days lowered the price.
+CREATE OR REPLACE FUNCTION "02a. Dealership".search_vehicle_listings(
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_query text := NULLIF(trim(p_filters->>'query'), '');
+  v_makes text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'makes', '[]'::jsonb)));
+  v_fuel_types text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'fuelTypes', '[]'::jsonb)));
+  v_body_styles text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'bodyStyles', '[]'::jsonb)));
+  v_gvwr_classes text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'gvwrClasses', '[]'::jsonb)));
+  v_equipment_types text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'equipmentTypes', '[]'::jsonb)));
+  v_conditions text[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_filters->'conditions', '[]'::jsonb)));
+  v_min_year integer := (p_filters->>'minYear')::integer;
+  v_max_year integer := (p_filters->>'maxYear')::integer;
+  v_min_price numeric := (p_filters->>'minPrice')::numeric;
+  v_max_price numeric := (p_filters->>'maxPrice')::numeric;
+  v_min_mileage integer := (p_filters->>'minMileage')::integer;
+  v_max_mileage integer := (p_filters->>'maxMileage')::integer;
+  v_changed_since timestamp with time zone := (p_filters->>'changedSince')::timestamp with time zone;
+  v_near_latitude numeric := (p_filters->>'nearLatitude')::numeric;
+  v_near_longitude numeric := (p_filters->>'nearLongitude')::numeric;
+  v_radius_miles numeric := (p_filters->>'radiusMiles')::numeric;
+  v_status text := COALESCE(p_filters->>'status', 'available');
+  v_result jsonb;
+BEGIN
+  WITH dealer_distances AS (
+    SELECT dd.dealer_id, dd.distance_miles
+    FROM "02a. Dealership".get_dealer_distances(v_near_latitude, v_near_longitude) dd
+    WHERE v_near_latitude IS NOT NULL AND v_near_longitude IS NOT NULL
+  ),
+  listings AS (
+    SELECT
+      vl.id,
+      vl.vin::text AS vin,
+      vl.stock_number::text AS stock_number,
+      vl.listing_title::text AS listing_title,
+      vl.listing_status::text AS status,
+      vl.condition::text AS condition,
+      vl.mileage,
+      COALESCE(vl.special_price, vl.asking_price) AS price,
+      vl.asking_price,
+      vl.special_price,
+      vl.location_city::text AS location_city,
+      vl.location_state::text AS location_state,
+      vl.primary_image_url::text AS primary_image_url,
+      vl.is_featured,
+      vl.view_count,
+      vl.created_at,
+      vl.published_at,
+      vl.updated_at,
+      CASE WHEN ph.previous_price > ph.price THEN ph.previous_price END AS previous_price,
+      CASE WHEN ph.previous_price > ph.price THEN ph.changed_at END AS price_dropped_at,
+      v.year,
+      v.make_name::text AS make,
+      v.model_name::text AS model,
+      v.series_name::text AS series,
+      vc.fuel_type::text AS fuel_type,
+      vc.body_style::text AS body_style,
+      vc.gvwr_lbs,
+      COALESCE("03. Vehicle Data".gvwr_class_for_lbs(vc.gvwr_lbs), v.gvwr_class::text) AS gvwr_class,
+      e.equipment_type::text AS equipment_type,
+      COALESCE(
+        public.distance_miles(
+          v_near_latitude,
+          v_near_longitude,
+          COALESCE(vl.location_latitude, zc.latitude),
+          COALESCE(vl.location_longitude, zc.longitude)
+        ),
+        dd.distance_miles
+      ) AS distance_miles
+    FROM "02a. Dealership".vehicle_listings vl
+    JOIN "05. Completed Unit Configuration".complete_configurations cc ON cc.id = vl.complete_configuration_id
+    JOIN "03. Vehicle Data".vehicle_config vc ON vc.id = cc.vehicle_config_id
+    JOIN "03. Vehicle Data".vehicle v ON v.id = vc.vehicle_id
+    LEFT JOIN "04. Equipment Data".equipment_config ec ON ec.id = cc.equipment_config_id
+    LEFT JOIN "04. Equipment Data".equipment e ON e.id = ec.equipment_id
+    LEFT JOIN public.zip_code_centroids zc ON zc.zip_code = left(vl.location_zip, 5)
+    LEFT JOIN dealer_distances dd ON dd.dealer_id = vl.dealer_id
+    LEFT JOIN LATERAL (
+      SELECT h.price, h.previous_price, h.changed_at
+      FROM "02a. Dealership".listing_price_history h
+      WHERE h.listing_id = vl.id
+        AND h.changed_at > now() - interval '30 days'
+      ORDER BY h.changed_at DESC
+      LIMIT 1
+    ) ph ON true
+    WHERE vl.listing_status = v_status
+  ),
+  matches AS (
+    SELECT *
+    FROM listings l
+    WHERE (v_query IS NULL OR concat_ws(' ', l.year, l.make, l.model, l.series, l.listing_title,
+             l.fuel_type, l.body_style, l.equipment_type, l.vin, l.stock_number) ILIKE '%' || v_query || '%')
+      AND (cardinality(v_makes) = 0 OR l.make = ANY (v_makes))
+      AND (cardinality(v_fuel_types) = 0 OR l.fuel_type = ANY (v_fuel_types))
+      AND (cardinality(v_body_styles) = 0 OR l.body_style = ANY (v_body_styles))
+      AND (cardinality(v_gvwr_classes) = 0 OR l.gvwr_class = ANY (v_gvwr_classes))
+      AND (cardinality(v_equipment_types) = 0 OR l.equipment_type = ANY (v_equipment_types))
+      AND (cardinality(v_conditions) = 0 OR l.condition = ANY (v_conditions))
+      AND (v_min_year IS NULL OR l.year >= v_min_year)
+      AND (v_max_year IS NULL OR l.year <= v_max_year)
+      AND (v_min_price IS NULL OR l.price >= v_min_price)
+      AND (v_max_price IS NULL OR l.price <= v_max_price)
+      AND (v_min_mileage IS NULL OR l.mileage >= v_min_mileage)
+      AND (v_max_mileage IS NULL OR l.mileage <= v_max_mileage)
+      AND (v_changed_since IS NULL OR l.published_at > v_changed_since OR l.updated_at > v_changed_since)
+      AND (v_radius_miles IS NULL OR v_near_latitude IS NULL OR l.distance_miles <= v_radius_miles)
+  ),
+  page AS (
+    SELECT *
+    FROM matches m
+    ORDER BY
+      CASE WHEN p_sort = 'distance' THEN m.distance_miles END ASC NULLS LAST,
+      CASE WHEN p_sort = 'price_asc' THEN m.price END ASC NULLS LAST,
+      CASE WHEN p_sort = 'price_desc' THEN m.price END DESC NULLS LAST,
+      CASE WHEN p_sort = 'year_desc' THEN m.year END DESC,
+      CASE WHEN p_sort = 'year_asc' THEN m.year END ASC,
+      m.is_featured DESC,
+      m.created_at DESC,
+      m.id DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matches),
+    'results', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM page p), '[]'::jsonb),
+    'facets', jsonb_build_object(
+      'make', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT make AS value, count(*) AS count FROM matches WHERE make IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'year', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.value DESC)
+        FROM (SELECT year::text AS value, count(*) AS count FROM matches WHERE year IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'fuelType', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT fuel_type AS value, count(*) AS count FROM matches WHERE fuel_type IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'bodyStyle', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT body_style AS value, count(*) AS count FROM matches WHERE body_style IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'gvwrClass', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.value)
+        FROM (SELECT gvwr_class AS value, count(*) AS count FROM matches WHERE gvwr_class IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'equipmentType', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT equipment_type AS value, count(*) AS count FROM matches WHERE equipment_type IS NOT NULL GROUP BY 1) f), '[]'::jsonb),
+      'condition', COALESCE((SELECT jsonb_agg(jsonb_build_object('value', f.value, 'count', f.count) ORDER BY f.count DESC, f.value)
+        FROM (SELECT condition AS value, count(*) AS count FROM matches GROUP BY 1) f), '[]'::jsonb)
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT SELECT, INSERT ON "02a. Dealership".listing_price_history TO service_role;
+GRANT SELECT, INSERT, DELETE ON public.user_favorites TO service_role;
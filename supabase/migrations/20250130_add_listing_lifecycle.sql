@@ -0,0 +1,99 @@
+-- Migration: Listing lifecycle
+-- Adds transition timestamps, scheduled go-live dates and sale details to
+-- vehicle listings, a per-dealer auto-archive window, and the function the
+-- lifecycle job runs to publish scheduled listings and archive stale ones
+
+ALTER TABLE "02a. Dealership".vehicle_listings
+  ADD COLUMN IF NOT EXISTS published_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS pending_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS sold_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS archived_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS scheduled_publish_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS last_refreshed_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS sale_price numeric CHECK (sale_price IS NULL OR sale_price > 0),
+  ADD COLUMN IF NOT EXISTS buyer_type character varying
+    CHECK (buyer_type IS NULL OR buyer_type IN ('retail', 'fleet', 'government', 'dealer', 'other'));
+
+COMMENT ON COLUMN "02a. Dealership".vehicle_listings.published_at IS
+  'When the listing last went live (moved to available)';
+COMMENT ON COLUMN "02a. Dealership".vehicle_listings.scheduled_publish_at IS
+  'Draft listings are published automatically once this time passes';
+COMMENT ON COLUMN "02a. Dealership".vehicle_listings.last_refreshed_at IS
+  'Last time the dealer confirmed or edited the listing; drives auto-archiving';
+
+ALTER TABLE "02a. Dealership".dealers
+  ADD COLUMN IF NOT EXISTS listing_auto_archive_days integer DEFAULT 60
+    CHECK (listing_auto_archive_days IS NULL OR listing_auto_archive_days BETWEEN 7 AND 365);
+
+COMMENT ON COLUMN "02a. Dealership".dealers.listing_auto_archive_days IS
+  'Live listings not refreshed for this many days are archived; NULL disables auto-archiving';
+
+-- Existing live listings start their refresh window now rather than being
+-- archived on the first run
+UPDATE "02a. Dealership".vehicle_listings
+SET
+  published_at = COALESCE(published_at, created_at),
+  last_refreshed_at = COALESCE(last_refreshed_at, now())
+WHERE listing_status IN ('available', 'pending');
+
+UPDATE "02a. Dealership".vehicle_listings
+SET sold_at = COALESCE(sold_at, updated_at)
+WHERE listing_status = 'sold';
+
+CREATE INDEX IF NOT EXISTS vehicle_listings_scheduled_publish_idx
+  ON "02a. Dealership".vehicle_listings (scheduled_publish_at)
+  WHERE listing_status = 'draft' AND scheduled_publish_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS vehicle_listings_refresh_idx
+  ON "02a. Dealership".vehicle_listings (dealer_id, last_refreshed_at)
+  WHERE listing_status IN ('available', 'pending');
+
+-- Publish drafts whose go-live time has passed and archive live listings
+-- that have not been refreshed within their dealer's window. Both updates
+-- share one snapshot, so a listing published here is never archived in the
+-- same run.
+CREATE OR REPLACE FUNCTION "02a. Dealership".process_listing_lifecycle(
+  p_now timestamp with time zone DEFAULT now()
+)
+RETURNS TABLE (
+  listing_id bigint,
+  action text
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH published AS (
+    UPDATE "02a. Dealership".vehicle_listings vl
+    SET
+      listing_status = 'available',
+      published_at = p_now,
+      last_refreshed_at = p_now,
+      scheduled_publish_at = NULL,
+      updated_at = p_now
+    WHERE vl.listing_status = 'draft'
+      AND vl.scheduled_publish_at IS NOT NULL
+      AND vl.scheduled_publish_at <= p_now
+    RETURNING vl.id
+  ),
+  archived AS (
+    UPDATE "02a. Dealership".vehicle_listings vl
+    SET
+      listing_status = 'archived',
+      archived_at = p_now,
+      updated_at = p_now
+    FROM "02a. Dealership".dealers d
+    WHERE d.id = vl.dealer_id
+      AND d.listing_auto_archive_days IS NOT NULL
+      AND vl.listing_status IN ('available', 'pending')
+      AND COALESCE(vl.last_refreshed_at, vl.published_at, vl.created_at)
+        < p_now - make_interval(days => d.listing_auto_archive_days)
+    RETURNING vl.id
+  )
+  SELECT id, 'published' FROM published
+  UNION ALL
+  SELECT id, 'archived' FROM archived;
+$$;
+
+REVOKE EXECUTE ON FUNCTION "02a. Dealership".process_listing_lifecycle(timestamp with time zone) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION "02a. Dealership".process_listing_lifecycle(timestamp with time zone) TO service_role;
@@ -0,0 +1,131 @@
+-- Migration: Listing revisions
+-- Immutable audit log of every create, update and delete of dealer inventory
+-- (vehicle listings, bodies & equipment and charging infrastructure), with a
+-- field-level diff, a snapshot of the row afterwards and the acting user.
+-- The lifecycle job is updated to record the status changes it makes.
+
+CREATE TABLE IF NOT EXISTS "02a. Dealership".listing_revisions (
+  id bigserial PRIMARY KEY,
+  entity_type character varying NOT NULL
+    CHECK (entity_type IN ('vehicle_listing', 'body_equipment', 'charging_infrastructure')),
+  entity_id bigint NOT NULL,
+  -- Assigned by trigger: 1 for the first revision of each entity
+  revision integer NOT NULL,
+  action character varying NOT NULL CHECK (action IN ('create', 'update', 'delete', 'revert')),
+  -- { "column": { "from": <old>, "to": <new> } }
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  -- Row after the change; the row before it for hard deletes
+  snapshot jsonb,
+  -- NULL for changes made by background jobs and legacy OAuth dealers
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reverted_from_revision integer,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (entity_type, entity_id, revision)
+);
+
+CREATE OR REPLACE FUNCTION "02a. Dealership".assign_listing_revision_number()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT COALESCE(max(r.revision), 0) + 1
+  INTO NEW.revision
+  FROM "02a. Dealership".listing_revisions r
+  WHERE r.entity_type = NEW.entity_type AND r.entity_id = NEW.entity_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION "02a. Dealership".prevent_listing_revision_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Listing revisions are immutable';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS listing_revisions_number ON "02a. Dealership".listing_revisions;
+CREATE TRIGGER listing_revisions_number
+  BEFORE INSERT ON "02a. Dealership".listing_revisions
+  FOR EACH ROW EXECUTE FUNCTION "02a. Dealership".assign_listing_revision_number();
+
+DROP TRIGGER IF EXISTS listing_revisions_immutable ON "02a. Dealership".listing_revisions;
+CREATE TRIGGER listing_revisions_immutable
+  BEFORE UPDATE OR DELETE ON "02a. Dealership".listing_revisions
+  FOR EACH ROW EXECUTE FUNCTION "02a. Dealership".prevent_listing_revision_changes();
+
+GRANT SELECT, INSERT ON "02a. Dealership".listing_revisions TO service_role;
+
+-- Lifecycle job, now recording a revision for each listing it publishes or archives
+CREATE OR REPLACE FUNCTION "02a. Dealership".process_listing_lifecycle(
+  p_now timestamp with time zone DEFAULT now()
+)
+RETURNS TABLE (
+  listing_id bigint,
+  action text
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH due AS (
+    SELECT vl.id
+    FROM "02a. Dealership".vehicle_listings vl
+    WHERE vl.listing_status = 'draft'
+      AND vl.scheduled_publish_at IS NOT NULL
+      AND vl.scheduled_publish_at <= p_now
+  ),
+  stale AS (
+    SELECT vl.id, vl.listing_status AS previous_status
+    FROM "02a. Dealership".vehicle_listings vl
+    JOIN "02a. Dealership".dealers d ON d.id = vl.dealer_id
+    WHERE d.listing_auto_archive_days IS NOT NULL
+      AND vl.listing_status IN ('available', 'pending')
+      AND COALESCE(vl.last_refreshed_at, vl.published_at, vl.created_at)
+        < p_now - make_interval(days => d.listing_auto_archive_days)
+  ),
+  published AS (
+    UPDATE "02a. Dealership".vehicle_listings vl
+    SET
+      listing_status = 'available',
+      published_at = p_now,
+      last_refreshed_at = p_now,
+      scheduled_publish_at = NULL,
+      updated_at = p_now
+    FROM due
+    WHERE vl.id = due.id
+    RETURNING vl.*
+  ),
+  archived AS (
+    UPDATE "02a. Dealership".vehicle_listings vl
+    SET
+      listing_status = 'archived',
+      archived_at = p_now,
+      updated_at = p_now
+    FROM stale
+    WHERE vl.id = stale.id
+    RETURNING vl.*, stale.previous_status
+  ),
+  revisions AS (
+    INSERT INTO "02a. Dealership".listing_revisions (entity_type, entity_id, action, changes, snapshot)
+    SELECT
+      'vehicle_listing',
+      p.id,
+      'update',
+      jsonb_build_object('listing_status', jsonb_build_object('from', 'draft', 'to', 'available')),
+      to_jsonb(p)
+    FROM published p
+    UNION ALL
+    SELECT
+      'vehicle_listing',
+      a.id,
+      'update',
+      jsonb_build_object('listing_status', jsonb_build_object('from', a.previous_status, 'to', 'archived')),
+      to_jsonb(a) - 'previous_status'
+    FROM archived a
+  )
+  SELECT id, 'published' FROM published
+  UNION ALL
+  SELECT id, 'archived' FROM archived;
+$$;
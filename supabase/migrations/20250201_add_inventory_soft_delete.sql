@@ -0,0 +1,25 @@
+-- Migration: Inventory soft delete
+-- Deleting a vehicle listing or body/equipment item now moves it to a
+-- recycle bin for 30 days. The purge job removes rows (and their images)
+-- once that window has passed.
+
+ALTER TABLE "02a. Dealership".vehicle_listings
+  ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE "04. Equipment Data".equipment
+  ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN "02a. Dealership".vehicle_listings.deleted_at IS
+  'Set when the listing is moved to the recycle bin; the row is purged 30 days later';
+COMMENT ON COLUMN "04. Equipment Data".equipment.deleted_at IS
+  'Set when the item is moved to the recycle bin; the row is purged 30 days later';
+
+CREATE INDEX IF NOT EXISTS vehicle_listings_deleted_idx
+  ON "02a. Dealership".vehicle_listings (dealer_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS equipment_deleted_idx
+  ON "04. Equipment Data".equipment (created_by_dealer_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,6 @@
+-- Migration: Index complete configuration VINs
+-- Duplicate detection looks up every new listing's VIN across all dealers.
+
+CREATE INDEX IF NOT EXISTS complete_configurations_vin_idx
+  ON "05. Completed Unit Configuration".complete_configurations (vin)
+  WHERE vin IS NOT NULL;
@@ -0,0 +1,86 @@
+-- Migration: Persistent API cache
+-- Shared cache for NHTSA VIN decodes and EPA fuel economy lookups so results
+-- survive restarts and are shared between server instances. Entries expire
+-- individually and the least recently used ones are pruned past a size limit.
+
+CREATE TABLE IF NOT EXISTS "03. Vehicle Data".api_cache_entries (
+  cache_key text PRIMARY KEY,
+  -- Upstream the value came from, e.g. 'nhtsa' or 'epa'
+  source character varying NOT NULL,
+  value jsonb NOT NULL,
+  expires_at timestamp with time zone NOT NULL,
+  last_accessed_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_cache_entries_expires_at
+  ON "03. Vehicle Data".api_cache_entries (expires_at);
+
+CREATE INDEX IF NOT EXISTS idx_api_cache_entries_last_accessed_at
+  ON "03. Vehicle Data".api_cache_entries (last_accessed_at);
+
+-- Unexpired values for the given keys, marking them as recently used
+CREATE OR REPLACE FUNCTION "03. Vehicle Data".api_cache_get(p_keys text[])
+RETURNS TABLE (
+  cache_key text,
+  value jsonb
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE "03. Vehicle Data".api_cache_entries e
+  SET last_accessed_at = now()
+  WHERE e.cache_key = ANY(p_keys)
+    AND e.expires_at > now()
+  RETURNING e.cache_key, e.value;
+$$;
+
+CREATE OR REPLACE FUNCTION "03. Vehicle Data".api_cache_set(
+  p_key text,
+  p_source text,
+  p_value jsonb,
+  p_expires_at timestamp with time zone
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO "03. Vehicle Data".api_cache_entries (cache_key, source, value, expires_at)
+  VALUES (p_key, p_source, p_value, p_expires_at)
+  ON CONFLICT (cache_key) DO UPDATE
+  SET
+    source = EXCLUDED.source,
+    value = EXCLUDED.value,
+    expires_at = EXCLUDED.expires_at,
+    last_accessed_at = now();
+$$;
+
+-- Drop expired entries, then the least recently used ones beyond p_max_entries.
+-- Returns the keys evicted for size (not the expired ones).
+CREATE OR REPLACE FUNCTION "03. Vehicle Data".api_cache_prune(p_max_entries integer)
+RETURNS TABLE (
+  cache_key text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM "03. Vehicle Data".api_cache_entries e
+  WHERE e.expires_at <= now();
+
+  RETURN QUERY
+  DELETE FROM "03. Vehicle Data".api_cache_entries e
+  WHERE e.cache_key IN (
+    SELECT lru.cache_key
+    FROM "03. Vehicle Data".api_cache_entries lru
+    ORDER BY lru.last_accessed_at DESC
+    OFFSET p_max_entries
+  )
+  RETURNING e.cache_key;
+END;
+$$;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON "03. Vehicle Data".api_cache_entries TO service_role;
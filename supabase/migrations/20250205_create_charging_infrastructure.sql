@@ -0,0 +1,83 @@
+-- Migration: Charging infrastructure inventory
+-- Dealer charging infrastructure gets its own table, with the same
+-- deleted_at/deleted_by recycle bin columns as listings and equipment.
+-- Equipment also gets a featured_image so the purge job can remove the
+-- uploaded photo from storage along with the row.
+
+CREATE TABLE IF NOT EXISTS "04. Equipment Data".charging_infrastructure (
+  id bigserial PRIMARY KEY,
+  -- Owning organization (equipment is keyed by the creating dealer instead)
+  organization_id bigint NOT NULL,
+  name character varying NOT NULL,
+  category character varying NOT NULL
+    CHECK (category IN ('level_1', 'level_2', 'dc_fast', 'depot_charger', 'portable', 'accessories')),
+  manufacturer character varying,
+  model character varying,
+  description text,
+
+  msrp numeric,
+  sale_price numeric,
+  installation_cost numeric,
+
+  input_voltage character varying,
+  output_power integer, -- kW
+  output_current integer, -- amps
+  efficiency integer, -- percent
+  connector_types text, -- JSON array
+  number_of_ports integer NOT NULL DEFAULT 1,
+  simultaneous_charging boolean NOT NULL DEFAULT false,
+  cable_length integer, -- feet
+  cable_type character varying,
+
+  installation_type character varying
+    CHECK (installation_type IN ('wall_mount', 'pedestal', 'overhead', 'portable')),
+  installation_requirements text,
+  electrical_requirements text,
+  dimensions text, -- JSON: length, width, height, weight
+
+  network_connected boolean NOT NULL DEFAULT false,
+  payment_capable boolean NOT NULL DEFAULT false,
+  load_management boolean NOT NULL DEFAULT false,
+  weather_rating character varying,
+  certifications text, -- JSON array
+
+  warranty_years integer,
+  warranty_details text,
+  lead_time_days integer,
+  stock_status character varying NOT NULL DEFAULT 'in_stock'
+    CHECK (stock_status IN ('in_stock', 'backorder', 'made_to_order', 'discontinued')),
+
+  location_address character varying,
+  location_city character varying,
+  location_state character varying(2),
+  location_zip_code character varying(10),
+  latitude character varying,
+  longitude character varying,
+  is_public_access boolean NOT NULL DEFAULT false,
+
+  featured_image text,
+  status character varying NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('live', 'draft', 'archived')),
+  is_published boolean NOT NULL DEFAULT false,
+  view_count integer NOT NULL DEFAULT 0,
+  inquiry_count integer NOT NULL DEFAULT 0,
+
+  deleted_at timestamp with time zone,
+  deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN "04. Equipment Data".charging_infrastructure.deleted_at IS
+  'Set when the item is moved to the recycle bin; the row is purged 30 days later';
+
+CREATE INDEX IF NOT EXISTS charging_infrastructure_organization_idx
+  ON "04. Equipment Data".charging_infrastructure (organization_id)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS charging_infrastructure_deleted_idx
+  ON "04. Equipment Data".charging_infrastructure (organization_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE "04. Equipment Data".equipment
+  ADD COLUMN IF NOT EXISTS featured_image text;
@@ -0,0 +1,68 @@
+-- Migration: Persistent API cache statistics
+-- Hit/miss, eviction and upstream latency/error counters per cache source.
+-- Each server instance adds its counts periodically, so the Data Quality
+-- dashboard shows totals across instances and restarts.
+
+CREATE TABLE IF NOT EXISTS "03. Vehicle Data".api_cache_stats (
+  -- Cache key prefix, e.g. 'nhtsa' or 'epa'
+  source character varying PRIMARY KEY,
+  hits bigint NOT NULL DEFAULT 0,
+  misses bigint NOT NULL DEFAULT 0,
+  writes bigint NOT NULL DEFAULT 0,
+  evictions bigint NOT NULL DEFAULT 0,
+  upstream_calls bigint NOT NULL DEFAULT 0,
+  upstream_errors bigint NOT NULL DEFAULT 0,
+  total_upstream_ms bigint NOT NULL DEFAULT 0,
+  last_upstream_error text,
+  last_upstream_error_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Add one instance's counts to a source's totals. The last error is kept
+-- only if it is newer than the one already stored.
+CREATE OR REPLACE FUNCTION "03. Vehicle Data".api_cache_add_stats(
+  p_source text,
+  p_hits bigint,
+  p_misses bigint,
+  p_writes bigint,
+  p_evictions bigint,
+  p_upstream_calls bigint,
+  p_upstream_errors bigint,
+  p_total_upstream_ms bigint,
+  p_last_upstream_error text,
+  p_last_upstream_error_at timestamp with time zone
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO "03. Vehicle Data".api_cache_stats AS s (
+    source, hits, misses, writes, evictions, upstream_calls, upstream_errors,
+    total_upstream_ms, last_upstream_error, last_upstream_error_at
+  )
+  VALUES (
+    p_source, p_hits, p_misses, p_writes, p_evictions, p_upstream_calls, p_upstream_errors,
+    p_total_upstream_ms, p_last_upstream_error, p_last_upstream_error_at
+  )
+  ON CONFLICT (source) DO UPDATE
+  SET
+    hits = s.hits + EXCLUDED.hits,
+    misses = s.misses + EXCLUDED.misses,
+    writes = s.writes + EXCLUDED.writes,
+    evictions = s.evictions + EXCLUDED.evictions,
+    upstream_calls = s.upstream_calls + EXCLUDED.upstream_calls,
+    upstream_errors = s.upstream_errors + EXCLUDED.upstream_errors,
+    total_upstream_ms = s.total_upstream_ms + EXCLUDED.total_upstream_ms,
+    last_upstream_error = CASE
+      WHEN EXCLUDED.last_upstream_error_at IS NOT NULL
+        AND (s.last_upstream_error_at IS NULL OR EXCLUDED.last_upstream_error_at > s.last_upstream_error_at)
+      THEN EXCLUDED.last_upstream_error
+      ELSE s.last_upstream_error
+    END,
+    last_upstream_error_at = GREATEST(s.last_upstream_error_at, EXCLUDED.last_upstream_error_at),
+    updated_at = now();
+$$;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON "03. Vehicle Data".api_cache_stats TO service_role;
@@ -0,0 +1,57 @@
+-- Migration: Exclude recycle bin listings from listing analytics
+-- Listings in the recycle bin (deleted_at set) no longer appear in the
+-- per-listing performance table or the location totals built from it.
+-- CREATE OR REPLACE keeps the EXECUTE revoke from the original migration.
+
+-- Per-listing counters, period activity and days on market
+CREATE OR REPLACE FUNCTION "02a. Dealership".get_dealer_listing_performance(
+  p_dealer_id bigint,
+  p_start timestamp with time zone,
+  p_end timestamp with time zone
+)
+RETURNS TABLE (
+  listing_id bigint,
+  listing_title text,
+  vin text,
+  stock_number text,
+  status text,
+  asking_price numeric,
+  location_city text,
+  location_state text,
+  view_count integer,
+  lead_count bigint,
+  favorite_count integer,
+  period_views bigint,
+  period_leads bigint,
+  listed_at timestamp with time zone,
+  sold_at timestamp with time zone,
+  days_on_market integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    vl.id,
+    vl.listing_title::text,
+    vl.vin::text,
+    vl.stock_number::text,
+    vl.listing_status::text,
+    vl.asking_price,
+    vl.location_city::text,
+    vl.location_state::text,
+    vl.view_count,
+    (SELECT count(*) FROM "02a. Dealership".leads l WHERE l.listing_id = vl.id),
+    vl.favorite_count,
+    (SELECT count(*) FROM "02a. Dealership".listing_views v
+      WHERE v.listing_id = vl.id AND v.viewed_at >= p_start AND v.viewed_at < p_end),
+    (SELECT count(*) FROM "02a. Dealership".leads l
+      WHERE l.listing_id = vl.id AND l.created_at >= p_start AND l.created_at < p_end),
+    COALESCE(vl.published_at, vl.created_at),
+    vl.sold_at,
+    GREATEST(0, EXTRACT(DAY FROM COALESCE(vl.sold_at, now()) - COALESCE(vl.published_at, vl.created_at)))::integer
+  FROM "02a. Dealership".vehicle_listings vl
+  WHERE vl.dealer_id = p_dealer_id
+    AND vl.deleted_at IS NULL;
+$$;